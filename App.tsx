@@ -6,14 +6,33 @@ import {
   getInitialProgress,
   validateTaskCompletion,
   updateProgress,
+  getReviewGrade,
+  recordAttempt,
+  createAttempt,
+  getLastSolve,
+  getTaskForStep,
+  getScenarioStep,
+  getStartingProject,
+  advanceScenario,
   getProgressStats,
   saveProgress,
   resetProgress,
   completeAllTasks,
   startNewRound,
   hardResetProgress,
+  createProjectState,
+  PROGRESS_VERSION,
+  selectTrack,
+  getTrackTasks,
+  getMissingPrerequisites,
+  LEARNING_TRACKS,
+  DEFAULT_TRACK_KEY,
+  NPM_COMMANDS,
   Task,
   UserProgress,
+  ProjectState,
+  SourceRange,
+  HintLevel,
 } from './src/core';
 import {
   initializeAnalytics,
@@ -28,15 +47,22 @@ import {
 export default function App() {
   const [tasks] = useState<Task[]>(generateTasks());
   const [progress, setProgress] = useState<UserProgress>({
+    version: PROGRESS_VERSION,
     currentTaskId: 1,
-    completedTaskIds: [],
-    totalTasks: generateTasks().length,
+    completedTaskKeys: [],
+    totalTasks: getTrackTasks(DEFAULT_TRACK_KEY, tasks).length,
     completionCount: 0,
-    taskOrder: tasks.map((_, i) => i + 1),
+    trackKey: DEFAULT_TRACK_KEY,
+    taskOrder: getTrackTasks(DEFAULT_TRACK_KEY, tasks).map(task => task.key),
+    attempts: {},
+    scenarioSteps: {},
+    reviews: {},
   });
   const [currentTask, setCurrentTask] = useState<Task | null>(null);
+  const [project, setProject] = useState<ProjectState>(createProjectState());
   const [userInput, setUserInput] = useState('');
   const [feedback, setFeedback] = useState('');
+  const [errorHighlight, setErrorHighlight] = useState<{ input: string; range: SourceRange } | null>(null);
   const [output, setOutput] = useState('');
   const [lastCommand, setLastCommand] = useState('');
   const [previousOutput, setPreviousOutput] = useState('');
@@ -44,6 +70,7 @@ export default function App() {
   const [previousFeedback, setPreviousFeedback] = useState('');
   const [showSolution, setShowSolution] = useState(false);
   const [showHint, setShowHint] = useState(false);
+  const [failedAttempts, setFailedAttempts] = useState(0);
   const [jumpToTask, setJumpToTask] = useState('');
   const [showJumpInput, setShowJumpInput] = useState(false);
   const [suggestions, setSuggestions] = useState<string[]>([]);
@@ -63,11 +90,15 @@ export default function App() {
   useEffect(() => {
     // Get task based on taskOrder
     const taskIndex = progress.currentTaskId - 1;
-    const actualTaskId = progress.taskOrder[taskIndex];
-    const task = tasks.find(t => t.id === actualTaskId);
+    const taskKey = progress.taskOrder[taskIndex];
+    const task = tasks.find(t => t.key === taskKey);
     setCurrentTask(task || null);
+    if (task) {
+      setProject(current => getStartingProject(task, getScenarioStep(progress, task.key), current));
+    }
     setShowSolution(false); // Reset solution visibility for new task
     setShowHint(false); // Reset hint visibility for new task
+    setFailedAttempts(0); // Feedback starts vague again for a new task
     
     // Hidden feature: Alt+T to show jump to task input
     const handleKeyPress = (e: KeyboardEvent) => {
@@ -134,11 +165,15 @@ export default function App() {
       } else if (['list', 'ls', 'll', 'la'].includes(command)) {
         allSuggestions = ['-g', '--global', '--depth', '0', '--json'];
       } else if (['cache'].includes(command)) {
-        allSuggestions = ['clean', 'verify', '--force', '-f'];
+        allSuggestions = ['clean', 'verify', 'ls', 'add', '--force', '-f'];
       } else if (['search', 's', 'se', 'find'].includes(command)) {
         allSuggestions = ['--long', '--json'];
       } else if (['view', 'info', 'show'].includes(command)) {
         allSuggestions = ['lodash', 'express', 'react', 'axios', 'chalk', '--json'];
+      } else if (commandParts.length === 2) {
+        // Suggest subcommands (e.g. "npm hook add") for commands that have them
+        const npmCommand = NPM_COMMANDS.find(cmd => cmd.name === command || cmd.aliases?.includes(command));
+        allSuggestions = npmCommand?.subcommands?.map(sub => sub.name) ?? [];
       }
       
       // Filter suggestions by partial match
@@ -172,7 +207,7 @@ export default function App() {
       
       // Log solution viewed (analytics - works offline)
       if (currentTask) {
-        logSolutionViewed(currentTask.id);
+        logSolutionViewed(currentTask.key);
       }
       
       setTimeout(() => {
@@ -196,8 +231,10 @@ export default function App() {
     if (userInput.trim() === 'hard-reset') {
       const newProgress = await hardResetProgress();
       setProgress(newProgress);
+      setProject(createProjectState());
       setUserInput('');
       setFeedback('🔄 Hard reset complete!');
+      setErrorHighlight(null);
       setPreviousOutput('');
       setPreviousCommand('');
       setPreviousFeedback('');
@@ -206,21 +243,52 @@ export default function App() {
       return;
     }
 
-    const result = validateTaskCompletion(currentTask, userInput);
+    // Tasks unlock once their prerequisites are completed
+    if (getMissingPrerequisites(currentTask, progress).length > 0) {
+      setFeedback('🔒 This task is locked. Complete the tasks it needs first.');
+      return;
+    }
+
+    // Feedback gets more specific with each wrong answer, and names the fix once the solution is shown
+    const hintLevel: HintLevel = showSolution ? 'answer' : failedAttempts === 0 ? 'general' : 'specific';
+    const step = getScenarioStep(progress, currentTask.key);
+    const result = validateTaskCompletion(currentTask, userInput, project, hintLevel, step);
+    const attempt = createAttempt(userInput, result, { hintShown: showHint, solutionShown: showSolution }, currentTask.steps ? step : undefined);
 
     // Log command entered (analytics - works offline)
     logCommandEntered(userInput, result.isCorrect);
 
-    if (result.isCorrect) {
+    if (result.isCorrect && result.nextStep !== undefined) {
+      // Scenario step done: save it and stay on the task for the next step
+      setFeedback('✅ ' + result.message);
+      setErrorHighlight(null);
+      setOutput(result.output || '');
+      setLastCommand(userInput);
+      if (result.project) {
+        setProject(result.project);
+      }
+      setProgress(advanceScenario(recordAttempt(progress, currentTask.key, attempt), currentTask.key, result.nextStep));
+      setShowSolution(false);
+      setShowHint(false);
+      setFailedAttempts(0);
+      setUserInput('');
+      inputRef.current?.focus();
+    } else if (result.isCorrect) {
       setFeedback('✅ ' + result.message);
+      setErrorHighlight(null);
       setOutput(result.output || '');
       setLastCommand(userInput);
+      if (result.project) {
+        setProject(result.project);
+      }
+      
+      // Update progress and move to the next task the scheduler picks
+      const grade = getReviewGrade(failedAttempts, attempt);
+      const newProgress = updateProgress(recordAttempt(progress, currentTask.key, attempt), currentTask.key, grade);
       
-      // Log task completion (analytics - works offline)
-      logTaskCompleted(currentTask.id, currentTask.commandName);
+      // Log task completion with the answers it took (analytics - works offline)
+      logTaskCompleted(currentTask.key, currentTask.commandName, getLastSolve(newProgress, currentTask.key)?.attempts.length);
       
-      // Update progress and move to next task
-      const newProgress = updateProgress(progress, currentTask.id);
       setProgress(newProgress);
       
       // Update user properties (analytics - works offline)
@@ -243,15 +311,27 @@ export default function App() {
         inputRef.current?.focus();
       }, 100);
     } else {
-      setFeedback('❌ ' + result.message);
-      setOutput('');
-      setLastCommand('');
+      setFeedback(`❌ ${result.message}${result.score.score > 0 ? ` (${result.score.score}% there)` : ''}`);
+      setProgress(recordAttempt(progress, currentTask.key, attempt));
+      setFailedAttempts(failedAttempts + 1);
+      setErrorHighlight(result.errorRange ? { input: userInput, range: result.errorRange } : null);
+      // Outcome tasks run every command, so the project keeps each step towards the goal
+      if (result.project) {
+        setProject(result.project);
+      }
+      setOutput(result.output || '');
+      setLastCommand(result.output ? userInput : '');
       // Keep focus on input
       inputRef.current?.focus();
     }
   };
 
   const stats = getProgressStats(progress);
+  const scenarioStep = currentTask ? getScenarioStep(progress, currentTask.key) : 0;
+  const shownTask = currentTask ? getTaskForStep(currentTask, scenarioStep) : null;
+  const lockedBy = currentTask
+    ? getMissingPrerequisites(currentTask, progress).map(key => tasks.find(task => task.key === key)?.title || key)
+    : [];
 
   const insertSuggestion = (suggestion: string) => {
     const input = userInput.trim();
@@ -316,7 +396,7 @@ export default function App() {
   };
 
   const goToNextTask = () => {
-    if (progress.currentTaskId < tasks.length) {
+    if (progress.currentTaskId < progress.taskOrder.length) {
       const newProgress = { ...progress, currentTaskId: progress.currentTaskId + 1 };
       setProgress(newProgress);
       setUserInput('');
@@ -339,7 +419,7 @@ export default function App() {
 
   const handleJumpToTask = () => {
     const taskNum = parseInt(jumpToTask);
-    if (taskNum >= 1 && taskNum <= tasks.length) {
+    if (taskNum >= 1 && taskNum <= progress.taskOrder.length) {
       const newProgress = { ...progress, currentTaskId: taskNum };
       setProgress(newProgress);
       setUserInput('');
@@ -351,12 +431,25 @@ export default function App() {
     }
   };
 
+  const handleSelectTrack = (trackKey: string) => {
+    if (trackKey === progress.trackKey) {
+      return;
+    }
+    setProgress(selectTrack(progress, trackKey));
+    setProject(createProjectState());
+    setUserInput('');
+    setFeedback('');
+    setOutput('');
+    setLastCommand('');
+  };
+
   const handleStartNewRound = async () => {
     // Log round completion (analytics - works offline)
-    logRoundCompleted(progress.completionCount, progress.completedTaskIds.length);
+    logRoundCompleted(progress.completionCount, progress.completedTaskKeys.length);
     
     const newProgress = await startNewRound(progress);
     setProgress(newProgress);
+    setProject(createProjectState());
     setUserInput('');
     setFeedback('');
     setOutput('');
@@ -380,6 +473,7 @@ export default function App() {
     logProgressReset(progress.completionCount);
     
     setProgress(newProgress);
+    setProject(createProjectState());
     setUserInput('');
     setFeedback('');
     setOutput('');
@@ -436,7 +530,21 @@ export default function App() {
           </TouchableOpacity>
         </View>
 
-        {currentTask ? (
+        <ScrollView horizontal style={styles.trackRow} showsHorizontalScrollIndicator={false}>
+          {LEARNING_TRACKS.map(track => (
+            <TouchableOpacity
+              key={track.key}
+              style={[styles.trackButton, track.key === progress.trackKey && styles.trackButtonSelected]}
+              onPress={() => handleSelectTrack(track.key)}
+            >
+              <Text style={[styles.trackButtonText, track.key === progress.trackKey && styles.trackButtonTextSelected]}>
+                {track.title}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+
+        {currentTask && shownTask ? (
           <>
             <View style={styles.navigationRow}>
               <TouchableOpacity 
@@ -447,12 +555,12 @@ export default function App() {
                 <Text style={styles.navButtonText}>← Previous</Text>
               </TouchableOpacity>
               
-              <Text style={styles.taskCounter}>{progress.currentTaskId} / {tasks.length}</Text>
+              <Text style={styles.taskCounter}>{progress.currentTaskId} / {progress.taskOrder.length}</Text>
               
               <TouchableOpacity 
-                style={[styles.navButton, progress.currentTaskId === tasks.length && styles.navButtonDisabled]} 
+                style={[styles.navButton, progress.currentTaskId === progress.taskOrder.length && styles.navButtonDisabled]} 
                 onPress={goToNextTask}
-                disabled={progress.currentTaskId === tasks.length}
+                disabled={progress.currentTaskId === progress.taskOrder.length}
               >
                 <Text style={styles.navButtonText}>Next →</Text>
               </TouchableOpacity>
@@ -488,16 +596,25 @@ export default function App() {
             <View style={styles.taskCard}>
               <Text style={styles.taskNumber}>Task {currentTask.id}</Text>
               <Text style={styles.taskTitle}>{currentTask.title}</Text>
-              <Text style={styles.taskDescription}>{currentTask.description}</Text>
+              {lockedBy.length > 0 && (
+                <Text style={styles.lockedNote}>🔒 Unlocks after: {lockedBy.join(', ')}</Text>
+              )}
+              {currentTask.steps && (
+                <>
+                  <Text style={styles.taskDescription}>{currentTask.description}</Text>
+                  <Text style={styles.stepCounter}>Step {scenarioStep + 1} of {currentTask.steps.length}</Text>
+                </>
+              )}
+              <Text style={styles.taskDescription}>{shownTask.description}</Text>
               
-              {currentTask.hint && showHint && !showSolution && (
+              {shownTask.hint && showHint && !showSolution && (
                 <View style={styles.hintBox}>
-                  <Text style={styles.hint}>💡 {currentTask.hint}</Text>
+                  <Text style={styles.hint}>💡 {shownTask.hint}</Text>
                 </View>
               )}
               
               <View style={styles.buttonRow}>
-                {currentTask.hint && !showHint && !showSolution && (
+                {shownTask.hint && !showHint && !showSolution && (
                   <TouchableOpacity 
                     style={styles.hintButton} 
                     onPress={() => setShowHint(true)}
@@ -509,9 +626,9 @@ export default function App() {
                 {showSolution ? (
                   <View style={styles.solutionBox}>
                     <Text style={styles.solutionTitle}>✨ Solution:</Text>
-                    <Text style={styles.solutionCommand}>{currentTask.expectedCommand}</Text>
-                    {currentTask.commandExplanation && (
-                      <Text style={styles.solutionExplanation}>{currentTask.commandExplanation}</Text>
+                    <Text style={styles.solutionCommand}>{shownTask.expectedCommand}</Text>
+                    {shownTask.commandExplanation && (
+                      <Text style={styles.solutionExplanation}>{shownTask.commandExplanation}</Text>
                     )}
                   </View>
                 ) : (
@@ -576,6 +693,15 @@ export default function App() {
             {feedback && (
               <View style={styles.feedbackCard}>
                 <Text style={styles.feedbackText}>{feedback}</Text>
+                {errorHighlight && (
+                  <Text style={styles.errorInputText}>
+                    {errorHighlight.input.slice(0, errorHighlight.range.start)}
+                    <Text style={styles.errorHighlightText}>
+                      {errorHighlight.input.slice(errorHighlight.range.start, errorHighlight.range.end)}
+                    </Text>
+                    {errorHighlight.input.slice(errorHighlight.range.end)}
+                  </Text>
+                )}
               </View>
             )}
 
@@ -601,7 +727,7 @@ export default function App() {
           <View style={styles.completionCard}>
             <Text style={styles.completionTitle}>🎉 Congratulations!</Text>
             <Text style={styles.completionText}>
-              You've completed all {stats.total} npm command tasks!
+              You've completed all {stats.total} tasks in this track!
             </Text>
             {progress.completionCount > 0 && (
               <View style={styles.completionCountBadge}>
@@ -612,7 +738,7 @@ export default function App() {
             )}
             <TouchableOpacity style={styles.newRoundButton} onPress={handleStartNewRound}>
               <Text style={styles.newRoundButtonText}>
-                🔄 Start New Round {progress.completionCount > 0 ? '(Random Order)' : ''}
+                🔄 Start New Round {progress.completionCount > 0 ? '(Weakest First)' : ''}
               </Text>
             </TouchableOpacity>
           </View>
@@ -764,6 +890,30 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#6366f1',
   },
+  trackRow: {
+    marginBottom: 12,
+  },
+  trackButton: {
+    backgroundColor: '#fff',
+    borderColor: '#6366f1',
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    marginRight: 8,
+    cursor: Platform.OS === 'web' ? 'pointer' : undefined,
+  } as any,
+  trackButtonSelected: {
+    backgroundColor: '#6366f1',
+  },
+  trackButtonText: {
+    color: '#6366f1',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  trackButtonTextSelected: {
+    color: '#fff',
+  },
   jumpCard: {
     backgroundColor: '#fef3c7',
     borderRadius: 8,
@@ -838,6 +988,17 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     marginBottom: 5,
   },
+  stepCounter: {
+    fontSize: 12,
+    color: '#6366f1',
+    fontWeight: 'bold',
+    marginBottom: 5,
+  },
+  lockedNote: {
+    fontSize: 13,
+    color: '#b45309',
+    marginBottom: 8,
+  },
   taskTitle: {
     fontSize: 20,
     fontWeight: 'bold',
@@ -1013,6 +1174,17 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#333',
   },
+  errorInputText: {
+    fontSize: 14,
+    fontFamily: 'monospace',
+    color: '#333',
+    marginTop: 8,
+  },
+  errorHighlightText: {
+    color: '#d32f2f',
+    backgroundColor: '#ffebee',
+    textDecorationLine: 'underline',
+  },
   outputCard: {
     backgroundColor: '#1e1e1e',
     borderRadius: 12,
@@ -0,0 +1,32 @@
+/**
+ * Task Content Check
+ * Checks taskData.ts against the command definitions, offline, and fails on any problem
+ */
+
+require('./tests/register');
+
+const { checkContent } = require('./src/core/contentCheck.ts');
+const { TASK_DEFINITIONS } = require('./src/core/taskData.ts');
+
+const problems = checkContent();
+
+if (problems.length === 0) {
+  console.log(`✅ ${TASK_DEFINITIONS.length} tasks checked, no problems found`);
+  process.exit(0);
+}
+
+// Group problems by kind
+const byKind = {};
+for (const problem of problems) {
+  (byKind[problem.kind] = byKind[problem.kind] || []).push(problem);
+}
+
+for (const [kind, kindProblems] of Object.entries(byKind)) {
+  console.log(`\n❌ ${kind} (${kindProblems.length})`);
+  for (const problem of kindProblems) {
+    console.log(`  ${problem.target}: ${problem.message}`);
+  }
+}
+
+console.log(`\n${problems.length} problem(s) found in ${TASK_DEFINITIONS.length} tasks`);
+process.exit(1);
@@ -55,12 +55,12 @@ export function initializeAnalytics() {
 /**
  * Log task completion event
  */
-export function logTaskCompleted(taskId: number, commandName: string, attempts: number = 1) {
+export function logTaskCompleted(taskKey: string, commandName: string, attempts: number = 1) {
   if (!analytics) return;
   
   try {
     logEvent(analytics, 'task_completed', {
-      task_id: taskId,
+      task_key: taskKey,
       command: commandName,
       attempts: attempts,
     });
@@ -88,12 +88,12 @@ export function logCommandEntered(command: string, isCorrect: boolean) {
 /**
  * Log user viewing solution
  */
-export function logSolutionViewed(taskId: number) {
+export function logSolutionViewed(taskKey: string) {
   if (!analytics) return;
   
   try {
     logEvent(analytics, 'solution_viewed', {
-      task_id: taskId,
+      task_key: taskKey,
     });
   } catch (error) {
     console.warn('Analytics event failed (solution_viewed):', error);
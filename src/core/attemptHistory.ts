@@ -0,0 +1,90 @@
+/**
+ * Attempt History
+ * Queries over the answers recorded in progress: attempts per solve, time to solve and help used
+ */
+
+import type { TaskAttempt, UserProgress } from './taskSystem';
+
+/**
+ * The answers given from starting a task to completing it
+ */
+export interface TaskSolve {
+  attempts: TaskAttempt[]; // Oldest first, the last one completed the task
+  timeToSolve: number; // Milliseconds from the first answer to the completing one
+  withoutHelp: boolean; // Neither the hint nor the solution was shown
+}
+
+export interface AttemptStats {
+  attempts: number;
+  correct: number;
+  solves: number;
+  solvesWithoutHelp: number;
+  averageAttemptsToSolve: number; // 0 when nothing is solved yet
+  averageTimeToSolve: number; // Milliseconds, 0 when nothing is solved yet
+}
+
+/**
+ * Get every answer given to a task, oldest first
+ */
+export function getTaskAttempts(progress: UserProgress, taskKey: string): TaskAttempt[] {
+  return progress.attempts[taskKey] || [];
+}
+
+/**
+ * Split a task's answers into solves
+ * Answers after the last completion belong to no solve yet, see getOpenAttempts
+ */
+export function getTaskSolves(progress: UserProgress, taskKey: string): TaskSolve[] {
+  const solves: TaskSolve[] = [];
+  let current: TaskAttempt[] = [];
+
+  for (const attempt of getTaskAttempts(progress, taskKey)) {
+    current.push(attempt);
+    if (attempt.completed) {
+      solves.push({
+        attempts: current,
+        timeToSolve: attempt.timestamp - current[0].timestamp,
+        withoutHelp: current.every(answer => !answer.hintShown && !answer.solutionShown),
+      });
+      current = [];
+    }
+  }
+
+  return solves;
+}
+
+/**
+ * Get the answers given since the task was last completed
+ */
+export function getOpenAttempts(progress: UserProgress, taskKey: string): TaskAttempt[] {
+  const attempts = getTaskAttempts(progress, taskKey);
+  const lastCompleted = attempts.map(attempt => attempt.completed).lastIndexOf(true);
+  return attempts.slice(lastCompleted + 1);
+}
+
+/**
+ * Get the most recent solve of a task, or null when it was never completed
+ */
+export function getLastSolve(progress: UserProgress, taskKey: string): TaskSolve | null {
+  const solves = getTaskSolves(progress, taskKey);
+  return solves.length > 0 ? solves[solves.length - 1] : null;
+}
+
+/**
+ * Summarize the answers to every task
+ */
+export function getAttemptStats(progress: UserProgress): AttemptStats {
+  const keys = Object.keys(progress.attempts);
+  const attempts = keys.flatMap(key => getTaskAttempts(progress, key));
+  const solves = keys.flatMap(key => getTaskSolves(progress, key));
+  const average = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+
+  return {
+    attempts: attempts.length,
+    correct: attempts.filter(attempt => attempt.isCorrect).length,
+    solves: solves.length,
+    solvesWithoutHelp: solves.filter(solve => solve.withoutHelp).length,
+    averageAttemptsToSolve: average(solves.map(solve => solve.attempts.length)),
+    averageTimeToSolve: average(solves.map(solve => solve.timeToSolve)),
+  };
+}
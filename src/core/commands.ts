@@ -3,18 +3,43 @@
  * Contains all 65+ npm commands with their aliases and parameters
  */
 
+import { ParameterValueSchema } from './parameterSchema';
+
 export interface CommandParameter {
   name: string;
   aliases?: string[];
   description: string;
   requiresValue?: boolean;
+  value?: ParameterValueSchema; // Overrides the shared schema in PARAMETER_SCHEMAS
+}
+
+export interface PositionalArgument {
+  name: string; // Shown in usage, e.g. "package-spec"
+  description: string; // Used in errors, e.g. "Missing package name"
+  value?: ParameterValueSchema;
+  optional?: boolean;
+  variadic?: boolean; // Takes all remaining arguments, must come last
+  keyValuePairs?: boolean; // Takes key=value pairs, which can also be written as "key value"
+}
+
+export interface NpmSubcommand {
+  name: string;
+  aliases?: string[];
+  description: string;
+  positionals?: PositionalArgument[]; // Undeclared positionals are accepted as-is
+  parameters: CommandParameter[]; // In addition to the command's own parameters
+  mockOutput?: string; // Falls back to the command's mock output
 }
 
 export interface NpmCommand {
   name: string;
   aliases?: string[];
   description: string;
+  positionals?: PositionalArgument[]; // Undeclared positionals are accepted as-is
   parameters: CommandParameter[];
+  subcommands?: NpmSubcommand[];
+  defaultSubcommand?: string; // Used when no subcommand is given, otherwise one is required
+  shortcutFor?: { command: string; subcommand: string }; // e.g. "npm get" runs "npm config get"
   mockOutput: string;
 }
 
@@ -23,9 +48,13 @@ export const NPM_COMMANDS: NpmCommand[] = [
     name: 'init',
     aliases: ['create', 'innit'],
     description: 'Create a package.json file',
+    positionals: [
+      { name: 'initializer', description: 'initializer package', optional: true },
+      { name: 'args', description: 'initializer arguments', optional: true, variadic: true },
+    ],
     parameters: [
-      { name: '-y', aliases: ['--yes'], description: 'Use default values', requiresValue: false },
-      { name: '-f', aliases: ['--force'], description: 'Force creation', requiresValue: false },
+      { name: '--yes', aliases: ['-y'], description: 'Use default values', requiresValue: false },
+      { name: '--force', aliases: ['-f'], description: 'Force creation', requiresValue: false },
       { name: '--scope', description: 'Set package scope (e.g., @mycompany)', requiresValue: true },
       { name: '--init-author-name', description: 'Set author name', requiresValue: true },
       { name: '--init-author-email', description: 'Set author email (works with name)', requiresValue: true },
@@ -35,8 +64,8 @@ export const NPM_COMMANDS: NpmCommand[] = [
       { name: '--init-type', description: 'Set package type (commonjs or module)', requiresValue: true },
       { name: '--init-module', description: 'Path to custom init script', requiresValue: true },
       { name: '--init-private', description: 'Mark package as private', requiresValue: false },
-      { name: '-w', aliases: ['--workspace'], description: 'Initialize in workspace', requiresValue: true },
-      { name: '--workspaces', description: 'Initialize all workspaces', requiresValue: false },
+      { name: '--workspace', aliases: ['-w'], description: 'Initialize in workspace', requiresValue: true },
+      { name: '--workspaces', aliases: ['-ws'], description: 'Initialize all workspaces', requiresValue: false },
       { name: '--include-workspace-root', description: 'Include workspace root', requiresValue: false },
     ],
     mockOutput: 'Wrote to package.json:\n\n{\n  "name": "my-project",\n  "version": "1.0.0",\n  "description": "",\n  "main": "index.js",\n  "scripts": {\n    "test": "echo \\"Error: no test specified\\" && exit 1"\n  },\n  "keywords": [],\n  "author": "",\n  "license": "ISC",\n  "type": "commonjs"\n}',
@@ -45,16 +74,17 @@ export const NPM_COMMANDS: NpmCommand[] = [
     name: 'install',
     aliases: ['i', 'add', 'in', 'ins', 'inst', 'insta', 'instal', 'isnt', 'isnta', 'isntal', 'isntall'],
     description: 'Install packages',
+    positionals: [{ name: 'package-spec', description: 'package name', value: { type: 'package-spec' }, optional: true, variadic: true }],
     parameters: [
       // Save options
       { name: '--save', aliases: ['-S'], description: 'Save to dependencies (default)', requiresValue: false },
-      { name: '--save-prod', description: 'Save to dependencies (default)', requiresValue: false },
+      { name: '--save-prod', aliases: ['-P'], description: 'Save to dependencies (default)', requiresValue: false },
       { name: '--no-save', description: 'Prevent saving to package.json', requiresValue: false },
       { name: '--save-dev', aliases: ['-D'], description: 'Save to devDependencies', requiresValue: false },
       { name: '--save-exact', aliases: ['-E'], description: 'Save exact version', requiresValue: false },
       { name: '--save-optional', description: 'Save to optionalDependencies', requiresValue: false },
       { name: '--save-peer', description: 'Save to peerDependencies', requiresValue: false },
-      { name: '--save-bundle', description: 'Save to bundleDependencies', requiresValue: false },
+      { name: '--save-bundle', aliases: ['-B'], description: 'Save to bundleDependencies', requiresValue: false },
       // Installation location
       { name: '--global', aliases: ['-g'], description: 'Install globally', requiresValue: false },
       // Installation strategy
@@ -89,7 +119,7 @@ export const NPM_COMMANDS: NpmCommand[] = [
       { name: '--libc', description: 'Filter by libc implementation', requiresValue: true },
       // Workspace support
       { name: '--workspace', aliases: ['-w'], description: 'Install in specific workspace', requiresValue: true },
-      { name: '--workspaces', description: 'Install in all workspaces', requiresValue: false },
+      { name: '--workspaces', aliases: ['-ws'], description: 'Install in all workspaces', requiresValue: false },
       { name: '--include-workspace-root', description: 'Include workspace root', requiresValue: false },
       { name: '--install-links', description: 'Install file: protocol deps as symlinks', requiresValue: false },
     ],
@@ -99,13 +129,15 @@ export const NPM_COMMANDS: NpmCommand[] = [
     name: 'uninstall',
     aliases: ['remove', 'rm', 'r', 'un', 'unlink'],
     description: 'Remove packages',
+    positionals: [{ name: 'package', description: 'package name', value: { type: 'package-spec' }, variadic: true }],
     parameters: [
       { name: '--global', aliases: ['-g'], description: 'Uninstall globally', requiresValue: false },
       { name: '--save', aliases: ['-S'], description: 'Remove from dependencies', requiresValue: false },
       { name: '--save-dev', aliases: ['-D'], description: 'Remove from devDependencies', requiresValue: false },
       { name: '--workspace', aliases: ['-w'], description: 'Uninstall from specific workspace', requiresValue: true },
-      { name: '--workspaces', description: 'Uninstall from all workspaces', requiresValue: false },
+      { name: '--workspaces', aliases: ['-ws'], description: 'Uninstall from all workspaces', requiresValue: false },
       { name: '--include-workspace-root', description: 'Include workspace root', requiresValue: false },
+      { name: '--install-links', description: 'Install file: protocol deps as symlinks', requiresValue: false },
     ],
     mockOutput: '\nremoved 1 package, and audited 1 package in 1.5s\n\nfound 0 vulnerabilities',
   },
@@ -113,11 +145,34 @@ export const NPM_COMMANDS: NpmCommand[] = [
     name: 'install-test',
     aliases: ['it'],
     description: 'Install package(s) and run tests',
+    positionals: [{ name: 'package-spec', description: 'package name', value: { type: 'package-spec' }, optional: true, variadic: true }],
     parameters: [
       // Same as install - inherits all install parameters
       { name: '--save-dev', aliases: ['-D'], description: 'Save to devDependencies', requiresValue: false },
+      { name: '--no-save', description: 'Prevent saving to package.json', requiresValue: false },
+      { name: '--save-exact', aliases: ['-E'], description: 'Save exact version', requiresValue: false },
       { name: '--global', aliases: ['-g'], description: 'Install globally', requiresValue: false },
+      { name: '--install-strategy', description: 'Installation strategy (hoisted, nested, shallow, linked)', requiresValue: true },
+      { name: '--prefer-dedupe', description: 'Prefer deduping over installing', requiresValue: false },
+      { name: '--omit', description: 'Omit dependency types (dev, optional, peer)', requiresValue: true },
+      { name: '--include', description: 'Include dependency types', requiresValue: true },
+      { name: '--no-package-lock', description: 'Don\'t read/write package-lock.json', requiresValue: false },
+      { name: '--package-lock-only', description: 'Only update package-lock.json', requiresValue: false },
+      { name: '--ignore-scripts', description: 'Skip running scripts', requiresValue: false },
+      { name: '--foreground-scripts', description: 'Run scripts in foreground', requiresValue: false },
+      { name: '--strict-peer-deps', description: 'Fail on peer dependency conflicts', requiresValue: false },
+      { name: '--no-audit', description: 'Skip security audit', requiresValue: false },
       { name: '--dry-run', description: 'Preview without installing', requiresValue: false },
+      { name: '--no-bin-links', description: 'Don\'t create symlinks for binaries', requiresValue: false },
+      { name: '--no-fund', description: 'Hide funding info', requiresValue: false },
+      { name: '--before', description: 'Install versions published before date', requiresValue: true },
+      { name: '--cpu', description: 'Filter by CPU architecture', requiresValue: true },
+      { name: '--os', description: 'Filter by operating system', requiresValue: true },
+      { name: '--libc', description: 'Filter by libc implementation', requiresValue: true },
+      { name: '--workspace', aliases: ['-w'], description: 'Install in specific workspace', requiresValue: true },
+      { name: '--workspaces', aliases: ['-ws'], description: 'Install in all workspaces', requiresValue: false },
+      { name: '--include-workspace-root', description: 'Include workspace root', requiresValue: false },
+      { name: '--install-links', description: 'Install file: protocol deps as symlinks', requiresValue: false },
     ],
     mockOutput: '\nadded 1 package, and audited 2 packages in 3s\n\nfound 0 vulnerabilities\n\n> test\n> echo "Error: no test specified" && exit 1',
   },
@@ -125,9 +180,23 @@ export const NPM_COMMANDS: NpmCommand[] = [
     name: 'install-ci-test',
     aliases: ['cit'],
     description: 'Clean install and run tests',
+    positionals: [],
     parameters: [
       // Same as ci - inherits all ci parameters
+      { name: '--install-strategy', description: 'Installation strategy', requiresValue: true },
+      { name: '--omit', description: 'Omit dependency types', requiresValue: true },
+      { name: '--include', description: 'Include dependency types', requiresValue: true },
+      { name: '--strict-peer-deps', description: 'Fail on peer dependency conflicts', requiresValue: false },
+      { name: '--foreground-scripts', description: 'Run scripts in foreground', requiresValue: false },
       { name: '--ignore-scripts', description: 'Skip running scripts', requiresValue: false },
+      { name: '--no-audit', description: 'Skip security audit', requiresValue: false },
+      { name: '--no-bin-links', description: 'Don\'t create symlinks for binaries', requiresValue: false },
+      { name: '--no-fund', description: 'Hide funding info', requiresValue: false },
+      { name: '--dry-run', description: 'Preview without installing', requiresValue: false },
+      { name: '--workspace', aliases: ['-w'], description: 'Install in specific workspace', requiresValue: true },
+      { name: '--workspaces', aliases: ['-ws'], description: 'Install in all workspaces', requiresValue: false },
+      { name: '--include-workspace-root', description: 'Include workspace root', requiresValue: false },
+      { name: '--install-links', description: 'Install file: protocol deps as symlinks', requiresValue: false },
     ],
     mockOutput: '\nadded 145 packages in 5.3s\n\n> test\n> echo "Error: no test specified" && exit 1',
   },
@@ -135,14 +204,15 @@ export const NPM_COMMANDS: NpmCommand[] = [
     name: 'update',
     aliases: ['up', 'upgrade', 'udpate'],
     description: 'Update packages',
+    positionals: [{ name: 'package', description: 'package name', value: { type: 'package-spec' }, optional: true, variadic: true }],
     parameters: [
       { name: '--save', aliases: ['-S'], description: 'Save to dependencies', requiresValue: false },
-      { name: '--save-prod', description: 'Save to dependencies', requiresValue: false },
+      { name: '--save-prod', aliases: ['-P'], description: 'Save to dependencies', requiresValue: false },
       { name: '--no-save', description: 'Don\'t save to package.json', requiresValue: false },
       { name: '--save-dev', aliases: ['-D'], description: 'Save to devDependencies', requiresValue: false },
       { name: '--save-optional', description: 'Save to optionalDependencies', requiresValue: false },
       { name: '--save-peer', description: 'Save to peerDependencies', requiresValue: false },
-      { name: '--save-bundle', description: 'Save to bundleDependencies', requiresValue: false },
+      { name: '--save-bundle', aliases: ['-B'], description: 'Save to bundleDependencies', requiresValue: false },
       { name: '--global', aliases: ['-g'], description: 'Update globally', requiresValue: false },
       { name: '--install-strategy', description: 'Installation strategy', requiresValue: true },
       { name: '--legacy-bundling', description: 'Install with npm v2 bundling behavior', requiresValue: false },
@@ -159,7 +229,7 @@ export const NPM_COMMANDS: NpmCommand[] = [
       { name: '--dry-run', description: 'Preview without updating', requiresValue: false },
       { name: '--before', description: 'Only update to versions published before date', requiresValue: true },
       { name: '--workspace', aliases: ['-w'], description: 'Update in specific workspace', requiresValue: true },
-      { name: '--workspaces', description: 'Update in all workspaces', requiresValue: false },
+      { name: '--workspaces', aliases: ['-ws'], description: 'Update in all workspaces', requiresValue: false },
       { name: '--include-workspace-root', description: 'Include workspace root', requiresValue: false },
       { name: '--install-links', description: 'Install file: protocol deps as symlinks', requiresValue: false },
     ],
@@ -169,6 +239,7 @@ export const NPM_COMMANDS: NpmCommand[] = [
     name: 'list',
     aliases: ['ls', 'll', 'la'],
     description: 'List installed packages',
+    positionals: [{ name: 'package-spec', description: 'package name', value: { type: 'package-spec' }, optional: true, variadic: true }],
     parameters: [
       { name: '--all', aliases: ['-a'], description: 'Show all dependencies', requiresValue: false },
       { name: '--json', description: 'Output as JSON', requiresValue: false },
@@ -191,6 +262,7 @@ export const NPM_COMMANDS: NpmCommand[] = [
   {
     name: 'll',
     description: 'List installed packages (long format)',
+    positionals: [{ name: 'package-spec', description: 'package name', value: { type: 'package-spec' }, optional: true, variadic: true }],
     parameters: [
       { name: '--global', aliases: ['-g'], description: 'List global packages', requiresValue: false },
       { name: '--depth', description: 'Max depth of tree', requiresValue: true },
@@ -201,9 +273,19 @@ export const NPM_COMMANDS: NpmCommand[] = [
     name: 'run',
     aliases: ['run-script', 'rum', 'urn'],
     description: 'List available scripts',
+    positionals: [
+      { name: 'command', description: 'script name', optional: true },
+      { name: 'args', description: 'script arguments', optional: true, variadic: true },
+    ],
     parameters: [
-      { name: 'build', description: 'Run the build script', requiresValue: false },
       { name: '--silent', description: 'Suppress output', requiresValue: false },
+      { name: '--if-present', description: 'Don\'t fail when the script is missing', requiresValue: false },
+      { name: '--ignore-scripts', description: 'Skip pre and post scripts', requiresValue: false },
+      { name: '--foreground-scripts', description: 'Run scripts in foreground', requiresValue: false },
+      { name: '--script-shell', description: 'Shell to run scripts with', requiresValue: true },
+      { name: '--workspace', aliases: ['-w'], description: 'Run in specific workspace', requiresValue: true },
+      { name: '--workspaces', aliases: ['-ws'], description: 'Run in all workspaces', requiresValue: false },
+      { name: '--include-workspace-root', description: 'Include workspace root', requiresValue: false },
     ],
     mockOutput: 'Lifecycle scripts included in my-project@1.0.0:\n  test\n    echo "Error: no test specified"\n  start\n    node index.js\n\nAvailable scripts:\n  build\n    webpack --mode production',
   },
@@ -211,31 +293,44 @@ export const NPM_COMMANDS: NpmCommand[] = [
     name: 'test',
     aliases: ['t', 'tst'],
     description: 'Run tests',
-    parameters: [],
+    parameters: [
+      { name: '--ignore-scripts', description: 'Skip pre and post scripts', requiresValue: false },
+      { name: '--script-shell', description: 'Shell to run scripts with', requiresValue: true },
+    ],
     mockOutput: '\n> my-project@1.0.0 test\n> jest\n\nPASS  ./app.test.js\n  ✓ renders correctly (5ms)\n\nTest Suites: 1 passed, 1 total\nTests:       1 passed, 1 total',
   },
   {
     name: 'start',
     description: 'Start the application',
-    parameters: [],
+    parameters: [
+      { name: '--ignore-scripts', description: 'Skip pre and post scripts', requiresValue: false },
+      { name: '--script-shell', description: 'Shell to run scripts with', requiresValue: true },
+    ],
     mockOutput: '\n> my-project@1.0.0 start\n> node index.js\n\nServer is running on port 3000',
   },
   {
     name: 'stop',
     description: 'Stop a package',
-    parameters: [],
+    parameters: [
+      { name: '--ignore-scripts', description: 'Skip pre and post scripts', requiresValue: false },
+      { name: '--script-shell', description: 'Shell to run scripts with', requiresValue: true },
+    ],
     mockOutput: '\n> my-project@1.0.0 stop\n> node stop.js',
   },
   {
     name: 'restart',
     description: 'Restart a package',
-    parameters: [],
+    parameters: [
+      { name: '--ignore-scripts', description: 'Skip pre and post scripts', requiresValue: false },
+      { name: '--script-shell', description: 'Shell to run scripts with', requiresValue: true },
+    ],
     mockOutput: '\n> my-project@1.0.0 restart\n> npm stop && npm start',
   },
   {
     name: 'version',
     aliases: ['verison'],
     description: 'Bump package version or show npm/node versions',
+    positionals: [{ name: 'newversion', description: 'version or release type', optional: true }],
     parameters: [
       { name: '--json', description: 'Output as JSON', requiresValue: false },
       { name: '--allow-same-version', description: 'Allow bumping to same version', requiresValue: false },
@@ -243,8 +338,9 @@ export const NPM_COMMANDS: NpmCommand[] = [
       { name: '--no-git-tag-version', description: 'Don\'t tag version in git', requiresValue: false },
       { name: '--preid', description: 'Prerelease identifier', requiresValue: true },
       { name: '--sign-git-tag', description: 'Sign git tag', requiresValue: false },
+      { name: '--ignore-scripts', description: 'Skip version lifecycle scripts', requiresValue: false },
       { name: '--workspace', aliases: ['-w'], description: 'Version specific workspace', requiresValue: true },
-      { name: '--workspaces', description: 'Version all workspaces', requiresValue: false },
+      { name: '--workspaces', aliases: ['-ws'], description: 'Version all workspaces', requiresValue: false },
       { name: '--include-workspace-root', description: 'Include workspace root', requiresValue: false },
       { name: '--no-workspaces-update', description: 'Don\'t update workspace dependencies', requiresValue: false },
     ],
@@ -253,6 +349,7 @@ export const NPM_COMMANDS: NpmCommand[] = [
   {
     name: 'publish',
     description: 'Publish a package to registry',
+    positionals: [{ name: 'package-spec', description: 'package folder or tarball', optional: true }],
     parameters: [
       { name: '--tag', description: 'Tag to publish', requiresValue: true },
       { name: '--access', description: 'Set access level (public/restricted)', requiresValue: true },
@@ -269,8 +366,12 @@ export const NPM_COMMANDS: NpmCommand[] = [
   {
     name: 'unpublish',
     description: 'Remove a package from the registry',
+    positionals: [{ name: 'package-spec', description: 'package name', value: { type: 'package-spec' }, optional: true }],
     parameters: [
       { name: '--force', aliases: ['-f'], description: 'Force unpublish', requiresValue: false },
+      { name: '--dry-run', description: 'Show what would be unpublished', requiresValue: false },
+      { name: '--workspace', aliases: ['-w'], description: 'Unpublish specific workspace', requiresValue: true },
+      { name: '--workspaces', aliases: ['-ws'], description: 'Unpublish all workspaces', requiresValue: false },
     ],
     mockOutput: '- my-package@1.0.0',
   },
@@ -278,6 +379,7 @@ export const NPM_COMMANDS: NpmCommand[] = [
     name: 'search',
     aliases: ['s', 'se', 'find'],
     description: 'Search for packages',
+    positionals: [{ name: 'search-terms', description: 'search terms', variadic: true }],
     parameters: [
       { name: '--json', description: 'Output as JSON', requiresValue: false },
       { name: '--color', description: 'Enable color output', requiresValue: false },
@@ -298,10 +400,14 @@ export const NPM_COMMANDS: NpmCommand[] = [
     name: 'view',
     aliases: ['info', 'show', 'v'],
     description: 'View registry info',
+    positionals: [
+      { name: 'package-spec', description: 'package name', value: { type: 'package-spec' }, optional: true },
+      { name: 'field', description: 'field name', optional: true, variadic: true },
+    ],
     parameters: [
       { name: '--json', description: 'Output as JSON', requiresValue: false },
       { name: '--workspace', aliases: ['-w'], description: 'View specific workspace', requiresValue: true },
-      { name: '--workspaces', description: 'View all workspaces', requiresValue: false },
+      { name: '--workspaces', aliases: ['-ws'], description: 'View all workspaces', requiresValue: false },
       { name: '--include-workspace-root', description: 'Include workspace root', requiresValue: false },
     ],
     mockOutput: 'lodash@4.17.21 | MIT | deps: none | versions: 114\nLodash modular utilities.\nhttps://lodash.com/\n\nkeywords: modules, stdlib, util\n\ndist\n.tarball: https://registry.npmjs.org/lodash/-/lodash-4.17.21.tgz\n.shasum: 679591c564c3bffaae8454cf0b3df370c3d6911c',
@@ -309,6 +415,7 @@ export const NPM_COMMANDS: NpmCommand[] = [
   {
     name: 'outdated',
     description: 'Check for outdated packages',
+    positionals: [{ name: 'package-spec', description: 'package name', value: { type: 'package-spec' }, optional: true, variadic: true }],
     parameters: [
       { name: '--all', aliases: ['-a'], description: 'Check all packages', requiresValue: false },
       { name: '--json', description: 'Output as JSON', requiresValue: false },
@@ -317,13 +424,16 @@ export const NPM_COMMANDS: NpmCommand[] = [
       { name: '--global', aliases: ['-g'], description: 'Check global packages', requiresValue: false },
       { name: '--before', description: 'Only show versions published before date', requiresValue: true },
       { name: '--workspace', aliases: ['-w'], description: 'Check specific workspace', requiresValue: true },
-      { name: '--workspaces', description: 'Check all workspaces', requiresValue: false },
+      { name: '--workspaces', aliases: ['-ws'], description: 'Check all workspaces', requiresValue: false },
     ],
     mockOutput: 'Package       Current  Wanted  Latest  Location\nlodash        4.17.20  4.17.21 4.17.21 node_modules/lodash',
   },
   {
     name: 'audit',
     description: 'Run security audit',
+    positionals: [
+      { name: 'fix | signatures', description: 'audit subcommand', value: { type: 'enum', allowedValues: ['fix', 'signatures'] }, optional: true },
+    ],
     parameters: [
       { name: '--audit-level', description: 'Minimum level to exit with error (info, low, moderate, high, critical)', requiresValue: true },
       { name: '--dry-run', description: 'Preview fixes without applying', requiresValue: false },
@@ -349,37 +459,70 @@ export const NPM_COMMANDS: NpmCommand[] = [
     parameters: [
       { name: '--json', description: 'Output as JSON', requiresValue: false },
       { name: '--global', aliases: ['-g'], description: 'Use global config', requiresValue: false },
-      { name: '--editor', description: 'Editor for config edit', requiresValue: true },
       { name: '--location', aliases: ['-L'], description: 'Config location (global, user, project)', requiresValue: true },
-      { name: '--long', description: 'Show extended information', requiresValue: false },
+    ],
+    subcommands: [
+      { name: 'set', description: 'Set config values', positionals: [{ name: 'key=value', description: 'config key and value', variadic: true, keyValuePairs: true }], parameters: [], mockOutput: '' },
+      { name: 'get', description: 'Print config values', positionals: [{ name: 'key', description: 'config key', optional: true, variadic: true }], parameters: [], mockOutput: 'https://registry.npmjs.org/' },
+      { name: 'delete', aliases: ['rm', 'del'], description: 'Delete config keys', positionals: [{ name: 'key', description: 'config key', variadic: true }], parameters: [], mockOutput: '' },
+      {
+        name: 'list',
+        aliases: ['ls'],
+        description: 'Show all config settings',
+        positionals: [],
+        parameters: [
+          { name: '--long', aliases: ['-l'], description: 'Show extended information', requiresValue: false },
+        ],
+      },
+      {
+        name: 'edit',
+        description: 'Open the config file in an editor',
+        positionals: [],
+        parameters: [
+          { name: '--editor', description: 'Editor for config edit', requiresValue: true },
+        ],
+        mockOutput: '',
+      },
+      { name: 'fix', description: 'Repair invalid config', positionals: [], parameters: [], mockOutput: '' },
     ],
     mockOutput: '; "user" config from C:\\Users\\user\\.npmrc\n\ninit-author-name = "Your Name"\nregistry = "https://registry.npmjs.org/"',
   },
   {
     name: 'get',
     description: 'Get a config value',
-    parameters: [
-      { name: '--global', aliases: ['-g'], description: 'Get from global config', requiresValue: false },
-      { name: '--location', description: 'Config location', requiresValue: true },
-    ],
+    parameters: [],
+    shortcutFor: { command: 'config', subcommand: 'get' },
     mockOutput: 'https://registry.npmjs.org/',
   },
   {
     name: 'set',
     description: 'Set a config value',
-    parameters: [
-      { name: '--global', aliases: ['-g'], description: 'Set in global config', requiresValue: false },
-      { name: '--location', description: 'Config location', requiresValue: true },
-    ],
+    parameters: [],
+    shortcutFor: { command: 'config', subcommand: 'set' },
     mockOutput: '',
   },
   {
     name: 'cache',
     description: 'Manage npm cache',
     parameters: [
-      { name: 'clean', description: 'Clean cache', requiresValue: false },
-      { name: 'verify', description: 'Verify cache', requiresValue: false },
       { name: '--force', aliases: ['-f'], description: 'Force operation', requiresValue: false },
+      { name: '--cache', description: 'Cache folder location', requiresValue: true },
+    ],
+    subcommands: [
+      { name: 'add', description: 'Add packages to the cache', positionals: [{ name: 'package-spec', description: 'package name', value: { type: 'package-spec' }, variadic: true }], parameters: [], mockOutput: '' },
+      { name: 'clean', aliases: ['rm', 'clear'], description: 'Delete cache entries', positionals: [{ name: 'key', description: 'cache key', optional: true, variadic: true }], parameters: [], mockOutput: '' },
+      { name: 'ls', description: 'List cache entries', positionals: [{ name: 'package-spec', description: 'package name', optional: true, variadic: true }], parameters: [] },
+      { name: 'verify', description: 'Verify cache integrity and garbage collect', positionals: [], parameters: [] },
+      {
+        name: 'npx',
+        description: 'Manage the npx cache (ls, rm, info)',
+        positionals: [
+          { name: 'ls | rm | info', description: 'npx cache action', value: { type: 'enum', allowedValues: ['ls', 'rm', 'info'] } },
+          { name: 'package-spec', description: 'package name', optional: true, variadic: true },
+        ],
+        parameters: [],
+        mockOutput: '',
+      },
     ],
     mockOutput: 'Cache verified and compressed\nContent verified: 1234 (56.7 MB)\nIndex entries: 5678\nFinished in 3.45s',
   },
@@ -392,6 +535,7 @@ export const NPM_COMMANDS: NpmCommand[] = [
   {
     name: 'prune',
     description: 'Remove extraneous packages',
+    positionals: [{ name: 'package-spec', description: 'package name', value: { type: 'package-spec' }, optional: true, variadic: true }],
     parameters: [
       { name: '--omit', description: 'Omit dependency types (use instead of --production)', requiresValue: true },
       { name: '--include', description: 'Include dependency types', requiresValue: true },
@@ -410,6 +554,7 @@ export const NPM_COMMANDS: NpmCommand[] = [
     name: 'dedupe',
     aliases: ['ddp'],
     description: 'Reduce package duplication',
+    positionals: [],
     parameters: [
       { name: '--install-strategy', description: 'Installation strategy', requiresValue: true },
       { name: '--legacy-bundling', description: 'Install with npm v2 bundling behavior', requiresValue: false },
@@ -433,6 +578,7 @@ export const NPM_COMMANDS: NpmCommand[] = [
   {
     name: 'find-dupes',
     description: 'Find duplication in package tree',
+    positionals: [],
     parameters: [
       { name: '--install-strategy', description: 'Installation strategy', requiresValue: true },
       { name: '--legacy-bundling', description: 'Install with npm v2 bundling behavior', requiresValue: false },
@@ -441,6 +587,9 @@ export const NPM_COMMANDS: NpmCommand[] = [
       { name: '--no-package-lock', description: 'Don\'t read package-lock.json', requiresValue: false },
       { name: '--omit', description: 'Omit dependency types', requiresValue: true },
       { name: '--include', description: 'Include dependency types', requiresValue: true },
+      { name: '--ignore-scripts', description: 'Skip running scripts', requiresValue: false },
+      { name: '--no-audit', description: 'Skip security audit', requiresValue: false },
+      { name: '--no-bin-links', description: 'Don\'t create symlinks for binaries', requiresValue: false },
       { name: '--no-fund', description: 'Hide funding info', requiresValue: false },
       { name: '--workspace', aliases: ['-w'], description: 'Find dupes in specific workspace', requiresValue: true },
       { name: '--workspaces', aliases: ['-ws'], description: 'Find dupes in all workspaces', requiresValue: false },
@@ -453,15 +602,16 @@ export const NPM_COMMANDS: NpmCommand[] = [
     name: 'link',
     aliases: ['ln'],
     description: 'Create a symlink to a package',
+    positionals: [{ name: 'package-spec', description: 'package or folder', optional: true, variadic: true }],
     parameters: [
       { name: '--save', aliases: ['-S'], description: 'Save to dependencies', requiresValue: false },
-      { name: '--save-prod', description: 'Save to dependencies', requiresValue: false },
+      { name: '--save-prod', aliases: ['-P'], description: 'Save to dependencies', requiresValue: false },
       { name: '--no-save', description: 'Don\'t save to package.json', requiresValue: false },
       { name: '--save-dev', aliases: ['-D'], description: 'Save to devDependencies', requiresValue: false },
       { name: '--save-exact', aliases: ['-E'], description: 'Save exact version', requiresValue: false },
       { name: '--save-optional', description: 'Save to optionalDependencies', requiresValue: false },
       { name: '--save-peer', description: 'Save to peerDependencies', requiresValue: false },
-      { name: '--save-bundle', description: 'Save to bundleDependencies', requiresValue: false },
+      { name: '--save-bundle', aliases: ['-B'], description: 'Save to bundleDependencies', requiresValue: false },
       { name: '--global', aliases: ['-g'], description: 'Link globally', requiresValue: false },
       { name: '--install-strategy', description: 'Installation strategy', requiresValue: true },
       { name: '--legacy-bundling', description: 'Install with npm v2 bundling behavior', requiresValue: false },
@@ -486,20 +636,24 @@ export const NPM_COMMANDS: NpmCommand[] = [
     name: 'ci',
     aliases: ['clean-install', 'ic', 'install-clean', 'isntall-clean'],
     description: 'Clean install from package-lock',
+    positionals: [],
     parameters: [
       { name: '--install-strategy', description: 'Installation strategy', requiresValue: true },
       { name: '--legacy-bundling', description: 'Install with npm v2 bundling behavior', requiresValue: false },
       { name: '--global-style', description: 'Install packages into prefix without flattening', requiresValue: false },
       { name: '--omit', description: 'Omit dependency types', requiresValue: true },
+      { name: '--include', description: 'Include dependency types', requiresValue: true },
       { name: '--strict-peer-deps', description: 'Fail on peer dependency conflicts', requiresValue: false },
       { name: '--foreground-scripts', description: 'Run scripts in foreground', requiresValue: false },
       { name: '--ignore-scripts', description: 'Skip running scripts', requiresValue: false },
       { name: '--no-audit', description: 'Skip security audit', requiresValue: false },
       { name: '--dry-run', description: 'Preview without installing', requiresValue: false },
+      { name: '--no-bin-links', description: 'Don\'t create symlinks for binaries', requiresValue: false },
       { name: '--no-fund', description: 'Hide funding info', requiresValue: false },
       { name: '--workspace', aliases: ['-w'], description: 'Install in specific workspace', requiresValue: true },
-      { name: '--workspaces', description: 'Install in all workspaces', requiresValue: false },
+      { name: '--workspaces', aliases: ['-ws'], description: 'Install in all workspaces', requiresValue: false },
       { name: '--include-workspace-root', description: 'Include workspace root', requiresValue: false },
+      { name: '--install-links', description: 'Install file: protocol deps as symlinks', requiresValue: false },
     ],
     mockOutput: '\nadded 145 packages in 5.3s',
   },
@@ -507,11 +661,12 @@ export const NPM_COMMANDS: NpmCommand[] = [
     name: 'exec',
     aliases: ['x'],
     description: 'Execute a package binary',
+    positionals: [{ name: 'command', description: 'command to run', optional: true, variadic: true }],
     parameters: [
       { name: '--package', aliases: ['-p'], description: 'Package to execute', requiresValue: true },
       { name: '--call', aliases: ['-c'], description: 'Command string to execute', requiresValue: true },
       { name: '--workspace', aliases: ['-w'], description: 'Execute in specific workspace', requiresValue: true },
-      { name: '--workspaces', description: 'Execute in all workspaces', requiresValue: false },
+      { name: '--workspaces', aliases: ['-ws'], description: 'Execute in all workspaces', requiresValue: false },
       { name: '--include-workspace-root', description: 'Include workspace root', requiresValue: false },
     ],
     mockOutput: 'Package executed successfully',
@@ -520,14 +675,23 @@ export const NPM_COMMANDS: NpmCommand[] = [
     name: 'explain',
     aliases: ['why'],
     description: 'Explain why a package is installed',
-    parameters: [],
+    positionals: [{ name: 'package-spec', description: 'package name', variadic: true }],
+    parameters: [
+      { name: '--json', description: 'Output as JSON', requiresValue: false },
+      { name: '--workspace', aliases: ['-w'], description: 'Explain in specific workspace', requiresValue: true },
+    ],
     mockOutput: 'lodash@4.17.21\nnode_modules/lodash\n  lodash@"^4.17.0" from my-project@1.0.0\n  node_modules/my-project',
   },
   {
     name: 'fund',
     description: 'Display funding information',
+    positionals: [{ name: 'package-spec', description: 'package name', value: { type: 'package-spec' }, optional: true }],
     parameters: [
       { name: '--json', description: 'Output as JSON', requiresValue: false },
+      { name: '--no-browser', description: 'Print the funding URL instead of opening it', requiresValue: false },
+      { name: '--no-unicode', description: 'Don\'t use unicode characters', requiresValue: false },
+      { name: '--which', description: 'Which funding source to open (1-based)', requiresValue: true },
+      { name: '--workspace', aliases: ['-w'], description: 'Show funding for specific workspace', requiresValue: true },
     ],
     mockOutput: 'my-project@1.0.0\n├── https://github.com/sponsors/author1\n│   └── package1@1.0.0\n└── https://opencollective.com/project2\n    └── package2@2.0.0\n\n2 packages are looking for funding',
   },
@@ -535,31 +699,85 @@ export const NPM_COMMANDS: NpmCommand[] = [
     name: 'help',
     aliases: ['?'],
     description: 'Get help on npm',
+    positionals: [{ name: 'term', description: 'help topic', optional: true, variadic: true }],
     parameters: [],
     mockOutput: 'npm <command>\n\nUsage:\n\nnpm install        install all the dependencies in your project\nnpm install <foo>  add the <foo> dependency to your project\nnpm test           run this project\'s tests\nnpm run <foo>      run the script named <foo>\nnpm <command> -h   quick help on <command>\nnpm -l             display usage info for all commands',
   },
   {
     name: 'help-search',
     description: 'Search npm help documentation',
+    positionals: [{ name: 'text', description: 'search text', variadic: true }],
     parameters: [],
     mockOutput: 'Top hits for "install"\n———————————————————————————————————\nnpm install\n  Install a package',
   },
   {
     name: 'hook',
     description: 'Manage registry hooks',
-    parameters: [
-      { name: 'add', description: 'Add hook', requiresValue: true },
-      { name: 'ls', description: 'List hooks', requiresValue: false },
-      { name: 'rm', description: 'Remove hook', requiresValue: true },
+    parameters: [],
+    subcommands: [
+      {
+        name: 'add',
+        description: 'Add a hook for a package, scope or owner',
+        positionals: [
+          { name: 'pkg', description: 'package, @scope or ~owner' },
+          { name: 'url', description: 'webhook URL', value: { type: 'url' } },
+          { name: 'secret', description: 'shared secret' },
+        ],
+        parameters: [],
+        mockOutput: '+ lodash  ->  https://example.com/webhook',
+      },
+      { name: 'ls', description: 'List configured hooks', positionals: [{ name: 'pkg', description: 'package, @scope or ~owner', optional: true }], parameters: [] },
+      {
+        name: 'update',
+        description: 'Change the URL or secret of a hook',
+        positionals: [
+          { name: 'id', description: 'hook id' },
+          { name: 'url', description: 'webhook URL', value: { type: 'url' } },
+          { name: 'secret', description: 'shared secret', optional: true },
+        ],
+        parameters: [],
+        mockOutput: '+ lodash  ->  https://example.com/new-webhook',
+      },
+      { name: 'rm', description: 'Remove a hook', positionals: [{ name: 'id', description: 'hook id' }], parameters: [], mockOutput: '- lodash  X  https://example.com/webhook' },
     ],
     mockOutput: 'No hooks configured',
   },
   {
     name: 'org',
     description: 'Manage organization',
-    parameters: [
-      { name: 'set', description: 'Set organization property', requiresValue: true },
-      { name: 'ls', description: 'List organizations', requiresValue: false },
+    parameters: [],
+    subcommands: [
+      {
+        name: 'set',
+        description: 'Add a user to an organization or change their role',
+        positionals: [
+          { name: 'orgname', description: 'organization name' },
+          { name: 'username', description: 'username' },
+          { name: 'developer | admin | owner', description: 'role', value: { type: 'enum', allowedValues: ['developer', 'admin', 'owner'] }, optional: true },
+        ],
+        parameters: [],
+        mockOutput: 'Added username as developer to myorg. You now have 3 members in this org.',
+      },
+      {
+        name: 'rm',
+        description: 'Remove a user from an organization',
+        positionals: [
+          { name: 'orgname', description: 'organization name' },
+          { name: 'username', description: 'username' },
+        ],
+        parameters: [],
+        mockOutput: 'Successfully removed username from myorg. You now have 2 members in this org.',
+      },
+      {
+        name: 'ls',
+        description: 'List organization members and their roles',
+        positionals: [
+          { name: 'orgname', description: 'organization name' },
+          { name: 'username', description: 'username', optional: true },
+        ],
+        parameters: [],
+        mockOutput: 'username - owner\nteammate - developer',
+      },
     ],
     mockOutput: '@myorg',
   },
@@ -567,16 +785,36 @@ export const NPM_COMMANDS: NpmCommand[] = [
     name: 'owner',
     aliases: ['author'],
     description: 'Manage package owners',
-    parameters: [
-      { name: 'add', description: 'Add owner', requiresValue: true },
-      { name: 'rm', description: 'Remove owner', requiresValue: true },
-      { name: 'ls', description: 'List owners', requiresValue: false },
+    parameters: [],
+    subcommands: [
+      {
+        name: 'add',
+        description: 'Add a maintainer to a package',
+        positionals: [
+          { name: 'user', description: 'username' },
+          { name: 'package-spec', description: 'package name', value: { type: 'package-spec' }, optional: true },
+        ],
+        parameters: [],
+        mockOutput: '+ teammate (my-project)',
+      },
+      {
+        name: 'rm',
+        description: 'Remove a maintainer from a package',
+        positionals: [
+          { name: 'user', description: 'username' },
+          { name: 'package-spec', description: 'package name', value: { type: 'package-spec' }, optional: true },
+        ],
+        parameters: [],
+        mockOutput: '- teammate (my-project)',
+      },
+      { name: 'ls', description: 'List package maintainers', positionals: [{ name: 'package-spec', description: 'package name', value: { type: 'package-spec' }, optional: true }], parameters: [] },
     ],
     mockOutput: 'username <user@example.com>',
   },
   {
     name: 'pack',
     description: 'Create a tarball from a package',
+    positionals: [{ name: 'package-spec', description: 'package or folder', optional: true, variadic: true }],
     parameters: [
       { name: '--dry-run', description: 'Test without creating tarball', requiresValue: false },
     ],
@@ -585,23 +823,45 @@ export const NPM_COMMANDS: NpmCommand[] = [
   {
     name: 'ping',
     description: 'Ping npm registry',
+    positionals: [],
     parameters: [],
     mockOutput: 'Ping success: wrote to registry in 256ms',
   },
   {
     name: 'prefix',
     description: 'Display prefix',
+    positionals: [],
     parameters: [
-      { name: '-g', aliases: ['--global'], description: 'Display global prefix', requiresValue: false },
+      { name: '--global', aliases: ['-g'], description: 'Display global prefix', requiresValue: false },
     ],
     mockOutput: 'C:\\Users\\user\\project',
   },
   {
     name: 'profile',
     description: 'Manage npm profile',
-    parameters: [
-      { name: 'get', description: 'Get profile property', requiresValue: false },
-      { name: 'set', description: 'Set profile property', requiresValue: true },
+    parameters: [],
+    subcommands: [
+      { name: 'get', description: 'Show profile properties', positionals: [{ name: 'property', description: 'profile property', optional: true }], parameters: [] },
+      {
+        name: 'set',
+        description: 'Change a profile property',
+        positionals: [
+          { name: 'property', description: 'profile property' },
+          { name: 'value', description: 'property value' },
+        ],
+        parameters: [],
+        mockOutput: 'Set fullname to Jane Doe',
+      },
+      {
+        name: 'enable-2fa',
+        description: 'Turn on two-factor authentication',
+        positionals: [
+          { name: 'auth-only | auth-and-writes', description: '2FA mode', value: { type: 'enum', allowedValues: ['auth-only', 'auth-and-writes'] }, optional: true },
+        ],
+        parameters: [],
+        mockOutput: 'Two factor authentication mode changed to: auth-and-writes',
+      },
+      { name: 'disable-2fa', description: 'Turn off two-factor authentication', positionals: [], parameters: [], mockOutput: 'Two factor authentication disabled.' },
     ],
     mockOutput: '┌─────────────┬────────────────────┐\n│ name        │ username           │\n├─────────────┼────────────────────┤\n│ email       │ user@example.com   │\n├─────────────┼────────────────────┤\n│ created     │ 2023-01-15         │\n└─────────────┴────────────────────┘',
   },
@@ -609,89 +869,196 @@ export const NPM_COMMANDS: NpmCommand[] = [
     name: 'rebuild',
     aliases: ['rb'],
     description: 'Rebuild a package',
-    parameters: [],
+    positionals: [{ name: 'package-spec', description: 'package name', value: { type: 'package-spec' }, optional: true, variadic: true }],
+    parameters: [
+      { name: '--global', aliases: ['-g'], description: 'Rebuild global packages', requiresValue: false },
+      { name: '--no-bin-links', description: 'Don\'t create symlinks for binaries', requiresValue: false },
+      { name: '--foreground-scripts', description: 'Run scripts in foreground', requiresValue: false },
+      { name: '--ignore-scripts', description: 'Skip running scripts', requiresValue: false },
+      { name: '--workspace', aliases: ['-w'], description: 'Rebuild in specific workspace', requiresValue: true },
+      { name: '--workspaces', aliases: ['-ws'], description: 'Rebuild in all workspaces', requiresValue: false },
+      { name: '--include-workspace-root', description: 'Include workspace root', requiresValue: false },
+      { name: '--install-links', description: 'Install file: protocol deps as symlinks', requiresValue: false },
+    ],
     mockOutput: 'rebuilt dependencies',
   },
   {
     name: 'repo',
     description: 'Open package repository in browser',
+    positionals: [{ name: 'package-spec', description: 'package name', value: { type: 'package-spec' }, optional: true, variadic: true }],
     parameters: [],
     mockOutput: 'Opening https://github.com/lodash/lodash in browser',
   },
   {
     name: 'root',
     description: 'Display npm root',
+    positionals: [],
     parameters: [
-      { name: '-g', aliases: ['--global'], description: 'Display global root', requiresValue: false },
+      { name: '--global', aliases: ['-g'], description: 'Display global root', requiresValue: false },
     ],
     mockOutput: 'C:\\Users\\user\\project\\node_modules',
   },
   {
     name: 'set-script',
     description: 'Set a package.json script',
+    positionals: [
+      { name: 'script', description: 'script name' },
+      { name: 'command', description: 'script command' },
+    ],
     parameters: [],
     mockOutput: 'Added script "build": "tsc"',
   },
   {
     name: 'shrinkwrap',
     description: 'Lock dependencies',
+    positionals: [],
     parameters: [],
     mockOutput: 'wrote npm-shrinkwrap.json',
   },
   {
     name: 'star',
     description: 'Mark a package as favorite',
+    positionals: [{ name: 'package-spec', description: 'package name', value: { type: 'package-spec' }, variadic: true }],
     parameters: [],
     mockOutput: '★ lodash',
   },
   {
     name: 'stars',
     description: 'View starred packages',
+    positionals: [{ name: 'user', description: 'username', optional: true }],
     parameters: [],
     mockOutput: 'lodash\nexpress\nreact',
   },
   {
     name: 'team',
     description: 'Manage organization teams',
-    parameters: [
-      { name: 'create', description: 'Create team', requiresValue: true },
-      { name: 'destroy', description: 'Destroy team', requiresValue: true },
-      { name: 'add', description: 'Add user to team', requiresValue: true },
-      { name: 'rm', description: 'Remove user from team', requiresValue: true },
-      { name: 'ls', description: 'List teams', requiresValue: false },
+    parameters: [],
+    subcommands: [
+      { name: 'create', description: 'Create a team', positionals: [{ name: 'scope:team', description: 'team name' }], parameters: [], mockOutput: '+@myorg:developers' },
+      { name: 'destroy', description: 'Delete a team', positionals: [{ name: 'scope:team', description: 'team name' }], parameters: [], mockOutput: '-@myorg:developers' },
+      {
+        name: 'add',
+        description: 'Add a user to a team',
+        positionals: [
+          { name: 'scope:team', description: 'team name' },
+          { name: 'user', description: 'username' },
+        ],
+        parameters: [],
+        mockOutput: 'username added to @myorg:developers',
+      },
+      {
+        name: 'rm',
+        description: 'Remove a user from a team',
+        positionals: [
+          { name: 'scope:team', description: 'team name' },
+          { name: 'user', description: 'username' },
+        ],
+        parameters: [],
+        mockOutput: 'username removed from @myorg:developers',
+      },
+      { name: 'ls', description: 'List teams in a scope, or users in a team', positionals: [{ name: 'scope | scope:team', description: 'scope or team name' }], parameters: [] },
     ],
     mockOutput: '@myorg:developers\n@myorg:admins',
   },
   {
     name: 'token',
     description: 'Manage authentication tokens',
-    parameters: [
-      { name: 'list', description: 'List tokens', requiresValue: false },
-      { name: 'create', description: 'Create token', requiresValue: false },
-      { name: 'revoke', description: 'Revoke token', requiresValue: true },
+    parameters: [],
+    subcommands: [
+      {
+        name: 'list',
+        aliases: ['ls'],
+        description: 'List authentication tokens',
+        positionals: [],
+        parameters: [
+          { name: '--json', description: 'Output as JSON', requiresValue: false },
+        ],
+      },
+      {
+        name: 'create',
+        description: 'Create an authentication token',
+        positionals: [],
+        parameters: [
+          { name: '--read-only', description: 'Create a read-only token', requiresValue: false },
+          { name: '--cidr', description: 'Restrict the token to IP ranges', requiresValue: true },
+        ],
+        mockOutput: '┌────────────────┬──────────────────────────────────────┐\n│ token          │ npm_abc123def456                     │\n├────────────────┼──────────────────────────────────────┤\n│ readonly       │ false                                │\n└────────────────┴──────────────────────────────────────┘',
+      },
+      { name: 'revoke', aliases: ['rm'], description: 'Revoke an authentication token', positionals: [{ name: 'id | token', description: 'token id', variadic: true }], parameters: [], mockOutput: 'Removed 1 token' },
     ],
+    defaultSubcommand: 'list',
     mockOutput: '┌────────┬─────────┬────────────┬──────────┐\n│ token  │ created │ readonly   │ CIDR     │\n├────────┼─────────┼────────────┼──────────┤\n│ abc123 │ 2023-01 │ no         │          │\n└────────┴─────────┴────────────┴──────────┘',
   },
   {
     name: 'unstar',
     description: 'Unmark a package as favorite',
+    positionals: [{ name: 'package-spec', description: 'package name', value: { type: 'package-spec' }, variadic: true }],
     parameters: [],
     mockOutput: '☆ lodash',
   },
   {
     name: 'whoami',
     description: 'Display npm username',
+    positionals: [],
     parameters: [],
     mockOutput: 'username',
   },
   {
     name: 'access',
     description: 'Manage package access',
-    parameters: [
-      { name: 'public', description: 'Make package public', requiresValue: false },
-      { name: 'restricted', description: 'Make package restricted', requiresValue: false },
-      { name: 'grant', description: 'Grant access', requiresValue: true },
-      { name: 'revoke', description: 'Revoke access', requiresValue: true },
+    parameters: [],
+    subcommands: [
+      {
+        name: 'list',
+        aliases: ['ls'],
+        description: 'List packages or collaborators and their access',
+        positionals: [
+          { name: 'packages | collaborators', description: 'what to list', value: { type: 'enum', allowedValues: ['packages', 'collaborators'] } },
+          { name: 'user | scope | scope:team | package', description: 'user, scope, team or package', optional: true },
+        ],
+        parameters: [],
+        mockOutput: 'my-project: read-write',
+      },
+      {
+        name: 'get',
+        description: 'Show the access status of a package',
+        positionals: [
+          { name: 'status', description: 'access property', value: { type: 'enum', allowedValues: ['status'] } },
+          { name: 'package', description: 'package name', value: { type: 'package-spec' }, optional: true },
+        ],
+        parameters: [],
+        mockOutput: 'my-project: public',
+      },
+      {
+        name: 'set',
+        description: 'Change package access or 2FA requirement',
+        positionals: [
+          { name: 'status=public | status=private | mfa=none | mfa=publish | mfa=automation', description: 'access setting', value: { type: 'enum', allowedValues: ['status=public', 'status=private', 'mfa=none', 'mfa=publish', 'mfa=automation'] } },
+          { name: 'package', description: 'package name', value: { type: 'package-spec' }, optional: true },
+        ],
+        parameters: [],
+      },
+      {
+        name: 'grant',
+        description: 'Give a team access to a package',
+        positionals: [
+          { name: 'read-only | read-write', description: 'permission', value: { type: 'enum', allowedValues: ['read-only', 'read-write'] } },
+          { name: 'scope:team', description: 'team name' },
+          { name: 'package', description: 'package name', value: { type: 'package-spec' }, optional: true },
+        ],
+        parameters: [],
+        mockOutput: '',
+      },
+      {
+        name: 'revoke',
+        description: 'Remove a team\'s access to a package',
+        positionals: [
+          { name: 'scope:team', description: 'team name' },
+          { name: 'package', description: 'package name', value: { type: 'package-spec' }, optional: true },
+        ],
+        parameters: [],
+        mockOutput: '',
+      },
     ],
     mockOutput: 'Set package access to public',
   },
@@ -699,26 +1066,29 @@ export const NPM_COMMANDS: NpmCommand[] = [
     name: 'adduser',
     aliases: ['add-user'],
     description: 'Add a registry user account',
+    positionals: [],
     parameters: [
       { name: '--registry', description: 'Registry URL', requiresValue: true },
       { name: '--scope', description: 'Scope for authentication', requiresValue: true },
-      { name: '--auth-type', description: 'Authentication type (legacy, web, oauth)', requiresValue: true },
+      { name: '--auth-type', description: 'Authentication type (legacy, web)', requiresValue: true },
     ],
     mockOutput: 'Logged in as username on https://registry.npmjs.org/.',
   },
   {
     name: 'login',
     description: 'Login to a registry user account',
+    positionals: [],
     parameters: [
       { name: '--registry', description: 'Registry URL', requiresValue: true },
       { name: '--scope', description: 'Scope for authentication', requiresValue: true },
-      { name: '--auth-type', description: 'Authentication type (legacy, web, oauth)', requiresValue: true },
+      { name: '--auth-type', description: 'Authentication type (legacy, web)', requiresValue: true },
     ],
     mockOutput: 'Logged in as username on https://registry.npmjs.org/.',
   },
   {
     name: 'logout',
     description: 'Log out of the registry',
+    positionals: [],
     parameters: [
       { name: '--registry', description: 'Registry URL', requiresValue: true },
       { name: '--scope', description: 'Scope for authentication', requiresValue: true },
@@ -729,6 +1099,7 @@ export const NPM_COMMANDS: NpmCommand[] = [
     name: 'bugs',
     aliases: ['issues'],
     description: 'Open package bugs page in browser',
+    positionals: [{ name: 'package-spec', description: 'package name', value: { type: 'package-spec' }, optional: true, variadic: true }],
     parameters: [],
     mockOutput: 'Opening https://github.com/lodash/lodash/issues in browser',
   },
@@ -736,18 +1107,24 @@ export const NPM_COMMANDS: NpmCommand[] = [
     name: 'docs',
     aliases: ['home'],
     description: 'Open package documentation in browser',
+    positionals: [{ name: 'package-spec', description: 'package name', value: { type: 'package-spec' }, optional: true, variadic: true }],
     parameters: [],
     mockOutput: 'Opening https://lodash.com/ in browser',
   },
   {
     name: 'edit',
     description: 'Edit an installed package',
+    positionals: [{ name: 'pkg', description: 'package name' }],
     parameters: [],
     mockOutput: 'Opening package in editor',
   },
   {
     name: 'explore',
     description: 'Browse an installed package',
+    positionals: [
+      { name: 'pkg', description: 'package name' },
+      { name: 'command', description: 'command to run', optional: true, variadic: true },
+    ],
     parameters: [],
     mockOutput: 'Spawning shell in package directory',
   },
@@ -761,25 +1138,49 @@ export const NPM_COMMANDS: NpmCommand[] = [
     name: 'dist-tag',
     aliases: ['dist-tags'],
     description: 'Modify package distribution tags',
-    parameters: [
-      { name: 'add', description: 'Add tag', requiresValue: true },
-      { name: 'rm', description: 'Remove tag', requiresValue: true },
-      { name: 'ls', description: 'List tags', requiresValue: false },
+    parameters: [],
+    subcommands: [
+      {
+        name: 'add',
+        description: 'Tag a version of a package',
+        positionals: [
+          { name: 'package-spec', description: 'package and version', value: { type: 'package-spec' } },
+          { name: 'tag', description: 'tag', optional: true },
+        ],
+        parameters: [],
+      },
+      {
+        name: 'rm',
+        description: 'Remove a tag from a package',
+        positionals: [
+          { name: 'package-spec', description: 'package name', value: { type: 'package-spec' } },
+          { name: 'tag', description: 'tag' },
+        ],
+        parameters: [],
+      },
+      { name: 'ls', description: 'List the tags of a package', positionals: [{ name: 'package-spec', description: 'package name', value: { type: 'package-spec' }, optional: true }], parameters: [] },
     ],
+    defaultSubcommand: 'ls',
     mockOutput: 'latest: 1.0.0\nbeta: 1.1.0-beta.0',
   },
   {
     name: 'deprecate',
     description: 'Deprecate a package version',
+    positionals: [
+      { name: 'package-spec', description: 'package name', value: { type: 'package-spec' } },
+      { name: 'message', description: 'deprecation message' },
+    ],
     parameters: [
       { name: '--registry', description: 'Registry URL', requiresValue: true },
       { name: '--otp', description: 'One-time password for 2FA', requiresValue: true },
+      { name: '--dry-run', description: 'Show what would be deprecated', requiresValue: false },
     ],
     mockOutput: 'Deprecated my-package@1.0.0',
   },
   {
     name: 'undeprecate',
     description: 'Undeprecate a package version',
+    positionals: [{ name: 'package-spec', description: 'package name', value: { type: 'package-spec' } }],
     parameters: [
       { name: '--registry', description: 'Registry URL', requiresValue: true },
       { name: '--otp', description: 'One-time password for 2FA', requiresValue: true },
@@ -795,30 +1196,35 @@ export const NPM_COMMANDS: NpmCommand[] = [
   {
     name: 'bin',
     description: 'Display npm bin folder',
+    positionals: [],
     parameters: [
-      { name: '-g', aliases: ['--global'], description: 'Display global bin folder', requiresValue: false },
+      { name: '--global', aliases: ['-g'], description: 'Display global bin folder', requiresValue: false },
     ],
     mockOutput: 'C:\\Users\\user\\project\\node_modules\\.bin',
   },
   {
     name: 'pkg',
     description: 'Manage package.json',
-    parameters: [
-      { name: 'get', description: 'Get a field', requiresValue: true },
-      { name: 'set', description: 'Set a field', requiresValue: true },
-      { name: 'delete', description: 'Delete a field', requiresValue: true },
+    parameters: [],
+    subcommands: [
+      { name: 'get', description: 'Print package.json fields', positionals: [{ name: 'field', description: 'field name', optional: true, variadic: true }], parameters: [] },
+      { name: 'set', description: 'Set package.json fields', positionals: [{ name: 'field=value', description: 'field and value', variadic: true }], parameters: [], mockOutput: '' },
+      { name: 'delete', description: 'Delete package.json fields', positionals: [{ name: 'field', description: 'field name', variadic: true }], parameters: [], mockOutput: '' },
+      { name: 'fix', description: 'Fix common errors in package.json', positionals: [], parameters: [], mockOutput: '' },
     ],
     mockOutput: '{\n  "name": "my-project",\n  "version": "1.0.0"\n}',
   },
   {
     name: 'query',
     description: 'Query installed packages with CSS selectors',
+    positionals: [{ name: 'selector', description: 'dependency selector' }],
     parameters: [],
     mockOutput: '[\n  {\n    "name": "lodash",\n    "version": "4.17.21"\n  }\n]',
   },
   {
     name: 'sbom',
     description: 'Generate a Software Bill of Materials',
+    positionals: [],
     parameters: [
       { name: '--format', description: 'Output format', requiresValue: true },
     ],
@@ -0,0 +1,182 @@
+/**
+ * Content Check
+ * Finds tasks that disagree with the command definitions, without running npm
+ */
+
+import { NPM_COMMANDS, NpmCommand, CommandParameter } from './commands';
+import { commandsMatch, parseCommand, ParsedCommand } from './parser';
+import { TASK_DEFINITIONS } from './taskData';
+import type { TaskDefinition } from './taskLoader';
+
+/**
+ * Kinds of content problems
+ * - unparseable-answer: an answer doesn't parse, or uses a flag its command doesn't have
+ * - wrong-command-name: commandName isn't the command the task's answer uses
+ * - duplicate-task: a task has the same answer as an earlier one
+ * - orphaned-flag: no task uses a parameter of a command
+ * - unknown-alias: a hint names an alias that doesn't exist
+ */
+export type ContentProblemKind =
+  | 'unparseable-answer'
+  | 'wrong-command-name'
+  | 'duplicate-task'
+  | 'orphaned-flag'
+  | 'unknown-alias';
+
+export interface ContentProblem {
+  kind: ContentProblemKind;
+  target: string; // Task key, or "command flag" for orphaned flags
+  message: string;
+}
+
+/**
+ * Find a command by its name or one of its aliases
+ * Names win over aliases, since "ll" is both a command and an alias of list
+ */
+function findCommand(name: string): NpmCommand | undefined {
+  return NPM_COMMANDS.find(cmd => cmd.name === name) ?? NPM_COMMANDS.find(cmd => cmd.aliases?.includes(name));
+}
+
+/**
+ * Find the command typed after npm, which can differ from the parsed one for shorthands like "npm set"
+ */
+function getTypedCommand(answer: string): NpmCommand | undefined {
+  return findCommand(answer.trim().split(/\s+/)[1]);
+}
+
+/**
+ * Get every answer a definition accepts, including the answers to its steps
+ */
+function getAnswers(definition: TaskDefinition): string[] {
+  return [definition, ...(definition.steps || [])].flatMap(answerable => [
+    answerable.expectedCommand,
+    ...(answerable.acceptedCommands || []),
+  ]);
+}
+
+/**
+ * Get the names a hint gives as aliases, e.g. ["t", "tst"] for "Aliases: npm t, npm tst"
+ */
+function getHintAliases(hint: string): { kind: 'command' | 'parameter'; names: string[] } | null {
+  const match = hint.match(/(option has aliases|aliases?):\s*(.+)$/i);
+  if (!match) {
+    return null;
+  }
+  const names = match[2]
+    .split(/,\s*|\s+or\s+/)
+    .map(name => name.trim().replace(/^npm\s+/, ''))
+    .filter(Boolean);
+  return { kind: match[1].toLowerCase().startsWith('option') ? 'parameter' : 'command', names };
+}
+
+/**
+ * Check that the aliases a hint mentions exist
+ */
+function checkHintAliases(definition: TaskDefinition, parsed: ParsedCommand, report: (message: string) => void): void {
+  for (const { hint } of [definition, ...(definition.steps || [])]) {
+    const aliases = hint ? getHintAliases(hint) : null;
+    if (!aliases) {
+      continue;
+    }
+
+    const params: CommandParameter[] = [...(parsed.command?.parameters || []), ...(parsed.subcommand?.parameters || [])];
+    for (const name of aliases.names) {
+      const exists = aliases.kind === 'parameter'
+        ? params.some(param => param.name === name || param.aliases?.includes(name))
+        : findCommand(name.split(/\s+/)[0]) !== undefined;
+      if (!exists) {
+        report(`hint mentions ${name}, which is not a ${aliases.kind === 'parameter' ? 'flag of npm ' + parsed.command?.name : 'command'}`);
+      }
+    }
+  }
+}
+
+/**
+ * Find parameters that no task uses
+ * used holds "command subcommand flag" for every flag in an answer
+ */
+function findOrphanedFlags(used: Set<string>): ContentProblem[] {
+  const isUsed = (command: string, subcommands: string[], flag: string) =>
+    subcommands.some(subcommand => used.has(`${command} ${subcommand} ${flag}`));
+
+  const problems: ContentProblem[] = [];
+  for (const command of NPM_COMMANDS) {
+    const subcommandNames = ['', ...(command.subcommands || []).map(sub => sub.name)];
+    for (const param of command.parameters) {
+      if (!isUsed(command.name, subcommandNames, param.name)) {
+        problems.push({ kind: 'orphaned-flag', target: `${command.name} ${param.name}`, message: `No task uses ${param.name} with npm ${command.name}` });
+      }
+    }
+    for (const subcommand of command.subcommands || []) {
+      for (const param of subcommand.parameters) {
+        if (!isUsed(command.name, [subcommand.name], param.name)) {
+          problems.push({
+            kind: 'orphaned-flag',
+            target: `${command.name} ${subcommand.name} ${param.name}`,
+            message: `No task uses ${param.name} with npm ${command.name} ${subcommand.name}`,
+          });
+        }
+      }
+    }
+  }
+  return problems;
+}
+
+/**
+ * Check tasks against the command definitions
+ * Returns every problem found, so an empty list means the content is consistent
+ */
+export function checkContent(definitions: TaskDefinition[] = TASK_DEFINITIONS): ContentProblem[] {
+  const problems: ContentProblem[] = [];
+  const usedFlags = new Set<string>();
+  const answersByGroup = new Map<string, { key: string; answer: string; parsed: ParsedCommand }[]>();
+
+  for (const definition of definitions) {
+    const report = (kind: ContentProblemKind, message: string) =>
+      problems.push({ kind, target: definition.key, message });
+
+    const parsedByAnswer = getAnswers(definition).map(answer => ({ answer, parsed: parseCommand(answer) }));
+    for (const { answer, parsed } of parsedByAnswer) {
+      if (!parsed.isValid) {
+        report('unparseable-answer', `"${answer}" doesn't parse: ${parsed.errorMessage}`);
+        continue;
+      }
+      for (const flag of Object.keys(parsed.unknownParameters || {})) {
+        report('unparseable-answer', `"${answer}" uses ${flag}, which npm ${parsed.command?.name} doesn't have`);
+      }
+      // Count the flags for the typed command too, e.g. "npm ll" parses as ls but also uses ll's flags
+      const typedCommand = getTypedCommand(answer);
+      for (const commandName of new Set([parsed.command?.name, typedCommand?.name])) {
+        parsed.parameters.forEach(flag => usedFlags.add(`${commandName} ${parsed.subcommand?.name ?? ''} ${flag}`));
+      }
+    }
+
+    // Scenarios teach several commands, so commandName only has to be one of them.
+    // Shorthands like "npm set" parse as another command, so the word typed after npm counts too
+    const taskCommand = findCommand(definition.commandName);
+    const usesTaskCommand = parsedByAnswer.some(({ answer, parsed }) =>
+      parsed.command?.name === taskCommand?.name || getTypedCommand(answer) === taskCommand
+    );
+    if (!taskCommand || !usesTaskCommand) {
+      report('wrong-command-name', `commandName is ${definition.commandName}, but the answer uses npm ${parsedByAnswer[0].parsed.command?.name}`);
+    }
+
+    // Outcome tasks and scenarios can share an answer with a plain task, since they teach something else.
+    // Answers are compared as parsed, so "-f" and "--force" or "ls" and "list" are the same answer
+    const { answer, parsed } = parsedByAnswer[0];
+    if (parsed.isValid && !definition.steps && !definition.goals) {
+      const group = `${parsed.command?.name} ${parsed.subcommand?.name ?? ''}`;
+      const earlier = answersByGroup.get(group) || [];
+      const owner = earlier.find(other => commandsMatch(other.parsed, parsed).matches);
+      if (owner) {
+        report('duplicate-task', `same answer as ${owner.key}: "${owner.answer}" and "${answer}"`);
+      } else {
+        answersByGroup.set(group, [...earlier, { key: definition.key, answer, parsed }]);
+      }
+    }
+
+    checkHintAliases(definition, parsedByAnswer[0].parsed, message => report('unknown-alias', message));
+  }
+
+  return [...problems, ...findOrphanedFlags(usedFlags)];
+}
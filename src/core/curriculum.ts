@@ -0,0 +1,53 @@
+/**
+ * Curriculum
+ * Difficulty and topic tags for tasks, and learning tracks that choose and order tasks by them
+ */
+
+import type { Task } from './taskSystem';
+
+export type TaskDifficulty = 'beginner' | 'intermediate' | 'advanced';
+
+export type TaskTopic = 'basics' | 'dependencies' | 'publishing' | 'security' | 'workspaces' | 'config';
+
+export const TASK_DIFFICULTIES: TaskDifficulty[] = ['beginner', 'intermediate', 'advanced']; // Easiest first
+export const TASK_TOPICS: TaskTopic[] = ['basics', 'dependencies', 'publishing', 'security', 'workspaces', 'config'];
+
+export interface LearningTrack {
+  key: string;
+  title: string;
+  description: string;
+  topics?: TaskTopic[]; // Tasks with any of these topics; all topics when omitted
+  difficulties?: TaskDifficulty[]; // All difficulties when omitted
+}
+
+export const DEFAULT_TRACK_KEY = 'all';
+
+export const LEARNING_TRACKS: LearningTrack[] = [
+  { key: 'all', title: 'Everything', description: 'Every task, from the basics to the rarest flags' },
+  { key: 'getting-started', title: 'Getting started', description: 'The commands and flags used every day', difficulties: ['beginner'] },
+  { key: 'dependencies', title: 'Dependencies', description: 'Installing, updating and inspecting packages', topics: ['dependencies'] },
+  { key: 'publishing', title: 'Publishing', description: 'Versioning, publishing and managing packages on the registry', topics: ['publishing'] },
+  { key: 'security', title: 'Security', description: 'Audits, signatures, tokens and safer installs', topics: ['security'] },
+  { key: 'workspaces', title: 'Workspaces', description: 'Running commands across a monorepo', topics: ['workspaces'] },
+  { key: 'config', title: 'Configuration', description: 'npm config, the cache and where npm puts things', topics: ['config'] },
+];
+
+/**
+ * Get a track by key, or the default track when there is no such track
+ */
+export function getTrack(trackKey: string): LearningTrack {
+  return LEARNING_TRACKS.find(track => track.key === trackKey)
+    || LEARNING_TRACKS.find(track => track.key === DEFAULT_TRACK_KEY)!;
+}
+
+/**
+ * Get the tasks of a track, easiest first
+ * Tasks of the same difficulty keep their order in taskData.ts
+ */
+export function getTrackTasks(trackKey: string, tasks: Task[]): Task[] {
+  const { topics, difficulties } = getTrack(trackKey);
+  return tasks
+    .filter(task => !topics || task.topics.some(topic => topics.includes(topic)))
+    .filter(task => !difficulties || difficulties.includes(task.difficulty))
+    .sort((a, b) => TASK_DIFFICULTIES.indexOf(a.difficulty) - TASK_DIFFICULTIES.indexOf(b.difficulty));
+}
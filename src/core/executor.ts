@@ -0,0 +1,36 @@
+/**
+ * Command Executor
+ * Runs a parsed command against the simulated project and renders its output
+ */
+
+import type { ParsedCommand } from './parser';
+import { ProjectState, applyCommand, hasFlag } from './projectState';
+import { renderOutput } from './outputs';
+
+export interface CommandResult {
+  state: ProjectState;
+  output: string;
+}
+
+/**
+ * Execute a parsed command, returning the new project state and output
+ * With --dry-run the project is left untouched but output describes the changes
+ */
+export function executeCommand(state: ProjectState, parsed: ParsedCommand): CommandResult {
+  const effect = applyCommand(state, parsed);
+  const dryRun = hasFlag(parsed, '--dry-run');
+
+  const output = renderOutput({
+    parsed,
+    before: state,
+    after: effect.state,
+    changes: effect.changes,
+    errors: effect.errors,
+    dryRun,
+  });
+
+  return {
+    state: dryRun || effect.errors.length > 0 ? state : effect.state,
+    output,
+  };
+}
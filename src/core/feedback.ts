@@ -0,0 +1,110 @@
+/**
+ * Answer Feedback
+ * Turns the differences between the user's command and the expected one into hints
+ */
+
+import type { CommandDifference } from './parser';
+import { isRegistrySpec, parsePackageSpec } from './packageSpec';
+import { formatSuggestions } from './suggestions';
+
+/**
+ * How much a hint gives away
+ * - general: what kind of thing is wrong ("You're missing a flag")
+ * - specific: what is wrong, without the answer ("You're missing the flag that does this: save to devDependencies")
+ * - answer: what to type ("Add --save-dev")
+ */
+export type HintLevel = 'general' | 'specific' | 'answer';
+
+/**
+ * Lowercase the first letter of a description so it reads inside a sentence
+ */
+function lowerFirst(text: string): string {
+  return text.charAt(0).toLowerCase() + text.slice(1);
+}
+
+/**
+ * Format a flag with its values, e.g. "--omit=dev --omit=optional"
+ */
+function formatFlag(flag: string, values: string[] = []): string {
+  return values.length > 0 ? values.map(value => `${flag}=${value}`).join(' ') : flag;
+}
+
+/**
+ * Get the package two arguments both install from the registry, when only their versions differ
+ */
+function getSharedPackageName(expected: string, actual: string): string | null {
+  const expectedSpec = parsePackageSpec(expected);
+  const actualSpec = parsePackageSpec(actual);
+  if (!expectedSpec?.name || !actualSpec || !isRegistrySpec(expectedSpec) || !isRegistrySpec(actualSpec)) {
+    return null;
+  }
+  return expectedSpec.name === actualSpec.name ? expectedSpec.name : null;
+}
+
+/**
+ * Describe one difference at a hint level
+ */
+export function getDifferenceHint(difference: CommandDifference, level: HintLevel): string {
+  const { target, description } = difference;
+  const expected = difference.expected || [];
+  const actual = difference.actual || [];
+
+  switch (difference.kind) {
+    case 'command':
+      if (level === 'general') return 'That\'s not the right command';
+      if (level === 'specific' && description) return `Wrong command. You need the one that does this: ${lowerFirst(description)}`;
+      return `Use npm ${expected[0]}`;
+    case 'subcommand':
+      if (level === 'general') return 'That\'s not the right subcommand';
+      if (level === 'specific' && description) return `Wrong subcommand. You need the one that does this: ${lowerFirst(description)}`;
+      return `Use npm ${expected[0]}`;
+    case 'missing-flag':
+      if (level === 'general') return 'You\'re missing a flag';
+      if (level === 'specific') return description ? `You're missing the flag that does this: ${lowerFirst(description)}` : 'You\'re missing a flag';
+      return `Add ${formatFlag(target, expected)}`;
+    case 'extra-flag':
+      if (level === 'general') return 'You used a flag this task doesn\'t need';
+      if (level === 'specific') return `${target} isn't needed for this task`;
+      return `Remove ${target}`;
+    case 'unknown-flag':
+      if (level === 'general') return 'One of your flags doesn\'t exist';
+      return [`There is no ${target} flag`, formatSuggestions(difference.suggestions || [])].filter(Boolean).join('. ');
+    case 'flag-value':
+      if (level === 'general') return 'Check the values of your flags';
+      if (level === 'specific') return actual.length > 0 ? `${target} has the wrong value` : `${target} needs a value`;
+      return `Use ${formatFlag(target, expected)}`;
+    case 'missing-argument':
+      if (level === 'general') return 'You\'re missing an argument';
+      if (level === 'specific') return `You're missing the ${target}`;
+      return `Add ${expected.join(' ')}`;
+    case 'extra-argument':
+      if (level === 'general') return 'You have an argument this task doesn\'t need';
+      if (level === 'specific') return `${actual.join(' ')} isn't needed for this task`;
+      return `Remove ${actual.join(' ')}`;
+    case 'wrong-argument': {
+      if (level === 'general') return 'Check your arguments';
+      const packageName = getSharedPackageName(expected[0], actual[0]);
+      if (level === 'specific' && packageName) {
+        return actual[0] === packageName ? `${packageName} needs a version` : `${actual[0]} is the wrong version of ${packageName}`;
+      }
+      if (level === 'specific') return `${actual[0]} is the wrong ${target}`;
+      return `Use ${expected[0]} as the ${target}`;
+    }
+    case 'pass-through':
+      if (level === 'general') return 'Check the arguments after --';
+      if (level === 'specific') {
+        if (expected.length === 0) return 'This task doesn\'t need arguments after --';
+        return actual.length > 0 ? 'The arguments after -- are different' : 'You\'re missing the arguments after --';
+      }
+      return expected.length > 0 ? `Pass ${expected.join(' ')} after --` : 'Remove -- and the arguments after it';
+  }
+}
+
+/**
+ * Describe all differences at a hint level as sentences
+ * Hints that would repeat at the general level are only given once
+ */
+export function formatDifferences(differences: CommandDifference[], level: HintLevel): string {
+  const hints = [...new Set(differences.map(difference => getDifferenceHint(difference, level)))];
+  return hints.map(hint => (/[.?!]$/.test(hint) ? hint : `${hint}.`)).join(' ');
+}
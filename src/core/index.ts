@@ -4,5 +4,25 @@
  */
 
 export * from './commands';
+export * from './tokenizer';
+export * from './suggestions';
 export * from './parser';
+export * from './feedback';
+export * from './scoring';
+export * from './taskRules';
+export * from './taskGoals';
+export * from './taskLoader';
+export * from './taskData';
+export * from './curriculum';
+export * from './contentCheck';
+export * from './progressSchema';
+export * from './attemptHistory';
+export * from './mastery';
+export * from './parameterSchema';
+export * from './semver';
+export * from './packageSpec';
+export * from './registry';
+export * from './projectState';
+export * from './outputs';
+export * from './executor';
 export * from './taskSystem';
@@ -0,0 +1,534 @@
+/**
+ * Legacy Task Keys
+ * Keys of the tasks that progress saved before version 2 referred to by number (task 1 is the first key)
+ * Version 1 saved the original 525-task list; null marks a task that was removed without a replacement
+ * Frozen: never edit, even when tasks are added, removed or reordered
+ */
+
+export const V1_TASK_KEYS: (string | null)[] = [
+  'init.initialize-a-new-project',
+  'init.initialize-project-with-default-settings',
+  'init.initialize-a-vite-project',
+  'init.initialize-vite-project-named-my-app',
+  'init.initialize-with-vitejs-app-initializer',
+  'init.initialize-with-latest-react-app',
+  'init.initialize-vite-with-react-template',
+  'init.initialize-with-author-name-john-doe',
+  'init.initialize-with-full-author-info',
+  'init.initialize-with-mit-license',
+  'init.initialize-with-version-0-1-0',
+  'init.initialize-with-es-module-type',
+  'init.initialize-with-custom-init-script',
+  'init.initialize-as-private-package',
+  'init.initialize-with-scope-acmecorp',
+  'init.force-reinitialize-package',
+  'init.initialize-in-workspace-packages-frontend',
+  'init.initialize-all-workspaces',
+  'init.initialize-workspace-packages-api-with-vite',
+  'init.initialize-workspaces-including-root',
+  'install.install-lodash-package',
+  'install.install-multiple-packages',
+  'install.install-specific-version',
+  'install.install-latest-version',
+  'install.install-from-folder',
+  'install.install-from-tarball-file',
+  'install.install-from-tarball-url',
+  'install.install-from-git-url',
+  'install.install-from-github-shortcut',
+  'install.install-from-github-with-branch',
+  'install.install-from-gitlab',
+  'install.install-from-gist',
+  'install.install-without-saving',
+  'install.install-with-exact-version',
+  'install.install-globally',
+  'install.install-with-hoisted-strategy',
+  'install.install-with-nested-strategy',
+  'install.install-with-shallow-strategy',
+  'install.install-with-linked-strategy',
+  'install.install-omitting-dev-dependencies',
+  'install.install-omitting-peer-dependencies',
+  'install.install-including-optional-dependencies',
+  'install.install-with-strict-peer-deps',
+  'install.install-with-prefer-dedupe',
+  'install.install-lodash-without-package-lock',
+  'install.update-only-package-lock',
+  'install.install-with-foreground-scripts',
+  'install.install-without-running-scripts',
+  'install.install-lodash-without-audit',
+  'install.install-versions-before-date',
+  'install.install-without-bin-links',
+  'install.install-without-funding-info',
+  'install.dry-run-express-installation',
+  'install.install-for-specific-cpu',
+  'install.install-for-specific-os',
+  'install.install-for-specific-libc',
+  'install.install-in-specific-workspace',
+  'install.install-in-all-workspaces',
+  'install.install-in-workspace-root',
+  'install.install-file-dependencies-as-regular-packages',
+  'install.install-as-dev-dependency',
+  'install.install-as-optional-dependency',
+  'install.install-as-bundled-dependency',
+  'uninstall.uninstall-lodash-package',
+  'uninstall.uninstall-multiple-packages',
+  'uninstall.uninstall-without-updating-package-json',
+  'uninstall.uninstall-globally',
+  'uninstall.uninstall-from-specific-workspace',
+  'uninstall.uninstall-from-all-workspaces',
+  'uninstall.uninstall-from-workspaces-including-root',
+  'uninstall.uninstall-with-install-links',
+  'ci.clean-install-from-lock-file',
+  'ci.clean-install-with-nested-strategy',
+  'ci.clean-install-omitting-dev-dependencies',
+  'ci.clean-install-including-dev-dependencies',
+  'ci.clean-install-with-strict-peer-deps',
+  'ci.clean-install-with-foreground-scripts',
+  'ci.clean-install-without-running-scripts',
+  'ci.clean-install-without-audit',
+  'ci.clean-install-without-bin-links',
+  'ci.clean-install-without-funding-info',
+  'ci.dry-run-clean-install',
+  'ci.clean-install-in-specific-workspace',
+  'ci.clean-install-all-workspaces',
+  'ci.clean-install-workspaces-including-root',
+  'ci.clean-install-with-install-links',
+  'update.update-all-packages',
+  'update.update-specific-package',
+  'update.update-without-saving',
+  'update.update-global-packages',
+  'update.update-with-nested-strategy',
+  'update.update-omitting-dev-dependencies',
+  'update.update-including-optional-dependencies',
+  'update.update-with-strict-peer-deps',
+  'update.update-without-package-lock',
+  'update.update-with-foreground-scripts',
+  'update.update-without-running-scripts',
+  'update.update-without-audit',
+  'update.update-to-versions-before-date',
+  'update.update-without-bin-links',
+  'update.update-without-funding-info',
+  'update.dry-run-update',
+  'update.update-in-specific-workspace',
+  'update.update-all-workspaces',
+  'update.update-workspaces-including-root',
+  'update.update-with-install-links',
+  'ls.list-installed-packages',
+  'ls.list-all-dependencies',
+  'ls.list-packages-as-json',
+  'ls.list-with-extended-information',
+  'ls.list-in-parseable-format',
+  'ls.list-global-packages',
+  'ls.list-with-depth-limit',
+  'ls.list-omitting-dev-dependencies',
+  'ls.list-including-optional-dependencies',
+  'ls.list-only-linked-packages',
+  'ls.list-from-package-lock-only',
+  'ls.list-without-unicode',
+  'ls.list-specific-workspace',
+  'ls.list-all-workspaces',
+  'ls.list-workspaces-including-root',
+  'ls.list-including-symlinked-packages',
+  'outdated.check-for-outdated-packages',
+  'outdated.check-all-packages-for-updates',
+  'outdated.outdated-packages-as-json',
+  'outdated.outdated-with-extended-info',
+  'outdated.outdated-in-parseable-format',
+  'outdated.check-global-packages',
+  'outdated.outdated-before-date',
+  'outdated.check-specific-workspace',
+  'audit.run-security-audit',
+  'audit.fix-security-vulnerabilities',
+  'audit.verify-package-signatures',
+  'audit.audit-with-level-threshold',
+  'audit.audit-dry-run-fixes',
+  'audit.force-audit-fix',
+  'audit.audit-report-as-json',
+  'audit.audit-package-lock-only',
+  'audit.audit-without-package-lock',
+  'audit.audit-omitting-dev-dependencies',
+  'audit.audit-including-optional-dependencies',
+  'audit.audit-fix-with-foreground-scripts',
+  'audit.audit-fix-without-running-scripts',
+  'audit.audit-specific-workspace',
+  'audit.audit-all-workspaces',
+  'audit.audit-workspaces-including-root',
+  'audit.audit-fix-with-install-links',
+  'run.list-available-scripts',
+  'run.run-build-script',
+  'run.run-script-with-arguments',
+  'run.run-script-in-specific-workspace',
+  'run.run-script-in-all-workspaces',
+  'run.include-root-in-workspace-runs',
+  'run.run-script-if-present',
+  'run.skip-pre-post-scripts',
+  'run.run-scripts-in-foreground',
+  'run.use-custom-shell',
+  'test.run-tests',
+  'test.run-tests-with-arguments',
+  'test.test-without-pre-post-scripts',
+  'test.test-with-custom-shell',
+  'start.start-application',
+  'start.start-with-arguments',
+  'start.start-without-pre-post-scripts',
+  'start.start-with-custom-shell',
+  'stop.stop-application',
+  'stop.stop-with-arguments',
+  'stop.stop-without-pre-post-scripts',
+  'stop.stop-with-custom-shell',
+  'restart.restart-application',
+  'restart.restart-with-arguments',
+  'restart.restart-without-pre-post-scripts',
+  'restart.restart-with-custom-shell',
+  'install-test.install-and-test',
+  'install-test.install-package-and-test',
+  'install-test.install-temp-and-test',
+  'install-test.install-exact-version-and-test',
+  'install-test.install-globally-and-test',
+  'install-test.install-with-hoisted-strategy-and-test',
+  'install-test.install-with-nested-strategy-and-test',
+  'install-test.install-with-shallow-strategy-and-test',
+  'install-test.install-with-linked-strategy-and-test',
+  'install-test.install-without-dev-deps-and-test',
+  'install-test.install-without-peer-deps-and-test',
+  'install-test.install-with-optional-deps-and-test',
+  'install-test.install-with-strict-peers-and-test',
+  'install-test.install-preferring-deduplication-and-test',
+  'install-test.install-without-lockfile-and-test',
+  'install-test.update-lockfile-only-and-test',
+  'install-test.install-with-foreground-scripts-and-test',
+  'install-test.install-without-scripts-and-test',
+  'install-test.install-without-audit-and-test',
+  'install-test.install-before-date-and-test',
+  'install-test.install-without-bin-links-and-test',
+  'install-test.install-without-fund-message-and-test',
+  'install-test.dry-run-install-and-test',
+  'install-test.install-for-specific-cpu-and-test',
+  'install-test.install-for-specific-os-and-test',
+  'install-test.install-for-specific-libc-and-test',
+  'install-test.install-in-workspace-and-test',
+  'install-test.install-in-all-workspaces-and-test',
+  'install-test.install-with-root-workspace-and-test',
+  'install-test.install-file-deps-as-packages-and-test',
+  'install-ci-test.clean-install-and-test',
+  'install-ci-test.ci-test-with-install-strategy',
+  'install-ci-test.ci-test-omitting-dev-deps',
+  'install-ci-test.ci-test-including-optional',
+  'install-ci-test.ci-test-with-strict-peers',
+  'install-ci-test.ci-test-with-foreground-scripts',
+  'install-ci-test.ci-test-without-scripts',
+  'install-ci-test.ci-test-without-audit',
+  'install-ci-test.ci-test-without-bin-links',
+  'install-ci-test.ci-test-without-fund-message',
+  'install-ci-test.dry-run-ci-test',
+  'install-ci-test.ci-test-in-workspace',
+  'install-ci-test.ci-test-all-workspaces',
+  'install-ci-test.ci-test-with-root-workspace',
+  'install-ci-test.ci-test-with-install-links',
+  'version.bump-patch-version',
+  'version.bump-minor-version',
+  'version.bump-major-version',
+  'version.set-specific-version',
+  'version.bump-prepatch-version',
+  'version.bump-prerelease-version',
+  'version.version-from-git-tag',
+  'version.allow-same-version',
+  'version.version-without-commit-hooks',
+  'version.version-without-git-tag',
+  'version.version-with-json-output',
+  'version.version-with-prerelease-id',
+  'version.version-with-signed-tag',
+  'version.version-specific-workspace',
+  'version.version-all-workspaces',
+  'version.version-without-workspace-update',
+  'version.version-with-root-workspace',
+  'version.version-without-scripts',
+  'publish.publish-package',
+  'publish.publish-tarball',
+  'publish.publish-folder',
+  'publish.publish-with-tag',
+  'publish.publish-as-public',
+  'publish.publish-as-restricted',
+  'publish.dry-run-publish',
+  'publish.publish-with-2fa',
+  'publish.publish-specific-workspace',
+  'publish.publish-all-workspaces',
+  'publish.publish-with-root-workspace',
+  'publish.publish-with-provenance',
+  'publish.publish-with-provenance-file',
+  'unpublish.unpublish-specific-version',
+  'unpublish.unpublish-entire-package',
+  'unpublish.dry-run-unpublish',
+  'unpublish.force-unpublish',
+  'unpublish.unpublish-workspace',
+  'unpublish.unpublish-all-workspaces',
+  'deprecate.deprecate-specific-version',
+  'deprecate.deprecate-version-range',
+  'deprecate.undeprecate-package',
+  'deprecate.deprecate-on-custom-registry',
+  'deprecate.deprecate-with-2fa',
+  'deprecate.dry-run-deprecate',
+  'search.search-for-packages',
+  'search.search-multiple-terms',
+  'search.search-by-maintainer',
+  'search.search-with-regex',
+  'search.search-with-json-output',
+  'search.search-without-colors',
+  'search.search-with-parseable-output',
+  'search.search-without-descriptions',
+  'search.limit-search-results',
+  'search.search-with-additional-filters',
+  'search.search-excluding-terms',
+  'search.search-custom-registry',
+  'search.search-with-online-preference',
+  'search.search-with-offline-preference',
+  'search.search-offline',
+  'view.view-package-info',
+  'view.view-specific-version',
+  'view.view-specific-field',
+  'view.view-nested-field',
+  'view.view-current-project',
+  'view.view-array-field',
+  'view.view-array-element',
+  'view.view-multiple-fields',
+  'view.view-version-history',
+  'view.view-with-json-output',
+  'view.view-workspace-package',
+  'view.view-all-workspaces',
+  'view.view-with-root-workspace',
+  'explain.explain-package',
+  'explain.explain-by-folder',
+  'explain.explain-duplicated-package',
+  'explain.explain-with-json-output',
+  'explain.explain-in-workspace',
+  'fund.list-funding-info',
+  'fund.fund-specific-package',
+  'fund.fund-with-json-output',
+  'fund.fund-without-browser',
+  'fund.fund-without-unicode',
+  'fund.fund-in-workspace',
+  'fund.fund-with-specific-url',
+  'config.set-config-value',
+  'config.get-config-value',
+  'config.get-multiple-config-values',
+  'config.list-all-config',
+  'config.delete-config-value',
+  'config.edit-config-file',
+  'config.fix-config-issues',
+  'config.list-config-as-json',
+  'config.set-global-config',
+  'config.edit-global-config',
+  'config.edit-with-specific-editor',
+  'config.set-in-project-config',
+  'config.list-with-defaults',
+  'get.get-single-value',
+  'get.get-all-config',
+  'get.get-multiple-values',
+  'set.set-single-value',
+  'set.set-multiple-values',
+  'set.remove-config-value',
+  'set.set-global-value',
+  'set.set-in-specific-location',
+  'cache.add-package-to-cache',
+  'cache.clean-specific-cache-entry',
+  'cache.clean-all-cache',
+  'cache.list-all-cache-entries',
+  'cache.list-specific-package-cache',
+  'cache.verify-cache-integrity',
+  'cache.list-npx-cache',
+  'cache.remove-npx-cache-entry',
+  'cache.get-npx-cache-info',
+  'cache.use-custom-cache-location',
+  'prune.remove-extraneous-packages',
+  'prune.prune-specific-package',
+  'prune.prune-dev-dependencies',
+  'prune.prune-optional-dependencies',
+  'prune.prune-peer-dependencies',
+  'prune.include-dev-dependencies',
+  'prune.dry-run-prune',
+  'prune.prune-with-json-output',
+  'prune.foreground-scripts-during-prune',
+  'prune.ignore-scripts-during-prune',
+  'prune.prune-in-workspace',
+  'prune.prune-all-workspaces',
+  'prune.include-workspace-root',
+  'prune.prune-with-install-links',
+  'dedupe.deduplicate-packages',
+  'dedupe.dedupe-with-hoisted-strategy',
+  'dedupe.dedupe-with-nested-strategy',
+  'dedupe.dedupe-with-shallow-strategy',
+  'dedupe.dedupe-with-linked-strategy',
+  'dedupe.strict-peer-dependencies',
+  'dedupe.dedupe-without-package-lock',
+  'dedupe.omit-dev-dependencies',
+  'dedupe.omit-optional-dependencies',
+  'dedupe.omit-peer-dependencies',
+  'dedupe.include-dev-dependencies',
+  'dedupe.ignore-scripts-during-dedupe',
+  'dedupe.skip-audit-during-dedupe',
+  'dedupe.no-bin-links-during-dedupe',
+  'dedupe.no-funding-message',
+  'dedupe.dry-run-dedupe',
+  'dedupe.dedupe-in-workspace',
+  'dedupe.dedupe-all-workspaces',
+  'dedupe.include-workspace-root',
+  'dedupe.dedupe-with-install-links',
+  'find-dupes.find-duplicate-packages',
+  'find-dupes.find-dupes-with-hoisted',
+  'find-dupes.find-dupes-with-nested',
+  'find-dupes.find-dupes-with-shallow',
+  'find-dupes.find-dupes-with-linked',
+  'find-dupes.strict-peer-deps-check',
+  'find-dupes.find-dupes-without-lock',
+  'find-dupes.find-dupes-omit-dev',
+  'find-dupes.find-dupes-omit-optional',
+  'find-dupes.find-dupes-omit-peer',
+  'find-dupes.find-dupes-include-dev',
+  'find-dupes.find-dupes-ignore-scripts',
+  'find-dupes.find-dupes-no-audit',
+  'find-dupes.find-dupes-no-bin-links',
+  'find-dupes.find-dupes-no-funding',
+  'find-dupes.find-dupes-in-workspace',
+  'find-dupes.find-dupes-all-workspaces',
+  'find-dupes.find-dupes-workspace-root',
+  'find-dupes.find-dupes-install-links',
+  'rebuild.rebuild-all-packages',
+  'rebuild.rebuild-specific-package',
+  'rebuild.rebuild-global-packages',
+  'rebuild.rebuild-without-bin-links',
+  'rebuild.foreground-scripts-rebuild',
+  'rebuild.ignore-scripts-rebuild',
+  'rebuild.rebuild-in-workspace',
+  'rebuild.rebuild-all-workspaces',
+  'rebuild.rebuild-workspace-root',
+  'rebuild.rebuild-with-install-links',
+  'list.use-list-command',
+  'list.all',
+  'list.json',
+  'list.long',
+  'list.parseable',
+  'list.global',
+  'list.depth',
+  'list.omit',
+  'list.include',
+  'list.link',
+  'list.package-lock-only',
+  'list.no-unicode',
+  'list.workspace',
+  'list.workspaces',
+  'list.include-workspace-root',
+  'list.install-links',
+  'll.use-ll-command',
+  'll.global',
+  'll.depth',
+  'doctor.use-doctor-command',
+  'link.use-link-command',
+  'link.save',
+  'link.save-prod',
+  'link.no-save',
+  'link.save-dev',
+  'link.save-exact',
+  'link.save-optional',
+  'link.save-peer',
+  'link.save-bundle',
+  'link.global',
+  'link.install-strategy',
+  'link.legacy-bundling',
+  'link.global-style',
+  'link.strict-peer-deps',
+  'link.no-package-lock',
+  'link.omit',
+  'link.include',
+  'link.ignore-scripts',
+  'link.no-audit',
+  'link.no-bin-links',
+  'link.no-fund',
+  'link.dry-run',
+  'link.workspace',
+  'link.workspaces',
+  'link.include-workspace-root',
+  'link.install-links',
+  'exec.use-exec-command',
+  'exec.package',
+  'exec.call',
+  'exec.workspace',
+  'exec.workspaces',
+  'exec.include-workspace-root',
+  'help.use-help-command',
+  'help-search.search-the-npm-docs',
+  null, // npm hook
+  'hook.watch-a-package-with-a-hook',
+  'hook.list-your-hooks',
+  'hook.remove-a-hook',
+  null, // npm org
+  'org.add-an-organization-member',
+  'org.list-organization-members',
+  null, // npm owner
+  'owner.add-a-package-maintainer',
+  'owner.remove-a-package-maintainer',
+  'owner.list-package-maintainers',
+  'pack.use-pack-command',
+  'pack.dry-run',
+  'ping.use-ping-command',
+  'prefix.use-prefix-command',
+  'prefix.g',
+  null, // npm profile
+  'profile.show-your-registry-profile',
+  'profile.change-your-profile-name',
+  'repo.use-repo-command',
+  'root.use-root-command',
+  'root.g',
+  'set-script.add-a-script',
+  'shrinkwrap.use-shrinkwrap-command',
+  'star.star-a-package',
+  'stars.use-stars-command',
+  null, // npm team
+  'team.create-a-team',
+  'team.delete-a-team',
+  'team.add-a-user-to-a-team',
+  'team.remove-a-user-from-a-team',
+  'team.list-teams',
+  'token.use-token-command',
+  'token.list-your-access-tokens',
+  'token.create-an-access-token',
+  'token.revoke-an-access-token',
+  'unstar.unstar-a-package',
+  'whoami.use-whoami-command',
+  null, // npm access
+  'access.make-a-package-public',
+  null, // npm access restricted
+  'access.grant-a-team-access',
+  'access.revoke-team-access',
+  'adduser.use-adduser-command',
+  'adduser.registry',
+  'adduser.scope',
+  'adduser.auth-type',
+  'login.use-login-command',
+  'login.registry',
+  'login.scope',
+  'login.auth-type',
+  'logout.use-logout-command',
+  'logout.registry',
+  'logout.scope',
+  'bugs.use-bugs-command',
+  'docs.use-docs-command',
+  'edit.edit-an-installed-package',
+  'explore.explore-an-installed-package',
+  'diff.use-diff-command',
+  'dist-tag.use-dist-tag-command',
+  'dist-tag.tag-a-version',
+  'dist-tag.remove-a-tag',
+  'dist-tag.list-dist-tags',
+  'undeprecate.undeprecate-a-version',
+  'undeprecate.registry',
+  'undeprecate.otp',
+  'completion.use-completion-command',
+  'bin.use-bin-command',
+  'bin.g',
+  null, // npm pkg
+  'pkg.read-a-package-json-field',
+  'pkg.set-a-package-json-field',
+  'pkg.delete-a-package-json-field',
+  'query.query-direct-dependencies',
+  'sbom.use-sbom-command',
+  'sbom.format',
+];
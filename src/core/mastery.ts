@@ -0,0 +1,138 @@
+/**
+ * Mastery
+ * How well each command and flag is known, from the answers given to the tasks that practice them
+ */
+
+import { parseCommand } from './parser';
+import { getTaskForStep, Task, TaskAttempt, UserProgress } from './taskSystem';
+
+export interface SkillMastery {
+  command: string; // Command name, e.g. "install"
+  parameter?: string; // Flag name for parameter skills, e.g. "--save-dev"
+  mastery: number; // 0-100
+  attempts: number;
+  lastPracticedAt: number; // Timestamp of the latest answer
+}
+
+export interface WeakestSkills {
+  commands: SkillMastery[];
+  parameters: SkillMastery[];
+}
+
+// An answer's weight halves every week, so recent answers count most
+const HALF_LIFE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Share of an answer's score that counts when the hint was shown; answers after the solution count nothing
+const HINT_CREDIT = 0.5;
+
+// Weight of one answer given just now. Skills with less recent evidence than this are blended toward 0,
+// so a perfect answer from months ago no longer shows as mastered
+const FULL_EVIDENCE_WEIGHT = 1;
+
+interface SkillTotals {
+  command: string;
+  parameter?: string;
+  weightedScore: number;
+  weight: number;
+  attempts: number;
+  lastPracticedAt: number;
+}
+
+/**
+ * Get the command and flags a task teaches, from its expected answer (for scenarios, the answered step's)
+ */
+function getTaskSkills(task: Task, step = 0): { command: string; parameters: string[] } | null {
+  const parsed = parseCommand(getTaskForStep(task, step).expectedCommand);
+  return parsed.command ? { command: parsed.command.name, parameters: parsed.parameters } : null;
+}
+
+/**
+ * Score an answer for mastery, taking the help used into account
+ */
+function getCredit(attempt: TaskAttempt): number {
+  if (attempt.solutionShown) {
+    return 0;
+  }
+  return attempt.hintShown ? attempt.score * HINT_CREDIT : attempt.score;
+}
+
+/**
+ * Add up the recency-weighted scores of every answer per skill
+ */
+function collectSkills(progress: UserProgress, tasks: Task[], now: number): Map<string, SkillTotals> {
+  const skills = new Map<string, SkillTotals>();
+  const add = (id: string, command: string, parameter: string | undefined, attempt: TaskAttempt) => {
+    const totals = skills.get(id) || { command, parameter, weightedScore: 0, weight: 0, attempts: 0, lastPracticedAt: 0 };
+    const weight = Math.pow(0.5, Math.max(0, now - attempt.timestamp) / HALF_LIFE_MS);
+    totals.weightedScore += getCredit(attempt) * weight;
+    totals.weight += weight;
+    totals.attempts++;
+    totals.lastPracticedAt = Math.max(totals.lastPracticedAt, attempt.timestamp);
+    skills.set(id, totals);
+  };
+
+  for (const task of tasks) {
+    const taughtBySteps = new Map<number, ReturnType<typeof getTaskSkills>>();
+    for (const attempt of progress.attempts[task.key] || []) {
+      const step = attempt.step ?? 0;
+      if (!taughtBySteps.has(step)) {
+        taughtBySteps.set(step, getTaskSkills(task, step));
+      }
+      const taught = taughtBySteps.get(step);
+      if (!taught) {
+        continue;
+      }
+      add(taught.command, taught.command, undefined, attempt);
+      for (const parameter of new Set(taught.parameters)) {
+        add(`${taught.command} ${parameter}`, taught.command, parameter, attempt);
+      }
+    }
+  }
+
+  return skills;
+}
+
+/**
+ * Turn skill totals into mastery scores, weakest first
+ */
+function toMastery(totals: SkillTotals[]): SkillMastery[] {
+  return totals
+    .map(({ command, parameter, weightedScore, weight, attempts, lastPracticedAt }) => ({
+      command,
+      ...(parameter ? { parameter } : {}),
+      mastery: Math.round(weightedScore / Math.max(weight, FULL_EVIDENCE_WEIGHT)),
+      attempts,
+      lastPracticedAt,
+    }))
+    .sort((a, b) => a.mastery - b.mastery || a.lastPracticedAt - b.lastPracticedAt);
+}
+
+/**
+ * Get mastery for every command that has been practiced, weakest first
+ */
+export function getCommandMastery(progress: UserProgress, tasks: Task[], now: number = Date.now()): SkillMastery[] {
+  return toMastery([...collectSkills(progress, tasks, now).values()].filter(skill => !skill.parameter));
+}
+
+/**
+ * Get mastery for every flag that has been practiced, weakest first
+ */
+export function getParameterMastery(progress: UserProgress, tasks: Task[], now: number = Date.now()): SkillMastery[] {
+  return toMastery([...collectSkills(progress, tasks, now).values()].filter(skill => skill.parameter));
+}
+
+/**
+ * Get the commands and flags with the lowest mastery
+ */
+export function getWeakestSkills(
+  progress: UserProgress,
+  tasks: Task[],
+  limit = 5,
+  now: number = Date.now()
+): WeakestSkills {
+  const skills = toMastery([...collectSkills(progress, tasks, now).values()]);
+  return {
+    commands: skills.filter(skill => !skill.parameter).slice(0, limit),
+    parameters: skills.filter(skill => skill.parameter).slice(0, limit),
+  };
+}
@@ -0,0 +1,1013 @@
+/**
+ * Output Renderers
+ * Produce realistic npm output for a parsed command, based on its
+ * arguments, flags and the simulated project before/after it ran
+ */
+
+import type { ParsedCommand } from './parser';
+import {
+  ProjectState,
+  PackageChanges,
+  InstalledPackage,
+  OutdatedEntry,
+  hasFlag,
+  getFlagValue,
+  getFlagValues,
+  getDeclaredDependencies,
+  getOutdatedPackages,
+  getPackageJsonField,
+  getConfigValue,
+  findVulnerabilities,
+  CONFIG_DEFAULTS,
+  splitPackageArg,
+  PROJECT_PATH,
+  GLOBAL_PREFIX,
+  USER_NPMRC_PATH,
+} from './projectState';
+import { getParameterDefault } from './parameterSchema';
+import { getRegistryPackage, resolveVersion, getTarballUrl, MOCK_REGISTRY, REGISTRY_URL, SEVERITY_LEVELS, Severity } from './registry';
+
+export interface RenderContext {
+  parsed: ParsedCommand;
+  before: ProjectState;
+  after: ProjectState;
+  changes: PackageChanges;
+  errors: string[];
+  dryRun: boolean;
+}
+
+export type OutputRenderer = (context: RenderContext) => string;
+
+const NODE_VERSION = '20.11.0';
+
+/**
+ * Pluralize "package"
+ */
+function packages(count: number): string {
+  return `${count} package${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Pad rows into aligned columns
+ */
+function formatTable(rows: string[][]): string {
+  const widths = rows[0].map((_, col) => Math.max(...rows.map(row => row[col].length)));
+  return rows
+    .map(row => row.map((cell, col) => cell.padEnd(widths[col])).join('  ').trimEnd())
+    .join('\n');
+}
+
+/**
+ * Pretty-print JSON the way npm does
+ */
+function json(value: unknown): string {
+  return JSON.stringify(value, null, 2);
+}
+
+/**
+ * Get the schema default for one of the command's parameters
+ */
+function getDefault(parsed: ParsedCommand, flag: string): string | undefined {
+  return parsed.command ? getParameterDefault(parsed.command, flag) : undefined;
+}
+
+/**
+ * Format an npm error block
+ */
+function npmError(code: string, message: string): string {
+  return [`npm error code ${code}`, ...message.split('\n').map(line => `npm error ${line}`)].join('\n');
+}
+
+/**
+ * Count vulnerabilities by severity, e.g. "2 vulnerabilities (1 moderate, 1 high)"
+ */
+function formatVulnerabilityCounts(state: ProjectState): string {
+  const vulnerabilities = findVulnerabilities(state.nodeModules);
+  if (vulnerabilities.length === 0) {
+    return 'found 0 vulnerabilities';
+  }
+
+  const counts = SEVERITY_LEVELS
+    .map(level => ({ level, count: vulnerabilities.filter(v => v.advisory.severity === level).length }))
+    .filter(entry => entry.count > 0)
+    .map(entry => `${entry.count} ${entry.level}`);
+  const total = vulnerabilities.length;
+  return `${total} ${total === 1 ? 'vulnerability' : 'vulnerabilities'} (${counts.join(', ')})`;
+}
+
+/**
+ * Summarize vulnerabilities like the tail of "npm install"
+ */
+function formatVulnerabilitySummary(state: ProjectState): string {
+  const counts = formatVulnerabilityCounts(state);
+  if (findVulnerabilities(state.nodeModules).length === 0) {
+    return counts;
+  }
+  return `${counts}\n\nTo address all issues, run:\n  npm audit fix\n\nRun \`npm audit\` for details.`;
+}
+
+/**
+ * Get installed packages that declare a funding URL
+ */
+function getFundedPackages(state: ProjectState): { pkg: InstalledPackage; url: string }[] {
+  return Object.values(state.nodeModules)
+    .map(pkg => ({ pkg, url: getRegistryPackage(pkg.name).funding || '' }))
+    .filter(entry => entry.url !== '');
+}
+
+/**
+ * Render the summary npm prints after changing node_modules
+ */
+function formatReifySummary(context: RenderContext, global = hasFlag(context.parsed, '--global', '-g')): string {
+  const { parsed, after, changes, dryRun } = context;
+
+  if (hasFlag(parsed, '--json')) {
+    return json({
+      add: changes.added.map(name => ({ name, version: after.nodeModules[name]?.version })),
+      remove: changes.removed,
+      change: changes.changed,
+      added: changes.added.length,
+      removed: changes.removed.length,
+      changed: changes.changed.length,
+      audited: Object.keys(after.nodeModules).length + 1,
+    });
+  }
+
+  const lines: string[] = [];
+  if (dryRun) {
+    const tree = global ? after.globalPackages : after.nodeModules;
+    for (const name of changes.added) lines.push(`add ${name} ${tree[name]?.version ?? ''}`.trimEnd());
+    for (const name of changes.removed) lines.push(`remove ${name}`);
+    for (const name of changes.changed) lines.push(`change ${name} ${tree[name]?.version ?? ''}`.trimEnd());
+  }
+
+  const parts: string[] = [];
+  if (changes.added.length > 0) parts.push(`added ${packages(changes.added.length)}`);
+  if (changes.removed.length > 0) parts.push(`removed ${packages(changes.removed.length)}`);
+  if (changes.changed.length > 0) parts.push(`changed ${packages(changes.changed.length)}`);
+  const summary = parts.length > 0 ? parts.join(', ') : 'up to date';
+
+  if (global || dryRun || hasFlag(parsed, '--no-audit')) {
+    lines.push('', `${summary} in 1s${dryRun ? ' (dry run)' : ''}`);
+    return lines.join('\n');
+  }
+
+  lines.push('', `${summary}, and audited ${packages(Object.keys(after.nodeModules).length + 1)} in 1s`);
+  const funded = getFundedPackages(after).length;
+  if (funded > 0 && !hasFlag(parsed, '--no-fund')) {
+    lines.push('', `${packages(funded)} ${funded === 1 ? 'is' : 'are'} looking for funding`, '  run `npm fund` for details');
+  }
+  lines.push('', formatVulnerabilitySummary(after));
+  return lines.join('\n');
+}
+
+/**
+ * Run a package.json script, printing the lifecycle banner
+ */
+function formatScriptRun(state: ProjectState, scriptName: string, extraArgs: string[] = []): string {
+  const { name, version, scripts = {} } = state.packageJson;
+  const script = scripts[scriptName];
+  if (script === undefined) {
+    return npmError('ENOENT', `Missing script: "${scriptName}"\n\nTo see a list of scripts, run:\n  npm run`);
+  }
+
+  const commandLine = [script, ...extraArgs].join(' ');
+  const lines = ['', `> ${name}@${version} ${scriptName}`, `> ${commandLine}`, ''];
+  if (script.startsWith('jest')) {
+    lines.push('PASS  ./app.test.js', '  ✓ renders correctly (5ms)', '', 'Test Suites: 1 passed, 1 total', 'Tests:       1 passed, 1 total');
+  } else if (script.startsWith('node index.js')) {
+    lines.push('Server is running on port 3000');
+  }
+  return lines.join('\n').trimEnd();
+}
+
+/**
+ * Get the project's dependency list printed by "npm ls"
+ */
+function getTopLevelNames(state: ProjectState): string[] {
+  const declared = getDeclaredDependencies(state.packageJson);
+  return Array.from(new Set([
+    ...Object.keys(declared),
+    ...Object.keys(state.nodeModules).filter(name => state.nodeModules[name].extraneous),
+  ])).sort();
+}
+
+/**
+ * Label a node in the "npm ls" tree
+ */
+function describeNode(state: ProjectState, name: string, long: boolean): string {
+  const pkg = state.nodeModules[name];
+  if (!pkg) {
+    const range = getDeclaredDependencies(state.packageJson)[name]?.range ?? '';
+    return `UNMET DEPENDENCY ${name}@${range}`;
+  }
+  const suffix = pkg.extraneous ? ' extraneous' : '';
+  if (long) {
+    return `${name}@${pkg.version}${suffix}\n${getRegistryPackage(name).description}`;
+  }
+  return `${name}@${pkg.version}${suffix}`;
+}
+
+/**
+ * Render the "npm ls" tree, following dependencies up to the given depth
+ */
+function formatTree(state: ProjectState, names: string[], options: { depth: number; long: boolean; unicode: boolean }): string {
+  const branchMid = options.unicode ? '├── ' : '+-- ';
+  const branchEnd = options.unicode ? '└── ' : '`-- ';
+  const pipe = options.unicode ? '│   ' : '|   ';
+  const lines = [`${state.packageJson.name}@${state.packageJson.version} ${PROJECT_PATH}`];
+
+  // Packages already expanded elsewhere in the tree are printed once more as "deduped"
+  const expanded = new Set<string>();
+  const walk = (names: string[], prefix: string, depth: number) => {
+    names.forEach((name, index) => {
+      const last = index === names.length - 1;
+      const [first, ...rest] = describeNode(state, name, options.long).split('\n');
+      const deduped = depth > 0 && expanded.has(name) ? ' deduped' : '';
+      lines.push(`${prefix}${last ? branchEnd : branchMid}${first}${deduped}`);
+      for (const extra of rest) {
+        lines.push(`${prefix}${last ? '    ' : pipe}${extra}`);
+      }
+
+      const pkg = state.nodeModules[name];
+      if (depth < options.depth && pkg && !deduped) {
+        expanded.add(name);
+        walk(Object.keys(pkg.dependencies).sort(), prefix + (last ? '    ' : pipe), depth + 1);
+      }
+    });
+  };
+
+  if (names.length === 0) {
+    lines.push(`${branchEnd}(empty)`);
+  } else {
+    names.forEach(name => expanded.add(name));
+    walk(names, '', 0);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Render "npm ls" / "npm ll"
+ */
+function renderList(context: RenderContext, forceLong = false): string {
+  const { parsed, after: state } = context;
+  const global = hasFlag(parsed, '--global', '-g');
+  const long = forceLong || hasFlag(parsed, '--long');
+
+  if (global) {
+    const tree = state.globalPackages;
+    const names = Object.keys(tree).sort();
+    if (hasFlag(parsed, '--json')) {
+      const dependencies: Record<string, { version: string }> = {};
+      for (const name of names) dependencies[name] = { version: tree[name].version };
+      return json({ name: 'lib', dependencies });
+    }
+    if (hasFlag(parsed, '--parseable')) {
+      return [`${GLOBAL_PREFIX}\\node_modules`, ...names.map(name => `${GLOBAL_PREFIX}\\node_modules\\${name}`)].join('\n');
+    }
+    const lines = [GLOBAL_PREFIX];
+    names.forEach((name, index) => {
+      lines.push(`${index === names.length - 1 ? '└── ' : '├── '}${name}@${tree[name].version}`);
+    });
+    return lines.join('\n');
+  }
+
+  // --omit drops top-level packages of the given types (dev, optional, peer)
+  const omit = getFlagValues(parsed, '--omit');
+  const names = getTopLevelNames(state).filter(name => {
+    const pkg = state.nodeModules[name];
+    return !(pkg?.dev && omit.includes('dev')) && !(pkg?.optional && omit.includes('optional'));
+  });
+  if (hasFlag(parsed, '--json')) {
+    const dependencies: Record<string, Record<string, unknown>> = {};
+    for (const name of names) {
+      const pkg = state.nodeModules[name];
+      dependencies[name] = pkg
+        ? { version: pkg.version, resolved: pkg.resolved, overridden: false, ...(pkg.extraneous ? { extraneous: true } : {}) }
+        : { required: getDeclaredDependencies(state.packageJson)[name]?.range, missing: true };
+    }
+    return json({ version: state.packageJson.version, name: state.packageJson.name, dependencies });
+  }
+  if (hasFlag(parsed, '--parseable')) {
+    return [PROJECT_PATH, ...names.filter(name => state.nodeModules[name]).map(name => `${PROJECT_PATH}\\node_modules\\${name}`)].join('\n');
+  }
+
+  const depth = hasFlag(parsed, '--all') ? Infinity : Number(getFlagValue(parsed, '--depth') ?? getDefault(parsed, '--depth') ?? 0);
+  return formatTree(state, names, {
+    depth,
+    long,
+    unicode: !hasFlag(parsed, '--no-unicode'),
+  });
+}
+
+/**
+ * Render "npm outdated"
+ */
+function renderOutdated(context: RenderContext): string {
+  const { parsed, after: state } = context;
+  let entries: OutdatedEntry[] = getOutdatedPackages(state);
+
+  if (hasFlag(parsed, '--global', '-g')) {
+    entries = Object.values(state.globalPackages)
+      .map((pkg: InstalledPackage) => {
+        const latest = resolveVersion(pkg.name) || pkg.version;
+        return {
+          name: pkg.name,
+          current: pkg.version,
+          wanted: latest,
+          latest,
+          location: `${GLOBAL_PREFIX}\\node_modules\\${pkg.name}`,
+          dependent: 'global',
+          type: 'dependencies' as const,
+        };
+      })
+      .filter(entry => entry.current !== entry.latest);
+  }
+
+  if (context.parsed.packageNames.length > 0) {
+    entries = entries.filter(entry => context.parsed.packageNames.includes(entry.name));
+  }
+
+  if (hasFlag(parsed, '--json')) {
+    const result: Record<string, Record<string, string | undefined>> = {};
+    for (const entry of entries) {
+      result[entry.name] = {
+        current: entry.current ?? undefined,
+        wanted: entry.wanted,
+        latest: entry.latest,
+        dependent: entry.dependent,
+        location: entry.location,
+      };
+    }
+    return json(result);
+  }
+
+  if (entries.length === 0) {
+    return '';
+  }
+
+  if (hasFlag(parsed, '--parseable')) {
+    return entries
+      .map(e => `${PROJECT_PATH}\\${e.location.replace('/', '\\')}:${e.name}@${e.wanted}:${e.name}@${e.current ?? 'MISSING'}:${e.name}@${e.latest}:${e.dependent}`)
+      .join('\n');
+  }
+
+  const long = hasFlag(parsed, '--long');
+  const header = ['Package', 'Current', 'Wanted', 'Latest', 'Location', 'Depended by'];
+  if (long) header.push('Package Type', 'Homepage');
+  const rows = entries.map(e => {
+    const row = [e.name, e.current || 'MISSING', e.wanted, e.latest, e.location, e.dependent];
+    if (long) row.push(e.type, getRegistryPackage(e.name).homepage || '');
+    return row;
+  });
+  return formatTable([header, ...rows]);
+}
+
+/**
+ * Render "npm audit" and "npm audit fix"
+ */
+function renderAudit(context: RenderContext): string {
+  const { parsed, before, after } = context;
+  const [action] = parsed.packageNames;
+
+  if (action === 'signatures') {
+    const count = Object.keys(after.nodeModules).length;
+    return `audited ${packages(count)} in 1s\n\n${packages(count)} have verified registry signatures`;
+  }
+
+  if (action === 'fix') {
+    return formatReifySummary(context);
+  }
+
+  const vulnerabilities = findVulnerabilities(before.nodeModules);
+  if (hasFlag(parsed, '--json')) {
+    const metadata: Record<Severity | 'total', number> = { info: 0, low: 0, moderate: 0, high: 0, critical: 0, total: 0 };
+    const report: Record<string, unknown> = {};
+    for (const v of vulnerabilities) {
+      metadata[v.advisory.severity]++;
+      metadata.total++;
+      report[v.advisory.name] = {
+        name: v.advisory.name,
+        severity: v.advisory.severity,
+        isDirect: Boolean(getDeclaredDependencies(before.packageJson)[v.advisory.name]),
+        via: [{ source: v.advisory.id, title: v.advisory.title, url: v.advisory.url, severity: v.advisory.severity, range: v.advisory.vulnerableRange }],
+        range: v.advisory.vulnerableRange,
+        fixAvailable: v.fixVersion !== null,
+      };
+    }
+    return json({ auditReportVersion: 2, vulnerabilities: report, metadata: { vulnerabilities: metadata } });
+  }
+
+  if (vulnerabilities.length === 0) {
+    return 'found 0 vulnerabilities';
+  }
+
+  const lines = ['# npm audit report', ''];
+  for (const v of vulnerabilities) {
+    lines.push(
+      `${v.advisory.name}  ${v.advisory.vulnerableRange}`,
+      `Severity: ${v.advisory.severity}`,
+      `${v.advisory.title} - ${v.advisory.url}`,
+      v.fixVersion ? 'fix available via `npm audit fix`' : 'No fix available',
+      `node_modules/${v.advisory.name}`,
+      ''
+    );
+  }
+  lines.push(formatVulnerabilityCounts(before), '', 'To address all issues, run:', '  npm audit fix');
+  return lines.join('\n');
+}
+
+/**
+ * Render "npm view"
+ */
+function renderView(context: RenderContext): string {
+  const { parsed, after: state } = context;
+  const [target = '.', ...fields] = parsed.packageNames;
+
+  let name: string;
+  let version: string | null;
+  let description: string;
+  let license: string;
+  let homepage: string | undefined;
+  let dependencies: Record<string, string>;
+  let distTags: Record<string, string>;
+  let versions: string[];
+
+  if (target === '.') {
+    name = state.packageJson.name;
+    version = state.packageJson.version;
+    description = state.packageJson.description || '';
+    license = String(state.packageJson.license ?? 'ISC');
+    homepage = undefined;
+    dependencies = state.packageJson.dependencies || {};
+    distTags = { latest: version };
+    versions = [version];
+  } else {
+    const { name: pkgName, spec } = splitPackageArg(target);
+    const metadata = getRegistryPackage(pkgName);
+    name = pkgName;
+    version = resolveVersion(pkgName, spec);
+    description = metadata.description;
+    license = metadata.license;
+    homepage = metadata.homepage;
+    dependencies = metadata.dependencies || {};
+    distTags = metadata.distTags;
+    versions = metadata.versions;
+  }
+
+  if (!version) {
+    return npmError('E404', `No match found for version ${target}\n\n404 '${target}' is not in this registry.`);
+  }
+
+  const document: Record<string, unknown> = {
+    name,
+    version,
+    description,
+    license,
+    homepage,
+    'dist-tags': distTags,
+    versions,
+    dependencies,
+    dist: { tarball: getTarballUrl(name, version) },
+  };
+
+  if (fields.length > 0) {
+    const values = fields.map(field => getPackageJsonField(document, field));
+    if (hasFlag(parsed, '--json')) {
+      return json(fields.length === 1 ? values[0] : Object.fromEntries(fields.map((f, i) => [f, values[i]])));
+    }
+    if (fields.length === 1) {
+      const value = values[0];
+      return typeof value === 'string' ? value : json(value);
+    }
+    return fields.map((field, i) => `${field} = ${JSON.stringify(values[i])}`).join('\n');
+  }
+
+  if (hasFlag(parsed, '--json')) {
+    return json(document);
+  }
+
+  const depNames = Object.keys(dependencies);
+  const lines = [
+    `${name}@${version} | ${license} | deps: ${depNames.length === 0 ? 'none' : depNames.length} | versions: ${versions.length}`,
+    description,
+  ];
+  if (homepage) lines.push(homepage);
+  if (depNames.length > 0) {
+    lines.push('', 'dependencies:', depNames.map(dep => `${dep}: ${dependencies[dep]}`).join(' '));
+  }
+  lines.push('', 'dist', `.tarball: ${getTarballUrl(name, version)}`, '', 'dist-tags:');
+  lines.push(Object.entries(distTags).map(([tag, v]) => `${tag}: ${v}`).join('  '));
+  return lines.join('\n');
+}
+
+/**
+ * Render "npm search"
+ */
+function renderSearch(context: RenderContext): string {
+  const { parsed } = context;
+  const terms = parsed.packageNames.map(term => term.toLowerCase());
+  const results = Object.values(MOCK_REGISTRY).filter(pkg =>
+    terms.every(term => pkg.name.includes(term) || pkg.description.toLowerCase().includes(term))
+  );
+
+  if (hasFlag(parsed, '--json')) {
+    return json(results.map(pkg => ({
+      name: pkg.name,
+      description: pkg.description,
+      version: pkg.distTags.latest,
+      links: { npm: `https://www.npmjs.com/package/${pkg.name}`, homepage: pkg.homepage },
+    })));
+  }
+
+  if (results.length === 0) {
+    return `No matches found for "${parsed.packageNames.join(' ')}"`;
+  }
+
+  const showDescription = !hasFlag(parsed, '--no-description');
+  if (hasFlag(parsed, '--parseable')) {
+    return results
+      .map(pkg => [pkg.name, showDescription ? pkg.description : '', pkg.distTags.latest].join('\t'))
+      .join('\n');
+  }
+
+  const header = ['NAME', ...(showDescription ? ['DESCRIPTION'] : []), 'VERSION'];
+  const rows = results.map(pkg => [
+    pkg.name,
+    ...(showDescription ? [pkg.description.length > 40 ? `${pkg.description.slice(0, 39)}…` : pkg.description] : []),
+    pkg.distTags.latest,
+  ]);
+  return formatTable([header, ...rows]);
+}
+
+/**
+ * Render "npm install" and friends
+ */
+function renderInstall(context: RenderContext): string {
+  if (context.errors.length > 0) {
+    return context.errors.map(error => npmError('ETARGET', `notarget ${error}`)).join('\n');
+  }
+  return formatReifySummary(context);
+}
+
+/**
+ * Render "npm ci"
+ */
+function renderCleanInstall(context: RenderContext): string {
+  if (context.errors.length > 0) {
+    return npmError('EUSAGE', context.errors.join('\n'));
+  }
+  return formatReifySummary(context);
+}
+
+/**
+ * Render "npm run" (list scripts or run one)
+ */
+function renderRun(context: RenderContext): string {
+  const { parsed, after: state } = context;
+  const [scriptName, ...extraArgs] = [...parsed.packageNames, ...parsed.passThroughArgs];
+  const scripts = state.packageJson.scripts || {};
+
+  if (!scriptName) {
+    const lifecycle = ['test', 'start', 'stop', 'restart'];
+    const lifecycleNames = Object.keys(scripts).filter(name => lifecycle.includes(name));
+    const otherNames = Object.keys(scripts).filter(name => !lifecycle.includes(name));
+    const lines: string[] = [];
+    if (lifecycleNames.length > 0) {
+      lines.push(`Lifecycle scripts included in ${state.packageJson.name}@${state.packageJson.version}:`);
+      for (const name of lifecycleNames) lines.push(`  ${name}`, `    ${scripts[name]}`);
+    }
+    if (otherNames.length > 0) {
+      if (lines.length > 0) lines.push('');
+      lines.push('available via `npm run-script`:');
+      for (const name of otherNames) lines.push(`  ${name}`, `    ${scripts[name]}`);
+    }
+    return lines.join('\n');
+  }
+
+  if (scripts[scriptName] === undefined && parsed.parameters.includes('--if-present')) {
+    return '';
+  }
+  if (hasFlag(parsed, '--silent')) {
+    return formatScriptRun(state, scriptName, extraArgs).split('\n').filter(line => !line.startsWith('> ')).join('\n').trim();
+  }
+  return formatScriptRun(state, scriptName, extraArgs);
+}
+
+/**
+ * Get the arguments a lifecycle shortcut passes to its script, including those after "--"
+ */
+function getScriptArgs(parsed: ParsedCommand): string[] {
+  return [...parsed.packageNames, ...parsed.passThroughArgs];
+}
+
+/**
+ * Build a renderer for the lifecycle shortcuts (test, start, stop)
+ */
+function lifecycleRenderer(scriptName: string): OutputRenderer {
+  return context => formatScriptRun(context.after, scriptName, getScriptArgs(context.parsed));
+}
+
+/**
+ * Render "npm restart" (runs stop then start when no restart script exists)
+ */
+function renderRestart(context: RenderContext): string {
+  const scripts = context.after.packageJson.scripts || {};
+  if (scripts.restart !== undefined) {
+    return formatScriptRun(context.after, 'restart', getScriptArgs(context.parsed));
+  }
+  return [
+    scripts.stop !== undefined ? formatScriptRun(context.after, 'stop') : '',
+    formatScriptRun(context.after, 'start', getScriptArgs(context.parsed)),
+  ].filter(Boolean).join('\n');
+}
+
+/**
+ * Render "npm version"
+ */
+function renderVersion(context: RenderContext): string {
+  const { parsed, before, after } = context;
+  if (context.errors.length > 0) {
+    return npmError('EVERSION', context.errors.join('\n'));
+  }
+
+  if (parsed.packageNames.length === 0) {
+    const versions = {
+      [before.packageJson.name]: before.packageJson.version,
+      npm: before.globalPackages.npm?.version ?? '10.8.2',
+      node: NODE_VERSION,
+      v8: '11.3.244.8-node.17',
+      uv: '1.46.0',
+    };
+    if (hasFlag(parsed, '--json')) {
+      return json(versions);
+    }
+    return `{\n${Object.entries(versions).map(([key, value]) => `  ${/^[a-z0-9]+$/.test(key) ? key : `'${key}'`}: '${value}'`).join(',\n')}\n}`;
+  }
+
+  return `v${after.packageJson.version}`;
+}
+
+/**
+ * Describe the tarball "npm pack"/"npm publish" would create
+ */
+function formatTarballNotice(state: ProjectState): string[] {
+  const { name, version } = state.packageJson;
+  const filename = `${name.replace(/^@/, '').replace('/', '-')}-${version}.tgz`;
+  return [
+    'npm notice',
+    `npm notice 📦  ${name}@${version}`,
+    'npm notice Tarball Contents',
+    'npm notice 1.1kB package.json',
+    'npm notice 524B index.js',
+    'npm notice Tarball Details',
+    `npm notice name: ${name}`,
+    `npm notice version: ${version}`,
+    `npm notice filename: ${filename}`,
+    'npm notice package size: 1.2 kB',
+    'npm notice unpacked size: 1.6 kB',
+    'npm notice total files: 2',
+    'npm notice',
+  ];
+}
+
+/**
+ * Render "npm pack"
+ */
+function renderPack(context: RenderContext): string {
+  const { name, version } = context.before.packageJson;
+  const filename = `${name.replace(/^@/, '').replace('/', '-')}-${version}.tgz`;
+  if (hasFlag(context.parsed, '--json')) {
+    return json([{ id: `${name}@${version}`, name, version, filename, size: 1229, unpackedSize: 1638, entryCount: 2 }]);
+  }
+  return [...formatTarballNotice(context.before), filename].join('\n');
+}
+
+/**
+ * Render "npm publish"
+ */
+function renderPublish(context: RenderContext): string {
+  const { parsed, before, dryRun } = context;
+  const { name, version } = before.packageJson;
+  const registry = getFlagValue(parsed, '--registry') || getConfigValue(before, 'registry') || REGISTRY_URL;
+  const lines = formatTarballNotice(before);
+  const tag = getFlagValue(parsed, '--tag') ?? getDefault(parsed, '--tag') ?? 'latest';
+  const access = getFlagValue(parsed, '--access') || (name.startsWith('@') ? 'restricted' : 'default');
+  lines.push(`npm notice Publishing to ${registry} with tag ${tag} and ${access} access${dryRun ? ' (dry-run)' : ''}`);
+  lines.push(`+ ${name}@${version}`);
+  if (hasFlag(parsed, '--provenance')) {
+    lines.splice(lines.length - 1, 0, 'npm notice publish Signed provenance statement with source and build information from GitHub Actions');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Render "npm config" (and the "npm get"/"npm set" shortcuts)
+ */
+function renderConfig(context: RenderContext, action: string | undefined, args: string[]): string {
+  const { parsed, before } = context;
+
+  switch (action) {
+    case 'set':
+    case 'delete':
+    case 'edit':
+    case 'fix':
+      return '';
+    case 'get': {
+      if (args.length === 0) {
+        return renderConfig(context, 'list', []);
+      }
+      if (args.length === 1) {
+        return getConfigValue(before, args[0]) ?? 'undefined';
+      }
+      return args.map(key => `${key}=${getConfigValue(before, key) ?? 'undefined'}`).join('\n');
+    }
+    default: {
+      if (hasFlag(parsed, '--json')) {
+        return json({ ...before.npmrc });
+      }
+      const lines: string[] = [];
+      if (Object.keys(before.npmrc).length > 0) {
+        lines.push(`; "user" config from ${USER_NPMRC_PATH}`, '');
+        for (const [key, value] of Object.entries(before.npmrc)) {
+          lines.push(`${key} = "${value}"`);
+        }
+        lines.push('');
+      }
+      lines.push('; node bin location = C:\\Program Files\\nodejs\\node.exe', `; node version = v${NODE_VERSION}`, `; npm local prefix = ${PROJECT_PATH}`, `; cwd = ${PROJECT_PATH}`);
+      if (hasFlag(parsed, '--long')) {
+        lines.push('', '; "default" values');
+        for (const [key, value] of Object.entries(CONFIG_DEFAULTS)) {
+          lines.push(`${key in before.npmrc ? '; ' : ''}${key} = "${value}"${key in before.npmrc ? ' ; overridden by user' : ''}`);
+        }
+      } else {
+        lines.push('', '; Run `npm config ls -l` to show all defaults.');
+      }
+      return lines.join('\n');
+    }
+  }
+}
+
+/**
+ * Render "npm pkg"
+ */
+function renderPkg(context: RenderContext): string {
+  const { parsed, before } = context;
+  const fields = parsed.packageNames;
+  if (context.errors.length > 0) {
+    return npmError('EUSAGE', context.errors.join('\n'));
+  }
+  if (parsed.subcommand?.name !== 'get') {
+    return '';
+  }
+  if (fields.length === 0) {
+    return json(before.packageJson);
+  }
+  if (fields.length === 1) {
+    const value = getPackageJsonField(before.packageJson, fields[0]);
+    return value === undefined ? '' : json(value);
+  }
+  const values: Record<string, unknown> = {};
+  for (const field of fields) {
+    values[field] = getPackageJsonField(before.packageJson, field);
+  }
+  return json(values);
+}
+
+/**
+ * Render "npm explain"
+ */
+function renderExplain(context: RenderContext): string {
+  const { before: state } = context;
+  const lines: string[] = [];
+
+  const explainNode = (name: string, indent: string, seen: Set<string>) => {
+    const declared = getDeclaredDependencies(state.packageJson)[name];
+    if (declared) {
+      const prefix = declared.field === 'devDependencies' ? 'dev ' : declared.field === 'peerDependencies' ? 'peer ' : '';
+      lines.push(`${indent}${prefix}${name}@"${declared.range}" from the root project`);
+    }
+    for (const parent of Object.values(state.nodeModules)) {
+      if (parent.dependencies[name] && !seen.has(parent.name)) {
+        lines.push(`${indent}${name}@"${parent.dependencies[name]}" from ${parent.name}@${parent.version}`);
+        lines.push(`${indent}node_modules/${parent.name}`);
+        explainNode(parent.name, `${indent}  `, new Set([...seen, parent.name]));
+      }
+    }
+  };
+
+  for (const arg of context.parsed.packageNames) {
+    // A folder names the package installed in it, e.g. "node_modules/lodash/node_modules/clone" is clone
+    const { name } = splitPackageArg(arg.replace(/^(?:.*\/)?node_modules\//, ''));
+    const pkg = state.nodeModules[name];
+    if (!pkg) {
+      return npmError('ELSPKGNOTFOUND', `No dependencies found matching ${arg}`);
+    }
+    if (lines.length > 0) lines.push('');
+    const flags = [pkg.dev ? 'dev' : '', pkg.optional ? 'optional' : '', pkg.extraneous ? 'extraneous' : ''].filter(Boolean);
+    lines.push(`${name}@${pkg.version}${flags.length > 0 ? ` ${flags.join(' ')}` : ''}`, `node_modules/${name}`);
+    explainNode(name, '  ', new Set([name]));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Render "npm cache"
+ */
+function renderCache(context: RenderContext): string {
+  const { parsed, before } = context;
+  const args = parsed.packageNames;
+  switch (parsed.subcommand?.name) {
+    case 'clean':
+      if (!hasFlag(parsed, '--force') && args.length === 0) {
+        return npmError('EFORCE', 'As of npm@5, the npm cache self-heals from corruption issues\nby treating integrity mismatches as cache misses. As a result,\ndata extracted from the cache is guaranteed to be valid. If you\nwant to make sure everything is consistent, use `npm cache verify`\ninstead.\n\nIf you\'re sure you want to delete the entire cache, rerun this command with --force.');
+      }
+      return '';
+    case 'ls': {
+      const names = args.length > 0 ? args : Object.keys(before.nodeModules).sort();
+      return names
+        .map(name => before.nodeModules[name] || { name, version: resolveVersion(name) || '1.0.0' })
+        .map(pkg => `make-fetch-happen:request-cache:${getTarballUrl(pkg.name, pkg.version)}`)
+        .join('\n');
+    }
+    default:
+      return parsed.subcommand?.mockOutput ?? parsed.command!.mockOutput;
+  }
+}
+
+/**
+ * Render "npm prefix", "npm root" and "npm bin"
+ */
+function pathRenderer(local: string, global: string): OutputRenderer {
+  return context => (hasFlag(context.parsed, '--global', '-g') ? global : local);
+}
+
+/**
+ * Render "npm link"
+ */
+function renderLink(context: RenderContext): string {
+  const { parsed, before } = context;
+  if (parsed.packageNames.length === 0) {
+    return `${formatReifySummary(context, true)}\n${GLOBAL_PREFIX}\\node_modules\\${before.packageJson.name} -> ${PROJECT_PATH}`;
+  }
+  const links = parsed.packageNames.map(arg => {
+    const { name } = splitPackageArg(arg);
+    return `${PROJECT_PATH}\\node_modules\\${name} -> ${GLOBAL_PREFIX}\\node_modules\\${name}`;
+  });
+  return `${formatReifySummary(context)}\n${links.join('\n')}`;
+}
+
+/**
+ * Render "npm repo", "npm bugs" and "npm docs"
+ */
+function browserRenderer(page: 'repo' | 'bugs' | 'docs'): OutputRenderer {
+  return context => {
+    const [target] = context.parsed.packageNames;
+    const name = target ? splitPackageArg(target).name : context.before.packageJson.name;
+    const metadata = getRegistryPackage(name);
+    const repo = `https://github.com/${name.replace(/^@/, '')}/${name.replace(/^@[^/]+\//, '')}`;
+    const url = page === 'bugs' ? `${repo}/issues` : page === 'docs' ? metadata.homepage || `${repo}#readme` : repo;
+    return `Opening ${url} in browser`;
+  };
+}
+
+/**
+ * Render "npm fund"
+ */
+function renderFund(context: RenderContext): string {
+  const { parsed, before } = context;
+  const funded = getFundedPackages(before);
+
+  if (hasFlag(parsed, '--json')) {
+    const dependencies: Record<string, { version: string; funding: { url: string } }> = {};
+    for (const { pkg, url } of funded) {
+      dependencies[pkg.name] = { version: pkg.version, funding: { url } };
+    }
+    return json({ length: funded.length, name: before.packageJson.name, version: before.packageJson.version, dependencies });
+  }
+
+  const byUrl: Record<string, string[]> = {};
+  for (const { pkg, url } of funded) {
+    byUrl[url] = [...(byUrl[url] || []), `${pkg.name}@${pkg.version}`];
+  }
+  const urls = Object.keys(byUrl).sort();
+  const lines = [`${before.packageJson.name}@${before.packageJson.version}`];
+  urls.forEach((url, index) => {
+    const last = index === urls.length - 1;
+    lines.push(`${last ? '└── ' : '├── '}${url}`, `${last ? '    ' : '│   '}└── ${byUrl[url].sort().join(', ')}`);
+  });
+  return lines.join('\n');
+}
+
+/**
+ * Render "npm dist-tag"
+ */
+function renderDistTag(context: RenderContext): string {
+  const [target, tag] = context.parsed.packageNames;
+  switch (context.parsed.subcommand?.name) {
+    case 'add': {
+      const { name, spec } = splitPackageArg(target || '');
+      return `+${tag || 'latest'}: ${name}@${spec || resolveVersion(name)}`;
+    }
+    case 'rm': {
+      const { name } = splitPackageArg(target || '');
+      return `-${tag}: ${name}@${getRegistryPackage(name).distTags[tag] || resolveVersion(name)}`;
+    }
+    default: {
+      const tags = getRegistryPackage(target ? splitPackageArg(target).name : context.before.packageJson.name).distTags;
+      return Object.entries(tags).map(([t, v]) => `${t}: ${v}`).join('\n');
+    }
+  }
+}
+
+/**
+ * Render "npm star"/"npm unstar"
+ */
+function starRenderer(symbol: string): OutputRenderer {
+  return context => context.parsed.packageNames.map(name => `${symbol} ${name}`).join('\n');
+}
+
+/**
+ * Render "npm set-script"
+ */
+function renderSetScript(context: RenderContext): string {
+  if (context.errors.length > 0) {
+    return npmError('EUSAGE', context.errors.join('\n'));
+  }
+  return '';
+}
+
+/**
+ * Render "npm init"
+ */
+function renderInit(context: RenderContext): string {
+  const { parsed, after } = context;
+  if (parsed.packageNames.length > 0) {
+    const [initializer, ...rest] = parsed.packageNames;
+    const { name } = splitPackageArg(initializer);
+    const createName = name.startsWith('@')
+      ? (name.includes('/') ? name.replace('/', '/create-') : `${name}/create`)
+      : `create-${name}`;
+    const target = rest[0] ? ` in ${PROJECT_PATH}\\${rest[0]}` : '';
+    return `Need to install the following packages:\n${createName}@${resolveVersion(createName) || '1.0.0'}\nOk to proceed? (y) y\n\nScaffolding project${target}...\n\nDone.`;
+  }
+  return `Wrote to ${PROJECT_PATH}\\package.json:\n\n${json(after.packageJson)}`;
+}
+
+/**
+ * Renderers keyed by command name
+ * Commands without an entry print their static mock output
+ */
+export const OUTPUT_RENDERERS: Record<string, OutputRenderer> = {
+  'init': renderInit,
+  'install': renderInstall,
+  'install-test': context => `${renderInstall(context)}\n${formatScriptRun(context.after, 'test')}`,
+  'ci': renderCleanInstall,
+  'install-ci-test': context => `${renderCleanInstall(context)}\n${formatScriptRun(context.after, 'test')}`,
+  'uninstall': formatReifySummary,
+  'update': formatReifySummary,
+  'prune': formatReifySummary,
+  'dedupe': formatReifySummary,
+  'link': renderLink,
+  'list': context => renderList(context),
+  'll': context => renderList(context, true),
+  'outdated': renderOutdated,
+  'audit': renderAudit,
+  'view': renderView,
+  'search': renderSearch,
+  'run': renderRun,
+  'test': lifecycleRenderer('test'),
+  'start': lifecycleRenderer('start'),
+  'stop': lifecycleRenderer('stop'),
+  'restart': renderRestart,
+  'version': renderVersion,
+  'pack': renderPack,
+  'publish': renderPublish,
+  'config': context => renderConfig(context, context.parsed.subcommand?.name, context.parsed.packageNames),
+  'pkg': renderPkg,
+  'set-script': renderSetScript,
+  'explain': renderExplain,
+  'cache': renderCache,
+  'fund': renderFund,
+  'dist-tag': renderDistTag,
+  'star': starRenderer('★'),
+  'unstar': starRenderer('☆'),
+  'repo': browserRenderer('repo'),
+  'bugs': browserRenderer('bugs'),
+  'docs': browserRenderer('docs'),
+  'prefix': pathRenderer(PROJECT_PATH, GLOBAL_PREFIX),
+  'root': pathRenderer(`${PROJECT_PATH}\\node_modules`, `${GLOBAL_PREFIX}\\node_modules`),
+  'bin': pathRenderer(`${PROJECT_PATH}\\node_modules\\.bin`, GLOBAL_PREFIX),
+};
+
+/**
+ * Render output for a command using its renderer, falling back to mock output
+ */
+export function renderOutput(context: RenderContext): string {
+  const command = context.parsed.command;
+  if (!context.parsed.isValid || !command) {
+    return 'Error: Invalid command';
+  }
+  const renderer = OUTPUT_RENDERERS[command.name];
+  return renderer ? renderer(context) : context.parsed.subcommand?.mockOutput ?? command.mockOutput;
+}
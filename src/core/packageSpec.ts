@@ -0,0 +1,201 @@
+/**
+ * Package Specs
+ * Parses package arguments the way npm does (name@version, @scope/name, git, file, URLs, aliases)
+ */
+
+import { isValidRange, isValidVersion } from './semver';
+
+export type PackageSpecType = 'version' | 'range' | 'tag' | 'alias' | 'git' | 'remote' | 'file' | 'directory';
+
+export interface HostedGitInfo {
+  host: 'github' | 'gitlab' | 'bitbucket';
+  user: string;
+  project: string;
+}
+
+export interface PackageSpec {
+  raw: string;
+  type: PackageSpecType;
+  name?: string; // Known for registry specs, aliases and "name@<url>"
+  scope?: string;
+  rawSpec: string; // Everything after "name@" ('' when omitted)
+  fetchSpec: string; // Version, range, tag, URL or path to fetch
+  subSpec?: PackageSpec; // Target of an "npm:" alias
+  hosted?: HostedGitInfo;
+  committish?: string; // Branch, tag or commit after "#" in git specs
+}
+
+/**
+ * How package arguments are compared when matching commands
+ * - exact: the arguments must be typed identically
+ * - equivalent: specs that resolve the same way match ("lodash" = "lodash@latest")
+ * - name: only the package name has to match
+ */
+export type PackageMatchMode = 'exact' | 'equivalent' | 'name';
+
+const NAME_WITH_SPEC = /^((?:@([a-z0-9-~][a-z0-9-._~]*)\/)?[a-z0-9-~][a-z0-9-._~]*)(?:@(.*))?$/;
+const HOSTS: Record<string, HostedGitInfo['host']> = {
+  'github.com': 'github',
+  'gitlab.com': 'gitlab',
+  'bitbucket.org': 'bitbucket',
+};
+const TARBALL_PATTERN = /\.(tgz|tar\.gz|tar)$/;
+
+/**
+ * Split a git spec into its location and "#committish"
+ */
+function splitCommittish(spec: string): { location: string; committish?: string } {
+  const hashIndex = spec.indexOf('#');
+  if (hashIndex === -1) {
+    return { location: spec };
+  }
+  return { location: spec.slice(0, hashIndex), committish: spec.slice(hashIndex + 1) || undefined };
+}
+
+/**
+ * Recognize hosted git shortcuts ("github:user/repo", "user/repo") and URLs on known hosts
+ */
+function parseHosted(location: string): HostedGitInfo | undefined {
+  const shortcut = /^(?:(github|gitlab|bitbucket):)?([^/:@\s.][^/:@\s]*)\/([^/:@\s]+)$/.exec(location);
+  if (shortcut) {
+    return {
+      host: (shortcut[1] || 'github') as HostedGitInfo['host'],
+      user: shortcut[2],
+      project: shortcut[3].replace(/\.git$/, ''),
+    };
+  }
+
+  const url = /^(?:git\+)?(?:https?|ssh|git):\/\/(?:[^@/]+@)?([^/:]+)[/:]([^/]+)\/([^/]+?)(?:\.git)?\/?$/.exec(location);
+  if (url && HOSTS[url[1]]) {
+    return { host: HOSTS[url[1]], user: url[2], project: url[3] };
+  }
+  return undefined;
+}
+
+/**
+ * Classify the part of a package argument after the name
+ */
+function classifySpec(rawSpec: string): Omit<PackageSpec, 'raw' | 'name' | 'scope' | 'rawSpec'> | null {
+  if (rawSpec === '') {
+    return { type: 'tag', fetchSpec: 'latest' };
+  }
+
+  if (rawSpec.startsWith('npm:')) {
+    const subSpec = parsePackageSpec(rawSpec.slice(4));
+    if (!subSpec || !subSpec.name || !isRegistrySpec(subSpec)) {
+      return null;
+    }
+    return { type: 'alias', fetchSpec: subSpec.fetchSpec, subSpec };
+  }
+
+  if (/^(git\+[a-z]+:|git:|github:|gitlab:|bitbucket:|gist:)/.test(rawSpec) || /^[^/:@\s.][^/:@\s]*\/[^/:@\s]+(#.*)?$/.test(rawSpec)) {
+    const { location, committish } = splitCommittish(rawSpec);
+    return { type: 'git', fetchSpec: location.replace(/^git\+/, ''), hosted: parseHosted(location), committish };
+  }
+
+  if (/^https?:\/\//.test(rawSpec)) {
+    const hosted = TARBALL_PATTERN.test(rawSpec) ? undefined : parseHosted(splitCommittish(rawSpec).location);
+    if (hosted && /\.git(#.*)?$/.test(rawSpec)) {
+      const { location, committish } = splitCommittish(rawSpec);
+      return { type: 'git', fetchSpec: location, hosted, committish };
+    }
+    return { type: 'remote', fetchSpec: rawSpec };
+  }
+
+  if (rawSpec.startsWith('file:') || /^(\.{1,2}([\\/]|$)|[\\/~]|[a-zA-Z]:[\\/])/.test(rawSpec) || TARBALL_PATTERN.test(rawSpec)) {
+    const path = rawSpec.replace(/^file:/, '').replace(/\\/g, '/');
+    return { type: TARBALL_PATTERN.test(path) ? 'file' : 'directory', fetchSpec: path };
+  }
+
+  if (isValidVersion(rawSpec.replace(/^=/, ''))) {
+    return { type: 'version', fetchSpec: rawSpec.replace(/^=?v?/, '') };
+  }
+  if (/^[a-z][a-z0-9._-]*$/i.test(rawSpec) && rawSpec !== 'x' && rawSpec !== 'X') {
+    return { type: 'tag', fetchSpec: rawSpec };
+  }
+  if (isValidRange(rawSpec)) {
+    return { type: 'range', fetchSpec: rawSpec };
+  }
+  return null;
+}
+
+/**
+ * Parse a package argument such as "lodash@^4.17.0", "@types/node", "my-lodash@npm:lodash@4",
+ * "github:user/repo#main", "file:../lib" or "https://example.com/pkg.tgz"
+ * Returns null when the argument is not a valid package spec
+ */
+export function parsePackageSpec(raw: string): PackageSpec | null {
+  // "pkg-1.0.0.tgz" is a tarball, not a package with dots in its name
+  const named = NAME_WITH_SPEC.exec(raw);
+  if (named && (named[3] !== undefined || !TARBALL_PATTERN.test(raw))) {
+    const rawSpec = named[3] ?? '';
+    const classified = classifySpec(rawSpec);
+    if (!classified) {
+      return null;
+    }
+    return { raw, name: named[1], scope: named[2] ? `@${named[2]}` : undefined, rawSpec, ...classified };
+  }
+
+  // Git, file and URL specs can be given without a name
+  const classified = classifySpec(raw);
+  if (!classified || classified.type === 'alias' || isRegistrySpec(classified)) {
+    return null;
+  }
+  return { raw, rawSpec: raw, ...classified };
+}
+
+/**
+ * Check if a spec is resolved through the registry (version, range or tag)
+ */
+export function isRegistrySpec(spec: Pick<PackageSpec, 'type'>): boolean {
+  return spec.type === 'version' || spec.type === 'range' || spec.type === 'tag';
+}
+
+/**
+ * Get the name a spec installs under, guessing from the repo or file name when it has none
+ */
+export function getSpecName(spec: PackageSpec): string {
+  if (spec.name) {
+    return spec.name;
+  }
+  if (spec.hosted) {
+    return spec.hosted.project;
+  }
+  const base = spec.fetchSpec.replace(/[#?].*$/, '').replace(/\/+$/, '').split('/').pop() || spec.fetchSpec;
+  return base.replace(TARBALL_PATTERN, '').replace(/\.git$/, '').replace(/-\d+\.\d+\.\d+.*$/, '');
+}
+
+/**
+ * Build a key that is equal for specs that resolve the same way
+ */
+function getEquivalenceKey(spec: PackageSpec): string {
+  const name = spec.name ?? '';
+  switch (spec.type) {
+    case 'alias':
+      return `${name}@npm:${getEquivalenceKey(spec.subSpec!)}`;
+    case 'git':
+      return spec.hosted
+        ? `${name}@${spec.hosted.host}:${spec.hosted.user}/${spec.hosted.project}#${spec.committish ?? ''}`
+        : `${name}@git:${spec.fetchSpec.replace(/\.git$/, '')}#${spec.committish ?? ''}`;
+    case 'file':
+    case 'directory':
+      return `${name}@file:${spec.fetchSpec.replace(/^\.\//, '').replace(/\/+$/, '')}`;
+    default:
+      return `${name}@${spec.fetchSpec}`;
+  }
+}
+
+/**
+ * Get the comparison key for a package argument under a match mode
+ * Arguments that aren't package specs (script names, messages, ...) compare as typed
+ */
+export function getPackageMatchKey(arg: string, mode: PackageMatchMode): string {
+  if (mode === 'exact') {
+    return arg;
+  }
+  const spec = parsePackageSpec(arg);
+  if (!spec) {
+    return arg;
+  }
+  return mode === 'name' ? getSpecName(spec) : getEquivalenceKey(spec);
+}
@@ -0,0 +1,128 @@
+/**
+ * Parameter Schema
+ * Value types, allowed values and defaults for parameters that take a value
+ */
+
+import { CommandParameter, NpmCommand } from './commands';
+import { parsePackageSpec } from './packageSpec';
+import { REGISTRY_URL } from './registry';
+import { isValidRange, isValidVersion } from './semver';
+
+export type ParameterValueType =
+  | 'string'
+  | 'enum'
+  | 'semver'
+  | 'semver-range'
+  | 'url'
+  | 'path'
+  | 'date'
+  | 'integer'
+  | 'scope'
+  | 'package-spec';
+
+export interface ParameterValueSchema {
+  type: ParameterValueType;
+  allowedValues?: string[]; // Only for enum
+  defaultValue?: string;
+}
+
+/**
+ * Schemas shared by every command that defines a parameter with this name
+ * A parameter's own "value" field takes precedence
+ */
+export const PARAMETER_SCHEMAS: Record<string, ParameterValueSchema> = {
+  '--access': { type: 'enum', allowedValues: ['public', 'restricted'] },
+  '--audit-level': { type: 'enum', allowedValues: ['info', 'low', 'moderate', 'high', 'critical'] },
+  '--auth-type': { type: 'enum', allowedValues: ['legacy', 'web'], defaultValue: 'web' },
+  '--before': { type: 'date' },
+  '--cache': { type: 'path' },
+  '--call': { type: 'string' },
+  '--cpu': {
+    type: 'enum',
+    allowedValues: ['arm', 'arm64', 'ia32', 'loong64', 'mips', 'mipsel', 'ppc', 'ppc64', 'riscv64', 's390', 's390x', 'x64'],
+  },
+  '--depth': { type: 'integer', defaultValue: '0' },
+  '--editor': { type: 'path' },
+  '--format': { type: 'enum', allowedValues: ['cyclonedx', 'spdx'] },
+  '--include': { type: 'enum', allowedValues: ['prod', 'dev', 'optional', 'peer'] },
+  '--init-author-email': { type: 'string' },
+  '--init-author-name': { type: 'string' },
+  '--init-author-url': { type: 'url' },
+  '--init-license': { type: 'string', defaultValue: 'ISC' },
+  '--init-module': { type: 'path' },
+  '--init-type': { type: 'enum', allowedValues: ['commonjs', 'module'], defaultValue: 'commonjs' },
+  '--init-version': { type: 'semver', defaultValue: '1.0.0' },
+  '--install-strategy': { type: 'enum', allowedValues: ['hoisted', 'nested', 'shallow', 'linked'], defaultValue: 'hoisted' },
+  '--libc': { type: 'enum', allowedValues: ['glibc', 'musl'] },
+  '--location': { type: 'enum', allowedValues: ['global', 'user', 'project'], defaultValue: 'user' },
+  '--omit': { type: 'enum', allowedValues: ['dev', 'optional', 'peer'] },
+  '--os': { type: 'enum', allowedValues: ['aix', 'darwin', 'freebsd', 'linux', 'openbsd', 'sunos', 'win32'] },
+  '--otp': { type: 'integer' },
+  '--package': { type: 'package-spec' },
+  '--preid': { type: 'string' },
+  '--provenance-file': { type: 'path' },
+  '--registry': { type: 'url', defaultValue: REGISTRY_URL },
+  '--scope': { type: 'scope' },
+  '--script-shell': { type: 'path' },
+  '--searchexclude': { type: 'string' },
+  '--searchlimit': { type: 'integer', defaultValue: '20' },
+  '--searchopts': { type: 'string' },
+  '--tag': { type: 'string', defaultValue: 'latest' },
+  '--which': { type: 'integer' },
+  '--workspace': { type: 'path' },
+};
+
+/**
+ * Get the value schema for a parameter, checking its aliases against the shared schemas
+ */
+export function getParameterSchema(param: CommandParameter): ParameterValueSchema | undefined {
+  if (param.value) {
+    return param.value;
+  }
+  return [param.name, ...(param.aliases || [])]
+    .map(name => PARAMETER_SCHEMAS[name])
+    .find(schema => schema !== undefined);
+}
+
+/**
+ * Get the default value of a command's parameter, if it has one
+ */
+export function getParameterDefault(command: NpmCommand, name: string): string | undefined {
+  const param = command.parameters.find(p => p.name === name);
+  return param ? getParameterSchema(param)?.defaultValue : undefined;
+}
+
+/**
+ * Check a value against a parameter schema
+ * Returns a description of the problem, or null when the value is valid
+ */
+export function validateParameterValue(name: string, schema: ParameterValueSchema, value: string): string | null {
+  const invalid = (expected: string) => `Invalid value "${value}" for ${name}: expected ${expected}`;
+
+  switch (schema.type) {
+    case 'enum':
+      return schema.allowedValues?.includes(value)
+        ? null
+        : invalid(`one of ${(schema.allowedValues || []).join(', ')}`);
+    case 'semver':
+      return isValidVersion(value) ? null : invalid('a version like 1.0.0');
+    case 'semver-range':
+      return isValidRange(value) ? null : invalid('a version range like ^1.2.0');
+    case 'url':
+      return /^https?:\/\/[^\s/]+\S*$/.test(value) ? null : invalid('a URL starting with http:// or https://');
+    case 'path':
+      return value !== '' && !/[\0<>|"?*]/.test(value) ? null : invalid('a file path');
+    case 'date':
+      return /^\d{4}-\d{2}-\d{2}(T[\d:.]+Z?)?$/.test(value) && !isNaN(Date.parse(value))
+        ? null
+        : invalid('a date like 2023-01-01');
+    case 'integer':
+      return /^\d+$/.test(value) ? null : invalid('a whole number');
+    case 'scope':
+      return /^@?[a-z0-9-~][a-z0-9-._~]*$/.test(value) ? null : invalid('a scope like @mycompany');
+    case 'package-spec':
+      return parsePackageSpec(value) ? null : invalid('a package like lodash or lodash@4.17.21');
+    case 'string':
+      return value !== '' ? null : `Missing value for ${name}`;
+  }
+}
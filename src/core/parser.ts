@@ -3,14 +3,72 @@
  * Handles parsing npm commands with alias support and flexible parameter ordering
  */
 
-import { NPM_COMMANDS, NpmCommand } from './commands';
+import { NPM_COMMANDS, NpmCommand, NpmSubcommand, CommandParameter, PositionalArgument } from './commands';
+import { getParameterSchema, validateParameterValue } from './parameterSchema';
+import { getPackageMatchKey, PackageMatchMode } from './packageSpec';
+import { SourceRange, tokenize } from './tokenizer';
+import { formatSuggestions, suggestCommands, suggestParameters, suggestSubcommands } from './suggestions';
+import { getDifferenceHint } from './feedback';
+import { ProjectState } from './projectState';
+import { executeCommand } from './executor';
 
 export interface ParsedCommand {
   isValid: boolean;
   command?: NpmCommand;
+  subcommand?: NpmSubcommand;
   parameters: string[];
+  parameterValues: Record<string, string[]>; // Values per normalized parameter, in the order given
   packageNames: string[];
+  passThroughArgs: string[]; // Arguments after "--", passed as-is to the script or command being run
+  positionals?: Record<string, string[]>; // Positional arguments (including pass-through ones) by declared slot
   errorMessage?: string;
+  errorRange?: SourceRange; // Part of the input the error refers to, for highlighting
+  unknownParameters?: Record<string, string[]>; // Flags the command doesn't define, with suggested corrections
+}
+
+/**
+ * How strictly parameter values are compared
+ * - exact: values must be identical (repeated flags compared as unordered lists)
+ * - loose: case-insensitive, ignoring trailing slashes
+ * - ignore: only the presence of the flag matters
+ */
+export type ValueStrictness = 'exact' | 'loose' | 'ignore';
+
+export interface MatchOptions {
+  valueStrictness?: ValueStrictness;
+  parameterStrictness?: Record<string, ValueStrictness>; // Per-parameter overrides
+  packageMatch?: PackageMatchMode; // How package arguments are compared (equivalent by default)
+  passThroughStrictness?: ValueStrictness; // How arguments after "--" are compared (exact by default)
+}
+
+export type DifferenceKind =
+  | 'command'
+  | 'subcommand'
+  | 'missing-flag'
+  | 'extra-flag'
+  | 'unknown-flag'
+  | 'flag-value'
+  | 'missing-argument'
+  | 'extra-argument'
+  | 'wrong-argument'
+  | 'pass-through';
+
+/**
+ * One way the user's command differs from the expected one
+ */
+export interface CommandDifference {
+  kind: DifferenceKind;
+  target: string; // Flag, argument slot (e.g. "package name"), command or subcommand name
+  description?: string; // What the flag or command does, for hints that don't reveal the answer
+  expected?: string[]; // Expected values, arguments or names
+  actual?: string[]; // What the user typed instead
+  suggestions?: string[]; // Corrections for an unknown flag
+}
+
+export interface CommandMatchResult {
+  matches: boolean;
+  reason?: string; // Hint for the first difference
+  differences: CommandDifference[];
 }
 
 /**
@@ -34,14 +92,15 @@ function normalizeCommandName(input: string): string | null {
 /**
  * Normalize parameter by resolving aliases
  */
-function normalizeParameter(input: string, command: NpmCommand): string {
-  const inputLower = input.toLowerCase();
+function normalizeParameter(input: string, availableParams: CommandParameter[]): string {
+  // Short flags are case-sensitive in npm (-D is --save-dev, -d is --loglevel info)
+  const candidate = input.startsWith('--') ? input.toLowerCase() : input;
   
-  for (const param of command.parameters) {
-    if (param.name === inputLower) {
+  for (const param of availableParams) {
+    if (param.name === candidate) {
       return param.name;
     }
-    if (param.aliases?.some(alias => alias === inputLower)) {
+    if (param.aliases?.some(alias => alias === candidate)) {
       return param.name;
     }
   }
@@ -50,56 +109,234 @@ function normalizeParameter(input: string, command: NpmCommand): string {
 }
 
 /**
- * Parse npm command input
- * Handles: npm <command> [packages...] [parameters...]
- * Example: "npm install lodash express -g" or "npm i -g lodash express"
+ * Get the parameter a flag turns on or off, if the command defines it as a boolean
+ * "--no-audit" and "--audit" are the off and on forms of "--audit"
+ */
+function getBooleanBase(name: string, availableParams: CommandParameter[]): string | null {
+  if (!name.startsWith('--')) {
+    return null;
+  }
+  
+  const base = name.startsWith('--no-') ? `--${name.slice(5)}` : name;
+  const forms = [base, `--no-${base.slice(2)}`];
+  const paramDefs = availableParams.filter(p => forms.includes(p.name));
+  return paramDefs.length > 0 && paramDefs.every(p => !p.requiresValue) ? base : null;
+}
+
+/**
+ * Resolve the boolean forms of a flag ("--no-X", "--X=false", "--X=true") to the parameter for its setting
+ * Returns "--X" when the setting is on and "--no-X" when it is off, or an error for a value other than true or false
  */
+function resolveBooleanFlag(base: string, name: string, value?: string): { name: string } | { error: string } {
+  if (value !== undefined && value !== 'true' && value !== 'false') {
+    return { error: `Invalid value "${value}" for ${name}: expected true or false` };
+  }
+  
+  const enabled = (value !== 'false') !== name.startsWith('--no-');
+  return { name: enabled ? base : `--no-${base.slice(2)}` };
+}
+
 /**
- * Split command string respecting quoted strings
+ * Check captured values against the command's parameter schemas
+ * Returns the first problem found with the parameter and the index of its invalid value, or null when all values are valid
  */
-function smartSplit(input: string): string[] {
-  const parts: string[] = [];
-  let current = '';
-  let inQuotes = false;
-  let quoteChar = '';
-  
-  for (let i = 0; i < input.length; i++) {
-    const char = input[i];
+function validateParameterValues(
+  availableParams: CommandParameter[],
+  parameterValues: Record<string, string[]>
+): { error: string; name: string; index: number } | null {
+  for (const [name, values] of Object.entries(parameterValues)) {
+    const paramDef = availableParams.find(p => p.name === name);
+    const schema = paramDef?.requiresValue ? getParameterSchema(paramDef) : undefined;
+    if (!schema) {
+      continue;
+    }
     
-    if ((char === '"' || char === "'") && !inQuotes) {
-      inQuotes = true;
-      quoteChar = char;
-    } else if (char === quoteChar && inQuotes) {
-      inQuotes = false;
-      quoteChar = '';
-    } else if (char === ' ' && !inQuotes) {
-      if (current) {
-        parts.push(current);
-        current = '';
+    for (let index = 0; index < values.length; index++) {
+      const error = validateParameterValue(name, schema, values[index]);
+      if (error) {
+        return { error, name, index };
       }
-    } else {
-      current += char;
     }
   }
   
-  if (current) {
-    parts.push(current);
+  return null;
+}
+
+/**
+ * Expand clusters of single-letter flags using the command's aliases ("-gD" becomes "-g -D")
+ * Returns the expanded arguments with the index of the argument each came from,
+ * or an error for a letter the command doesn't know with the index of its cluster
+ */
+function expandShortFlags(
+  args: string[],
+  availableParams: CommandParameter[]
+): { args: string[]; sources: number[] } | { error: string; index: number } {
+  const expanded: string[] = [];
+  const sources: number[] = [];
+  
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+    const isKnown = availableParams.some(p => p.name === normalizeParameter(arg, availableParams));
+    if (isKnown || !/^-[a-zA-Z]{2,}$/.test(arg)) {
+      expanded.push(arg);
+      sources.push(index);
+      continue;
+    }
+    
+    const letters = arg.slice(1).split('');
+    for (let i = 0; i < letters.length; i++) {
+      const flag = `-${letters[i]}`;
+      const paramDef = availableParams.find(p => p.name === normalizeParameter(flag, availableParams));
+      if (!paramDef) {
+        return { error: `Unknown flag ${flag} in ${arg}`, index };
+      }
+      if (paramDef.requiresValue && i < letters.length - 1) {
+        return { error: `${flag} needs a value, so it must come last in ${arg}`, index };
+      }
+      expanded.push(flag);
+      sources.push(index);
+    }
   }
   
-  return parts;
+  return { args: expanded, sources };
 }
 
+/**
+ * Find the index of the first positional argument, skipping flags and their values
+ */
+function findFirstPositional(args: string[], availableParams: CommandParameter[]): number {
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('-')) {
+      return i;
+    }
+    const paramDef = availableParams.find(p => p.name === normalizeParameter(arg, availableParams));
+    if (!arg.includes('=') && paramDef?.requiresValue && i + 1 < args.length && !args[i + 1].startsWith('-')) {
+      i++;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Resolve the subcommand of a command that has them (e.g. "set" in "npm config set")
+ * Returns the subcommand, its index in the arguments (-1 for the default) and the remaining arguments,
+ * or an error message with the index of the unknown subcommand
+ */
+function resolveSubcommand(
+  command: NpmCommand,
+  args: string[]
+): { subcommand: NpmSubcommand; index: number; args: string[] } | { error: string; index?: number } {
+  const subcommands = command.subcommands || [];
+  const index = findFirstPositional(args, command.parameters);
+  const name = index === -1 ? command.defaultSubcommand : args[index].toLowerCase();
+  const available = subcommands.map(sub => sub.name).join(', ');
+  
+  if (!name) {
+    return { error: `npm ${command.name} needs a subcommand: ${available}` };
+  }
+  
+  const subcommand = subcommands.find(sub => sub.name === name || sub.aliases?.includes(name));
+  if (!subcommand) {
+    const suggestion = formatSuggestions(suggestSubcommands(name, subcommands), `npm ${command.name} `);
+    return {
+      error: `Unknown subcommand: npm ${command.name} ${name} (available: ${available})${suggestion ? `. ${suggestion}` : ''}`,
+      index,
+    };
+  }
+  
+  return { subcommand, index, args: index === -1 ? args : [...args.slice(0, index), ...args.slice(index + 1)] };
+}
+
+/**
+ * Get the positional arguments a command or subcommand declares, if any
+ */
+function getDeclaredPositionals(command: NpmCommand, subcommand?: NpmSubcommand): PositionalArgument[] | undefined {
+  return subcommand ? subcommand.positionals : command.positionals;
+}
+
+/**
+ * Format the usage line of a command from its declared positionals
+ * Example: "npm dist-tag add <package-spec> [<tag>]"
+ */
+export function formatUsage(command: NpmCommand, subcommand?: NpmSubcommand): string {
+  const usage = (getDeclaredPositionals(command, subcommand) || []).map(positional => {
+    const label = `<${positional.name}>`;
+    if (positional.variadic) {
+      return positional.optional ? `[${label} ...]` : `${label} [${label} ...]`;
+    }
+    return positional.optional ? `[${label}]` : label;
+  });
+  
+  return ['npm', command.name, subcommand?.name, ...usage].filter(Boolean).join(' ');
+}
+
+/**
+ * Assign positional arguments to the slots a command declares, in order
+ * Returns the arguments per slot, or an error for missing, extra or invalid arguments
+ * with the index of the offending argument (none when one is missing)
+ */
+function assignPositionals(
+  declared: PositionalArgument[],
+  args: string[]
+): { positionals: Record<string, string[]> } | { error: string; index?: number } {
+  const positionals: Record<string, string[]> = {};
+  let index = 0;
+  
+  for (const positional of declared) {
+    const values = positional.variadic ? args.slice(index) : args.slice(index, index + 1);
+    if (values.length === 0 && !positional.optional) {
+      return { error: `Missing ${positional.description}` };
+    }
+    
+    for (let i = 0; i < values.length; i++) {
+      const error = positional.value ? validateParameterValue(`<${positional.name}>`, positional.value, values[i]) : null;
+      if (error) {
+        return { error, index: index + i };
+      }
+    }
+    
+    positionals[positional.name] = values;
+    index += values.length;
+  }
+  
+  if (index < args.length) {
+    return { error: `Too many arguments: ${args.slice(index).join(' ')}`, index };
+  }
+  
+  return { positionals };
+}
+
+/**
+ * Parse npm command input
+ * Handles: npm <command> [packages...] [parameters...] [-- <args>...]
+ * Example: "npm install lodash express -g" or "npm i -g lodash express"
+ */
 export function parseCommand(input: string): ParsedCommand {
-  const trimmed = input.trim();
+  const { tokens, error, errorRange } = tokenize(input);
+  if (error) {
+    return {
+      isValid: false,
+      parameters: [],
+      parameterValues: {},
+      packageNames: [],
+      passThroughArgs: [],
+      errorMessage: error,
+      errorRange,
+    };
+  }
   
   // Remove "npm" prefix if present
-  const parts = smartSplit(trimmed);
+  const parts = tokens.map(token => token.value);
   if (parts.length === 0) {
     return {
       isValid: false,
       parameters: [],
+      parameterValues: {},
       packageNames: [],
+      passThroughArgs: [],
       errorMessage: 'Empty command',
+      errorRange: { start: 0, end: input.length },
     };
   }
   
@@ -112,52 +349,147 @@ export function parseCommand(input: string): ParsedCommand {
     return {
       isValid: false,
       parameters: [],
+      parameterValues: {},
       packageNames: [],
+      passThroughArgs: [],
       errorMessage: 'No command specified',
+      errorRange: { start: tokens[0].start, end: tokens[0].end },
     };
   }
   
   const commandName = parts[startIndex];
   const normalizedCommandName = normalizeCommandName(commandName);
+  const commandRange: SourceRange = { start: tokens[startIndex].start, end: tokens[startIndex].end };
   
   if (!normalizedCommandName) {
     return {
       isValid: false,
       parameters: [],
+      parameterValues: {},
       packageNames: [],
-      errorMessage: `Unknown command: ${commandName}`,
+      passThroughArgs: [],
+      errorMessage: [`Unknown command: ${commandName}`, formatSuggestions(suggestCommands(commandName), 'npm ')].filter(Boolean).join('. '),
+      errorRange: commandRange,
     };
   }
   
-  const command = NPM_COMMANDS.find(cmd => cmd.name === normalizedCommandName)!;
+  let command = NPM_COMMANDS.find(cmd => cmd.name === normalizedCommandName)!;
+  
+  // Parse arguments (everything after command name), keeping arguments after "--" away from npm.
+  // The range of each argument is kept alongside it, so errors can point at the argument they are about
+  let args = parts.slice(startIndex + 1);
+  let argRanges: SourceRange[] = tokens.slice(startIndex + 1).map(({ start, end }) => ({ start, end }));
+  const separatorIndex = args.indexOf('--');
+  const passThroughArgs = separatorIndex === -1 ? [] : args.slice(separatorIndex + 1);
+  const passThroughRanges = separatorIndex === -1 ? [] : argRanges.slice(separatorIndex + 1);
+  if (separatorIndex !== -1) {
+    args = args.slice(0, separatorIndex);
+    argRanges = argRanges.slice(0, separatorIndex);
+  }
+  let subcommand: NpmSubcommand | undefined;
+  
+  if (command.shortcutFor) {
+    // Shortcuts like "npm get" run a subcommand of another command
+    const { command: target, subcommand: subcommandName } = command.shortcutFor;
+    command = NPM_COMMANDS.find(cmd => cmd.name === target)!;
+    subcommand = command.subcommands?.find(sub => sub.name === subcommandName);
+  } else if (command.subcommands) {
+    const resolved = resolveSubcommand(command, args);
+    if ('error' in resolved) {
+      return {
+        isValid: false,
+        command,
+        parameters: [],
+        parameterValues: {},
+        packageNames: [],
+        passThroughArgs: [],
+        errorMessage: resolved.error,
+        errorRange: resolved.index === undefined ? commandRange : argRanges[resolved.index],
+      };
+    }
+    subcommand = resolved.subcommand;
+    args = resolved.args;
+    if (resolved.index !== -1) {
+      argRanges = argRanges.filter((_, index) => index !== resolved.index);
+    }
+  }
+  
+  const availableParams = [...command.parameters, ...(subcommand?.parameters || [])];
+  const expanded = expandShortFlags(args, availableParams);
+  if ('error' in expanded) {
+    return {
+      isValid: false,
+      command,
+      subcommand,
+      parameters: [],
+      parameterValues: {},
+      packageNames: [],
+      passThroughArgs,
+      errorMessage: expanded.error,
+      errorRange: argRanges[expanded.index],
+    };
+  }
+  args = expanded.args;
+  argRanges = expanded.sources.map(index => argRanges[index]);
   
-  // Parse arguments (everything after command name)
-  const args = parts.slice(startIndex + 1);
   const parameters: string[] = [];
+  const parameterValues: Record<string, string[]> = {};
   const packageNames: string[] = [];
+  const valueRanges: Record<string, SourceRange[]> = {};
+  const packageRanges: SourceRange[] = [];
+  
+  const addValue = (param: string, value: string, range: SourceRange) => {
+    parameterValues[param] = [...(parameterValues[param] || []), value];
+    valueRanges[param] = [...(valueRanges[param] || []), range];
+  };
   
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
     
     // Check if it's a parameter (starts with - or --)
     if (arg.startsWith('-')) {
-      // Handle --param=value format
-      if (arg.includes('=')) {
-        const [paramPart] = arg.split('=');
-        const normalized = normalizeParameter(paramPart, command);
+      const eqIndex = arg.indexOf('=');
+      const normalized = normalizeParameter(eqIndex === -1 ? arg : arg.slice(0, eqIndex), availableParams);
+      const booleanBase = getBooleanBase(normalized, availableParams);
+      
+      if (booleanBase) {
+        // Boolean flags take true or false, either after "=" or as the next argument
+        let value = eqIndex === -1 ? undefined : arg.slice(eqIndex + 1);
+        if (value === undefined && (args[i + 1] === 'true' || args[i + 1] === 'false')) {
+          value = args[++i];
+        }
+        
+        const resolved = resolveBooleanFlag(booleanBase, normalized, value);
+        if ('error' in resolved) {
+          return {
+            isValid: false,
+            command,
+            subcommand,
+            parameters,
+            parameterValues,
+            packageNames,
+            passThroughArgs,
+            errorMessage: resolved.error,
+            errorRange: argRanges[i],
+          };
+        }
+        parameters.push(resolved.name);
+      } else if (eqIndex !== -1) {
+        // Handle --param=value format
         parameters.push(normalized);
         // Value is included in the parameter, don't need to skip next arg
+        addValue(normalized, arg.slice(eqIndex + 1), argRanges[i]);
       } else {
-        const normalized = normalizeParameter(arg, command);
         parameters.push(normalized);
         
         // Check if this parameter requires a value
-        const paramDef = command.parameters.find(
-          p => p.name === normalized || p.aliases?.includes(arg.toLowerCase())
+        const paramDef = availableParams.find(
+          p => p.name === normalized
         );
         
         // Skip the next arg if it's a parameter value (not starting with -)
         if (paramDef?.requiresValue && i + 1 < args.length && !args[i + 1].startsWith('-')) {
+          addValue(normalized, args[i + 1], argRanges[i + 1]);
           i++; // Skip the value in next iteration
         }
       }
@@ -166,40 +498,156 @@ export function parseCommand(input: string): ParsedCommand {
       // Only add as package if it's not right after a parameter that needs a value
       const prevArg = i > 0 ? args[i - 1] : null;
       if (prevArg && prevArg.startsWith('-')) {
-        const prevNormalized = normalizeParameter(prevArg, command);
-        const prevParamDef = command.parameters.find(
-          p => p.name === prevNormalized || p.aliases?.includes(prevArg.toLowerCase())
+        const prevNormalized = normalizeParameter(prevArg, availableParams);
+        const prevParamDef = availableParams.find(
+          p => p.name === prevNormalized
         );
         
         if (!prevParamDef?.requiresValue) {
           packageNames.push(arg);
+          packageRanges.push(argRanges[i]);
         }
       } else {
         packageNames.push(arg);
+        packageRanges.push(argRanges[i]);
       }
     }
   }
   
+  // Flags the command doesn't define are accepted, but kept with suggestions for when the command doesn't match
+  const unknownParameters: Record<string, string[]> = {};
+  for (const param of parameters) {
+    if (!availableParams.some(p => p.name === param) && !getBooleanBase(param, availableParams)) {
+      unknownParameters[param] = suggestParameters(param, availableParams);
+    }
+  }
+  
+  const valueError = validateParameterValues(availableParams, parameterValues);
+  if (valueError) {
+    return {
+      isValid: false,
+      command,
+      subcommand,
+      parameters,
+      parameterValues,
+      packageNames,
+      passThroughArgs,
+      errorMessage: valueError.error,
+      errorRange: valueRanges[valueError.name][valueError.index],
+    };
+  }
+  
+  const declared = getDeclaredPositionals(command, subcommand);
+  if (!declared) {
+    return {
+      isValid: true,
+      command,
+      subcommand,
+      parameters,
+      parameterValues,
+      packageNames,
+      passThroughArgs,
+      unknownParameters,
+    };
+  }
+  
+  const assigned = assignPositionals(declared, [...packageNames, ...passThroughArgs]);
+  if ('error' in assigned) {
+    return {
+      isValid: false,
+      command,
+      subcommand,
+      parameters,
+      parameterValues,
+      packageNames,
+      passThroughArgs,
+      errorMessage: `${assigned.error}. Usage: ${formatUsage(command, subcommand)}`,
+      // A missing argument has no argument to point at, so the command is highlighted instead
+      errorRange: assigned.index === undefined ? commandRange : [...packageRanges, ...passThroughRanges][assigned.index],
+    };
+  }
+  
   return {
     isValid: true,
     command,
+    subcommand,
     parameters,
+    parameterValues,
     packageNames,
+    passThroughArgs,
+    positionals: assigned.positionals,
+    unknownParameters,
   };
 }
 
 /**
- * Compare two parsed commands for equivalence
- * Used to check if user's input matches the expected command
+ * Normalize a parameter value for loose comparison
  */
-export function commandsMatch(
-  expected: ParsedCommand,
-  actual: ParsedCommand
-): { matches: boolean; reason?: string } {
-  if (!expected.isValid || !actual.isValid) {
-    return { matches: false, reason: 'Invalid command' };
+function normalizeValue(value: string): string {
+  return value.toLowerCase().replace(/[\\/]+$/, '');
+}
+
+/**
+ * Compare the values given for one parameter
+ */
+function valuesMatch(expected: string[], actual: string[], strictness: ValueStrictness): boolean {
+  if (strictness === 'ignore') {
+    return true;
   }
   
+  const normalize = strictness === 'loose' ? normalizeValue : (value: string) => value;
+  const expectedSorted = expected.map(normalize).sort();
+  const actualSorted = actual.map(normalize).sort();
+  
+  return expectedSorted.length === actualSorted.length &&
+    expectedSorted.every((value, i) => value === actualSorted[i]);
+}
+
+/**
+ * Compare the arguments given after "--"
+ * Unlike repeated flag values, their order matters
+ */
+function passThroughArgsMatch(expected: string[], actual: string[], strictness: ValueStrictness): boolean {
+  if (strictness === 'ignore') {
+    return true;
+  }
+  
+  const normalize = strictness === 'loose' ? normalizeValue : (value: string) => value;
+  return expected.length === actual.length &&
+    expected.every((value, i) => normalize(value) === normalize(actual[i]));
+}
+
+/**
+ * Get the positional arguments typed before "--"
+ * Arguments after "--" fill the last slots, but they are compared as pass-through args instead
+ */
+function getPositionalsBeforeSeparator(parsed: ParsedCommand, declared: PositionalArgument[]): Record<string, string[]> {
+  const positionals: Record<string, string[]> = {};
+  let passThroughLeft = parsed.passThroughArgs.length;
+  for (const positional of [...declared].reverse()) {
+    const values = parsed.positionals?.[positional.name] || [];
+    const kept = Math.max(0, values.length - passThroughLeft);
+    passThroughLeft -= values.length - kept;
+    positionals[positional.name] = values.slice(0, kept);
+  }
+  return positionals;
+}
+
+/**
+ * Join "key value" pairs into "key=value", so "npm set prefix /usr/local" = "npm set prefix=/usr/local"
+ */
+function joinKeyValuePairs(args: string[]): string[] {
+  const pairs: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    pairs.push(args[i].includes('=') || i + 1 === args.length ? args[i] : `${args[i]}=${args[++i]}`);
+  }
+  return pairs;
+}
+
+/**
+ * Check if the commands are the same npm shortcut: "npm test" = "npm run test"
+ */
+function isShortcutMatch(expected: ParsedCommand, actual: ParsedCommand): boolean {
   // Handle npm shortcuts: test, start, stop, restart can be run with or without 'run'
   const shortcutCommands = ['test', 'start', 'stop', 'restart'];
   
@@ -207,7 +655,7 @@ export function commandsMatch(
   if (shortcutCommands.includes(expected.command?.name || '')) {
     if (actual.command?.name === 'run' && actual.packageNames.includes(expected.command?.name || '')) {
       // User typed 'npm run test' when we expected 'npm test' - this is valid
-      return { matches: true };
+      return true;
     }
   }
   
@@ -216,52 +664,176 @@ export function commandsMatch(
     const scriptName = expected.packageNames[0];
     if (shortcutCommands.includes(scriptName) && actual.command?.name === scriptName) {
       // User typed 'npm test' when we expected 'npm run test' - this is valid
-      return { matches: true };
+      return true;
     }
   }
   
-  if (expected.command?.name !== actual.command?.name) {
-    return { matches: false, reason: 'Different command' };
+  return false;
+}
+
+/**
+ * Remove the items of expected from actual, one for one
+ * Returns what is left of each list
+ */
+function subtractLists(expected: string[], actual: string[], key: (item: string) => string): { missing: string[]; extra: string[] } {
+  const extra = [...actual];
+  const missing = expected.filter(item => {
+    const index = extra.findIndex(other => key(other) === key(item));
+    if (index === -1) {
+      return true;
+    }
+    extra.splice(index, 1);
+    return false;
+  });
+  
+  return { missing, extra };
+}
+
+/**
+ * Diff the arguments given for one positional slot
+ * Variadic slots are compared as unordered lists, so "npm i a b" = "npm i b a"
+ */
+export function diffArguments(
+  slot: string,
+  expected: string[],
+  actual: string[],
+  packageMatch: PackageMatchMode
+): CommandDifference[] {
+  // Specs that resolve the same way match, e.g. "lodash" and "lodash@latest"
+  const { missing, extra } = subtractLists(expected, actual, arg => getPackageMatchKey(arg, packageMatch));
+  
+  if (missing.length === 1 && extra.length === 1) {
+    return [{ kind: 'wrong-argument', target: slot, expected: missing, actual: extra }];
+  }
+  return [
+    ...(missing.length > 0 ? [{ kind: 'missing-argument' as const, target: slot, expected: missing }] : []),
+    ...(extra.length > 0 ? [{ kind: 'extra-argument' as const, target: slot, actual: extra }] : []),
+  ];
+}
+
+/**
+ * Compare two parsed commands for equivalence
+ * Used to check if user's input matches the expected command
+ * Lists every difference, or only the command or subcommand when that is already wrong
+ */
+export function commandsMatch(
+  expected: ParsedCommand,
+  actual: ParsedCommand,
+  options: MatchOptions = {}
+): CommandMatchResult {
+  if (!expected.isValid || !actual.isValid) {
+    return { matches: false, reason: 'Invalid command', differences: [] };
   }
   
-  // Sort and compare parameters
-  const expectedParams = [...expected.parameters].sort();
-  const actualParams = [...actual.parameters].sort();
+  const differences: CommandDifference[] = [];
+  const passThroughDifference: CommandDifference[] = passThroughArgsMatch(
+    expected.passThroughArgs,
+    actual.passThroughArgs,
+    options.passThroughStrictness ?? 'exact'
+  ) ? [] : [{ kind: 'pass-through', target: '--', expected: expected.passThroughArgs, actual: actual.passThroughArgs }];
   
-  if (expectedParams.length !== actualParams.length) {
-    return { matches: false, reason: 'Different number of parameters' };
+  if (isShortcutMatch(expected, actual)) {
+    return toMatchResult(passThroughDifference);
   }
   
-  for (let i = 0; i < expectedParams.length; i++) {
-    if (expectedParams[i] !== actualParams[i]) {
-      return { matches: false, reason: 'Different parameters' };
-    }
+  if (expected.command?.name !== actual.command?.name) {
+    return toMatchResult([{
+      kind: 'command',
+      target: expected.command!.name,
+      description: expected.command!.description,
+      expected: [expected.command!.name],
+      actual: [actual.command!.name],
+    }]);
   }
   
-  // Sort and compare package names
-  const expectedPkgs = [...expected.packageNames].sort();
-  const actualPkgs = [...actual.packageNames].sort();
+  if (expected.subcommand?.name !== actual.subcommand?.name) {
+    return toMatchResult([{
+      kind: 'subcommand',
+      target: expected.subcommand?.name || '',
+      description: expected.subcommand?.description,
+      expected: [`${expected.command!.name} ${expected.subcommand?.name || ''}`.trim()],
+      actual: actual.subcommand ? [actual.subcommand.name] : [],
+    }]);
+  }
+  
+  // Compare parameters as unordered lists
+  const availableParams = [...expected.command!.parameters, ...(expected.subcommand?.parameters || [])];
+  const describeParameter = (name: string) => {
+    const base = getBooleanBase(name, availableParams);
+    return (availableParams.find(p => p.name === name) || availableParams.find(p => p.name === base))?.description;
+  };
+  const { missing, extra } = subtractLists(expected.parameters, actual.parameters, param => param);
+  
+  for (const param of missing) {
+    differences.push({ kind: 'missing-flag', target: param, description: describeParameter(param), expected: expected.parameterValues[param] });
+  }
+  for (const param of extra) {
+    const suggestions = actual.unknownParameters?.[param];
+    differences.push(suggestions
+      ? { kind: 'unknown-flag', target: param, suggestions }
+      : { kind: 'extra-flag', target: param, description: describeParameter(param) });
+  }
   
-  if (expectedPkgs.length !== actualPkgs.length) {
-    return { matches: false, reason: 'Different number of packages' };
+  // Compare parameter values of the flags given in both
+  for (const param of Object.keys(expected.parameterValues)) {
+    const strictness = options.parameterStrictness?.[param] ?? options.valueStrictness ?? 'exact';
+    if (actual.parameters.includes(param) &&
+      !valuesMatch(expected.parameterValues[param], actual.parameterValues[param] || [], strictness)) {
+      differences.push({
+        kind: 'flag-value',
+        target: param,
+        description: describeParameter(param),
+        expected: expected.parameterValues[param],
+        actual: actual.parameterValues[param] || [],
+      });
+    }
   }
   
-  for (let i = 0; i < expectedPkgs.length; i++) {
-    if (expectedPkgs[i] !== actualPkgs[i]) {
-      return { matches: false, reason: 'Different package names' };
+  // Compare positional arguments slot by slot, so "npm dist-tag add lodash@4 beta" doesn't match "npm dist-tag add beta lodash@4"
+  const packageMatch = options.packageMatch ?? 'equivalent';
+  const declared = getDeclaredPositionals(expected.command!, expected.subcommand);
+  if (declared && expected.positionals && actual.positionals) {
+    const expectedPositionals = getPositionalsBeforeSeparator(expected, declared);
+    const actualPositionals = getPositionalsBeforeSeparator(actual, declared);
+    for (const positional of declared) {
+      const normalize = positional.keyValuePairs ? joinKeyValuePairs : (values: string[]) => values;
+      differences.push(...diffArguments(
+        positional.description,
+        normalize(expectedPositionals[positional.name]),
+        normalize(actualPositionals[positional.name]),
+        packageMatch
+      ));
     }
+  } else {
+    differences.push(...diffArguments('package name', expected.packageNames, actual.packageNames, packageMatch));
   }
   
-  return { matches: true };
+  return toMatchResult([...differences, ...passThroughDifference]);
+}
+
+/**
+ * Build the result of a comparison from its differences
+ */
+function toMatchResult(differences: CommandDifference[]): CommandMatchResult {
+  return {
+    matches: differences.length === 0,
+    reason: differences.length > 0 ? getDifferenceHint(differences[0], 'specific') : undefined,
+    differences,
+  };
 }
 
 /**
  * Get mock output for a parsed command
+ * When a project is given, output is derived from its simulated state
  */
-export function getMockOutput(parsed: ParsedCommand): string {
+export function getMockOutput(parsed: ParsedCommand, project?: ProjectState): string {
   if (!parsed.isValid || !parsed.command) {
     return 'Error: Invalid command';
   }
   
+  if (project) {
+    return executeCommand(project, parsed).output;
+  }
+  
   return parsed.command.mockOutput;
 }
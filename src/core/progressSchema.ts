@@ -0,0 +1,248 @@
+/**
+ * Progress Schema
+ * Versioned saved progress: migrations from older versions, and fitting progress to the current tasks
+ */
+
+import type { Task, TaskAttempt, TaskReview, UserProgress } from './taskSystem';
+import type { AnswerGrade } from './scoring';
+import { V1_TASK_KEYS } from './legacyTaskKeys';
+import { DEFAULT_TRACK_KEY, getTrack, getTrackTasks } from './curriculum';
+
+/**
+ * Current version of the saved progress format
+ * Bump it and add a migration whenever UserProgress changes shape
+ * - 1: numeric task ids (no version field)
+ * - 2: task keys
+ * - 3: spaced-repetition reviews
+ * - 4: full attempt history (input, correctness, help shown)
+ * - 5: learning tracks
+ */
+export const PROGRESS_VERSION = 5;
+
+/**
+ * A scored answer, as saved before version 4
+ */
+interface ScoredAttempt {
+  score: number;
+  grade: AnswerGrade;
+  timestamp: number;
+}
+
+/**
+ * Version 1: tasks referred to by their position in the task list
+ * Attempts and scenario steps were added during version 1, so earlier saves don't have them
+ */
+interface ProgressV1 {
+  version?: 1;
+  currentTaskId: number;
+  completedTaskIds?: number[];
+  totalTasks: number;
+  completionCount?: number;
+  taskOrder?: number[];
+  attempts?: Record<string, ScoredAttempt[]>;
+  scenarioSteps?: Record<string, number>;
+}
+
+/**
+ * Version 2: tasks referred to by key
+ */
+interface ProgressV2 {
+  version: 2;
+  currentTaskId: number;
+  completedTaskKeys: string[];
+  totalTasks: number;
+  completionCount: number;
+  taskOrder: string[];
+  attempts: Record<string, ScoredAttempt[]>;
+  scenarioSteps: Record<string, number>;
+}
+
+/**
+ * Version 3: a review schedule per completed task
+ */
+interface ProgressV3 extends Omit<ProgressV2, 'version'> {
+  version: 3;
+  reviews: Record<string, TaskReview>;
+}
+
+/**
+ * Version 4: every attempt with its input and the help shown
+ */
+interface ProgressV4 extends Omit<ProgressV3, 'version' | 'attempts'> {
+  version: 4;
+  attempts: Record<string, TaskAttempt[]>;
+}
+
+type LegacyProgress = ProgressV1 | ProgressV2 | ProgressV3 | ProgressV4;
+type SavedProgress = LegacyProgress | UserProgress;
+
+/**
+ * Turn numeric task ids into keys
+ * Version 1 was only valid for the task list it was saved with, so anything saved against another list
+ * keeps its completion count but no task progress
+ */
+function migrateFromV1(saved: ProgressV1): ProgressV2 {
+  const layoutMatches = saved.totalTasks === V1_TASK_KEYS.length;
+  const toKey = (id: number | string): string | undefined =>
+    (layoutMatches ? V1_TASK_KEYS[Number(id) - 1] : undefined) ?? undefined; // null: the task was removed
+  const toKeys = (ids: number[] = []) => ids.map(toKey).filter((key): key is string => key !== undefined);
+  const rekey = <T>(byId: Record<string, T> = {}): Record<string, T> => {
+    const byKey: Record<string, T> = {};
+    for (const [id, value] of Object.entries(byId)) {
+      const key = toKey(id);
+      if (key) {
+        byKey[key] = value;
+      }
+    }
+    return byKey;
+  };
+
+  return {
+    version: 2,
+    // Removed tasks drop out of the order, so count the tasks still ahead of the current one
+    currentTaskId: layoutMatches ? toKeys((saved.taskOrder || []).slice(0, saved.currentTaskId - 1)).length + 1 : 1,
+    completedTaskKeys: toKeys(saved.completedTaskIds),
+    totalTasks: saved.totalTasks,
+    completionCount: saved.completionCount || 0,
+    taskOrder: toKeys(saved.taskOrder),
+    attempts: rekey(saved.attempts),
+    scenarioSteps: rekey(saved.scenarioSteps),
+  };
+}
+
+/**
+ * Schedule a first review for every completed task
+ * Each is treated as answered right once, so it's due a day after its last attempt
+ */
+function migrateFromV2(saved: ProgressV2): ProgressV3 {
+  const reviews: Record<string, TaskReview> = {};
+  for (const key of saved.completedTaskKeys) {
+    const attempts = saved.attempts[key] || [];
+    const reviewedAt = attempts.length > 0 ? attempts[attempts.length - 1].timestamp : Date.now();
+    reviews[key] = { ease: 2.5, interval: 1, repetitions: 1, lapses: 0, dueAt: reviewedAt + 24 * 60 * 60 * 1000 };
+  }
+  return { ...saved, version: 3, reviews };
+}
+
+/**
+ * Fill in the attempt fields version 3 didn't record
+ * Only scores were kept, so the input is unknown and no help is assumed
+ */
+function migrateFromV3(saved: ProgressV3): ProgressV4 {
+  const attempts: Record<string, TaskAttempt[]> = {};
+  for (const [key, scored] of Object.entries(saved.attempts)) {
+    attempts[key] = scored.map(attempt => ({
+      input: '',
+      score: attempt.score,
+      grade: attempt.grade,
+      isCorrect: attempt.grade === 'correct',
+      completed: attempt.grade === 'correct',
+      hintShown: false,
+      solutionShown: false,
+      timestamp: attempt.timestamp,
+    }));
+  }
+  return { ...saved, version: 4, attempts };
+}
+
+/**
+ * Put existing progress on the default track, which has every task
+ */
+function migrateFromV4(saved: ProgressV4): UserProgress {
+  return { ...saved, version: 5, trackKey: DEFAULT_TRACK_KEY };
+}
+
+/**
+ * Migrate saved progress by one version
+ */
+function migrateOnce(saved: LegacyProgress): SavedProgress {
+  switch (saved.version) {
+    case undefined:
+    case 1:
+      return migrateFromV1(saved);
+    case 2:
+      return migrateFromV2(saved);
+    case 3:
+      return migrateFromV3(saved);
+    case 4:
+      return migrateFromV4(saved);
+  }
+}
+
+/**
+ * Check that saved data is progress of a version this app can migrate
+ * Saves without a version are version 1
+ */
+function isSavedProgress(saved: unknown): saved is SavedProgress {
+  if (!saved || typeof saved !== 'object') {
+    return false;
+  }
+  const { version } = saved as { version?: unknown };
+  return version === undefined || (Number.isInteger(version) && Number(version) >= 1 && Number(version) <= PROGRESS_VERSION);
+}
+
+/**
+ * Check that saved progress is in the current format
+ */
+function isCurrentProgress(saved: SavedProgress): saved is UserProgress {
+  return saved.version === PROGRESS_VERSION;
+}
+
+/**
+ * Keep only the entries for tasks that still exist
+ */
+function pickTasks<T>(byKey: Record<string, T>, exists: (key: string) => boolean): Record<string, T> {
+  return Object.fromEntries(Object.entries(byKey).filter(([key]) => exists(key)));
+}
+
+/**
+ * Fit progress to the current tasks and tracks
+ * Removed tasks are dropped, new tasks of the track are queued after the existing order, and the current task stays current.
+ * Progress on a track that no longer exists moves to the default track.
+ */
+export function reconcileProgress(progress: UserProgress, tasks: Task[]): UserProgress {
+  const keys = new Set(tasks.map(task => task.key));
+  const exists = (key: string) => keys.has(key);
+  const track = getTrack(progress.trackKey);
+  const trackKeys = getTrackTasks(track.key, tasks).map(task => task.key);
+  const inTrack = new Set(trackKeys);
+
+  const keptOrder = track.key === progress.trackKey ? progress.taskOrder.filter(key => inTrack.has(key)) : [];
+  const ordered = new Set(keptOrder);
+  const taskOrder = [...keptOrder, ...trackKeys.filter(key => !ordered.has(key))];
+
+  const currentKey = progress.taskOrder[progress.currentTaskId - 1];
+  const currentIndex = currentKey ? taskOrder.indexOf(currentKey) : -1;
+  const currentTaskId = currentIndex !== -1
+    ? currentIndex + 1
+    : Math.max(1, Math.min(progress.currentTaskId, taskOrder.length + 1));
+
+  return {
+    ...progress,
+    currentTaskId,
+    completedTaskKeys: progress.completedTaskKeys.filter(exists),
+    totalTasks: taskOrder.length,
+    trackKey: track.key,
+    taskOrder,
+    attempts: pickTasks(progress.attempts, exists),
+    scenarioSteps: pickTasks(progress.scenarioSteps, exists),
+    reviews: pickTasks(progress.reviews, exists),
+  };
+}
+
+/**
+ * Bring saved progress of any version up to date with the current format and tasks
+ * Returns null when there's nothing usable to migrate (unknown or newer version)
+ */
+export function migrateProgress(saved: unknown, tasks: Task[]): UserProgress | null {
+  if (!isSavedProgress(saved)) {
+    return null; // Not progress, or saved by a newer app version
+  }
+
+  let migrated = saved;
+  while (!isCurrentProgress(migrated)) {
+    migrated = migrateOnce(migrated);
+  }
+
+  return reconcileProgress(migrated, tasks);
+}
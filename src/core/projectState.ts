@@ -0,0 +1,997 @@
+/**
+ * Project State
+ * Simulated project (package.json, package-lock.json, node_modules, .npmrc)
+ * that parsed commands read from and mutate
+ */
+
+import {
+  Advisory,
+  getRegistryPackage,
+  getTarballUrl,
+  resolveVersion,
+  getLatestVersion,
+  MOCK_ADVISORIES,
+  REGISTRY_URL,
+} from './registry';
+import { bumpVersion, compareVersions, isValidVersion, maxSatisfying, satisfies } from './semver';
+import { getSpecName, isRegistrySpec, parsePackageSpec } from './packageSpec';
+import type { ParsedCommand } from './parser';
+
+export type DependencyField = 'dependencies' | 'devDependencies' | 'optionalDependencies' | 'peerDependencies';
+
+export const DEPENDENCY_FIELDS: DependencyField[] = [
+  'dependencies',
+  'devDependencies',
+  'optionalDependencies',
+  'peerDependencies',
+];
+
+export interface PackageJson {
+  name: string;
+  version: string;
+  description?: string;
+  main?: string;
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  bundleDependencies?: string[];
+  [field: string]: unknown;
+}
+
+export interface InstalledPackage {
+  name: string;
+  version: string;
+  resolved: string;
+  dependencies: Record<string, string>;
+  dev?: boolean;
+  optional?: boolean;
+  extraneous?: boolean;
+}
+
+export interface LockfileEntry {
+  name?: string;
+  version: string;
+  resolved?: string;
+  dev?: boolean;
+  optional?: boolean;
+  extraneous?: boolean;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+}
+
+export interface PackageLock {
+  name: string;
+  version: string;
+  lockfileVersion: number;
+  requires: boolean;
+  packages: Record<string, LockfileEntry>;
+}
+
+export interface ProjectState {
+  packageJson: PackageJson;
+  packageLock: PackageLock | null;
+  nodeModules: Record<string, InstalledPackage>;
+  npmrc: Record<string, string>;
+  globalPackages: Record<string, InstalledPackage>;
+}
+
+export interface PackageChanges {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+export const PROJECT_PATH = 'C:\\Users\\user\\project';
+export const GLOBAL_PREFIX = 'C:\\Users\\user\\AppData\\Roaming\\npm';
+export const USER_NPMRC_PATH = 'C:\\Users\\user\\.npmrc';
+export const LATEST_GIT_TAG = 'v1.1.0'; // Latest tag in the project's git repository, read by "npm version from-git"
+
+export const CONFIG_DEFAULTS: Record<string, string> = {
+  'registry': REGISTRY_URL,
+  'init-license': 'ISC',
+  'init-version': '1.0.0',
+  'save-exact': 'false',
+  'audit': 'true',
+  'fund': 'true',
+};
+
+/**
+ * Create an installed package entry for a resolved version
+ */
+function createInstalledPackage(name: string, version: string): InstalledPackage {
+  const metadata = getRegistryPackage(name);
+  return {
+    name,
+    version,
+    resolved: getTarballUrl(name, version),
+    dependencies: { ...(metadata.dependencies || {}) },
+  };
+}
+
+/**
+ * Create the starting project every learner begins with
+ */
+export function createProjectState(): ProjectState {
+  const packageJson: PackageJson = {
+    name: 'my-project',
+    version: '1.0.0',
+    description: '',
+    main: 'index.js',
+    scripts: {
+      build: 'tsc',
+      start: 'node index.js',
+      stop: 'node stop.js',
+      test: 'jest',
+    },
+    dependencies: {
+      express: '^4.18.2',
+      lodash: '^4.17.20',
+    },
+    devDependencies: {
+      jest: '^29.7.0',
+      typescript: '^5.4.5',
+    },
+  };
+
+  const nodeModules: Record<string, InstalledPackage> = {
+    'express': createInstalledPackage('express', '4.18.2'),
+    'body-parser': createInstalledPackage('body-parser', '1.20.1'),
+    'debug': createInstalledPackage('debug', '2.6.9'),
+    'lodash': createInstalledPackage('lodash', '4.17.20'),
+    'jest': createInstalledPackage('jest', '29.7.0'),
+    'typescript': createInstalledPackage('typescript', '5.4.5'),
+    // Left behind by an earlier "npm install underscore --no-save"
+    'underscore': createInstalledPackage('underscore', '1.13.6'),
+  };
+
+  return finalizeState({
+    packageJson,
+    packageLock: null,
+    nodeModules,
+    npmrc: {},
+    globalPackages: {
+      npm: createInstalledPackage('npm', '10.8.2'),
+    },
+  });
+}
+
+/**
+ * Get all direct dependency ranges declared in package.json
+ */
+export function getDeclaredDependencies(
+  packageJson: PackageJson,
+  fields: DependencyField[] = DEPENDENCY_FIELDS
+): Record<string, { range: string; field: DependencyField }> {
+  const declared: Record<string, { range: string; field: DependencyField }> = {};
+  for (const field of fields) {
+    for (const [name, range] of Object.entries(packageJson[field] || {})) {
+      if (!declared[name]) {
+        declared[name] = { range, field };
+      }
+    }
+  }
+  return declared;
+}
+
+/**
+ * Check if a declared range resolves through the registry (not an alias, git, file or URL spec)
+ */
+function isRegistryRange(range: string): boolean {
+  const spec = parsePackageSpec(`x@${range}`);
+  return spec !== null && isRegistrySpec(spec);
+}
+
+/**
+ * Collect every package reachable from the given roots
+ */
+function collectReachable(roots: string[], nodeModules: Record<string, InstalledPackage>): Set<string> {
+  const reachable = new Set<string>();
+  const queue = [...roots];
+  while (queue.length > 0) {
+    const name = queue.shift()!;
+    if (reachable.has(name) || !nodeModules[name]) {
+      continue;
+    }
+    reachable.add(name);
+    queue.push(...Object.keys(nodeModules[name].dependencies));
+  }
+  return reachable;
+}
+
+/**
+ * Recompute dev/optional/extraneous flags on node_modules entries
+ */
+function markDependencyFlags(
+  packageJson: PackageJson,
+  nodeModules: Record<string, InstalledPackage>
+): Record<string, InstalledPackage> {
+  const prodRoots = Object.keys({ ...packageJson.dependencies, ...packageJson.peerDependencies });
+  const optionalRoots = Object.keys(packageJson.optionalDependencies || {});
+  const devRoots = Object.keys(packageJson.devDependencies || {});
+
+  const prod = collectReachable(prodRoots, nodeModules);
+  const optional = collectReachable(optionalRoots, nodeModules);
+  const dev = collectReachable(devRoots, nodeModules);
+
+  const marked: Record<string, InstalledPackage> = {};
+  for (const [name, pkg] of Object.entries(nodeModules)) {
+    const inProd = prod.has(name);
+    const inOptional = optional.has(name);
+    const inDev = dev.has(name);
+    marked[name] = {
+      ...pkg,
+      dev: !inProd && !inOptional && inDev ? true : undefined,
+      optional: !inProd && !inDev && inOptional ? true : undefined,
+      extraneous: !inProd && !inOptional && !inDev ? true : undefined,
+    };
+  }
+  return marked;
+}
+
+/**
+ * Build package-lock.json contents from package.json and node_modules
+ */
+export function buildPackageLock(
+  packageJson: PackageJson,
+  nodeModules: Record<string, InstalledPackage>
+): PackageLock {
+  const packages: Record<string, LockfileEntry> = {
+    '': {
+      name: packageJson.name,
+      version: packageJson.version,
+      dependencies: packageJson.dependencies,
+      devDependencies: packageJson.devDependencies,
+      optionalDependencies: packageJson.optionalDependencies,
+    },
+  };
+
+  for (const name of Object.keys(nodeModules).sort()) {
+    const pkg = nodeModules[name];
+    packages[`node_modules/${name}`] = {
+      version: pkg.version,
+      resolved: pkg.resolved,
+      dev: pkg.dev,
+      optional: pkg.optional,
+      extraneous: pkg.extraneous,
+      dependencies: Object.keys(pkg.dependencies).length > 0 ? pkg.dependencies : undefined,
+    };
+  }
+
+  return {
+    name: packageJson.name,
+    version: packageJson.version,
+    lockfileVersion: 3,
+    requires: true,
+    packages,
+  };
+}
+
+/**
+ * Recompute derived data after a mutation
+ */
+function finalizeState(state: ProjectState, options: { writeLock?: boolean } = {}): ProjectState {
+  const nodeModules = markDependencyFlags(state.packageJson, state.nodeModules);
+  const writeLock = options.writeLock ?? true;
+  return {
+    ...state,
+    nodeModules,
+    packageLock: writeLock ? buildPackageLock(state.packageJson, nodeModules) : state.packageLock,
+  };
+}
+
+/**
+ * Diff two node_modules trees
+ */
+function diffTrees(
+  before: Record<string, InstalledPackage>,
+  after: Record<string, InstalledPackage>
+): PackageChanges {
+  const changes: PackageChanges = { added: [], removed: [], changed: [] };
+  for (const name of Object.keys(after)) {
+    if (!before[name]) {
+      changes.added.push(name);
+    } else if (before[name].version !== after[name].version) {
+      changes.changed.push(name);
+    }
+  }
+  for (const name of Object.keys(before)) {
+    if (!after[name]) {
+      changes.removed.push(name);
+    }
+  }
+  return changes;
+}
+
+/**
+ * Install a package and its dependencies into a flat (hoisted) tree
+ */
+function addToTree(
+  tree: Record<string, InstalledPackage>,
+  name: string,
+  version: string,
+  replace: boolean
+): void {
+  if (tree[name] && !replace) {
+    return;
+  }
+  tree[name] = createInstalledPackage(name, version);
+
+  for (const [depName, depRange] of Object.entries(tree[name].dependencies)) {
+    const existing = tree[depName];
+    if (existing && satisfies(existing.version, depRange)) {
+      continue;
+    }
+    const depVersion = resolveVersion(depName, depRange) || getLatestVersion(depName);
+    addToTree(tree, depName, depVersion, true);
+  }
+}
+
+/**
+ * Remove packages that were only reachable through removed roots
+ * Packages that were already extraneous are left for "npm prune"
+ */
+function removeOrphans(
+  before: Record<string, InstalledPackage>,
+  packageJson: PackageJson,
+  tree: Record<string, InstalledPackage>
+): void {
+  const reachable = collectReachable(Object.keys(getDeclaredDependencies(packageJson)), tree);
+  for (const name of Object.keys(tree)) {
+    if (!reachable.has(name) && !before[name]?.extraneous) {
+      delete tree[name];
+    }
+  }
+}
+
+/**
+ * Split "name@spec" into name and spec, respecting scoped names
+ * Git, file and URL specs are named after their repo or file
+ */
+export function splitPackageArg(arg: string): { name: string; spec?: string } {
+  const packageSpec = parsePackageSpec(arg);
+  if (packageSpec) {
+    return { name: getSpecName(packageSpec), spec: packageSpec.rawSpec || undefined };
+  }
+
+  const atIndex = arg.indexOf('@', arg.startsWith('@') ? 1 : 0);
+  if (atIndex === -1) {
+    return { name: arg };
+  }
+  return { name: arg.slice(0, atIndex), spec: arg.slice(atIndex + 1) };
+}
+
+export interface InstallOptions {
+  saveField: DependencyField | null;
+  saveBundle?: boolean; // Also list saved packages in bundleDependencies
+  saveExact?: boolean;
+  global?: boolean;
+  packageLockOnly?: boolean;
+  packageLock?: boolean;
+}
+
+/**
+ * Install packages (or everything in package.json when none are given)
+ */
+export function installPackages(
+  state: ProjectState,
+  args: string[],
+  options: InstallOptions
+): { state: ProjectState; changes: PackageChanges; errors: string[] } {
+  const errors: string[] = [];
+
+  if (options.global) {
+    const globalPackages = { ...state.globalPackages };
+    for (const arg of args) {
+      const { name, spec } = splitPackageArg(arg);
+      const version = resolveVersion(name, spec);
+      if (!version) {
+        errors.push(`No matching version found for ${arg}.`);
+        continue;
+      }
+      globalPackages[name] = createInstalledPackage(name, version);
+    }
+    return {
+      state: { ...state, globalPackages },
+      changes: diffTrees(state.globalPackages, globalPackages),
+      errors,
+    };
+  }
+
+  const packageJson: PackageJson = { ...state.packageJson };
+  const tree = { ...state.nodeModules };
+
+  if (args.length === 0) {
+    for (const [name, { range }] of Object.entries(getDeclaredDependencies(packageJson))) {
+      if (isRegistryRange(range) && (!tree[name] || !satisfies(tree[name].version, range))) {
+        addToTree(tree, name, resolveVersion(name, range) || getLatestVersion(name), true);
+      }
+    }
+  }
+
+  for (const arg of args) {
+    const packageSpec = parsePackageSpec(arg);
+    if (!packageSpec) {
+      errors.push(`Invalid package name or version: "${arg}"`);
+      continue;
+    }
+    const name = getSpecName(packageSpec);
+
+    let savedRange: string;
+    if (packageSpec.type === 'alias' || isRegistrySpec(packageSpec)) {
+      // Aliases install the target package under the alias name
+      const target = packageSpec.subSpec ?? packageSpec;
+      const spec = target.rawSpec || undefined;
+      const version = resolveVersion(target.name!, spec);
+      if (!version) {
+        errors.push(`No matching version found for ${target.raw}.`);
+        continue;
+      }
+      const shadowed = tree[target.name!];
+      addToTree(tree, target.name!, version, true);
+      if (target !== packageSpec) {
+        tree[name] = { ...tree[target.name!], name };
+        if (shadowed) {
+          tree[target.name!] = shadowed;
+        } else {
+          delete tree[target.name!];
+        }
+      }
+
+      savedRange = `^${version}`;
+      if (options.saveExact) {
+        savedRange = version;
+      } else if (spec && !isValidVersion(spec) && !getRegistryPackage(target.name!).distTags[spec]) {
+        savedRange = spec;
+      }
+      if (target !== packageSpec) {
+        savedRange = `npm:${target.name}@${savedRange}`;
+      }
+    } else {
+      // Git, file and URL specs are installed as-is and saved the way they were given
+      const resolved = packageSpec.type === 'file' || packageSpec.type === 'directory'
+        ? `file:${packageSpec.fetchSpec}`
+        : packageSpec.fetchSpec;
+      tree[name] = { name, version: '1.0.0', resolved, dependencies: {} };
+      savedRange = packageSpec.type === 'file' || packageSpec.type === 'directory' ? resolved : packageSpec.rawSpec;
+    }
+
+    if (options.saveField) {
+
+      // A package lives in exactly one dependency field
+      for (const field of DEPENDENCY_FIELDS) {
+        if (field !== options.saveField && packageJson[field]?.[name]) {
+          const { [name]: _removed, ...rest } = packageJson[field]!;
+          packageJson[field] = rest;
+        }
+      }
+      packageJson[options.saveField] = { ...(packageJson[options.saveField] || {}), [name]: savedRange };
+      if (options.saveBundle && !packageJson.bundleDependencies?.includes(name)) {
+        packageJson.bundleDependencies = [...(packageJson.bundleDependencies || []), name];
+      }
+    }
+  }
+
+  const next = finalizeState(
+    { ...state, packageJson, nodeModules: tree },
+    { writeLock: options.packageLock !== false }
+  );
+
+  if (options.packageLockOnly) {
+    return {
+      state: { ...state, packageJson, packageLock: next.packageLock },
+      changes: { added: [], removed: [], changed: [] },
+      errors,
+    };
+  }
+
+  return { state: next, changes: diffTrees(state.nodeModules, next.nodeModules), errors };
+}
+
+/**
+ * Uninstall packages and drop them from package.json
+ * Packages are named as for install, so "lodash@4" uninstalls lodash
+ */
+export function uninstallPackages(
+  state: ProjectState,
+  args: string[],
+  options: { global?: boolean; save?: boolean }
+): { state: ProjectState; changes: PackageChanges } {
+  const names = args.map(arg => splitPackageArg(arg).name);
+  if (options.global) {
+    const globalPackages = { ...state.globalPackages };
+    for (const name of names) {
+      delete globalPackages[name];
+    }
+    return {
+      state: { ...state, globalPackages },
+      changes: diffTrees(state.globalPackages, globalPackages),
+    };
+  }
+
+  const packageJson: PackageJson = { ...state.packageJson };
+  const tree = { ...state.nodeModules };
+
+  for (const name of names) {
+    delete tree[name];
+    if (options.save !== false) {
+      for (const field of DEPENDENCY_FIELDS) {
+        if (packageJson[field]?.[name]) {
+          const { [name]: _removed, ...rest } = packageJson[field]!;
+          packageJson[field] = rest;
+        }
+      }
+      if (packageJson.bundleDependencies?.includes(name)) {
+        packageJson.bundleDependencies = packageJson.bundleDependencies.filter(bundled => bundled !== name);
+      }
+    }
+  }
+  removeOrphans(state.nodeModules, packageJson, tree);
+
+  const next = finalizeState({ ...state, packageJson, nodeModules: tree });
+  return { state: next, changes: diffTrees(state.nodeModules, next.nodeModules) };
+}
+
+/**
+ * Update packages to the newest version their declared range allows
+ */
+export function updatePackages(
+  state: ProjectState,
+  names: string[],
+  options: { global?: boolean; save?: boolean }
+): { state: ProjectState; changes: PackageChanges } {
+  if (options.global) {
+    const globalPackages = { ...state.globalPackages };
+    for (const name of Object.keys(globalPackages)) {
+      if (names.length === 0 || names.includes(name)) {
+        globalPackages[name] = createInstalledPackage(name, getLatestVersion(name));
+      }
+    }
+    return {
+      state: { ...state, globalPackages },
+      changes: diffTrees(state.globalPackages, globalPackages),
+    };
+  }
+
+  const packageJson: PackageJson = { ...state.packageJson };
+  const tree = { ...state.nodeModules };
+  const declared = getDeclaredDependencies(packageJson);
+
+  for (const [name, { range, field }] of Object.entries(declared)) {
+    if ((names.length > 0 && !names.includes(name)) || !isRegistryRange(range)) {
+      continue;
+    }
+    const wanted = maxSatisfying(getRegistryPackage(name).versions, range);
+    if (!wanted || tree[name]?.version === wanted) {
+      continue;
+    }
+    addToTree(tree, name, wanted, true);
+    if (options.save !== false && range.startsWith('^')) {
+      packageJson[field] = { ...packageJson[field], [name]: `^${wanted}` };
+    }
+  }
+  removeOrphans(state.nodeModules, packageJson, tree);
+
+  const next = finalizeState({ ...state, packageJson, nodeModules: tree });
+  return { state: next, changes: diffTrees(state.nodeModules, next.nodeModules) };
+}
+
+/**
+ * Remove extraneous packages from node_modules
+ */
+export function prunePackages(state: ProjectState): { state: ProjectState; changes: PackageChanges } {
+  const tree: Record<string, InstalledPackage> = {};
+  for (const [name, pkg] of Object.entries(state.nodeModules)) {
+    if (!pkg.extraneous) {
+      tree[name] = pkg;
+    }
+  }
+  const next = finalizeState({ ...state, nodeModules: tree });
+  return { state: next, changes: diffTrees(state.nodeModules, next.nodeModules) };
+}
+
+export interface OutdatedEntry {
+  name: string;
+  current: string | null;
+  wanted: string;
+  latest: string;
+  location: string;
+  dependent: string;
+  type: DependencyField;
+}
+
+/**
+ * List direct dependencies with newer versions available
+ */
+export function getOutdatedPackages(state: ProjectState): OutdatedEntry[] {
+  const entries: OutdatedEntry[] = [];
+  const declared = getDeclaredDependencies(state.packageJson);
+
+  for (const name of Object.keys(declared).sort()) {
+    const { range, field } = declared[name];
+    if (!isRegistryRange(range)) {
+      continue;
+    }
+    const current = state.nodeModules[name]?.version || null;
+    const wanted = maxSatisfying(getRegistryPackage(name).versions, range) || current || range;
+    const latest = getLatestVersion(name);
+    if (current === wanted && current === latest) {
+      continue;
+    }
+    entries.push({
+      name,
+      current,
+      wanted,
+      latest,
+      location: `node_modules/${name}`,
+      dependent: state.packageJson.name,
+      type: field,
+    });
+  }
+  return entries;
+}
+
+/**
+ * Read a dotted path (e.g. "scripts.test") from package.json
+ */
+export function getPackageJsonField(packageJson: Record<string, unknown>, path: string): unknown {
+  let current: unknown = packageJson;
+  for (const key of path.split('.')) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+/**
+ * Write or delete a dotted path in package.json, returning a new object
+ */
+export function setPackageJsonField(packageJson: PackageJson, path: string, value: unknown): PackageJson {
+  const keys = path.split('.');
+  const root: Record<string, unknown> = { ...packageJson };
+  let current = root;
+
+  for (let i = 0; i < keys.length - 1; i++) {
+    const next = current[keys[i]];
+    const copy = next !== null && typeof next === 'object' ? { ...(next as Record<string, unknown>) } : {};
+    current[keys[i]] = copy;
+    current = copy;
+  }
+
+  const lastKey = keys[keys.length - 1];
+  if (value === undefined) {
+    delete current[lastKey];
+  } else {
+    current[lastKey] = value;
+  }
+  return root as PackageJson;
+}
+
+export interface Vulnerability {
+  advisory: Advisory;
+  installed: string;
+  fixVersion: string | null;
+}
+
+/**
+ * Find installed packages matching known advisories
+ */
+export function findVulnerabilities(nodeModules: Record<string, InstalledPackage>): Vulnerability[] {
+  const found: Vulnerability[] = [];
+  for (const advisory of MOCK_ADVISORIES) {
+    const pkg = nodeModules[advisory.name];
+    if (pkg && satisfies(pkg.version, advisory.vulnerableRange)) {
+      const safeVersions = getRegistryPackage(advisory.name).versions.filter(
+        v => !satisfies(v, advisory.vulnerableRange)
+      );
+      found.push({
+        advisory,
+        installed: pkg.version,
+        fixVersion: safeVersions.length > 0 ? safeVersions.sort(compareVersions)[0] : null,
+      });
+    }
+  }
+  return found;
+}
+
+/**
+ * Apply "npm audit fix": move vulnerable packages to the first safe version
+ * Without force, only fixes that stay inside the declared range are applied
+ */
+export function fixVulnerabilities(
+  state: ProjectState,
+  options: { force?: boolean }
+): { state: ProjectState; changes: PackageChanges } {
+  const tree = { ...state.nodeModules };
+  const declared = getDeclaredDependencies(state.packageJson);
+
+  for (const vulnerability of findVulnerabilities(tree)) {
+    const { name } = vulnerability.advisory;
+    if (!vulnerability.fixVersion) {
+      continue;
+    }
+    const range = declared[name]?.range;
+    if (range && !satisfies(vulnerability.fixVersion, range) && !options.force) {
+      continue;
+    }
+    tree[name] = createInstalledPackage(name, vulnerability.fixVersion);
+  }
+
+  const next = finalizeState({ ...state, nodeModules: tree });
+  return { state: next, changes: diffTrees(state.nodeModules, next.nodeModules) };
+}
+
+/**
+ * Remove node_modules and reinstall exactly what the lockfile records
+ */
+export function cleanInstall(state: ProjectState): { state: ProjectState; changes: PackageChanges; errors: string[] } {
+  if (!state.packageLock) {
+    return {
+      state,
+      changes: { added: [], removed: [], changed: [] },
+      errors: ['The `npm ci` command can only install with an existing package-lock.json'],
+    };
+  }
+
+  const tree: Record<string, InstalledPackage> = {};
+  for (const [path, entry] of Object.entries(state.packageLock.packages)) {
+    if (path === '' || entry.extraneous) {
+      continue;
+    }
+    const name = path.replace(/^node_modules\//, '');
+    tree[name] = { ...createInstalledPackage(name, entry.version), resolved: entry.resolved || getTarballUrl(name, entry.version) };
+  }
+
+  const next = finalizeState({ ...state, nodeModules: tree });
+  // Every package is removed and written again
+  return {
+    state: next,
+    changes: { added: Object.keys(next.nodeModules), removed: [], changed: [] },
+    errors: [],
+  };
+}
+
+/**
+ * Create or complete package.json the way "npm init" does
+ */
+export function initPackageJson(state: ProjectState): ProjectState {
+  const defaults: PackageJson = {
+    name: state.packageJson.name,
+    version: state.npmrc['init-version'] || CONFIG_DEFAULTS['init-version'],
+    description: '',
+    main: 'index.js',
+    scripts: {
+      test: 'echo "Error: no test specified" && exit 1',
+    },
+    keywords: [],
+    author: state.npmrc['init-author-name'] || '',
+    license: state.npmrc['init-license'] || CONFIG_DEFAULTS['init-license'],
+  };
+  return finalizeState({ ...state, packageJson: { ...defaults, ...state.packageJson } });
+}
+
+/**
+ * Bump the package version ("npm version <newversion>")
+ */
+export function setPackageVersion(state: ProjectState, version: string): ProjectState {
+  return finalizeState({ ...state, packageJson: { ...state.packageJson, version } });
+}
+
+/**
+ * Apply "key=value" pairs (or "key value") to package.json via "npm pkg set"
+ */
+export function setPackageJsonFields(state: ProjectState, pairs: string[]): { state: ProjectState; errors: string[] } {
+  let packageJson = state.packageJson;
+  for (const pair of pairs) {
+    const eqIndex = pair.indexOf('=');
+    if (eqIndex === -1) {
+      return { state, errors: ['npm pkg set expects a key=value pair of args.'] };
+    }
+    packageJson = setPackageJsonField(packageJson, pair.slice(0, eqIndex), pair.slice(eqIndex + 1));
+  }
+  return { state: finalizeState({ ...state, packageJson }), errors: [] };
+}
+
+/**
+ * Remove fields from package.json via "npm pkg delete"
+ */
+export function deletePackageJsonFields(state: ProjectState, fields: string[]): ProjectState {
+  let packageJson = state.packageJson;
+  for (const field of fields) {
+    packageJson = setPackageJsonField(packageJson, field, undefined);
+  }
+  return finalizeState({ ...state, packageJson });
+}
+
+/**
+ * Write config values to .npmrc, accepting "key=value" and "key value" forms
+ */
+export function setConfigValues(state: ProjectState, args: string[]): ProjectState {
+  const npmrc = { ...state.npmrc };
+  for (let i = 0; i < args.length; i++) {
+    const eqIndex = args[i].indexOf('=');
+    if (eqIndex !== -1) {
+      npmrc[args[i].slice(0, eqIndex)] = args[i].slice(eqIndex + 1);
+    } else {
+      npmrc[args[i]] = args[i + 1] ?? '';
+      i++;
+    }
+  }
+  return { ...state, npmrc };
+}
+
+/**
+ * Remove config values from .npmrc
+ */
+export function deleteConfigValues(state: ProjectState, keys: string[]): ProjectState {
+  const npmrc = { ...state.npmrc };
+  for (const key of keys) {
+    delete npmrc[key];
+  }
+  return { ...state, npmrc };
+}
+
+/**
+ * Read a config value, falling back to npm's defaults
+ */
+export function getConfigValue(state: ProjectState, key: string): string | undefined {
+  return state.npmrc[key] ?? CONFIG_DEFAULTS[key];
+}
+
+/**
+ * Link the current package globally, or link global packages into the project
+ */
+export function linkPackages(state: ProjectState, args: string[]): { state: ProjectState; changes: PackageChanges } {
+  if (args.length === 0) {
+    const { name, version } = state.packageJson;
+    const globalPackages = {
+      ...state.globalPackages,
+      [name]: { name, version, resolved: `file:${PROJECT_PATH}`, dependencies: {} },
+    };
+    return {
+      state: { ...state, globalPackages },
+      changes: diffTrees(state.globalPackages, globalPackages),
+    };
+  }
+
+  const tree = { ...state.nodeModules };
+  for (const arg of args) {
+    const { name } = splitPackageArg(arg);
+    const linked = state.globalPackages[name];
+    tree[name] = {
+      name,
+      version: linked?.version || '1.0.0',
+      resolved: `file:${GLOBAL_PREFIX}\\node_modules\\${name}`,
+      dependencies: {},
+    };
+  }
+  const next = finalizeState({ ...state, nodeModules: tree });
+  return { state: next, changes: diffTrees(state.nodeModules, next.nodeModules) };
+}
+
+export interface CommandEffect {
+  state: ProjectState;
+  changes: PackageChanges;
+  errors: string[];
+}
+
+/**
+ * Check if the parsed command includes any of the given (normalized) flags
+ */
+export function hasFlag(parsed: ParsedCommand, ...flags: string[]): boolean {
+  return parsed.parameters.some(p => flags.includes(p));
+}
+
+/**
+ * Get every value given for a (normalized) flag, e.g. ["dev", "optional"] for "--omit dev --omit optional"
+ */
+export function getFlagValues(parsed: ParsedCommand, flag: string): string[] {
+  return parsed.parameterValues[flag] || [];
+}
+
+/**
+ * Get the value of a flag, the last one winning when it is repeated
+ */
+export function getFlagValue(parsed: ParsedCommand, flag: string): string | undefined {
+  const values = getFlagValues(parsed, flag);
+  return values[values.length - 1];
+}
+
+/**
+ * Determine which package.json field an install should save to
+ */
+function getSaveField(parsed: ParsedCommand): DependencyField | null {
+  if (hasFlag(parsed, '--no-save')) return null;
+  if (hasFlag(parsed, '--save-dev')) return 'devDependencies';
+  if (hasFlag(parsed, '--save-optional')) return 'optionalDependencies';
+  if (hasFlag(parsed, '--save-peer')) return 'peerDependencies';
+  return 'dependencies';
+}
+
+/**
+ * Apply the effect of a parsed command to the project
+ * Commands that don't touch the project return it unchanged
+ */
+export function applyCommand(state: ProjectState, parsed: ParsedCommand): CommandEffect {
+  const unchanged: CommandEffect = { state, changes: { added: [], removed: [], changed: [] }, errors: [] };
+  if (!parsed.isValid || !parsed.command) {
+    return unchanged;
+  }
+
+  const args = parsed.packageNames;
+  const global = hasFlag(parsed, '--global', '-g');
+  const save = !hasFlag(parsed, '--no-save');
+
+  switch (parsed.command.name) {
+    case 'init':
+      return args.length > 0 ? unchanged : { ...unchanged, state: initPackageJson(state) };
+    case 'install':
+    case 'install-test':
+      return installPackages(state, args, {
+        saveField: getSaveField(parsed),
+        saveBundle: hasFlag(parsed, '--save-bundle'),
+        saveExact: hasFlag(parsed, '--save-exact') || getConfigValue(state, 'save-exact') === 'true',
+        global,
+        packageLock: !hasFlag(parsed, '--no-package-lock'),
+        packageLockOnly: hasFlag(parsed, '--package-lock-only'),
+      });
+    case 'ci':
+    case 'install-ci-test':
+      return cleanInstall(state);
+    case 'uninstall':
+      return { ...uninstallPackages(state, args, { global, save }), errors: [] };
+    case 'update':
+      return { ...updatePackages(state, args, { global, save }), errors: [] };
+    case 'prune':
+      return { ...prunePackages(state), errors: [] };
+    case 'link':
+      return { ...linkPackages(state, args), errors: [] };
+    case 'audit':
+      return args[0] === 'fix'
+        ? { ...fixVulnerabilities(state, { force: hasFlag(parsed, '--force') }), errors: [] }
+        : unchanged;
+    case 'version': {
+      const target = args[0] === 'from-git' ? LATEST_GIT_TAG : args[0];
+      if (!target) {
+        return unchanged;
+      }
+      const next = isValidVersion(target) ? target.replace(/^v/, '') : bumpVersion(state.packageJson.version, target, getFlagValue(parsed, '--preid'));
+      if (!next) {
+        return { ...unchanged, errors: [`Invalid version: ${target}`] };
+      }
+      if (next === state.packageJson.version && !hasFlag(parsed, '--allow-same-version')) {
+        return { ...unchanged, errors: ['Version not changed, might want --allow-same-version'] };
+      }
+      return { ...unchanged, state: setPackageVersion(state, next) };
+    }
+    case 'pkg':
+      if (parsed.subcommand?.name === 'set') {
+        return { ...unchanged, ...setPackageJsonFields(state, args) };
+      }
+      if (parsed.subcommand?.name === 'delete') {
+        return { ...unchanged, state: deletePackageJsonFields(state, args) };
+      }
+      return unchanged;
+    case 'set-script': {
+      const [name, script] = args;
+      if (!name || script === undefined) {
+        return { ...unchanged, errors: ['Usage: npm set-script <script> <command>'] };
+      }
+      return { ...unchanged, state: setPackageJsonFields(state, [`scripts.${name}=${script}`]).state };
+    }
+    case 'config':
+      if (parsed.subcommand?.name === 'set') {
+        return { ...unchanged, state: setConfigValues(state, args) };
+      }
+      if (parsed.subcommand?.name === 'delete') {
+        return { ...unchanged, state: deleteConfigValues(state, args) };
+      }
+      return unchanged;
+    default:
+      return unchanged;
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Mock Registry
+ * Package metadata used by the simulated project (no network access)
+ */
+
+import { compareVersions, isValidVersion, maxSatisfying } from './semver';
+
+export interface RegistryPackage {
+  name: string;
+  description: string;
+  license: string;
+  homepage?: string;
+  funding?: string;
+  versions: string[];
+  distTags: Record<string, string>;
+  dependencies?: Record<string, string>;
+}
+
+export type Severity = 'info' | 'low' | 'moderate' | 'high' | 'critical';
+
+export const SEVERITY_LEVELS: Severity[] = ['info', 'low', 'moderate', 'high', 'critical'];
+
+export interface Advisory {
+  id: number;
+  name: string;
+  title: string;
+  severity: Severity;
+  vulnerableRange: string;
+  url: string;
+}
+
+export const REGISTRY_URL = 'https://registry.npmjs.org/';
+
+export const MOCK_ADVISORIES: Advisory[] = [
+  {
+    id: 1106913,
+    name: 'lodash',
+    title: 'Command Injection in lodash',
+    severity: 'high',
+    vulnerableRange: '<4.17.21',
+    url: 'https://github.com/advisories/GHSA-35jh-r3h4-6jhm',
+  },
+  {
+    id: 1096366,
+    name: 'body-parser',
+    title: 'body-parser vulnerable to denial of service when url encoding is enabled',
+    severity: 'moderate',
+    vulnerableRange: '<1.20.3',
+    url: 'https://github.com/advisories/GHSA-qwcr-r2fm-qrc7',
+  },
+];
+
+export const MOCK_REGISTRY: Record<string, RegistryPackage> = {
+  'lodash': {
+    name: 'lodash',
+    description: 'Lodash modular utilities.',
+    license: 'MIT',
+    homepage: 'https://lodash.com/',
+    versions: ['4.17.15', '4.17.19', '4.17.20', '4.17.21'],
+    distTags: { latest: '4.17.21' },
+  },
+  'express': {
+    name: 'express',
+    description: 'Fast, unopinionated, minimalist web framework',
+    license: 'MIT',
+    homepage: 'http://expressjs.com/',
+    funding: 'https://opencollective.com/express',
+    versions: ['4.17.1', '4.18.1', '4.18.2', '4.19.2', '5.0.0'],
+    distTags: { latest: '5.0.0' },
+    dependencies: { 'body-parser': '^1.20.1', 'debug': '^2.6.9' },
+  },
+  'body-parser': {
+    name: 'body-parser',
+    description: 'Node.js body parsing middleware',
+    license: 'MIT',
+    funding: 'https://opencollective.com/express',
+    versions: ['1.20.1', '1.20.2', '1.20.3'],
+    distTags: { latest: '1.20.3' },
+    dependencies: { 'debug': '^2.6.9' },
+  },
+  'debug': {
+    name: 'debug',
+    description: 'Lightweight debugging utility for Node.js and the browser',
+    license: 'MIT',
+    versions: ['2.6.9', '4.3.4'],
+    distTags: { latest: '4.3.4' },
+  },
+  'react': {
+    name: 'react',
+    description: 'React is a JavaScript library for building user interfaces.',
+    license: 'MIT',
+    homepage: 'https://react.dev/',
+    versions: ['17.0.2', '18.2.0', '18.3.1', '19.0.0-rc.1'],
+    distTags: { latest: '18.3.1', next: '19.0.0-rc.1' },
+  },
+  'axios': {
+    name: 'axios',
+    description: 'Promise based HTTP client for the browser and node.js',
+    license: 'MIT',
+    homepage: 'https://axios-http.com',
+    versions: ['0.27.2', '1.6.8', '1.7.2'],
+    distTags: { latest: '1.7.2' },
+  },
+  'chalk': {
+    name: 'chalk',
+    description: 'Terminal string styling done right',
+    license: 'MIT',
+    versions: ['4.1.2', '5.3.0'],
+    distTags: { latest: '5.3.0' },
+  },
+  'jest': {
+    name: 'jest',
+    description: 'Delightful JavaScript Testing.',
+    license: 'MIT',
+    homepage: 'https://jestjs.io/',
+    versions: ['28.1.3', '29.7.0'],
+    distTags: { latest: '29.7.0' },
+  },
+  'typescript': {
+    name: 'typescript',
+    description: 'TypeScript is a language for application scale JavaScript development',
+    license: 'Apache-2.0',
+    homepage: 'https://www.typescriptlang.org/',
+    versions: ['4.9.5', '5.4.5', '5.5.4', '5.6.0-beta'],
+    distTags: { latest: '5.5.4', beta: '5.6.0-beta' },
+  },
+  'eslint': {
+    name: 'eslint',
+    description: 'An AST-based pattern checker for JavaScript.',
+    license: 'MIT',
+    homepage: 'https://eslint.org',
+    funding: 'https://opencollective.com/eslint',
+    versions: ['8.57.0', '9.9.0'],
+    distTags: { latest: '9.9.0' },
+  },
+  'nodemon': {
+    name: 'nodemon',
+    description: 'Simple monitor script for use during development of a Node.js app.',
+    license: 'MIT',
+    versions: ['2.0.22', '3.1.4'],
+    distTags: { latest: '3.1.4' },
+  },
+  'underscore': {
+    name: 'underscore',
+    description: 'JavaScript\'s functional programming helper library.',
+    license: 'MIT',
+    homepage: 'https://underscorejs.org',
+    versions: ['1.12.1', '1.13.6'],
+    distTags: { latest: '1.13.6' },
+  },
+  'npm': {
+    name: 'npm',
+    description: 'a package manager for JavaScript',
+    license: 'Artistic-2.0',
+    homepage: 'https://docs.npmjs.com/',
+    versions: ['9.9.3', '10.8.2'],
+    distTags: { latest: '10.8.2' },
+  },
+};
+
+/**
+ * Look up a package in the mock registry
+ * Unknown packages get a synthetic entry so any name can be practiced
+ */
+export function getRegistryPackage(name: string): RegistryPackage {
+  const known = MOCK_REGISTRY[name];
+  if (known) {
+    return known;
+  }
+
+  return {
+    name,
+    description: `The ${name} package`,
+    license: 'ISC',
+    versions: ['1.0.0'],
+    distTags: { latest: '1.0.0' },
+  };
+}
+
+/**
+ * Resolve a version, range or dist-tag to a concrete published version
+ */
+export function resolveVersion(name: string, spec?: string): string | null {
+  const pkg = getRegistryPackage(name);
+
+  if (!spec || spec === '') {
+    return pkg.distTags.latest;
+  }
+  if (pkg.distTags[spec]) {
+    return pkg.distTags[spec];
+  }
+  if (isValidVersion(spec)) {
+    return pkg.versions.includes(spec) ? spec : null;
+  }
+  return maxSatisfying(pkg.versions, spec);
+}
+
+/**
+ * Get the latest published version of a package
+ */
+export function getLatestVersion(name: string): string {
+  const pkg = getRegistryPackage(name);
+  return pkg.distTags.latest || [...pkg.versions].sort(compareVersions)[pkg.versions.length - 1];
+}
+
+/**
+ * Build the tarball URL for a package version
+ */
+export function getTarballUrl(name: string, version: string): string {
+  const baseName = name.startsWith('@') ? name.split('/')[1] : name;
+  return `${REGISTRY_URL}${name}/-/${baseName}-${version}.tgz`;
+}
@@ -0,0 +1,65 @@
+/**
+ * Answer Scoring
+ * Grades answers by how close they are to the expected command
+ */
+
+import type { CommandDifference, DifferenceKind } from './parser';
+
+export type AnswerGrade = 'correct' | 'near-miss' | 'partial' | 'incorrect';
+
+export interface AnswerScore {
+  score: number; // 0-100
+  grade: AnswerGrade;
+}
+
+/**
+ * Points taken off for each difference
+ * A wrong command or an answer that doesn't parse scores 0 regardless
+ */
+const DIFFERENCE_PENALTIES: Record<DifferenceKind, number> = {
+  'command': 100,
+  'subcommand': 50,
+  'missing-flag': 25,
+  'extra-flag': 15,
+  'unknown-flag': 20,
+  'flag-value': 10,
+  'missing-argument': 25,
+  'extra-argument': 15,
+  'wrong-argument': 20,
+  'pass-through': 10,
+};
+
+// Using the right command is always worth something, however many details are off
+const RIGHT_COMMAND_SCORE = 20;
+
+/**
+ * Get the grade for a score
+ */
+export function getAnswerGrade(score: number): AnswerGrade {
+  if (score >= 100) return 'correct';
+  if (score >= 75) return 'near-miss';
+  if (score >= 40) return 'partial';
+  return 'incorrect';
+}
+
+/**
+ * Score an answer from its differences to the expected command
+ * Pass null for answers that could not be parsed
+ */
+export function scoreAnswer(differences: CommandDifference[] | null): AnswerScore {
+  if (!differences || differences.some(difference => difference.kind === 'command')) {
+    return { score: 0, grade: 'incorrect' };
+  }
+
+  const penalty = differences.reduce((total, difference) => total + DIFFERENCE_PENALTIES[difference.kind], 0);
+  const score = penalty === 0 ? 100 : Math.max(RIGHT_COMMAND_SCORE, 100 - penalty);
+  return { score, grade: getAnswerGrade(score) };
+}
+
+/**
+ * Score an outcome-based answer by how many of the task's goals the project meets
+ */
+export function scoreGoals(metGoals: number, totalGoals: number): AnswerScore {
+  const score = totalGoals === 0 ? 100 : Math.round((metGoals / totalGoals) * 100);
+  return { score, grade: getAnswerGrade(score) };
+}
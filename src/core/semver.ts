@@ -0,0 +1,314 @@
+/**
+ * Semver Helpers
+ * Minimal semantic versioning support for the simulated registry and project
+ */
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+const VERSION_PATTERN = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+/**
+ * Parse a full version string (e.g. "4.17.21" or "1.1.0-beta.0")
+ */
+export function parseVersion(input: string): SemVer | null {
+  const match = VERSION_PATTERN.exec(input.trim());
+  if (!match) {
+    return null;
+  }
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split('.') : [],
+  };
+}
+
+/**
+ * Check if a string is a valid full version
+ */
+export function isValidVersion(input: string): boolean {
+  return parseVersion(input) !== null;
+}
+
+/**
+ * Compare two versions, returns negative, zero or positive like Array.sort
+ */
+export function compareVersions(a: string, b: string): number {
+  const va = parseVersion(a);
+  const vb = parseVersion(b);
+  if (!va || !vb) {
+    return a.localeCompare(b);
+  }
+
+  if (va.major !== vb.major) return va.major - vb.major;
+  if (va.minor !== vb.minor) return va.minor - vb.minor;
+  if (va.patch !== vb.patch) return va.patch - vb.patch;
+
+  // A version without prerelease has higher precedence
+  if (va.prerelease.length === 0 && vb.prerelease.length === 0) return 0;
+  if (va.prerelease.length === 0) return 1;
+  if (vb.prerelease.length === 0) return -1;
+
+  const length = Math.max(va.prerelease.length, vb.prerelease.length);
+  for (let i = 0; i < length; i++) {
+    const pa = va.prerelease[i];
+    const pb = vb.prerelease[i];
+    if (pa === undefined) return -1;
+    if (pb === undefined) return 1;
+    if (pa === pb) continue;
+
+    const na = Number(pa);
+    const nb = Number(pb);
+    if (!isNaN(na) && !isNaN(nb)) return na - nb;
+    return pa < pb ? -1 : 1;
+  }
+
+  return 0;
+}
+
+interface Comparator {
+  operator: '>' | '>=' | '<' | '<=' | '=';
+  version: string;
+}
+
+/**
+ * Expand a partial version like "4" or "4.17" or "4.x" into its bounds
+ */
+function partialBounds(input: string): { lower: string; upper: string | null } | null {
+  const parts = input.replace(/^v/, '').split('.');
+  if (parts.length > 3) {
+    return null;
+  }
+
+  const isWild = (part?: string) => part === undefined || part === 'x' || part === 'X' || part === '*';
+  const [major, minor, patch] = parts;
+
+  if (isWild(major)) {
+    return { lower: '0.0.0', upper: null };
+  }
+  if (!/^\d+$/.test(major)) {
+    return null;
+  }
+  if (isWild(minor)) {
+    return { lower: `${major}.0.0`, upper: `${Number(major) + 1}.0.0` };
+  }
+  if (!/^\d+$/.test(minor)) {
+    return null;
+  }
+  if (isWild(patch)) {
+    return { lower: `${major}.${minor}.0`, upper: `${major}.${Number(minor) + 1}.0` };
+  }
+  return null;
+}
+
+/**
+ * Turn a single range token (e.g. "^1.2.3", ">=2", "1.x") into comparators
+ */
+function parseComparatorToken(token: string): Comparator[] | null {
+  if (token === '' || token === '*' || token === 'x' || token === 'X' || token === 'latest') {
+    return [];
+  }
+
+  const caret = token.startsWith('^');
+  const tilde = token.startsWith('~');
+  if (caret || tilde) {
+    const body = token.slice(1);
+    const full = parseVersion(body);
+    if (!full) {
+      const bounds = partialBounds(body);
+      if (!bounds) return null;
+      const result: Comparator[] = [{ operator: '>=', version: bounds.lower }];
+      if (bounds.upper) result.push({ operator: '<', version: bounds.upper });
+      return result;
+    }
+
+    let upper: string;
+    if (tilde) {
+      upper = `${full.major}.${full.minor + 1}.0`;
+    } else if (full.major > 0) {
+      upper = `${full.major + 1}.0.0`;
+    } else if (full.minor > 0) {
+      upper = `0.${full.minor + 1}.0`;
+    } else {
+      upper = `0.0.${full.patch + 1}`;
+    }
+    return [
+      { operator: '>=', version: body.replace(/^v/, '') },
+      { operator: '<', version: upper },
+    ];
+  }
+
+  const opMatch = /^(>=|<=|>|<|=)?(.+)$/.exec(token);
+  if (!opMatch) {
+    return null;
+  }
+  const operator = (opMatch[1] || '=') as Comparator['operator'];
+  const body = opMatch[2];
+
+  if (parseVersion(body)) {
+    return [{ operator, version: body.replace(/^v/, '') }];
+  }
+
+  const bounds = partialBounds(body);
+  if (!bounds) {
+    return null;
+  }
+
+  switch (operator) {
+    case '=':
+      return bounds.upper
+        ? [{ operator: '>=', version: bounds.lower }, { operator: '<', version: bounds.upper }]
+        : [];
+    case '>=':
+      return [{ operator: '>=', version: bounds.lower }];
+    case '<':
+      return [{ operator: '<', version: bounds.lower }];
+    case '>':
+      return bounds.upper ? [{ operator: '>=', version: bounds.upper }] : [{ operator: '<', version: '0.0.0' }];
+    case '<=':
+      return bounds.upper ? [{ operator: '<', version: bounds.upper }] : [];
+  }
+}
+
+/**
+ * Parse a range into OR-groups of AND-ed comparators
+ */
+function parseRange(range: string): Comparator[][] | null {
+  const groups: Comparator[][] = [];
+
+  for (const rawGroup of range.split('||')) {
+    const group = rawGroup.trim();
+
+    // Hyphen ranges: "1.2.3 - 2.3.4"
+    const hyphen = /^(\S+)\s+-\s+(\S+)$/.exec(group);
+    if (hyphen) {
+      if (!parseVersion(hyphen[1]) || !parseVersion(hyphen[2])) {
+        return null;
+      }
+      groups.push([
+        { operator: '>=', version: hyphen[1] },
+        { operator: '<=', version: hyphen[2] },
+      ]);
+      continue;
+    }
+
+    const comparators: Comparator[] = [];
+    // Allow "> = 1.0.0" style spacing between operator and version
+    const tokens = group.replace(/(>=|<=|>|<|=)\s+/g, '$1').split(/\s+/).filter(Boolean);
+    for (const token of tokens) {
+      const parsed = parseComparatorToken(token);
+      if (!parsed) {
+        return null;
+      }
+      comparators.push(...parsed);
+    }
+    groups.push(comparators);
+  }
+
+  return groups;
+}
+
+/**
+ * Check if a string is a valid semver range
+ */
+export function isValidRange(range: string): boolean {
+  return parseRange(range) !== null;
+}
+
+/**
+ * Check if a version satisfies a range
+ * Supports exact versions, x-ranges, ^, ~, comparison operators, hyphen ranges and ||
+ */
+export function satisfies(version: string, range: string): boolean {
+  const groups = parseRange(range);
+  const parsed = parseVersion(version);
+  if (!groups || !parsed) {
+    return false;
+  }
+
+  return groups.some(group => {
+    // Prereleases only match ranges that explicitly mention the same major.minor.patch
+    if (parsed.prerelease.length > 0) {
+      const allowsPrerelease = group.some(c => {
+        const cv = parseVersion(c.version);
+        return cv !== null && cv.prerelease.length > 0 &&
+          cv.major === parsed.major && cv.minor === parsed.minor && cv.patch === parsed.patch;
+      });
+      if (!allowsPrerelease) {
+        return false;
+      }
+    }
+
+    return group.every(c => {
+      const cmp = compareVersions(version, c.version);
+      switch (c.operator) {
+        case '>': return cmp > 0;
+        case '>=': return cmp >= 0;
+        case '<': return cmp < 0;
+        case '<=': return cmp <= 0;
+        case '=': return cmp === 0;
+      }
+    });
+  });
+}
+
+/**
+ * Get the highest version from a list that satisfies a range
+ */
+export function maxSatisfying(versions: string[], range: string): string | null {
+  const matching = versions.filter(v => satisfies(v, range));
+  if (matching.length === 0) {
+    return null;
+  }
+  return matching.sort(compareVersions)[matching.length - 1];
+}
+
+export const RELEASE_TYPES = ['major', 'minor', 'patch', 'premajor', 'preminor', 'prepatch', 'prerelease'];
+
+/**
+ * Bump a version by release type (as "npm version <type>" does)
+ * Returns null for an unknown release type
+ */
+export function bumpVersion(version: string, release: string, preid?: string): string | null {
+  const v = parseVersion(version);
+  if (!v) {
+    return null;
+  }
+
+  const pre = (base: string) => `${base}-${preid ? `${preid}.` : ''}0`;
+
+  switch (release) {
+    case 'major':
+      return v.prerelease.length > 0 && v.minor === 0 && v.patch === 0 ? `${v.major}.0.0` : `${v.major + 1}.0.0`;
+    case 'minor':
+      return v.prerelease.length > 0 && v.patch === 0 ? `${v.major}.${v.minor}.0` : `${v.major}.${v.minor + 1}.0`;
+    case 'patch':
+      return v.prerelease.length > 0 ? `${v.major}.${v.minor}.${v.patch}` : `${v.major}.${v.minor}.${v.patch + 1}`;
+    case 'premajor':
+      return pre(`${v.major + 1}.0.0`);
+    case 'preminor':
+      return pre(`${v.major}.${v.minor + 1}.0`);
+    case 'prepatch':
+      return pre(`${v.major}.${v.minor}.${v.patch + 1}`);
+    case 'prerelease': {
+      if (v.prerelease.length === 0) {
+        return pre(`${v.major}.${v.minor}.${v.patch + 1}`);
+      }
+      const base = `${v.major}.${v.minor}.${v.patch}`;
+      const last = v.prerelease[v.prerelease.length - 1];
+      const samePreid = !preid || v.prerelease[0] === preid;
+      if (samePreid && /^\d+$/.test(last)) {
+        return `${base}-${[...v.prerelease.slice(0, -1), String(Number(last) + 1)].join('.')}`;
+      }
+      return pre(base);
+    }
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Typo Suggestions
+ * "Did you mean" suggestions for mistyped commands, subcommands and flags
+ */
+
+import { NPM_COMMANDS, CommandParameter } from './commands';
+
+interface Candidate {
+  text: string; // What the user may have meant to type
+  name: string; // Canonical name suggested for it
+}
+
+/**
+ * Count the edits (insertions, deletions, substitutions, swaps of neighbours) turning a into b
+ */
+export function getEditDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+  for (let j = 1; j <= b.length; j++) {
+    d[0][j] = j;
+  }
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+}
+
+/**
+ * Get the canonical names of the closest candidates, if any are close enough to be a typo
+ * Like npm, a candidate counts when fewer than 40% of the input's characters differ
+ */
+function findClosest(input: string, candidates: Candidate[]): string[] {
+  const maxDistance = Math.max(1, Math.floor(input.length * 0.4));
+  const scored = candidates
+    .map(candidate => ({ name: candidate.name, distance: getEditDistance(input, candidate.text) }))
+    .filter(candidate => candidate.distance > 0 && candidate.distance <= maxDistance);
+  const best = Math.min(...scored.map(candidate => candidate.distance));
+
+  return [...new Set(scored.filter(candidate => candidate.distance === best).map(candidate => candidate.name))].sort();
+}
+
+/**
+ * Suggest commands for a mistyped command name, e.g. "install" for "instll"
+ */
+export function suggestCommands(input: string): string[] {
+  const candidates = NPM_COMMANDS.flatMap(cmd =>
+    [cmd.name, ...(cmd.aliases || [])].map(text => ({ text, name: cmd.name }))
+  );
+  return findClosest(input.toLowerCase(), candidates);
+}
+
+/**
+ * Suggest subcommands for a mistyped subcommand name, e.g. "set" for "sett"
+ */
+export function suggestSubcommands(input: string, subcommands: { name: string; aliases?: string[] }[]): string[] {
+  const candidates = subcommands.flatMap(sub =>
+    [sub.name, ...(sub.aliases || [])].map(text => ({ text, name: sub.name }))
+  );
+  return findClosest(input.toLowerCase(), candidates);
+}
+
+/**
+ * Suggest parameters for a flag the command doesn't know, e.g. "--save-dev" for "--sav-dev"
+ */
+export function suggestParameters(input: string, availableParams: CommandParameter[]): string[] {
+  if (!input.startsWith('--')) {
+    return []; // Any single letter is one edit away from another
+  }
+
+  const candidates = availableParams.flatMap(param =>
+    [param.name, ...(param.aliases || [])].map(text => ({ text, name: param.name }))
+  );
+  return findClosest(input.toLowerCase(), candidates);
+}
+
+/**
+ * Format suggestions as a question, e.g. "Did you mean npm install?"
+ */
+export function formatSuggestions(suggestions: string[], prefix = ''): string {
+  if (suggestions.length === 0) {
+    return '';
+  }
+  return `Did you mean ${suggestions.map(suggestion => `${prefix}${suggestion}`).join(' or ')}?`;
+}
@@ -0,0 +1,6797 @@
+/**
+ * Task Data
+ * Every task, in the order they are practiced within a difficulty (see curriculum.ts for tracks)
+ * Keys are how a task is identified across versions, so never change or reuse one
+ */
+
+import type { TaskDefinition } from './taskLoader';
+
+export const TASK_DEFINITIONS: TaskDefinition[] = [
+  // ========== INIT ==========
+  {
+    key: 'init.initialize-a-new-project',
+    title: 'Initialize a new project',
+    description: 'Create a package.json file to start a new npm project',
+    expectedCommand: 'npm init',
+    hint: 'Aliases: create',
+    commandName: 'init',
+    difficulty: 'beginner',
+    topics: ['basics'],
+    commandExplanation: 'Creates a package.json file for your project. You\'ll be prompted to answer questions about your project name, version, description, etc.',
+  },
+  {
+    key: 'init.initialize-project-with-default-settings',
+    title: 'Initialize project with default settings',
+    description: 'Create a package.json file automatically without answering any questions, using default values',
+    expectedCommand: 'npm init -y',
+    hint: 'Use -y or --yes to accept all defaults',
+    commandName: 'init',
+    difficulty: 'beginner',
+    topics: ['basics'],
+    prerequisites: ['init.initialize-a-new-project'],
+    commandExplanation: 'The -y (or --yes) flag skips all prompts and creates a package.json with default values. Quick way to start a project.',
+  },
+  {
+    key: 'init.initialize-a-vite-project',
+    title: 'Initialize a Vite project',
+    description: 'Use npm init to bootstrap a new Vite application (runs create-vite)',
+    expectedCommand: 'npm init vite',
+    hint: 'npm init <initializer> runs the corresponding create-<initializer> package',
+    commandName: 'init',
+    difficulty: 'beginner',
+    topics: ['basics'],
+    prerequisites: ['init.initialize-a-new-project'],
+    commandExplanation: 'npm init <initializer> is a shortcut for npx create-<initializer>. It downloads and runs project scaffolding tools.',
+  },
+  {
+    key: 'init.initialize-vite-project-named-my-app',
+    title: 'Initialize Vite project named "my-app"',
+    description: 'Create a Vite project in a directory called "my-app"',
+    expectedCommand: 'npm init vite my-app',
+    hint: 'Add a directory name after the initializer',
+    commandName: 'init',
+    difficulty: 'beginner',
+    topics: ['basics'],
+    prerequisites: ['init.initialize-a-new-project'],
+    commandExplanation: 'You can specify a target directory name when using initializers.',
+  },
+  {
+    key: 'init.initialize-with-vitejs-app-initializer',
+    title: 'Initialize with @vitejs/app initializer',
+    description: 'Use the scoped @vitejs/app package initializer to create a project',
+    expectedCommand: 'npm init @vitejs/app',
+    hint: 'Scoped initializers work the same way with @scope/name format',
+    commandName: 'init',
+    difficulty: 'beginner',
+    topics: ['basics'],
+    prerequisites: ['init.initialize-a-new-project'],
+    commandExplanation: 'npm init @scope runs npx @scope/create. Useful for organization-specific initializers.',
+  },
+  {
+    key: 'init.initialize-with-latest-react-app',
+    title: 'Initialize with latest react-app',
+    description: 'Run the react-app initializer at the latest version',
+    expectedCommand: 'npm init react-app@latest',
+    matchOptions: { packageMatch: 'exact' },
+    hint: 'Use @ to specify version or dist-tag (like @latest, @1.2.3)',
+    commandName: 'init',
+    difficulty: 'beginner',
+    topics: ['basics'],
+    prerequisites: ['init.initialize-a-new-project'],
+    commandExplanation: 'You can pin initializers to specific versions using @version or @tag syntax (like @latest, @next, @1.2.3).',
+  },
+  {
+    key: 'init.initialize-vite-with-react-template',
+    title: 'Initialize Vite with React template',
+    description: 'Create a Vite project using the React template',
+    expectedCommand: 'npm init vite -- --template react',
+    hint: 'Use -- to separate npm options from initializer options',
+    commandName: 'init',
+    difficulty: 'beginner',
+    topics: ['basics'],
+    prerequisites: ['init.initialize-a-new-project'],
+    commandExplanation: 'Arguments after -- are passed directly to the initializer package.',
+  },
+  {
+    key: 'init.initialize-with-author-name-john-doe',
+    title: 'Initialize with author name "John Doe"',
+    description: 'Create a package.json with the author name set to "John Doe"',
+    expectedCommand: 'npm init --init-author-name="John Doe"',
+    hint: 'Use --init-author-name with the specific name value, and -y to skip prompts',
+    commandName: 'init',
+    difficulty: 'intermediate',
+    topics: ['basics'],
+    prerequisites: ['init.initialize-a-new-project'],
+    commandExplanation: 'The --init-author-name parameter sets the author field in package.json. Default: empty string.',
+  },
+  {
+    key: 'init.initialize-with-full-author-info',
+    title: 'Initialize with full author info',
+    description: 'Set author to "John Doe" with email "john@example.org" and URL "https://johndoe.dev"',
+    expectedCommand: 'npm init --init-author-name="John Doe" --init-author-email="john@example.org" --init-author-url="https://johndoe.dev"',
+    hint: 'Combine --init-author-name, --init-author-email, and --init-author-url',
+    commandName: 'init',
+    difficulty: 'intermediate',
+    topics: ['basics'],
+    prerequisites: ['init.initialize-a-new-project'],
+    commandExplanation: 'Email and URL are only included in the author field if --init-author-name is set. Format: "Name <email> (url)". You can use any combination: name only, name+email, name+url, or all three.',
+  },
+  {
+    key: 'init.initialize-with-mit-license',
+    title: 'Initialize with MIT license',
+    description: 'Create a package.json with the license field set to "MIT"',
+    expectedCommand: 'npm init --init-license=MIT',
+    hint: 'Use --init-license=MIT',
+    commandName: 'init',
+    difficulty: 'intermediate',
+    topics: ['basics'],
+    prerequisites: ['init.initialize-a-new-project'],
+    commandExplanation: 'The --init-license parameter sets the license field in package.json. Default: ISC. Common values: MIT, ISC, Apache-2.0, GPL-3.0, BSD-3-Clause, Unlicense.',
+  },
+  {
+    key: 'init.initialize-with-version-0-1-0',
+    title: 'Initialize with version 0.1.0',
+    description: 'Create a package.json with the initial version set to "0.1.0"',
+    expectedCommand: 'npm init --init-version=0.1.0',
+    hint: 'Use --init-version with the version number, and -y to skip prompts',
+    commandName: 'init',
+    difficulty: 'intermediate',
+    topics: ['basics'],
+    prerequisites: ['init.initialize-a-new-project'],
+    commandExplanation: 'The --init-version parameter sets the initial version field in package.json. Default: 1.0.0. Must follow semver format (e.g., 0.1.0, 1.0.0, 2.3.4).',
+  },
+  {
+    key: 'init.initialize-with-es-module-type',
+    title: 'Initialize with ES module type',
+    description: 'Set the package type to "module" to use ES6 import/export',
+    expectedCommand: 'npm init --init-type=module',
+    hint: 'Use --init-type=module',
+    commandName: 'init',
+    difficulty: 'intermediate',
+    topics: ['basics'],
+    prerequisites: ['init.initialize-a-new-project'],
+    commandExplanation: 'The --init-type parameter sets the "type" field in package.json. Allowed values: "module" (uses import/export) or "commonjs" (uses require()). Default: commonjs.',
+  },
+  {
+    key: 'init.initialize-with-custom-init-script',
+    title: 'Initialize with custom init script',
+    description: 'Use a custom initialization script located at ./my-init.js',
+    expectedCommand: 'npm init --init-module=./my-init.js',
+    hint: 'Use --init-module with a script path, and -y to skip prompts',
+    commandName: 'init',
+    difficulty: 'advanced',
+    topics: ['basics'],
+    prerequisites: ['init.initialize-a-new-project'],
+    commandExplanation: 'The --init-module parameter specifies a custom initialization script path. Default: ~/.npm-init.js. The script is run to generate package.json with custom logic.',
+  },
+  {
+    key: 'init.initialize-as-private-package',
+    title: 'Initialize as private package',
+    description: 'Create a package.json with private:true to prevent publishing',
+    expectedCommand: 'npm init --init-private',
+    hint: 'Use the --init-private flag with',
+    commandName: 'init',
+    difficulty: 'intermediate',
+    topics: ['basics'],
+    prerequisites: ['init.initialize-a-new-project'],
+    commandExplanation: 'The --init-private flag adds "private": true to package.json, preventing accidental publishing to npm. Default: false (package can be published).',
+  },
+  {
+    key: 'init.initialize-with-scope-acmecorp',
+    title: 'Initialize with scope @acmecorp',
+    description: 'Create a package.json with scope set to "@acmecorp"',
+    expectedCommand: 'npm init --scope=@acmecorp',
+    hint: 'Use --scope=@acmecorp',
+    commandName: 'init',
+    difficulty: 'intermediate',
+    topics: ['basics'],
+    prerequisites: ['init.initialize-a-new-project'],
+    commandExplanation: 'The --scope parameter sets the package name to @scopename/package-name format, useful for organizations. Default: unscoped package name. Scope must start with @.',
+  },
+  {
+    key: 'init.force-reinitialize-package',
+    title: 'Force reinitialize package',
+    description: 'Create a new package.json, overwriting the existing one if present',
+    expectedCommand: 'npm init -f',
+    hint: 'Use -f or --force flag',
+    commandName: 'init',
+    difficulty: 'intermediate',
+    topics: ['basics'],
+    prerequisites: ['init.initialize-a-new-project'],
+    commandExplanation: 'The --force (-f) flag allows npm init to overwrite an existing package.json file without prompting. Use with caution!',
+  },
+  {
+    key: 'init.initialize-in-workspace-packages-frontend',
+    title: 'Initialize in workspace "packages/frontend"',
+    description: 'Create package.json in the packages/frontend workspace directory',
+    expectedCommand: 'npm init -w packages/frontend',
+    hint: 'Use -w with the workspace path',
+    commandName: 'init',
+    difficulty: 'intermediate',
+    topics: ['basics'],
+    prerequisites: ['init.initialize-a-new-project'],
+    commandExplanation: 'The -w (--workspace) flag initializes a package.json in a specific workspace within a monorepo. The workspace must be defined in the root package.json.',
+  },
+  {
+    key: 'init.initialize-all-workspaces',
+    title: 'Initialize all workspaces',
+    description: 'Run npm init for every workspace package in your monorepo',
+    expectedCommand: 'npm init --workspaces',
+    hint: 'Use the --workspaces flag',
+    commandName: 'init',
+    difficulty: 'advanced',
+    topics: ['basics', 'workspaces'],
+    prerequisites: ['init.initialize-a-new-project'],
+    commandExplanation: 'The --workspaces flag runs npm init for all workspace packages defined in your root package.json "workspaces" field.',
+  },
+  {
+    key: 'init.initialize-workspace-packages-api-with-vite',
+    title: 'Initialize workspace "packages/api" with Vite',
+    description: 'Use the Vite initializer to set up the packages/api workspace',
+    expectedCommand: 'npm init -w packages/api vite',
+    hint: 'Combine -w with an initializer name',
+    commandName: 'init',
+    difficulty: 'intermediate',
+    topics: ['basics'],
+    prerequisites: ['init.initialize-a-new-project'],
+    commandExplanation: 'You can use initializers within specific workspaces for specialized setups by combining -w and the initializer name.',
+  },
+  {
+    key: 'init.initialize-workspaces-including-root',
+    title: 'Initialize workspaces including root',
+    description: 'Initialize both all workspaces AND the root package.json',
+    expectedCommand: 'npm init --workspaces --include-workspace-root',
+    hint: 'Combine --workspaces with --include-workspace-root',
+    commandName: 'init',
+    difficulty: 'advanced',
+    topics: ['basics', 'workspaces'],
+    prerequisites: ['init.initialize-a-new-project'],
+    commandExplanation: 'The --include-workspace-root flag ensures the root package.json is also initialized when using --workspaces.',
+  },
+
+  // ========== INSTALL ==========
+  {
+    key: 'install.install-lodash-package',
+    title: 'Install lodash package',
+    description: 'Add the lodash utility library to your project',
+    expectedCommand: 'npm install lodash',
+    hint: 'Aliases: i, add, in, ins, inst, insta, instal, isnt, isnta, isntal, isntall',
+    commandName: 'install',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    commandExplanation: 'Installs a package and adds it to dependencies in package.json. By default, uses the latest version.',
+  },
+  {
+    key: 'install.install-multiple-packages',
+    title: 'Install multiple packages',
+    description: 'Install both express and body-parser in one command',
+    expectedCommand: 'npm install express body-parser',
+    hint: 'List packages separated by spaces',
+    commandName: 'install',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'You can install multiple packages in a single command by listing them separated by spaces.',
+  },
+  {
+    key: 'install.install-specific-version',
+    title: 'Install specific version',
+    description: 'Install lodash version 4.17.20 exactly',
+    expectedCommand: 'npm install lodash@4.17.20',
+    hint: 'Use @version after package name',
+    commandName: 'install',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The @version syntax lets you install a specific version. Example: package@1.2.3',
+  },
+  {
+    key: 'install.install-latest-version',
+    title: 'Install latest version',
+    description: 'Install the latest version of react using the @latest tag',
+    expectedCommand: 'npm install react@latest',
+    matchOptions: { packageMatch: 'exact' },
+    hint: 'Use @latest to get the newest version',
+    commandName: 'install',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The @latest tag ensures you get the most recent published version, even if you have an older one installed.',
+  },
+  {
+    key: 'install.install-from-folder',
+    title: 'Install from folder',
+    description: 'Install a package from the local folder ./my-package',
+    expectedCommand: 'npm install ./my-package',
+    hint: 'Use a relative or absolute folder path',
+    commandName: 'install',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'You can install packages from local folders by providing a path. Useful for local development or packages not published to npm.',
+  },
+  {
+    key: 'install.install-from-tarball-file',
+    title: 'Install from tarball file',
+    description: 'Install a package from a local package.tgz file',
+    expectedCommand: 'npm install ./package.tgz',
+    hint: 'Provide path to a .tgz or .tar.gz file',
+    commandName: 'install',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'You can install packages from tarball files created with npm pack. The file must be a .tgz or .tar.gz archive.',
+  },
+  {
+    key: 'install.install-from-tarball-url',
+    title: 'Install from tarball URL',
+    description: 'Install a package from a remote tarball URL (https://example.com/package.tgz)',
+    expectedCommand: 'npm install https://example.com/package.tgz',
+    hint: 'Use a full HTTPS URL to a tarball file',
+    commandName: 'install',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'You can install packages from remote tarball URLs. The URL must point to a .tgz file accessible via HTTPS.',
+  },
+  {
+    key: 'install.install-from-git-url',
+    title: 'Install from git URL',
+    description: 'Install a package from git+https://github.com/user/repo.git',
+    expectedCommand: 'npm install git+https://github.com/user/repo.git',
+    hint: 'Use git+https:// or git+ssh:// URL',
+    commandName: 'install',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'You can install packages from git repositories using git+https:// or git+ssh:// URLs. npm will clone the repo and install it.',
+  },
+  {
+    key: 'install.install-from-github-shortcut',
+    title: 'Install from GitHub shortcut',
+    description: 'Install lodash using the GitHub username/repo shortcut',
+    expectedCommand: 'npm install lodash/lodash',
+    hint: 'Format: username/repository',
+    commandName: 'install',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'GitHub shortcut syntax: username/repo automatically resolves to github.com. You can add #branch or #tag for specific versions.',
+  },
+  {
+    key: 'install.install-from-github-with-branch',
+    title: 'Install from GitHub with branch',
+    description: 'Install lodash from GitHub repo user/repo using the main branch',
+    expectedCommand: 'npm install lodash/lodash#main',
+    hint: 'Use username/repo#branch-name format',
+    commandName: 'install',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'Add #branch-name after the repo to install from a specific branch. Also works with #v1.2.3 for tags.',
+  },
+  {
+    key: 'install.install-from-gitlab',
+    title: 'Install from GitLab',
+    description: 'Install lodash from GitLab repository gitlab:user/repo',
+    expectedCommand: 'npm install gitlab:lodash/lodash',
+    hint: 'Use gitlab:username/repository',
+    commandName: 'install',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'GitLab shortcut syntax: gitlab:user/repo automatically resolves to gitlab.com. Similar to GitHub shortcuts.',
+  },
+  {
+    key: 'install.install-from-gist',
+    title: 'Install from gist',
+    description: 'Install a package from GitHub gist with ID abc123def456',
+    expectedCommand: 'npm install gist:abc123def456',
+    hint: 'Use gist:gist-id format',
+    commandName: 'install',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'You can install packages from GitHub gists using the gist: prefix followed by the gist ID.',
+  },
+  {
+    key: 'install.install-without-saving',
+    title: 'Install without saving',
+    description: 'Install axios without adding it to package.json',
+    expectedCommand: 'npm install axios --no-save',
+    hint: 'Use --no-save flag',
+    commandName: 'install',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --no-save flag installs the package but doesn\'t modify package.json. Useful for temporary testing.',
+  },
+  {
+    key: 'install.install-with-exact-version',
+    title: 'Install with exact version',
+    description: 'Install react and save the exact version (no ^ or ~)',
+    expectedCommand: 'npm install react --save-exact',
+    hint: 'Use --save-exact or -E flag',
+    commandName: 'install',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --save-exact (-E) flag saves the exact version without range operators (^ or ~). Example: "1.2.3" instead of "^1.2.3".',
+  },
+  {
+    key: 'install.install-globally',
+    title: 'Install globally',
+    description: 'Install typescript globally on your system',
+    expectedCommand: 'npm install typescript --global',
+    hint: 'Use --global or -g flag',
+    commandName: 'install',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --global (-g) flag installs packages system-wide, making CLI tools available from anywhere. They go to a global directory, not node_modules.',
+  },
+  {
+    key: 'install.install-with-hoisted-strategy',
+    title: 'Install with hoisted strategy',
+    description: 'Use hoisted installation strategy (default behavior)',
+    expectedCommand: 'npm install --install-strategy=hoisted',
+    hint: 'Use --install-strategy with nested, hoisted, shallow, or linked',
+    commandName: 'install',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --install-strategy option controls how dependencies are installed. hoisted (default): non-duplicated in top-level, duplicated as needed.',
+  },
+  {
+    key: 'install.install-with-nested-strategy',
+    title: 'Install with nested strategy',
+    description: 'Install in place without hoisting (formerly --legacy-bundling)',
+    expectedCommand: 'npm install --install-strategy=nested',
+    hint: 'Use --install-strategy=nested flag',
+    commandName: 'install',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --install-strategy=nested installs packages in place without hoisting, creating a nested structure like npm v2. Replaces deprecated --legacy-bundling.',
+  },
+  {
+    key: 'install.install-with-shallow-strategy',
+    title: 'Install with shallow strategy',
+    description: 'Only install direct dependencies at top level (formerly --global-style)',
+    expectedCommand: 'npm install --install-strategy=shallow',
+    hint: 'Use --install-strategy=shallow flag',
+    commandName: 'install',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --install-strategy=shallow only installs direct deps at top-level. Replaces deprecated --global-style.',
+  },
+  {
+    key: 'install.install-with-linked-strategy',
+    title: 'Install with linked strategy',
+    description: 'Install in node_modules/.store and link in place (experimental)',
+    expectedCommand: 'npm install --install-strategy=linked',
+    hint: 'Use --install-strategy=linked flag (experimental)',
+    commandName: 'install',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --install-strategy=linked is experimental: installs in node_modules/.store, links in place, unhoisted.',
+  },
+  {
+    key: 'install.install-omitting-dev-dependencies',
+    title: 'Install omitting dev dependencies',
+    description: 'Install production dependencies only, skip devDependencies',
+    expectedCommand: 'npm install --omit=dev',
+    hint: 'Use --omit=dev, --omit=optional, or --omit=peer',
+    commandName: 'install',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --omit flag specifies dependency types to skip. Can be dev, optional, or peer. Common in production deployments.',
+  },
+  {
+    key: 'install.install-omitting-peer-dependencies',
+    title: 'Install omitting peer dependencies',
+    description: 'Install but skip peer dependencies',
+    expectedCommand: 'npm install --omit=peer',
+    hint: 'Use --omit=dev, --omit=optional, or --omit=peer',
+    commandName: 'install',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --omit=peer flag skips installing peer dependencies. These are packages that should be installed by the consumer.',
+  },
+  {
+    key: 'install.install-including-optional-dependencies',
+    title: 'Install including optional dependencies',
+    description: 'Install all dependencies including optional ones',
+    expectedCommand: 'npm install --include=optional',
+    hint: 'Use --include=dev, --include=optional, or --include=peer',
+    commandName: 'install',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --include flag specifies dependency types to include. Can be dev, optional, or peer.',
+  },
+  {
+    key: 'install.install-with-strict-peer-deps',
+    title: 'Install with strict peer deps',
+    description: 'Fail installation if peer dependencies conflict',
+    expectedCommand: 'npm install --strict-peer-deps',
+    hint: 'Use --strict-peer-deps flag',
+    commandName: 'install',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'security'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --strict-peer-deps flag causes npm to fail if there are peer dependency conflicts instead of just warning.',
+  },
+  {
+    key: 'install.install-with-prefer-dedupe',
+    title: 'Install with prefer-dedupe',
+    description: 'Prefer deduping existing packages over installing new copies',
+    expectedCommand: 'npm install --prefer-dedupe',
+    hint: 'Use --prefer-dedupe flag',
+    commandName: 'install',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --prefer-dedupe flag attempts to reuse existing packages in the tree rather than installing duplicates.',
+  },
+  {
+    key: 'install.install-lodash-without-package-lock',
+    title: 'Install lodash without package-lock',
+    description: 'Install lodash but don\'t read or update package-lock.json',
+    expectedCommand: 'npm install lodash --no-package-lock',
+    hint: 'Use --no-package-lock flag',
+    commandName: 'install',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --no-package-lock flag prevents npm from reading or writing package-lock.json. Not recommended for most projects.',
+  },
+  {
+    key: 'install.update-only-package-lock',
+    title: 'Update only package-lock',
+    description: 'Update package-lock.json without installing packages',
+    expectedCommand: 'npm install --package-lock-only',
+    hint: 'Use --package-lock-only flag',
+    commandName: 'install',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --package-lock-only flag only updates package-lock.json without modifying node_modules. Useful for lockfile maintenance.',
+  },
+  {
+    key: 'install.install-with-foreground-scripts',
+    title: 'Install with foreground scripts',
+    description: 'Run install scripts in foreground with full output',
+    expectedCommand: 'npm install --foreground-scripts',
+    hint: 'Use --foreground-scripts flag',
+    commandName: 'install',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --foreground-scripts flag runs lifecycle scripts in the foreground, showing full output instead of hiding it.',
+  },
+  {
+    key: 'install.install-without-running-scripts',
+    title: 'Install without running scripts',
+    description: 'Install packages but skip pre/post install scripts',
+    expectedCommand: 'npm install --ignore-scripts',
+    hint: 'Use --ignore-scripts flag',
+    commandName: 'install',
+    difficulty: 'intermediate',
+    topics: ['dependencies', 'security'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --ignore-scripts flag prevents npm from running install scripts defined in packages. Useful for security or when scripts fail.',
+  },
+  {
+    key: 'install.install-lodash-without-audit',
+    title: 'Install lodash without audit',
+    description: 'Install lodash without checking for vulnerabilities',
+    expectedCommand: 'npm install lodash --no-audit',
+    hint: 'Use --no-audit flag',
+    commandName: 'install',
+    difficulty: 'intermediate',
+    topics: ['dependencies', 'security'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --no-audit flag skips the security audit that normally runs after install. Speeds up installation but you won\'t see vulnerability warnings.',
+  },
+  {
+    key: 'install.install-versions-before-date',
+    title: 'Install versions before date',
+    description: 'Install lodash package versions available before specific date 2023-01-01',
+    expectedCommand: 'npm install lodash --before=2023-01-01',
+    hint: 'Use --before flag with date',
+    commandName: 'install',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --before flag installs only versions published before the specified date. Useful for reproducing builds from a specific point in time.',
+  },
+  {
+    key: 'install.install-without-bin-links',
+    title: 'Install without bin links',
+    description: 'Install packages without creating binary symlinks',
+    expectedCommand: 'npm install --no-bin-links',
+    hint: 'Use --no-bin-links flag',
+    commandName: 'install',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --no-bin-links flag prevents npm from creating symlinks for package binaries. Useful on Windows or restricted filesystems.',
+  },
+  {
+    key: 'install.install-without-funding-info',
+    title: 'Install without funding info',
+    description: 'Hide funding messages during installation',
+    expectedCommand: 'npm install --no-fund',
+    hint: 'Use --no-fund flag',
+    commandName: 'install',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --no-fund flag suppresses funding messages that npm shows after installation.',
+  },
+  {
+    key: 'install.dry-run-express-installation',
+    title: 'Dry run express installation',
+    description: 'Preview what would be installed for express without actually installing',
+    expectedCommand: 'npm install express --dry-run',
+    hint: 'Use --dry-run flag',
+    commandName: 'install',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --dry-run flag shows what would happen without making changes. Useful for testing before actual installation.',
+  },
+  {
+    key: 'install.install-for-specific-cpu',
+    title: 'Install for specific CPU',
+    description: 'Filter packages by CPU architecture (x64)',
+    expectedCommand: 'npm install --cpu=x64',
+    hint: 'Use --cpu=x64, --cpu=arm64, etc.',
+    commandName: 'install',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --cpu flag filters packages by required CPU architecture. Common values: x64, arm64, ia32.',
+  },
+  {
+    key: 'install.install-for-specific-os',
+    title: 'Install for specific OS',
+    description: 'Filter packages by operating system (linux)',
+    expectedCommand: 'npm install --os=linux',
+    hint: 'Use --os=linux, --os=darwin, --os=win32, etc.',
+    commandName: 'install',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --os flag filters packages by required operating system. Common values: linux, darwin (macOS), win32.',
+  },
+  {
+    key: 'install.install-for-specific-libc',
+    title: 'Install for specific libc',
+    description: 'Filter packages by libc implementation (glibc)',
+    expectedCommand: 'npm install --libc=glibc',
+    hint: 'Use --libc=glibc or --libc=musl',
+    commandName: 'install',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --libc flag filters packages by required C library implementation. Common values: glibc, musl.',
+  },
+  {
+    key: 'install.install-in-specific-workspace',
+    title: 'Install in specific workspace',
+    description: 'Install lodash in the packages/frontend workspace',
+    expectedCommand: 'npm install lodash --workspace=packages/frontend',
+    hint: 'Use --workspace or -w flag',
+    commandName: 'install',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --workspace (-w) flag installs packages in a specific workspace within a monorepo. The workspace must be defined in root package.json.',
+  },
+  {
+    key: 'install.install-in-all-workspaces',
+    title: 'Install in all workspaces',
+    description: 'Install lodash in every workspace package',
+    expectedCommand: 'npm install lodash --workspaces',
+    hint: 'Use --workspaces flag',
+    commandName: 'install',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --workspaces flag installs the package in all workspaces defined in your monorepo.',
+  },
+  {
+    key: 'install.install-in-workspace-root',
+    title: 'Install in workspace root',
+    description: 'Install lodash in all workspaces including the root package',
+    expectedCommand: 'npm install lodash --workspaces --include-workspace-root',
+    hint: 'Use --include-workspace-root with --workspaces',
+    commandName: 'install',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --include-workspace-root flag includes the workspace root when using --workspaces, installing in all packages.',
+  },
+  {
+    key: 'install.install-file-dependencies-as-regular-packages',
+    title: 'Install file dependencies as regular packages',
+    description: 'Install file: protocol dependencies as regular packages instead of symlinks',
+    expectedCommand: 'npm install ./my-package --install-links',
+    hint: 'Use --install-links flag',
+    commandName: 'install',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --install-links flag treats file: protocol dependencies as regular packages (packed and installed) instead of creating symlinks. Useful for testing package behavior.',
+  },
+  {
+    key: 'install.install-as-dev-dependency',
+    title: 'Install as dev dependency',
+    description: 'Install jest as a development dependency',
+    expectedCommand: 'npm install jest --save-dev',
+    hint: 'Use --save-dev or -D flag',
+    commandName: 'install',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --save-dev (-D) flag adds the package to devDependencies. These are only needed during development, not in production.',
+  },
+  {
+    key: 'install.install-as-optional-dependency',
+    title: 'Install as optional dependency',
+    description: 'Install fsevents as an optional dependency',
+    expectedCommand: 'npm install fsevents --save-optional',
+    hint: 'Use --save-optional or -O flag',
+    commandName: 'install',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --save-optional (-O) flag adds packages to optionalDependencies. Installation continues even if these fail.',
+  },
+  {
+    key: 'install.install-as-bundled-dependency',
+    title: 'Install as bundled dependency',
+    description: 'Install axios as a production dependency and bundle it for publishing',
+    expectedCommand: 'npm install axios --save-prod --save-bundle',
+    rules: {
+      command: 'install',
+      requiredFlags: ['--save-bundle'],
+      forbiddenFlags: ['--save-dev', '--save-optional', '--save-peer', '--no-save'],
+      arguments: ['axios'],
+    },
+    hint: 'Use --save-prod with --save-bundle (or -B) flag',
+    commandName: 'install',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --save-bundle (-B) flag is used alongside save flags like --save-prod to add packages to both dependencies and bundleDependencies. Bundled packages are included when you publish.',
+  },
+  {
+    key: 'install.save-to-dependencies',
+    title: 'Save to dependencies explicitly',
+    description: 'Install dayjs and save it to dependencies',
+    expectedCommand: 'npm install dayjs --save',
+    rules: {
+      command: 'install',
+      anyOf: [['--save', '--save-prod']],
+      forbiddenFlags: ['--save-dev', '--save-optional', '--save-peer', '--no-save'],
+      arguments: ['dayjs'],
+    },
+    hint: 'Use --save (-S) or --save-prod (-P) flag',
+    commandName: 'install',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --save (-S) flag saves the package to dependencies. It is the default since npm 5, but you will still see it in older guides.',
+  },
+  {
+    key: 'install.install-as-peer-dependency',
+    title: 'Install as peer dependency',
+    description: 'Install react as a peer dependency',
+    expectedCommand: 'npm install react --save-peer',
+    hint: 'Use --save-peer flag',
+    commandName: 'install',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --save-peer flag adds the package to peerDependencies, which the project using your package is expected to provide.',
+  },
+  {
+    key: 'install.legacy-bundling',
+    title: 'Install with legacy bundling',
+    description: 'Install without deduplicating, like npm v2 did',
+    expectedCommand: 'npm install --legacy-bundling',
+    hint: 'Use --legacy-bundling flag',
+    commandName: 'install',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --legacy-bundling flag nests every dependency under the package that needs it. It is deprecated in favor of --install-strategy=nested.',
+  },
+  {
+    key: 'install.global-style',
+    title: 'Install with global style',
+    description: 'Install only direct dependencies at the top of node_modules',
+    expectedCommand: 'npm install --global-style',
+    hint: 'Use --global-style flag',
+    commandName: 'install',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --global-style flag installs packages the way global installs are laid out: only direct dependencies at the top level. It is deprecated in favor of --install-strategy=shallow.',
+  },
+  {
+    key: 'install.use-package-lock',
+    title: 'Use package-lock.json',
+    description: 'Install while reading and writing package-lock.json',
+    expectedCommand: 'npm install --package-lock',
+    hint: 'Use --package-lock flag',
+    commandName: 'install',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --package-lock flag makes npm use package-lock.json. It is on by default and is mostly used to turn it back on after --no-package-lock was set in config.',
+  },
+  {
+    key: 'install.run-audit',
+    title: 'Install with audit',
+    description: 'Install and run a security audit afterwards',
+    expectedCommand: 'npm install --audit',
+    hint: 'Use --audit flag',
+    commandName: 'install',
+    difficulty: 'intermediate',
+    topics: ['dependencies', 'security'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --audit flag sends the dependency tree to the registry for a security audit after installing. It is on by default.',
+  },
+  {
+    key: 'install.create-bin-links',
+    title: 'Install with bin links',
+    description: 'Install and link package executables into node_modules/.bin',
+    expectedCommand: 'npm install --bin-links',
+    hint: 'Use --bin-links flag',
+    commandName: 'install',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --bin-links flag creates symlinks for package executables in node_modules/.bin. It is on by default.',
+  },
+  {
+    key: 'install.show-funding',
+    title: 'Install with funding info',
+    description: 'Install and show which packages are looking for funding',
+    expectedCommand: 'npm install --fund',
+    hint: 'Use --fund flag',
+    commandName: 'install',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'The --fund flag prints how many installed packages are looking for funding. It is on by default.',
+  },
+
+  // ========== UNINSTALL ==========
+  {
+    key: 'uninstall.uninstall-lodash-package',
+    title: 'Uninstall lodash package',
+    description: 'Remove lodash from your project',
+    expectedCommand: 'npm uninstall lodash',
+    hint: 'Aliases: remove, rm, r, un, unlink',
+    commandName: 'uninstall',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'Removes a package from node_modules and removes it from dependencies in package.json.',
+  },
+  {
+    key: 'uninstall.uninstall-multiple-packages',
+    title: 'Uninstall multiple packages',
+    description: 'Remove both express and body-parser in one command',
+    expectedCommand: 'npm uninstall express body-parser',
+    hint: 'List packages separated by spaces',
+    commandName: 'uninstall',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['uninstall.uninstall-lodash-package'],
+    commandExplanation: 'You can uninstall multiple packages in a single command by listing them separated by spaces.',
+  },
+  {
+    key: 'uninstall.uninstall-without-updating-package-json',
+    title: 'Uninstall without updating package.json',
+    description: 'Remove lodash but keep it in package.json',
+    expectedCommand: 'npm uninstall lodash --no-save',
+    hint: 'Use --no-save flag',
+    commandName: 'uninstall',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['uninstall.uninstall-lodash-package'],
+    commandExplanation: 'The --no-save flag prevents npm from removing the package from package.json files.',
+  },
+  {
+    key: 'uninstall.uninstall-globally',
+    title: 'Uninstall globally',
+    description: 'Remove typescript that was installed globally',
+    expectedCommand: 'npm uninstall typescript --global',
+    hint: 'Use --global or -g flag',
+    commandName: 'uninstall',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['uninstall.uninstall-lodash-package'],
+    commandExplanation: 'The --global (-g) flag uninstalls packages that were installed system-wide.',
+  },
+  {
+    key: 'uninstall.uninstall-from-specific-workspace',
+    title: 'Uninstall from specific workspace',
+    description: 'Remove lodash from the packages/frontend workspace',
+    expectedCommand: 'npm uninstall lodash --workspace=packages/frontend',
+    hint: 'Use --workspace or -w flag',
+    commandName: 'uninstall',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['uninstall.uninstall-lodash-package'],
+    commandExplanation: 'The --workspace (-w) flag uninstalls packages from a specific workspace within a monorepo.',
+  },
+  {
+    key: 'uninstall.uninstall-from-all-workspaces',
+    title: 'Uninstall from all workspaces',
+    description: 'Remove lodash from every workspace package',
+    expectedCommand: 'npm uninstall lodash --workspaces',
+    hint: 'Use --workspaces flag',
+    commandName: 'uninstall',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['uninstall.uninstall-lodash-package'],
+    commandExplanation: 'The --workspaces flag uninstalls the package from all workspaces defined in your monorepo.',
+  },
+  {
+    key: 'uninstall.uninstall-from-workspaces-including-root',
+    title: 'Uninstall from workspaces including root',
+    description: 'Remove axios from all workspaces and the root package',
+    expectedCommand: 'npm uninstall axios --workspaces --include-workspace-root',
+    hint: 'Use --include-workspace-root with --workspaces',
+    commandName: 'uninstall',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['uninstall.uninstall-lodash-package'],
+    commandExplanation: 'The --include-workspace-root flag includes the workspace root when using --workspaces.',
+  },
+  {
+    key: 'uninstall.uninstall-with-install-links',
+    title: 'Uninstall with install-links',
+    description: 'Uninstall lodash package that was installed as packed',
+    expectedCommand: 'npm uninstall lodash --install-links',
+    hint: 'Use --install-links flag',
+    commandName: 'uninstall',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['uninstall.uninstall-lodash-package'],
+    commandExplanation: 'The --install-links flag affects how file: protocol dependencies are handled during uninstall.',
+  },
+  {
+    key: 'uninstall.remove-from-dependencies',
+    title: 'Remove from dependencies',
+    description: 'Uninstall axios and remove it from dependencies',
+    expectedCommand: 'npm uninstall axios --save',
+    hint: 'Use --save or -S flag',
+    commandName: 'uninstall',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['uninstall.uninstall-lodash-package'],
+    commandExplanation: 'The --save (-S) flag removes the package from dependencies in package.json. It is the default since npm 5.',
+  },
+  {
+    key: 'uninstall.remove-from-dev-dependencies',
+    title: 'Remove from devDependencies',
+    description: 'Uninstall jest and remove it from devDependencies',
+    expectedCommand: 'npm uninstall jest --save-dev',
+    hint: 'Use --save-dev or -D flag',
+    commandName: 'uninstall',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['uninstall.uninstall-lodash-package'],
+    commandExplanation: 'The --save-dev (-D) flag removes the package from devDependencies in package.json.',
+  },
+
+  // ========== CI ==========
+  {
+    key: 'ci.clean-install-from-lock-file',
+    title: 'Clean install from lock file',
+    description: 'Delete node_modules and install from package-lock.json',
+    expectedCommand: 'npm ci',
+    hint: 'Aliases: clean-install, ic, install-clean, isntall-clean',
+    commandName: 'ci',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'Removes node_modules and does a clean install from package-lock.json. Faster and more reliable than npm install in CI/CD.',
+  },
+  {
+    key: 'ci.clean-install-with-nested-strategy',
+    title: 'Clean install with nested strategy',
+    description: 'Use npm ci with nested installation strategy',
+    expectedCommand: 'npm ci --install-strategy=nested',
+    hint: 'Use --install-strategy with nested, hoisted, shallow, or linked',
+    commandName: 'ci',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['ci.clean-install-from-lock-file'],
+    commandExplanation: 'The --install-strategy flag controls how dependencies are installed during clean install.',
+  },
+  {
+    key: 'ci.clean-install-omitting-dev-dependencies',
+    title: 'Clean install omitting dev dependencies',
+    description: 'Run npm ci but skip devDependencies',
+    expectedCommand: 'npm ci --omit=dev',
+    hint: 'Use --omit=dev, --omit=optional, or --omit=peer',
+    commandName: 'ci',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['ci.clean-install-from-lock-file'],
+    commandExplanation: 'The --omit flag skips certain dependency types. Common in production deployments.',
+  },
+  {
+    key: 'ci.clean-install-including-dev-dependencies',
+    title: 'Clean install including dev dependencies',
+    description: 'Run npm ci and explicitly include dev dependencies',
+    expectedCommand: 'npm ci --include=dev',
+    hint: 'Use --include=prod, --include=dev, --include=optional, or --include=peer',
+    commandName: 'ci',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['ci.clean-install-from-lock-file'],
+    commandExplanation: 'The --include flag explicitly includes certain dependency types. Inverse of --omit.',
+  },
+  {
+    key: 'ci.clean-install-with-strict-peer-deps',
+    title: 'Clean install with strict peer deps',
+    description: 'Fail npm ci if peer dependencies conflict',
+    expectedCommand: 'npm ci --strict-peer-deps',
+    hint: 'Use --strict-peer-deps flag',
+    commandName: 'ci',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'security'],
+    prerequisites: ['ci.clean-install-from-lock-file'],
+    commandExplanation: 'The --strict-peer-deps flag causes npm ci to fail on peer dependency conflicts.',
+  },
+  {
+    key: 'ci.clean-install-with-foreground-scripts',
+    title: 'Clean install with foreground scripts',
+    description: 'Run npm ci with scripts in foreground',
+    expectedCommand: 'npm ci --foreground-scripts',
+    hint: 'Use --foreground-scripts flag',
+    commandName: 'ci',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['ci.clean-install-from-lock-file'],
+    commandExplanation: 'The --foreground-scripts flag runs lifecycle scripts in the foreground with full output.',
+  },
+  {
+    key: 'ci.clean-install-without-running-scripts',
+    title: 'Clean install without running scripts',
+    description: 'Run npm ci but skip install scripts',
+    expectedCommand: 'npm ci --ignore-scripts',
+    hint: 'Use --ignore-scripts flag',
+    commandName: 'ci',
+    difficulty: 'intermediate',
+    topics: ['dependencies', 'security'],
+    prerequisites: ['ci.clean-install-from-lock-file'],
+    commandExplanation: 'The --ignore-scripts flag prevents npm from running install scripts. Useful for security.',
+  },
+  {
+    key: 'ci.clean-install-without-audit',
+    title: 'Clean install without audit',
+    description: 'Run npm ci without security audit',
+    expectedCommand: 'npm ci --no-audit',
+    hint: 'Use --no-audit flag',
+    commandName: 'ci',
+    difficulty: 'intermediate',
+    topics: ['dependencies', 'security'],
+    prerequisites: ['ci.clean-install-from-lock-file'],
+    commandExplanation: 'The --no-audit flag skips the security audit during clean install.',
+  },
+  {
+    key: 'ci.clean-install-without-bin-links',
+    title: 'Clean install without bin links',
+    description: 'Run npm ci without creating symlinks for executables',
+    expectedCommand: 'npm ci --no-bin-links',
+    hint: 'Use --no-bin-links flag',
+    commandName: 'ci',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['ci.clean-install-from-lock-file'],
+    commandExplanation: 'The --no-bin-links flag prevents npm from creating symlinks for package executables.',
+  },
+  {
+    key: 'ci.clean-install-without-funding-info',
+    title: 'Clean install without funding info',
+    description: 'Run npm ci without displaying funding information',
+    expectedCommand: 'npm ci --no-fund',
+    hint: 'Use --no-fund flag',
+    commandName: 'ci',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['ci.clean-install-from-lock-file'],
+    commandExplanation: 'The --no-fund flag suppresses funding messages during clean install.',
+  },
+  {
+    key: 'ci.dry-run-clean-install',
+    title: 'Dry run clean install',
+    description: 'Preview what npm ci would do without making changes',
+    expectedCommand: 'npm ci --dry-run',
+    hint: 'Use --dry-run flag',
+    commandName: 'ci',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['ci.clean-install-from-lock-file'],
+    commandExplanation: 'The --dry-run flag shows what would happen without actually performing the clean install.',
+  },
+  {
+    key: 'ci.clean-install-in-specific-workspace',
+    title: 'Clean install in specific workspace',
+    description: 'Run npm ci in the packages/frontend workspace',
+    expectedCommand: 'npm ci --workspace=packages/frontend',
+    hint: 'Use --workspace or -w flag',
+    commandName: 'ci',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['ci.clean-install-from-lock-file'],
+    commandExplanation: 'The --workspace (-w) flag runs npm ci in a specific workspace within a monorepo.',
+  },
+  {
+    key: 'ci.clean-install-all-workspaces',
+    title: 'Clean install all workspaces',
+    description: 'Run npm ci in every workspace package',
+    expectedCommand: 'npm ci --workspaces',
+    hint: 'Use --workspaces flag',
+    commandName: 'ci',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['ci.clean-install-from-lock-file'],
+    commandExplanation: 'The --workspaces flag runs npm ci in all workspaces defined in your monorepo.',
+  },
+  {
+    key: 'ci.clean-install-workspaces-including-root',
+    title: 'Clean install workspaces including root',
+    description: 'Run npm ci in all workspaces and the root package',
+    expectedCommand: 'npm ci --workspaces --include-workspace-root',
+    hint: 'Use --include-workspace-root with --workspaces',
+    commandName: 'ci',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['ci.clean-install-from-lock-file'],
+    commandExplanation: 'The --include-workspace-root flag includes the workspace root when using --workspaces with npm ci.',
+  },
+  {
+    key: 'ci.clean-install-with-install-links',
+    title: 'Clean install with install links',
+    description: 'Pack and install file: protocol dependencies instead of symlinking',
+    expectedCommand: 'npm ci --install-links',
+    hint: 'Use --install-links flag',
+    commandName: 'ci',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['ci.clean-install-from-lock-file'],
+    commandExplanation: 'The --install-links flag makes npm pack and install file: protocol dependencies as regular dependencies instead of creating symlinks.',
+  },
+  {
+    key: 'ci.legacy-bundling',
+    title: 'Clean install with legacy bundling',
+    description: 'Clean install without deduplicating, like npm v2 did',
+    expectedCommand: 'npm ci --legacy-bundling',
+    hint: 'Use --legacy-bundling flag',
+    commandName: 'ci',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['ci.clean-install-from-lock-file'],
+    commandExplanation: 'The --legacy-bundling flag nests every dependency under the package that needs it. It is deprecated in favor of --install-strategy=nested.',
+  },
+  {
+    key: 'ci.global-style',
+    title: 'Clean install with global style',
+    description: 'Clean install with only direct dependencies at the top of node_modules',
+    expectedCommand: 'npm ci --global-style',
+    hint: 'Use --global-style flag',
+    commandName: 'ci',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['ci.clean-install-from-lock-file'],
+    commandExplanation: 'The --global-style flag installs only direct dependencies at the top level. It is deprecated in favor of --install-strategy=shallow.',
+  },
+
+  // ========== UPDATE ==========
+  {
+    key: 'update.update-all-packages',
+    title: 'Update all packages',
+    description: 'Update all packages to their latest compatible versions',
+    expectedCommand: 'npm update',
+    hint: 'Aliases: up, upgrade, udpate',
+    commandName: 'update',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'Updates all packages to the latest version that satisfies the semver ranges in package.json.',
+  },
+  {
+    key: 'update.update-specific-package',
+    title: 'Update specific package',
+    description: 'Update lodash to its latest compatible version',
+    expectedCommand: 'npm update lodash',
+    hint: 'Specify package name after update command',
+    commandName: 'update',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['update.update-all-packages'],
+    commandExplanation: 'Updates a specific package to the latest version allowed by package.json semver range.',
+  },
+  {
+    key: 'update.update-without-saving',
+    title: 'Update without saving',
+    description: 'Update packages without modifying package.json',
+    expectedCommand: 'npm update --no-save',
+    hint: 'Use --no-save flag',
+    commandName: 'update',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['update.update-all-packages'],
+    commandExplanation: 'The --no-save flag updates packages in node_modules but doesn\'t update package.json.',
+  },
+  {
+    key: 'update.update-global-packages',
+    title: 'Update global packages',
+    description: 'Update all globally installed packages',
+    expectedCommand: 'npm update --global',
+    hint: 'Use --global or -g flag',
+    commandName: 'update',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['update.update-all-packages'],
+    commandExplanation: 'The --global (-g) flag updates packages that were installed system-wide.',
+  },
+  {
+    key: 'update.update-with-nested-strategy',
+    title: 'Update with nested strategy',
+    description: 'Update packages using nested installation strategy',
+    expectedCommand: 'npm update --install-strategy=nested',
+    hint: 'Use --install-strategy with nested, hoisted, shallow, or linked',
+    commandName: 'update',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['update.update-all-packages'],
+    commandExplanation: 'The --install-strategy flag controls how dependencies are organized during update.',
+  },
+  {
+    key: 'update.update-omitting-dev-dependencies',
+    title: 'Update omitting dev dependencies',
+    description: 'Update production dependencies only',
+    expectedCommand: 'npm update --omit=dev',
+    hint: 'Use --omit=dev, --omit=optional, or --omit=peer',
+    commandName: 'update',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['update.update-all-packages'],
+    commandExplanation: 'The --omit flag skips updating certain dependency types.',
+  },
+  {
+    key: 'update.update-including-optional-dependencies',
+    title: 'Update including optional dependencies',
+    description: 'Update all dependencies including optional ones',
+    expectedCommand: 'npm update --include=optional',
+    hint: 'Use --include=dev, --include=optional, or --include=peer',
+    commandName: 'update',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['update.update-all-packages'],
+    commandExplanation: 'The --include flag specifies dependency types to include in update.',
+  },
+  {
+    key: 'update.update-with-strict-peer-deps',
+    title: 'Update with strict peer deps',
+    description: 'Fail update if peer dependencies conflict',
+    expectedCommand: 'npm update --strict-peer-deps',
+    hint: 'Use --strict-peer-deps flag',
+    commandName: 'update',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'security'],
+    prerequisites: ['update.update-all-packages'],
+    commandExplanation: 'The --strict-peer-deps flag causes npm update to fail on peer dependency conflicts.',
+  },
+  {
+    key: 'update.update-without-package-lock',
+    title: 'Update without package-lock',
+    description: 'Update packages without modifying package-lock.json',
+    expectedCommand: 'npm update --no-package-lock',
+    hint: 'Use --no-package-lock flag',
+    commandName: 'update',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['update.update-all-packages'],
+    commandExplanation: 'The --no-package-lock flag prevents npm from updating package-lock.json.',
+  },
+  {
+    key: 'update.update-with-foreground-scripts',
+    title: 'Update with foreground scripts',
+    description: 'Run update with scripts in foreground',
+    expectedCommand: 'npm update --foreground-scripts',
+    hint: 'Use --foreground-scripts flag',
+    commandName: 'update',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['update.update-all-packages'],
+    commandExplanation: 'The --foreground-scripts flag runs lifecycle scripts in the foreground during update.',
+  },
+  {
+    key: 'update.update-without-running-scripts',
+    title: 'Update without running scripts',
+    description: 'Update packages but skip install scripts',
+    expectedCommand: 'npm update --ignore-scripts',
+    hint: 'Use --ignore-scripts flag',
+    commandName: 'update',
+    difficulty: 'intermediate',
+    topics: ['dependencies', 'security'],
+    prerequisites: ['update.update-all-packages'],
+    commandExplanation: 'The --ignore-scripts flag prevents npm from running install scripts during update.',
+  },
+  {
+    key: 'update.update-without-audit',
+    title: 'Update without audit',
+    description: 'Update packages without security audit',
+    expectedCommand: 'npm update --no-audit',
+    hint: 'Use --no-audit flag',
+    commandName: 'update',
+    difficulty: 'intermediate',
+    topics: ['dependencies', 'security'],
+    prerequisites: ['update.update-all-packages'],
+    commandExplanation: 'The --no-audit flag skips the security audit during update.',
+  },
+  {
+    key: 'update.update-to-versions-before-date',
+    title: 'Update to versions before date',
+    description: 'Update to versions published before 2023-01-01',
+    expectedCommand: 'npm update --before=2023-01-01',
+    hint: 'Use --before flag with date',
+    commandName: 'update',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['update.update-all-packages'],
+    commandExplanation: 'The --before flag only updates to versions published before the specified date.',
+  },
+  {
+    key: 'update.update-without-bin-links',
+    title: 'Update without bin links',
+    description: 'Update packages without creating binary symlinks',
+    expectedCommand: 'npm update --no-bin-links',
+    hint: 'Use --no-bin-links flag',
+    commandName: 'update',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['update.update-all-packages'],
+    commandExplanation: 'The --no-bin-links flag prevents npm from creating symlinks for binaries during update.',
+  },
+  {
+    key: 'update.update-without-funding-info',
+    title: 'Update without funding info',
+    description: 'Update packages without displaying funding information',
+    expectedCommand: 'npm update --no-fund',
+    hint: 'Use --no-fund flag',
+    commandName: 'update',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['update.update-all-packages'],
+    commandExplanation: 'The --no-fund flag suppresses funding messages during update.',
+  },
+  {
+    key: 'update.dry-run-update',
+    title: 'Dry run update',
+    description: 'Preview what would be updated without making changes',
+    expectedCommand: 'npm update --dry-run',
+    hint: 'Use --dry-run flag',
+    commandName: 'update',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['update.update-all-packages'],
+    commandExplanation: 'The --dry-run flag shows what would happen without actually updating packages.',
+  },
+  {
+    key: 'update.update-in-specific-workspace',
+    title: 'Update in specific workspace',
+    description: 'Update packages in the packages/frontend workspace',
+    expectedCommand: 'npm update --workspace=packages/frontend',
+    hint: 'Use --workspace or -w flag',
+    commandName: 'update',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['update.update-all-packages'],
+    commandExplanation: 'The --workspace (-w) flag updates packages in a specific workspace within a monorepo.',
+  },
+  {
+    key: 'update.update-all-workspaces',
+    title: 'Update all workspaces',
+    description: 'Update packages in every workspace',
+    expectedCommand: 'npm update --workspaces',
+    hint: 'Use --workspaces flag',
+    commandName: 'update',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['update.update-all-packages'],
+    commandExplanation: 'The --workspaces flag updates packages in all workspaces defined in your monorepo.',
+  },
+  {
+    key: 'update.update-workspaces-including-root',
+    title: 'Update workspaces including root',
+    description: 'Update packages in all workspaces and the root',
+    expectedCommand: 'npm update --workspaces --include-workspace-root',
+    hint: 'Use --include-workspace-root with --workspaces',
+    commandName: 'update',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['update.update-all-packages'],
+    commandExplanation: 'The --include-workspace-root flag includes the workspace root when using --workspaces.',
+  },
+  {
+    key: 'update.update-with-install-links',
+    title: 'Update with install-links',
+    description: 'Update and pack file: dependencies instead of symlinking',
+    expectedCommand: 'npm update --install-links',
+    hint: 'Use --install-links flag',
+    commandName: 'update',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['update.update-all-packages'],
+    commandExplanation: 'The --install-links flag treats file: protocol dependencies as regular packages during update.',
+  },
+  {
+    key: 'update.save-new-versions',
+    title: 'Update and save versions',
+    description: 'Update packages and save the new versions to package.json',
+    expectedCommand: 'npm update --save',
+    hint: 'Use --save or -S flag',
+    commandName: 'update',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['update.update-all-packages'],
+    commandExplanation: 'The --save (-S) flag writes the updated versions back to package.json, not just package-lock.json.',
+  },
+  {
+    key: 'update.legacy-bundling',
+    title: 'Update with legacy bundling',
+    description: 'Update without deduplicating, like npm v2 did',
+    expectedCommand: 'npm update --legacy-bundling',
+    hint: 'Use --legacy-bundling flag',
+    commandName: 'update',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['update.update-all-packages'],
+    commandExplanation: 'The --legacy-bundling flag nests every dependency under the package that needs it. It is deprecated in favor of --install-strategy=nested.',
+  },
+  {
+    key: 'update.global-style',
+    title: 'Update with global style',
+    description: 'Update with only direct dependencies at the top of node_modules',
+    expectedCommand: 'npm update --global-style',
+    hint: 'Use --global-style flag',
+    commandName: 'update',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['update.update-all-packages'],
+    commandExplanation: 'The --global-style flag installs only direct dependencies at the top level. It is deprecated in favor of --install-strategy=shallow.',
+  },
+  {
+    key: 'update.save-to-dependencies',
+    title: 'Update and save to dependencies',
+    description: 'Update express and record it in dependencies',
+    expectedCommand: 'npm update express --save-prod',
+    hint: 'Use --save-prod flag',
+    commandName: 'update',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['update.update-all-packages'],
+    commandExplanation: 'The --save-prod flag records the updated package in dependencies.',
+  },
+  {
+    key: 'update.save-to-dev-dependencies',
+    title: 'Update a dev dependency',
+    description: 'Update jest and record it in devDependencies',
+    expectedCommand: 'npm update jest --save-dev',
+    hint: 'Use --save-dev or -D flag',
+    commandName: 'update',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['update.update-all-packages'],
+    commandExplanation: 'The --save-dev (-D) flag records the updated package in devDependencies.',
+  },
+  {
+    key: 'update.save-to-optional-dependencies',
+    title: 'Update an optional dependency',
+    description: 'Update fsevents and record it in optionalDependencies',
+    expectedCommand: 'npm update fsevents --save-optional',
+    hint: 'Use --save-optional flag',
+    commandName: 'update',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['update.update-all-packages'],
+    commandExplanation: 'The --save-optional flag records the updated package in optionalDependencies.',
+  },
+  {
+    key: 'update.save-to-peer-dependencies',
+    title: 'Update a peer dependency',
+    description: 'Update react and record it in peerDependencies',
+    expectedCommand: 'npm update react --save-peer',
+    hint: 'Use --save-peer flag',
+    commandName: 'update',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['update.update-all-packages'],
+    commandExplanation: 'The --save-peer flag records the updated package in peerDependencies.',
+  },
+  {
+    key: 'update.save-to-bundled-dependencies',
+    title: 'Update a bundled dependency',
+    description: 'Update axios and keep it in bundleDependencies',
+    expectedCommand: 'npm update axios --save-bundle',
+    hint: 'Use --save-bundle or -B flag',
+    commandName: 'update',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['update.update-all-packages'],
+    commandExplanation: 'The --save-bundle (-B) flag keeps the updated package listed in bundleDependencies.',
+  },
+
+  // ========== LS ==========
+  {
+    key: 'ls.list-installed-packages',
+    title: 'List installed packages',
+    description: 'Show a tree of all installed packages',
+    expectedCommand: 'npm ls',
+    hint: 'Aliases: list, ll, la',
+    commandName: 'ls',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    commandExplanation: 'Displays a tree of installed packages and their dependencies.',
+  },
+  {
+    key: 'ls.list-all-dependencies',
+    title: 'List all dependencies',
+    description: 'Show all dependencies including transitive ones',
+    expectedCommand: 'npm ls --all',
+    hint: 'Use --all or -a flag',
+    commandName: 'ls',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['ls.list-installed-packages'],
+    commandExplanation: 'The --all (-a) flag shows all dependencies without depth limit.',
+  },
+  {
+    key: 'ls.list-packages-as-json',
+    title: 'List packages as JSON',
+    description: 'Output package list in JSON format',
+    expectedCommand: 'npm ls --json',
+    hint: 'Use --json flag',
+    commandName: 'ls',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['ls.list-installed-packages'],
+    commandExplanation: 'The --json flag outputs the package tree as JSON for programmatic use.',
+  },
+  {
+    key: 'ls.list-with-extended-information',
+    title: 'List with extended information',
+    description: 'Show package list with additional details',
+    expectedCommand: 'npm ls --long',
+    hint: 'Use --long or -l flag',
+    commandName: 'ls',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['ls.list-installed-packages'],
+    commandExplanation: 'The --long (-l) flag shows extended information like description and homepage.',
+  },
+  {
+    key: 'ls.list-in-parseable-format',
+    title: 'List in parseable format',
+    description: 'Output package list as parseable lines',
+    expectedCommand: 'npm ls --parseable',
+    hint: 'Use --parseable or -p flag',
+    commandName: 'ls',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['ls.list-installed-packages'],
+    commandExplanation: 'The --parseable (-p) flag outputs packages as newline-delimited paths.',
+  },
+  {
+    key: 'ls.list-global-packages',
+    title: 'List global packages',
+    description: 'Show all globally installed packages',
+    expectedCommand: 'npm ls --global',
+    hint: 'Use --global or -g flag',
+    commandName: 'ls',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['ls.list-installed-packages'],
+    commandExplanation: 'The --global (-g) flag lists packages installed system-wide.',
+  },
+  {
+    key: 'ls.list-with-depth-limit',
+    title: 'List with depth limit',
+    description: 'Show packages up to depth 1',
+    expectedCommand: 'npm ls --depth=1',
+    hint: 'Use --depth with a number',
+    commandName: 'ls',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['ls.list-installed-packages'],
+    commandExplanation: 'The --depth flag limits how deep the dependency tree is displayed.',
+  },
+  {
+    key: 'ls.list-omitting-dev-dependencies',
+    title: 'List omitting dev dependencies',
+    description: 'Show only production dependencies',
+    expectedCommand: 'npm ls --omit=dev',
+    hint: 'Use --omit=dev, --omit=optional, or --omit=peer',
+    commandName: 'ls',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['ls.list-installed-packages'],
+    commandExplanation: 'The --omit flag excludes certain dependency types from the list.',
+  },
+  {
+    key: 'ls.list-including-optional-dependencies',
+    title: 'List including optional dependencies',
+    description: 'Show all dependencies including optional ones',
+    expectedCommand: 'npm ls --include=optional',
+    hint: 'Use --include=dev, --include=optional, or --include=peer',
+    commandName: 'ls',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['ls.list-installed-packages'],
+    commandExplanation: 'The --include flag specifies dependency types to include in the list.',
+  },
+  {
+    key: 'ls.list-only-linked-packages',
+    title: 'List only linked packages',
+    description: 'Show only packages that are symlinked',
+    expectedCommand: 'npm ls --link',
+    hint: 'Use --link flag',
+    commandName: 'ls',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['ls.list-installed-packages'],
+    commandExplanation: 'The --link flag shows only packages installed via npm link.',
+  },
+  {
+    key: 'ls.list-from-package-lock-only',
+    title: 'List from package-lock only',
+    description: 'Show packages based on package-lock.json',
+    expectedCommand: 'npm ls --package-lock-only',
+    hint: 'Use --package-lock-only flag',
+    commandName: 'ls',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['ls.list-installed-packages'],
+    commandExplanation: 'The --package-lock-only flag uses package-lock.json instead of reading node_modules.',
+  },
+  {
+    key: 'ls.list-without-unicode',
+    title: 'List without unicode',
+    description: 'Show package tree without unicode characters',
+    expectedCommand: 'npm ls --no-unicode',
+    hint: 'Use --no-unicode flag',
+    commandName: 'ls',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['ls.list-installed-packages'],
+    commandExplanation: 'The --no-unicode flag uses ASCII characters instead of unicode for the tree.',
+  },
+  {
+    key: 'ls.list-specific-workspace',
+    title: 'List specific workspace',
+    description: 'Show packages in the packages/frontend workspace',
+    expectedCommand: 'npm ls --workspace=packages/frontend',
+    hint: 'Use --workspace or -w flag',
+    commandName: 'ls',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['ls.list-installed-packages'],
+    commandExplanation: 'The --workspace (-w) flag lists packages in a specific workspace.',
+  },
+  {
+    key: 'ls.list-all-workspaces',
+    title: 'List all workspaces',
+    description: 'Show packages in every workspace',
+    expectedCommand: 'npm ls --workspaces',
+    hint: 'Use --workspaces or -ws flag',
+    commandName: 'ls',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['ls.list-installed-packages'],
+    commandExplanation: 'The --workspaces flag lists packages in all workspaces.',
+  },
+  {
+    key: 'ls.list-workspaces-including-root',
+    title: 'List workspaces including root',
+    description: 'Show packages in all workspaces and the root',
+    expectedCommand: 'npm ls --workspaces --include-workspace-root',
+    hint: 'Use --include-workspace-root with --workspaces',
+    commandName: 'ls',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['ls.list-installed-packages'],
+    commandExplanation: 'The --include-workspace-root flag includes the workspace root when using --workspaces.',
+  },
+  {
+    key: 'ls.list-including-symlinked-packages',
+    title: 'List including symlinked packages',
+    description: 'Show file: dependencies in the list',
+    expectedCommand: 'npm ls --install-links',
+    hint: 'Use --install-links flag',
+    commandName: 'ls',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['ls.list-installed-packages'],
+    commandExplanation: 'The --install-links flag includes symlinked file: dependencies in the list.',
+  },
+
+  // ========== OUTDATED ==========
+  {
+    key: 'outdated.check-for-outdated-packages',
+    title: 'Check for outdated packages',
+    description: 'See which packages have newer versions available',
+    expectedCommand: 'npm outdated',
+    hint: 'Shows Current, Wanted, and Latest versions',
+    commandName: 'outdated',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'Checks for packages that have newer versions available and shows current vs wanted vs latest.',
+  },
+  {
+    key: 'outdated.check-all-packages-for-updates',
+    title: 'Check all packages for updates',
+    description: 'Show all outdated packages including transitive',
+    expectedCommand: 'npm outdated --all',
+    hint: 'Use --all or -a flag',
+    commandName: 'outdated',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['outdated.check-for-outdated-packages'],
+    commandExplanation: 'The --all (-a) flag shows all outdated packages without depth limit.',
+  },
+  {
+    key: 'outdated.outdated-packages-as-json',
+    title: 'Outdated packages as JSON',
+    description: 'Output outdated packages in JSON format',
+    expectedCommand: 'npm outdated --json',
+    hint: 'Use --json flag',
+    commandName: 'outdated',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['outdated.check-for-outdated-packages'],
+    commandExplanation: 'The --json flag outputs outdated packages as JSON for programmatic use.',
+  },
+  {
+    key: 'outdated.outdated-with-extended-info',
+    title: 'Outdated with extended info',
+    description: 'Show outdated packages with additional details',
+    expectedCommand: 'npm outdated --long',
+    hint: 'Use --long or -l flag',
+    commandName: 'outdated',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['outdated.check-for-outdated-packages'],
+    commandExplanation: 'The --long (-l) flag shows extended information about outdated packages.',
+  },
+  {
+    key: 'outdated.outdated-in-parseable-format',
+    title: 'Outdated in parseable format',
+    description: 'Output outdated packages as parseable lines',
+    expectedCommand: 'npm outdated --parseable',
+    hint: 'Use --parseable or -p flag',
+    commandName: 'outdated',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['outdated.check-for-outdated-packages'],
+    commandExplanation: 'The --parseable (-p) flag outputs outdated packages in a line-based format.',
+  },
+  {
+    key: 'outdated.check-global-packages',
+    title: 'Check global packages',
+    description: 'Show outdated globally installed packages',
+    expectedCommand: 'npm outdated --global',
+    hint: 'Use --global or -g flag',
+    commandName: 'outdated',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['outdated.check-for-outdated-packages'],
+    commandExplanation: 'The --global (-g) flag checks for outdated packages installed system-wide.',
+  },
+  {
+    key: 'outdated.outdated-before-date',
+    title: 'Outdated before date',
+    description: 'Show versions published before 2023-01-01',
+    expectedCommand: 'npm outdated --before=2023-01-01',
+    hint: 'Use --before flag with date',
+    commandName: 'outdated',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['outdated.check-for-outdated-packages'],
+    commandExplanation: 'The --before flag only shows versions published before the specified date.',
+  },
+  {
+    key: 'outdated.check-specific-workspace',
+    title: 'Check specific workspace',
+    description: 'Show outdated packages in packages/frontend',
+    expectedCommand: 'npm outdated --workspace=packages/frontend',
+    hint: 'Use --workspace or -w flag',
+    commandName: 'outdated',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['outdated.check-for-outdated-packages'],
+    commandExplanation: 'The --workspace (-w) flag checks for outdated packages in a specific workspace.',
+  },
+  {
+    key: 'outdated.check-all-workspaces',
+    title: 'Check all workspaces',
+    description: 'Check for outdated packages in every workspace',
+    expectedCommand: 'npm outdated --workspaces',
+    hint: 'Use --workspaces or -ws flag',
+    commandName: 'outdated',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['outdated.check-for-outdated-packages'],
+    commandExplanation: 'The --workspaces (-ws) flag checks every workspace in the project for outdated packages.',
+  },
+
+  // ========== AUDIT ==========
+  {
+    key: 'audit.run-security-audit',
+    title: 'Run security audit',
+    description: 'Check for known security vulnerabilities',
+    expectedCommand: 'npm audit',
+    hint: 'Shows vulnerabilities by severity level',
+    commandName: 'audit',
+    difficulty: 'beginner',
+    topics: ['security'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'Scans your dependencies for known security vulnerabilities and shows a report.',
+  },
+  {
+    key: 'audit.fix-security-vulnerabilities',
+    title: 'Fix security vulnerabilities',
+    description: 'Automatically fix vulnerable dependencies',
+    expectedCommand: 'npm audit fix',
+    hint: 'Installs compatible updates to fix vulnerabilities',
+    commandName: 'audit',
+    difficulty: 'beginner',
+    topics: ['security'],
+    prerequisites: ['audit.run-security-audit'],
+    commandExplanation: 'Automatically installs compatible updates to resolve security vulnerabilities found in dependencies.',
+  },
+  {
+    key: 'audit.verify-package-signatures',
+    title: 'Verify package signatures',
+    description: 'Verify registry signatures of downloaded packages',
+    expectedCommand: 'npm audit signatures',
+    hint: 'Checks registry signatures and provenance attestations',
+    commandName: 'audit',
+    difficulty: 'beginner',
+    topics: ['security'],
+    prerequisites: ['audit.run-security-audit'],
+    commandExplanation: 'Verifies the registry signatures and provenance attestations of downloaded packages to ensure integrity.',
+  },
+  {
+    key: 'audit.audit-with-level-threshold',
+    title: 'Audit with level threshold',
+    description: 'Fail on moderate or higher severity issues',
+    expectedCommand: 'npm audit --audit-level=moderate',
+    hint: 'Use --audit-level with info, low, moderate, high, or critical',
+    commandName: 'audit',
+    difficulty: 'intermediate',
+    topics: ['security'],
+    prerequisites: ['audit.run-security-audit'],
+    commandExplanation: 'The --audit-level flag sets the minimum severity level to exit with error.',
+  },
+  {
+    key: 'audit.audit-dry-run-fixes',
+    title: 'Audit dry run fixes',
+    description: 'Preview what audit fix would do',
+    expectedCommand: 'npm audit fix --dry-run',
+    hint: 'Use --dry-run flag with audit fix',
+    commandName: 'audit',
+    difficulty: 'intermediate',
+    topics: ['security'],
+    prerequisites: ['audit.run-security-audit'],
+    commandExplanation: 'The --dry-run flag shows what npm audit fix would change without making modifications.',
+  },
+  {
+    key: 'audit.force-audit-fix',
+    title: 'Force audit fix',
+    description: 'Install breaking changes to fix vulnerabilities',
+    expectedCommand: 'npm audit fix --force',
+    hint: 'Use --force or -f flag',
+    commandName: 'audit',
+    difficulty: 'beginner',
+    topics: ['security'],
+    prerequisites: ['audit.run-security-audit'],
+    commandExplanation: 'The --force (-f) flag installs potentially breaking updates to fix vulnerabilities.',
+  },
+  {
+    key: 'audit.audit-report-as-json',
+    title: 'Audit report as JSON',
+    description: 'Output audit report in JSON format',
+    expectedCommand: 'npm audit --json',
+    hint: 'Use --json flag',
+    commandName: 'audit',
+    difficulty: 'beginner',
+    topics: ['security'],
+    prerequisites: ['audit.run-security-audit'],
+    commandExplanation: 'The --json flag outputs the audit report as JSON for programmatic use.',
+  },
+  {
+    key: 'audit.audit-package-lock-only',
+    title: 'Audit package-lock only',
+    description: 'Audit using only package-lock.json',
+    expectedCommand: 'npm audit --package-lock-only',
+    hint: 'Use --package-lock-only flag',
+    commandName: 'audit',
+    difficulty: 'advanced',
+    topics: ['security'],
+    prerequisites: ['audit.run-security-audit'],
+    commandExplanation: 'The --package-lock-only flag audits based on package-lock.json without reading node_modules.',
+  },
+  {
+    key: 'audit.audit-without-package-lock',
+    title: 'Audit without package-lock',
+    description: 'Audit without reading package-lock.json',
+    expectedCommand: 'npm audit --no-package-lock',
+    hint: 'Use --no-package-lock flag',
+    commandName: 'audit',
+    difficulty: 'intermediate',
+    topics: ['security'],
+    prerequisites: ['audit.run-security-audit'],
+    commandExplanation: 'The --no-package-lock flag prevents reading package-lock.json during audit.',
+  },
+  {
+    key: 'audit.audit-omitting-dev-dependencies',
+    title: 'Audit omitting dev dependencies',
+    description: 'Audit only production dependencies',
+    expectedCommand: 'npm audit --omit=dev',
+    hint: 'Use --omit=dev, --omit=optional, or --omit=peer',
+    commandName: 'audit',
+    difficulty: 'beginner',
+    topics: ['security'],
+    prerequisites: ['audit.run-security-audit'],
+    commandExplanation: 'The --omit flag excludes certain dependency types from the audit.',
+  },
+  {
+    key: 'audit.audit-including-optional-dependencies',
+    title: 'Audit including optional dependencies',
+    description: 'Audit all dependencies including optional',
+    expectedCommand: 'npm audit --include=optional',
+    hint: 'Use --include=dev, --include=optional, or --include=peer',
+    commandName: 'audit',
+    difficulty: 'intermediate',
+    topics: ['security'],
+    prerequisites: ['audit.run-security-audit'],
+    commandExplanation: 'The --include flag specifies dependency types to include in the audit.',
+  },
+  {
+    key: 'audit.audit-fix-with-foreground-scripts',
+    title: 'Audit fix with foreground scripts',
+    description: 'Run audit fix with scripts in foreground',
+    expectedCommand: 'npm audit fix --foreground-scripts',
+    hint: 'Use --foreground-scripts flag',
+    commandName: 'audit',
+    difficulty: 'advanced',
+    topics: ['security'],
+    prerequisites: ['audit.run-security-audit'],
+    commandExplanation: 'The --foreground-scripts flag runs lifecycle scripts in the foreground during audit fix.',
+  },
+  {
+    key: 'audit.audit-fix-without-running-scripts',
+    title: 'Audit fix without running scripts',
+    description: 'Run audit fix but skip install scripts',
+    expectedCommand: 'npm audit fix --ignore-scripts',
+    hint: 'Use --ignore-scripts flag',
+    commandName: 'audit',
+    difficulty: 'intermediate',
+    topics: ['security'],
+    prerequisites: ['audit.run-security-audit'],
+    commandExplanation: 'The --ignore-scripts flag prevents running install scripts during audit fix.',
+  },
+  {
+    key: 'audit.audit-specific-workspace',
+    title: 'Audit specific workspace',
+    description: 'Audit packages in packages/frontend',
+    expectedCommand: 'npm audit --workspace=packages/frontend',
+    hint: 'Use --workspace or -w flag',
+    commandName: 'audit',
+    difficulty: 'advanced',
+    topics: ['security', 'workspaces'],
+    prerequisites: ['audit.run-security-audit'],
+    commandExplanation: 'The --workspace (-w) flag audits a specific workspace within a monorepo.',
+  },
+  {
+    key: 'audit.audit-all-workspaces',
+    title: 'Audit all workspaces',
+    description: 'Audit packages in every workspace',
+    expectedCommand: 'npm audit --workspaces',
+    hint: 'Use --workspaces or -ws flag',
+    commandName: 'audit',
+    difficulty: 'advanced',
+    topics: ['security', 'workspaces'],
+    prerequisites: ['audit.run-security-audit'],
+    commandExplanation: 'The --workspaces flag audits all workspaces defined in your monorepo.',
+  },
+  {
+    key: 'audit.audit-workspaces-including-root',
+    title: 'Audit workspaces including root',
+    description: 'Audit all workspaces and the root package',
+    expectedCommand: 'npm audit --workspaces --include-workspace-root',
+    hint: 'Use --include-workspace-root with --workspaces',
+    commandName: 'audit',
+    difficulty: 'advanced',
+    topics: ['security', 'workspaces'],
+    prerequisites: ['audit.run-security-audit'],
+    commandExplanation: 'The --include-workspace-root flag includes the workspace root when auditing workspaces.',
+  },
+  {
+    key: 'audit.audit-fix-with-install-links',
+    title: 'Audit fix with install-links',
+    description: 'Run audit fix treating file: deps as packages',
+    expectedCommand: 'npm audit fix --install-links',
+    hint: 'Use --install-links flag',
+    commandName: 'audit',
+    difficulty: 'advanced',
+    topics: ['security'],
+    prerequisites: ['audit.run-security-audit'],
+    commandExplanation: 'The --install-links flag treats file: protocol dependencies as regular packages during audit fix.',
+  },
+
+  // ========== RUN ==========
+  {
+    key: 'run.list-available-scripts',
+    title: 'List available scripts',
+    description: 'Show all scripts defined in package.json',
+    expectedCommand: 'npm run',
+    hint: 'Lists all available scripts',
+    commandName: 'run',
+    difficulty: 'beginner',
+    topics: ['basics'],
+    commandExplanation: 'Running npm run without arguments lists all available scripts.',
+  },
+  {
+    key: 'run.run-build-script',
+    title: 'Run build script',
+    description: 'Execute the build script from package.json',
+    expectedCommand: 'npm run build',
+    hint: 'Use npm run followed by script name',
+    commandName: 'run',
+    difficulty: 'beginner',
+    topics: ['basics'],
+    prerequisites: ['run.list-available-scripts'],
+    commandExplanation: 'Runs the script defined in the "scripts" section of package.json.',
+  },
+  {
+    key: 'run.run-script-with-arguments',
+    title: 'Run script with arguments',
+    description: 'Run test script with --grep flag and pattern as value',
+    expectedCommand: 'npm run test -- --grep="pattern"',
+    hint: 'Use -- to pass arguments to the script',
+    commandName: 'run',
+    difficulty: 'beginner',
+    topics: ['basics'],
+    prerequisites: ['run.list-available-scripts'],
+    commandExplanation: 'Arguments after -- are passed to the script, not to npm.',
+  },
+  {
+    key: 'run.run-script-in-specific-workspace',
+    title: 'Run script in specific workspace',
+    description: 'Run build in packages/frontend workspace',
+    expectedCommand: 'npm run build --workspace=packages/frontend',
+    hint: 'Use --workspace or -w flag',
+    commandName: 'run',
+    difficulty: 'advanced',
+    topics: ['basics', 'workspaces'],
+    prerequisites: ['run.list-available-scripts'],
+    commandExplanation: 'The --workspace flag runs the script in a specific workspace.',
+  },
+  {
+    key: 'run.run-script-in-all-workspaces',
+    title: 'Run script in all workspaces',
+    description: 'Run test script in all workspaces',
+    expectedCommand: 'npm run test --workspaces',
+    hint: 'Use --workspaces flag',
+    commandName: 'run',
+    difficulty: 'advanced',
+    topics: ['basics', 'workspaces'],
+    prerequisites: ['run.list-available-scripts'],
+    commandExplanation: 'The --workspaces flag runs the script in all configured workspaces.',
+  },
+  {
+    key: 'run.include-root-in-workspace-runs',
+    title: 'Include root in workspace runs',
+    description: 'Run build in all workspaces including root',
+    expectedCommand: 'npm run build --workspaces --include-workspace-root',
+    hint: 'Use --include-workspace-root with --workspaces',
+    commandName: 'run',
+    difficulty: 'advanced',
+    topics: ['basics', 'workspaces'],
+    prerequisites: ['run.list-available-scripts'],
+    commandExplanation: 'The --include-workspace-root flag includes the root project when running in workspaces.',
+  },
+  {
+    key: 'run.run-script-if-present',
+    title: 'Run script if present',
+    description: 'Run prebuild if it exists, skip otherwise',
+    expectedCommand: 'npm run prebuild --if-present',
+    hint: 'Use --if-present to avoid errors',
+    commandName: 'run',
+    difficulty: 'intermediate',
+    topics: ['basics'],
+    prerequisites: ['run.list-available-scripts'],
+    commandExplanation: 'The --if-present flag prevents errors when a script is not defined.',
+  },
+  {
+    key: 'run.skip-pre-post-scripts',
+    title: 'Skip pre/post scripts',
+    description: 'Run build without prebuild/postbuild',
+    expectedCommand: 'npm run build --ignore-scripts',
+    hint: 'Use --ignore-scripts flag',
+    commandName: 'run',
+    difficulty: 'intermediate',
+    topics: ['basics', 'security'],
+    prerequisites: ['run.list-available-scripts'],
+    commandExplanation: 'The --ignore-scripts flag skips pre- and post- scripts but runs the main script.',
+  },
+  {
+    key: 'run.run-scripts-in-foreground',
+    title: 'Run scripts in foreground',
+    description: 'Run build with visible output',
+    expectedCommand: 'npm run build --foreground-scripts',
+    hint: 'Use --foreground-scripts for debugging',
+    commandName: 'run',
+    difficulty: 'advanced',
+    topics: ['basics'],
+    prerequisites: ['run.list-available-scripts'],
+    commandExplanation: 'The --foreground-scripts flag runs scripts in the foreground for better visibility.',
+  },
+  {
+    key: 'run.use-custom-shell',
+    title: 'Use custom shell',
+    description: 'Run script using bash',
+    expectedCommand: 'npm run build --script-shell=bash',
+    hint: 'Use --script-shell with shell path',
+    commandName: 'run',
+    difficulty: 'advanced',
+    topics: ['basics'],
+    prerequisites: ['run.list-available-scripts'],
+    commandExplanation: 'The --script-shell flag specifies which shell to use for running scripts.',
+  },
+  {
+    key: 'run.run-script-silently',
+    title: 'Run script silently',
+    description: 'Run the build script without npm\'s own output',
+    expectedCommand: 'npm run build --silent',
+    hint: 'Use --silent flag',
+    commandName: 'run',
+    difficulty: 'intermediate',
+    topics: ['basics'],
+    prerequisites: ['run.list-available-scripts'],
+    commandExplanation: 'The --silent flag hides npm\'s log lines, so only the script\'s own output is shown.',
+  },
+
+  // ========== TEST ==========
+  {
+    key: 'test.run-tests',
+    title: 'Run tests',
+    description: 'Execute the test script',
+    expectedCommand: 'npm test',
+    hint: 'Alias: npm t',
+    commandName: 'test',
+    difficulty: 'beginner',
+    topics: ['basics'],
+    commandExplanation: 'Runs the "test" script defined in package.json.',
+  },
+  {
+    key: 'test.run-tests-with-arguments',
+    title: 'Run tests with arguments',
+    description: 'Pass --verbose to test script',
+    expectedCommand: 'npm test -- --verbose',
+    hint: 'Use -- to pass args to test',
+    commandName: 'test',
+    difficulty: 'beginner',
+    topics: ['basics'],
+    prerequisites: ['test.run-tests'],
+    commandExplanation: 'Arguments after -- are passed to the test script.',
+  },
+  {
+    key: 'test.test-without-pre-post-scripts',
+    title: 'Test without pre/post scripts',
+    description: 'Run test without pretest/posttest',
+    expectedCommand: 'npm test --ignore-scripts',
+    hint: 'Use --ignore-scripts flag',
+    commandName: 'test',
+    difficulty: 'intermediate',
+    topics: ['basics', 'security'],
+    prerequisites: ['test.run-tests'],
+    commandExplanation: 'The --ignore-scripts flag skips pre- and post- scripts but runs the main test.',
+  },
+  {
+    key: 'test.test-with-custom-shell',
+    title: 'Test with custom shell',
+    description: 'Run tests using bash',
+    expectedCommand: 'npm test --script-shell=bash',
+    hint: 'Use --script-shell with shell path',
+    commandName: 'test',
+    difficulty: 'advanced',
+    topics: ['basics'],
+    prerequisites: ['test.run-tests'],
+    commandExplanation: 'The --script-shell flag specifies which shell to use for running tests.',
+  },
+
+  // ========== START ==========
+  {
+    key: 'start.start-application',
+    title: 'Start application',
+    description: 'Execute the start script',
+    expectedCommand: 'npm start',
+    hint: 'Runs the "start" script or node server.js',
+    commandName: 'start',
+    difficulty: 'beginner',
+    topics: ['basics'],
+    commandExplanation: 'Runs the "start" script, or node server.js if no script is defined.',
+  },
+  {
+    key: 'start.start-with-arguments',
+    title: 'Start with arguments',
+    description: 'Start with --port=4000 argument',
+    expectedCommand: 'npm start -- --port=4000',
+    hint: 'Use -- to pass arguments to start',
+    commandName: 'start',
+    difficulty: 'beginner',
+    topics: ['basics'],
+    prerequisites: ['start.start-application'],
+    commandExplanation: 'Arguments after -- are passed to the start script.',
+  },
+  {
+    key: 'start.start-without-pre-post-scripts',
+    title: 'Start without pre/post scripts',
+    description: 'Start without prestart/poststart',
+    expectedCommand: 'npm start --ignore-scripts',
+    hint: 'Use --ignore-scripts flag',
+    commandName: 'start',
+    difficulty: 'intermediate',
+    topics: ['basics', 'security'],
+    prerequisites: ['start.start-application'],
+    commandExplanation: 'The --ignore-scripts flag skips pre- and post- scripts but runs the main start.',
+  },
+  {
+    key: 'start.start-with-custom-shell',
+    title: 'Start with custom shell',
+    description: 'Run start using bash',
+    expectedCommand: 'npm start --script-shell=bash',
+    hint: 'Use --script-shell with shell path',
+    commandName: 'start',
+    difficulty: 'advanced',
+    topics: ['basics'],
+    prerequisites: ['start.start-application'],
+    commandExplanation: 'The --script-shell flag specifies which shell to use for running start.',
+  },
+
+  // ========== STOP ==========
+  {
+    key: 'stop.stop-application',
+    title: 'Stop application',
+    description: 'Execute the stop script',
+    expectedCommand: 'npm stop',
+    hint: 'Runs the "stop" script',
+    commandName: 'stop',
+    difficulty: 'beginner',
+    topics: ['basics'],
+    commandExplanation: 'Runs the "stop" script defined in package.json.',
+  },
+  {
+    key: 'stop.stop-with-arguments',
+    title: 'Stop with arguments',
+    description: 'Stop with --graceful argument',
+    expectedCommand: 'npm stop -- --graceful',
+    hint: 'Use -- to pass arguments to stop',
+    commandName: 'stop',
+    difficulty: 'beginner',
+    topics: ['basics'],
+    prerequisites: ['stop.stop-application'],
+    commandExplanation: 'Arguments after -- are passed to the stop script.',
+  },
+  {
+    key: 'stop.stop-without-pre-post-scripts',
+    title: 'Stop without pre/post scripts',
+    description: 'Stop without prestop/poststop',
+    expectedCommand: 'npm stop --ignore-scripts',
+    hint: 'Use --ignore-scripts flag',
+    commandName: 'stop',
+    difficulty: 'intermediate',
+    topics: ['basics', 'security'],
+    prerequisites: ['stop.stop-application'],
+    commandExplanation: 'The --ignore-scripts flag skips pre- and post- scripts but runs the main stop.',
+  },
+  {
+    key: 'stop.stop-with-custom-shell',
+    title: 'Stop with custom shell',
+    description: 'Run stop using bash',
+    expectedCommand: 'npm stop --script-shell=bash',
+    hint: 'Use --script-shell with shell path',
+    commandName: 'stop',
+    difficulty: 'advanced',
+    topics: ['basics'],
+    prerequisites: ['stop.stop-application'],
+    commandExplanation: 'The --script-shell flag specifies which shell to use for running stop.',
+  },
+
+  // ========== RESTART ==========
+  {
+    key: 'restart.restart-application',
+    title: 'Restart application',
+    description: 'Execute the restart script',
+    expectedCommand: 'npm restart',
+    hint: 'Runs restart or stop+start',
+    commandName: 'restart',
+    difficulty: 'beginner',
+    topics: ['basics'],
+    commandExplanation: 'Runs the "restart" script, or runs stop and start scripts if no restart is defined.',
+  },
+  {
+    key: 'restart.restart-with-arguments',
+    title: 'Restart with arguments',
+    description: 'Restart with --clean argument',
+    expectedCommand: 'npm restart -- --clean',
+    hint: 'Use -- to pass arguments to restart',
+    commandName: 'restart',
+    difficulty: 'beginner',
+    topics: ['basics'],
+    prerequisites: ['restart.restart-application'],
+    commandExplanation: 'Arguments after -- are passed to the restart script.',
+  },
+  {
+    key: 'restart.restart-without-pre-post-scripts',
+    title: 'Restart without pre/post scripts',
+    description: 'Restart without prerestart/postrestart',
+    expectedCommand: 'npm restart --ignore-scripts',
+    hint: 'Use --ignore-scripts flag',
+    commandName: 'restart',
+    difficulty: 'intermediate',
+    topics: ['basics', 'security'],
+    prerequisites: ['restart.restart-application'],
+    commandExplanation: 'The --ignore-scripts flag skips pre- and post- scripts but runs the main restart.',
+  },
+  {
+    key: 'restart.restart-with-custom-shell',
+    title: 'Restart with custom shell',
+    description: 'Run restart using bash',
+    expectedCommand: 'npm restart --script-shell=bash',
+    hint: 'Use --script-shell with shell path',
+    commandName: 'restart',
+    difficulty: 'advanced',
+    topics: ['basics'],
+    prerequisites: ['restart.restart-application'],
+    commandExplanation: 'The --script-shell flag specifies which shell to use for running restart.',
+  },
+
+  // ========== INSTALL-TEST ==========
+  {
+    key: 'install-test.install-and-test',
+    title: 'Install and test',
+    description: 'Install dependencies then run tests',
+    expectedCommand: 'npm install-test',
+    hint: 'Alias: npm it',
+    commandName: 'install-test',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package', 'test.run-tests'],
+    commandExplanation: 'Runs npm install followed immediately by npm test.',
+  },
+  {
+    key: 'install-test.install-package-and-test',
+    title: 'Install package and test',
+    description: 'Install lodash then run tests',
+    expectedCommand: 'npm install-test lodash',
+    hint: 'Takes same args as npm install',
+    commandName: 'install-test',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['install-test.install-and-test'],
+    commandExplanation: 'Installs specified packages then runs tests.',
+  },
+  {
+    key: 'install-test.install-temp-and-test',
+    title: 'Install temp and test',
+    description: 'Install express without saving, then test',
+    expectedCommand: 'npm install-test express --no-save',
+    hint: 'Use --no-save to not update package.json',
+    commandName: 'install-test',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['install-test.install-and-test'],
+    commandExplanation: 'The --no-save flag prevents updating package.json.',
+  },
+  {
+    key: 'install-test.install-exact-version-and-test',
+    title: 'Install exact version and test',
+    description: 'Install lodash with exact version then test',
+    expectedCommand: 'npm install-test lodash --save-exact',
+    hint: 'Use --save-exact for pinned versions',
+    commandName: 'install-test',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['install-test.install-and-test'],
+    commandExplanation: 'The --save-exact flag saves exact versions without semver ranges.',
+  },
+  {
+    key: 'install-test.install-globally-and-test',
+    title: 'Install globally and test',
+    description: 'Install typescript globally then test',
+    expectedCommand: 'npm install-test typescript --global',
+    hint: 'Use --global or -g flag',
+    commandName: 'install-test',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['install-test.install-and-test'],
+    commandExplanation: 'The --global flag installs packages globally.',
+  },
+  {
+    key: 'install-test.install-with-hoisted-strategy-and-test',
+    title: 'Install with hoisted strategy and test',
+    description: 'Use hoisted install strategy then test',
+    expectedCommand: 'npm install-test --install-strategy=hoisted',
+    hint: 'Use --install-strategy with hoisted, nested, shallow, or linked',
+    commandName: 'install-test',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['install-test.install-and-test'],
+    commandExplanation: 'The --install-strategy flag controls how packages are organized in node_modules.',
+  },
+  {
+    key: 'install-test.install-with-nested-strategy-and-test',
+    title: 'Install with nested strategy and test',
+    description: 'Use nested install strategy then test',
+    expectedCommand: 'npm install-test --install-strategy=nested',
+    hint: 'nested creates deep directory structures',
+    commandName: 'install-test',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['install-test.install-and-test'],
+    commandExplanation: 'The nested strategy installs packages in place without hoisting.',
+  },
+  {
+    key: 'install-test.install-with-shallow-strategy-and-test',
+    title: 'Install with shallow strategy and test',
+    description: 'Use shallow install strategy then test',
+    expectedCommand: 'npm install-test --install-strategy=shallow',
+    hint: 'shallow only installs direct deps at top level',
+    commandName: 'install-test',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['install-test.install-and-test'],
+    commandExplanation: 'The shallow strategy only installs direct dependencies at the top level.',
+  },
+  {
+    key: 'install-test.install-with-linked-strategy-and-test',
+    title: 'Install with linked strategy and test',
+    description: 'Use linked install strategy then test',
+    expectedCommand: 'npm install-test --install-strategy=linked',
+    hint: 'linked is experimental',
+    commandName: 'install-test',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['install-test.install-and-test'],
+    commandExplanation: 'The linked strategy is experimental and installs in node_modules/.store.',
+  },
+  {
+    key: 'install-test.install-without-dev-deps-and-test',
+    title: 'Install without dev deps and test',
+    description: 'Omit devDependencies then test',
+    expectedCommand: 'npm install-test --omit=dev',
+    hint: 'Use --omit with dev, optional, or peer',
+    commandName: 'install-test',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['install-test.install-and-test'],
+    commandExplanation: 'The --omit flag excludes dependency types from installation.',
+  },
+  {
+    key: 'install-test.install-without-peer-deps-and-test',
+    title: 'Install without peer deps and test',
+    description: 'Omit peerDependencies then test',
+    expectedCommand: 'npm install-test --omit=peer',
+    hint: 'Can omit multiple types',
+    commandName: 'install-test',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['install-test.install-and-test'],
+    commandExplanation: 'The --omit=peer flag excludes peer dependencies.',
+  },
+  {
+    key: 'install-test.install-with-optional-deps-and-test',
+    title: 'Install with optional deps and test',
+    description: 'Include optionalDependencies then test',
+    expectedCommand: 'npm install-test --include=optional',
+    hint: 'Use --include with prod, dev, optional, or peer',
+    commandName: 'install-test',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['install-test.install-and-test'],
+    commandExplanation: 'The --include flag specifies dependency types to install.',
+  },
+  {
+    key: 'install-test.install-with-strict-peers-and-test',
+    title: 'Install with strict peers and test',
+    description: 'Fail on peer conflicts then test',
+    expectedCommand: 'npm install-test --strict-peer-deps',
+    hint: 'Use --strict-peer-deps flag',
+    commandName: 'install-test',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'security'],
+    prerequisites: ['install-test.install-and-test'],
+    commandExplanation: 'The --strict-peer-deps flag treats peer conflicts as errors.',
+  },
+  {
+    key: 'install-test.install-preferring-deduplication-and-test',
+    title: 'Install preferring deduplication and test',
+    description: 'Prefer existing versions then test',
+    expectedCommand: 'npm install-test --prefer-dedupe',
+    hint: 'Use --prefer-dedupe flag',
+    commandName: 'install-test',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['install-test.install-and-test'],
+    commandExplanation: 'The --prefer-dedupe flag prefers deduplicating packages over newer versions.',
+  },
+  {
+    key: 'install-test.install-without-lockfile-and-test',
+    title: 'Install without lockfile and test',
+    description: 'Skip package-lock.json then test',
+    expectedCommand: 'npm install-test --no-package-lock',
+    hint: 'Use --no-package-lock to ignore lockfile',
+    commandName: 'install-test',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['install-test.install-and-test'],
+    commandExplanation: 'The --no-package-lock flag ignores and prevents writing package-lock.json.',
+  },
+  {
+    key: 'install-test.update-lockfile-only-and-test',
+    title: 'Update lockfile only and test',
+    description: 'Only update package-lock.json then test',
+    expectedCommand: 'npm install-test --package-lock-only',
+    hint: 'Use --package-lock-only flag',
+    commandName: 'install-test',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['install-test.install-and-test'],
+    commandExplanation: 'The --package-lock-only flag only uses the lockfile, ignoring node_modules.',
+  },
+  {
+    key: 'install-test.install-with-foreground-scripts-and-test',
+    title: 'Install with foreground scripts and test',
+    description: 'Show all script output then test',
+    expectedCommand: 'npm install-test --foreground-scripts',
+    hint: 'Use --foreground-scripts for debugging',
+    commandName: 'install-test',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['install-test.install-and-test'],
+    commandExplanation: 'The --foreground-scripts flag runs scripts in foreground for visibility.',
+  },
+  {
+    key: 'install-test.install-without-scripts-and-test',
+    title: 'Install without scripts and test',
+    description: 'Skip install scripts then test',
+    expectedCommand: 'npm install-test --ignore-scripts',
+    hint: 'Use --ignore-scripts flag',
+    commandName: 'install-test',
+    difficulty: 'intermediate',
+    topics: ['dependencies', 'security'],
+    prerequisites: ['install-test.install-and-test'],
+    commandExplanation: 'The --ignore-scripts flag prevents running lifecycle scripts.',
+  },
+  {
+    key: 'install-test.install-without-audit-and-test',
+    title: 'Install without audit and test',
+    description: 'Skip security audit then test',
+    expectedCommand: 'npm install-test --no-audit',
+    hint: 'Use --no-audit to skip vulnerability checks',
+    commandName: 'install-test',
+    difficulty: 'intermediate',
+    topics: ['dependencies', 'security'],
+    prerequisites: ['install-test.install-and-test'],
+    commandExplanation: 'The --no-audit flag skips the security audit.',
+  },
+  {
+    key: 'install-test.install-before-date-and-test',
+    title: 'Install before date and test',
+    description: 'Install versions before 2023-01-01 then test',
+    expectedCommand: 'npm install-test --before=2023-01-01',
+    hint: 'Use --before with a date',
+    commandName: 'install-test',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['install-test.install-and-test'],
+    commandExplanation: 'The --before flag installs versions available before specified date.',
+  },
+  {
+    key: 'install-test.install-without-bin-links-and-test',
+    title: 'Install without bin links and test',
+    description: 'Skip creating executable symlinks then test',
+    expectedCommand: 'npm install-test --no-bin-links',
+    hint: 'Use --no-bin-links flag',
+    commandName: 'install-test',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['install-test.install-and-test'],
+    commandExplanation: 'The --no-bin-links flag prevents creating symlinks for executables.',
+  },
+  {
+    key: 'install-test.install-without-fund-message-and-test',
+    title: 'Install without fund message and test',
+    description: 'Hide funding messages then test',
+    expectedCommand: 'npm install-test --no-fund',
+    hint: 'Use --no-fund to hide funding info',
+    commandName: 'install-test',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['install-test.install-and-test'],
+    commandExplanation: 'The --no-fund flag suppresses funding messages.',
+  },
+  {
+    key: 'install-test.dry-run-install-and-test',
+    title: 'Dry run install and test',
+    description: 'Simulate install without changes then test',
+    expectedCommand: 'npm install-test --dry-run',
+    hint: 'Use --dry-run to preview changes',
+    commandName: 'install-test',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['install-test.install-and-test'],
+    commandExplanation: 'The --dry-run flag shows what would happen without making changes.',
+  },
+  {
+    key: 'install-test.install-for-specific-cpu-and-test',
+    title: 'Install for specific CPU and test',
+    description: 'Override CPU architecture then test',
+    expectedCommand: 'npm install-test --cpu=x64',
+    hint: 'Use --cpu with architecture',
+    commandName: 'install-test',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['install-test.install-and-test'],
+    commandExplanation: 'The --cpu flag overrides CPU architecture for native modules.',
+  },
+  {
+    key: 'install-test.install-for-specific-os-and-test',
+    title: 'Install for specific OS and test',
+    description: 'Override OS platform then test',
+    expectedCommand: 'npm install-test --os=linux',
+    hint: 'Use --os with platform',
+    commandName: 'install-test',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['install-test.install-and-test'],
+    commandExplanation: 'The --os flag overrides OS platform for native modules.',
+  },
+  {
+    key: 'install-test.install-for-specific-libc-and-test',
+    title: 'Install for specific libc and test',
+    description: 'Override libc variant then test',
+    expectedCommand: 'npm install-test --libc=glibc',
+    hint: 'Use --libc with variant',
+    commandName: 'install-test',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['install-test.install-and-test'],
+    commandExplanation: 'The --libc flag overrides libc for native modules.',
+  },
+  {
+    key: 'install-test.install-in-workspace-and-test',
+    title: 'Install in workspace and test',
+    description: 'Install in packages/frontend then test',
+    expectedCommand: 'npm install-test --workspace=packages/frontend',
+    hint: 'Use --workspace or -w flag',
+    commandName: 'install-test',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['install-test.install-and-test'],
+    commandExplanation: 'The --workspace flag runs install-test in a specific workspace.',
+  },
+  {
+    key: 'install-test.install-in-all-workspaces-and-test',
+    title: 'Install in all workspaces and test',
+    description: 'Install in every workspace then test',
+    expectedCommand: 'npm install-test --workspaces',
+    hint: 'Use --workspaces flag',
+    commandName: 'install-test',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['install-test.install-and-test'],
+    commandExplanation: 'The --workspaces flag runs install-test in all workspaces.',
+  },
+  {
+    key: 'install-test.install-with-root-workspace-and-test',
+    title: 'Install with root workspace and test',
+    description: 'Include root in workspace installs then test',
+    expectedCommand: 'npm install-test --workspaces --include-workspace-root',
+    hint: 'Use --include-workspace-root with --workspaces',
+    commandName: 'install-test',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['install-test.install-and-test'],
+    commandExplanation: 'The --include-workspace-root flag includes the root project when running in workspaces.',
+  },
+  {
+    key: 'install-test.install-file-deps-as-packages-and-test',
+    title: 'Install file deps as packages and test',
+    description: 'Pack file: deps instead of symlinking then test',
+    expectedCommand: 'npm install-test --install-links',
+    hint: 'Use --install-links flag',
+    commandName: 'install-test',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['install-test.install-and-test'],
+    commandExplanation: 'The --install-links flag treats file: protocol dependencies as regular packages.',
+  },
+  {
+    key: 'install-test.save-dev-and-test',
+    title: 'Install dev dependency and test',
+    description: 'Install jest as a dev dependency and run tests',
+    expectedCommand: 'npm install-test jest --save-dev',
+    hint: 'Use --save-dev or -D flag',
+    commandName: 'install-test',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['install-test.install-and-test'],
+    commandExplanation: 'Installs jest into devDependencies, then runs npm test.',
+  },
+
+  // ========== INSTALL-CI-TEST ==========
+  {
+    key: 'install-ci-test.clean-install-and-test',
+    title: 'Clean install and test',
+    description: 'Run npm ci then npm test',
+    expectedCommand: 'npm install-ci-test',
+    hint: 'Alias: npm cit',
+    commandName: 'install-ci-test',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['ci.clean-install-from-lock-file', 'test.run-tests'],
+    commandExplanation: 'Runs npm ci (clean install) followed immediately by npm test.',
+  },
+  {
+    key: 'install-ci-test.ci-test-with-install-strategy',
+    title: 'CI test with install strategy',
+    description: 'Clean install with nested strategy then test',
+    expectedCommand: 'npm install-ci-test --install-strategy=nested',
+    hint: 'Use --install-strategy with hoisted, nested, shallow, or linked',
+    commandName: 'install-ci-test',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['install-ci-test.clean-install-and-test'],
+    commandExplanation: 'The --install-strategy flag controls how packages are organized.',
+  },
+  {
+    key: 'install-ci-test.ci-test-omitting-dev-deps',
+    title: 'CI test omitting dev deps',
+    description: 'Clean install without devDependencies then test',
+    expectedCommand: 'npm install-ci-test --omit=dev',
+    hint: 'Use --omit with dev, optional, or peer',
+    commandName: 'install-ci-test',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['install-ci-test.clean-install-and-test'],
+    commandExplanation: 'The --omit flag excludes dependency types from CI install.',
+  },
+  {
+    key: 'install-ci-test.ci-test-including-optional',
+    title: 'CI test including optional',
+    description: 'Clean install with optional deps then test',
+    expectedCommand: 'npm install-ci-test --include=optional',
+    hint: 'Use --include flag',
+    commandName: 'install-ci-test',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['install-ci-test.clean-install-and-test'],
+    commandExplanation: 'The --include flag specifies dependency types to install.',
+  },
+  {
+    key: 'install-ci-test.ci-test-with-strict-peers',
+    title: 'CI test with strict peers',
+    description: 'Fail on peer conflicts during CI then test',
+    expectedCommand: 'npm install-ci-test --strict-peer-deps',
+    hint: 'Use --strict-peer-deps flag',
+    commandName: 'install-ci-test',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'security'],
+    prerequisites: ['install-ci-test.clean-install-and-test'],
+    commandExplanation: 'The --strict-peer-deps flag treats peer conflicts as errors.',
+  },
+  {
+    key: 'install-ci-test.ci-test-with-foreground-scripts',
+    title: 'CI test with foreground scripts',
+    description: 'Show all script output during CI then test',
+    expectedCommand: 'npm install-ci-test --foreground-scripts',
+    hint: 'Use --foreground-scripts for debugging',
+    commandName: 'install-ci-test',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['install-ci-test.clean-install-and-test'],
+    commandExplanation: 'The --foreground-scripts flag runs scripts in foreground.',
+  },
+  {
+    key: 'install-ci-test.ci-test-without-scripts',
+    title: 'CI test without scripts',
+    description: 'Skip lifecycle scripts during CI then test',
+    expectedCommand: 'npm install-ci-test --ignore-scripts',
+    hint: 'Use --ignore-scripts flag',
+    commandName: 'install-ci-test',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'security'],
+    prerequisites: ['install-ci-test.clean-install-and-test'],
+    commandExplanation: 'The --ignore-scripts flag prevents running lifecycle scripts.',
+  },
+  {
+    key: 'install-ci-test.ci-test-without-audit',
+    title: 'CI test without audit',
+    description: 'Skip security audit during CI then test',
+    expectedCommand: 'npm install-ci-test --no-audit',
+    hint: 'Use --no-audit to skip vulnerability checks',
+    commandName: 'install-ci-test',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'security'],
+    prerequisites: ['install-ci-test.clean-install-and-test'],
+    commandExplanation: 'The --no-audit flag skips the security audit.',
+  },
+  {
+    key: 'install-ci-test.ci-test-without-bin-links',
+    title: 'CI test without bin links',
+    description: 'Skip creating executable symlinks during CI then test',
+    expectedCommand: 'npm install-ci-test --no-bin-links',
+    hint: 'Use --no-bin-links flag',
+    commandName: 'install-ci-test',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['install-ci-test.clean-install-and-test'],
+    commandExplanation: 'The --no-bin-links flag prevents creating symlinks for executables.',
+  },
+  {
+    key: 'install-ci-test.ci-test-without-fund-message',
+    title: 'CI test without fund message',
+    description: 'Hide funding messages during CI then test',
+    expectedCommand: 'npm install-ci-test --no-fund',
+    hint: 'Use --no-fund to hide funding info',
+    commandName: 'install-ci-test',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['install-ci-test.clean-install-and-test'],
+    commandExplanation: 'The --no-fund flag suppresses funding messages.',
+  },
+  {
+    key: 'install-ci-test.dry-run-ci-test',
+    title: 'Dry run CI test',
+    description: 'Simulate CI install without changes then test',
+    expectedCommand: 'npm install-ci-test --dry-run',
+    hint: 'Use --dry-run to preview changes',
+    commandName: 'install-ci-test',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['install-ci-test.clean-install-and-test'],
+    commandExplanation: 'The --dry-run flag shows what would happen without making changes.',
+  },
+  {
+    key: 'install-ci-test.ci-test-in-workspace',
+    title: 'CI test in workspace',
+    description: 'Clean install in packages/backend then test',
+    expectedCommand: 'npm install-ci-test --workspace=packages/backend',
+    hint: 'Use --workspace or -w flag',
+    commandName: 'install-ci-test',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['install-ci-test.clean-install-and-test'],
+    commandExplanation: 'The --workspace flag runs install-ci-test in a specific workspace.',
+  },
+  {
+    key: 'install-ci-test.ci-test-all-workspaces',
+    title: 'CI test all workspaces',
+    description: 'Clean install all workspaces then test',
+    expectedCommand: 'npm install-ci-test --workspaces',
+    hint: 'Use --workspaces flag',
+    commandName: 'install-ci-test',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['install-ci-test.clean-install-and-test'],
+    commandExplanation: 'The --workspaces flag runs install-ci-test in all workspaces.',
+  },
+  {
+    key: 'install-ci-test.ci-test-with-root-workspace',
+    title: 'CI test with root workspace',
+    description: 'Include root in workspace CI then test',
+    expectedCommand: 'npm install-ci-test --workspaces --include-workspace-root',
+    hint: 'Use --include-workspace-root with --workspaces',
+    commandName: 'install-ci-test',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['install-ci-test.clean-install-and-test'],
+    commandExplanation: 'The --include-workspace-root flag includes the root project.',
+  },
+  {
+    key: 'install-ci-test.ci-test-with-install-links',
+    title: 'CI test with install-links',
+    description: 'Pack file: deps during CI then test',
+    expectedCommand: 'npm install-ci-test --install-links',
+    hint: 'Use --install-links flag',
+    commandName: 'install-ci-test',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['install-ci-test.clean-install-and-test'],
+    commandExplanation: 'The --install-links flag treats file: protocol dependencies as regular packages.',
+  },
+
+  // ========== VERSION ==========
+  {
+    key: 'version.bump-patch-version',
+    title: 'Bump patch version',
+    description: 'Increment patch version (1.0.0 → 1.0.1)',
+    expectedCommand: 'npm version patch',
+    hint: 'Use patch, minor, or major',
+    commandName: 'version',
+    difficulty: 'beginner',
+    topics: ['basics', 'publishing'],
+    commandExplanation: 'Increments the patch version and creates a git tag.',
+  },
+  {
+    key: 'version.bump-minor-version',
+    title: 'Bump minor version',
+    description: 'Increment minor version (1.0.0 → 1.1.0)',
+    expectedCommand: 'npm version minor',
+    hint: 'Use minor for new features',
+    commandName: 'version',
+    difficulty: 'beginner',
+    topics: ['basics', 'publishing'],
+    prerequisites: ['version.bump-patch-version'],
+    commandExplanation: 'Increments the minor version and resets patch to 0.',
+  },
+  {
+    key: 'version.bump-major-version',
+    title: 'Bump major version',
+    description: 'Increment major version (1.0.0 → 2.0.0)',
+    expectedCommand: 'npm version major',
+    hint: 'Use major for breaking changes',
+    commandName: 'version',
+    difficulty: 'beginner',
+    topics: ['basics', 'publishing'],
+    prerequisites: ['version.bump-patch-version'],
+    commandExplanation: 'Increments the major version and resets minor and patch to 0.',
+  },
+  {
+    key: 'version.set-specific-version',
+    title: 'Set specific version',
+    description: 'Set version to 2.5.0',
+    expectedCommand: 'npm version 2.5.0',
+    hint: 'Provide a specific semver version',
+    commandName: 'version',
+    difficulty: 'beginner',
+    topics: ['basics', 'publishing'],
+    prerequisites: ['version.bump-patch-version'],
+    commandExplanation: 'Sets the version to the specified value.',
+  },
+  {
+    key: 'version.bump-prepatch-version',
+    title: 'Bump prepatch version',
+    description: 'Create prerelease patch (1.0.0 → 1.0.1-0)',
+    expectedCommand: 'npm version prepatch',
+    hint: 'Use prepatch, preminor, or premajor',
+    commandName: 'version',
+    difficulty: 'beginner',
+    topics: ['basics', 'publishing'],
+    prerequisites: ['version.bump-patch-version'],
+    commandExplanation: 'Increments the patch version and adds a prerelease identifier.',
+  },
+  {
+    key: 'version.bump-prerelease-version',
+    title: 'Bump prerelease version',
+    description: 'Increment prerelease number (1.0.0-0 → 1.0.0-1)',
+    expectedCommand: 'npm version prerelease',
+    hint: 'Use prerelease to increment prerelease number',
+    commandName: 'version',
+    difficulty: 'beginner',
+    topics: ['basics', 'publishing'],
+    prerequisites: ['version.bump-patch-version'],
+    commandExplanation: 'Increments the prerelease version number.',
+  },
+  {
+    key: 'version.version-from-git-tag',
+    title: 'Version from git tag',
+    description: 'Use latest git tag as version',
+    expectedCommand: 'npm version from-git',
+    hint: 'Use from-git to read version from tags',
+    commandName: 'version',
+    difficulty: 'beginner',
+    topics: ['basics', 'publishing'],
+    prerequisites: ['version.bump-patch-version'],
+    commandExplanation: 'Sets version to match the latest git tag.',
+  },
+  {
+    key: 'version.allow-same-version',
+    title: 'Allow same version',
+    description: 'Set version without error if same as current',
+    expectedCommand: 'npm version 1.0.0 --allow-same-version',
+    hint: 'Use --allow-same-version flag',
+    commandName: 'version',
+    difficulty: 'intermediate',
+    topics: ['basics', 'publishing'],
+    prerequisites: ['version.bump-patch-version'],
+    commandExplanation: 'The --allow-same-version flag prevents errors when version does not change.',
+  },
+  {
+    key: 'version.version-without-commit-hooks',
+    title: 'Version without commit hooks',
+    description: 'Bump version skipping git hooks',
+    expectedCommand: 'npm version patch --no-commit-hooks',
+    hint: 'Use --no-commit-hooks to skip hooks',
+    commandName: 'version',
+    difficulty: 'intermediate',
+    topics: ['basics', 'publishing'],
+    prerequisites: ['version.bump-patch-version'],
+    commandExplanation: 'The --no-commit-hooks flag skips running git commit hooks.',
+  },
+  {
+    key: 'version.version-without-git-tag',
+    title: 'Version without git tag',
+    description: 'Bump version without creating git tag',
+    expectedCommand: 'npm version patch --no-git-tag-version',
+    hint: 'Use --no-git-tag-version flag',
+    commandName: 'version',
+    difficulty: 'intermediate',
+    topics: ['basics', 'publishing'],
+    prerequisites: ['version.bump-patch-version'],
+    commandExplanation: 'The --no-git-tag-version flag prevents git commit and tag creation.',
+  },
+  {
+    key: 'version.version-with-json-output',
+    title: 'Version with JSON output',
+    description: 'Bump version and output JSON',
+    expectedCommand: 'npm version patch --json',
+    hint: 'Use --json flag for machine-readable output',
+    commandName: 'version',
+    difficulty: 'beginner',
+    topics: ['basics', 'publishing'],
+    prerequisites: ['version.bump-patch-version'],
+    commandExplanation: 'The --json flag outputs version information in JSON format.',
+  },
+  {
+    key: 'version.version-with-prerelease-id',
+    title: 'Version with prerelease ID',
+    description: 'Create prerelease with "rc" identifier',
+    expectedCommand: 'npm version prerelease --preid=rc',
+    hint: 'Use --preid with identifier like alpha, beta, rc',
+    commandName: 'version',
+    difficulty: 'advanced',
+    topics: ['basics', 'publishing'],
+    prerequisites: ['version.bump-patch-version'],
+    commandExplanation: 'The --preid flag sets the prerelease identifier (e.g., 1.0.0-rc.0).',
+  },
+  {
+    key: 'version.version-with-signed-tag',
+    title: 'Version with signed tag',
+    description: 'Bump version and create GPG-signed tag',
+    expectedCommand: 'npm version patch --sign-git-tag',
+    hint: 'Use --sign-git-tag to sign tags with GPG',
+    commandName: 'version',
+    difficulty: 'advanced',
+    topics: ['basics', 'publishing'],
+    prerequisites: ['version.bump-patch-version'],
+    commandExplanation: 'The --sign-git-tag flag creates a GPG-signed git tag.',
+  },
+  {
+    key: 'version.version-specific-workspace',
+    title: 'Version specific workspace',
+    description: 'Bump version in packages/frontend',
+    expectedCommand: 'npm version patch --workspace=packages/frontend',
+    hint: 'Use --workspace or -w flag',
+    commandName: 'version',
+    difficulty: 'advanced',
+    topics: ['basics', 'publishing', 'workspaces'],
+    prerequisites: ['version.bump-patch-version'],
+    commandExplanation: 'The --workspace flag bumps version in a specific workspace.',
+  },
+  {
+    key: 'version.version-all-workspaces',
+    title: 'Version all workspaces',
+    description: 'Bump version in all workspaces',
+    expectedCommand: 'npm version patch --workspaces',
+    hint: 'Use --workspaces flag',
+    commandName: 'version',
+    difficulty: 'advanced',
+    topics: ['basics', 'publishing', 'workspaces'],
+    prerequisites: ['version.bump-patch-version'],
+    commandExplanation: 'The --workspaces flag bumps version in all workspaces.',
+  },
+  {
+    key: 'version.version-without-workspace-update',
+    title: 'Version without workspace update',
+    description: 'Bump version without updating workspace installs',
+    expectedCommand: 'npm version patch --no-workspaces-update',
+    hint: 'Use --no-workspaces-update flag',
+    commandName: 'version',
+    difficulty: 'intermediate',
+    topics: ['basics', 'publishing'],
+    prerequisites: ['version.bump-patch-version'],
+    commandExplanation: 'The --no-workspaces-update flag skips updating workspace dependencies.',
+  },
+  {
+    key: 'version.version-with-root-workspace',
+    title: 'Version with root workspace',
+    description: 'Include root when versioning workspaces',
+    expectedCommand: 'npm version patch --workspaces --include-workspace-root',
+    hint: 'Use --include-workspace-root with --workspaces',
+    commandName: 'version',
+    difficulty: 'advanced',
+    topics: ['basics', 'publishing', 'workspaces'],
+    prerequisites: ['version.bump-patch-version'],
+    commandExplanation: 'The --include-workspace-root flag includes the root project when versioning workspaces.',
+  },
+  {
+    key: 'version.version-without-scripts',
+    title: 'Version without scripts',
+    description: 'Bump version without running version scripts',
+    expectedCommand: 'npm version patch --ignore-scripts',
+    hint: 'Use --ignore-scripts to skip preversion/version/postversion',
+    commandName: 'version',
+    difficulty: 'intermediate',
+    topics: ['basics', 'publishing', 'security'],
+    prerequisites: ['version.bump-patch-version'],
+    commandExplanation: 'The --ignore-scripts flag prevents running version lifecycle scripts.',
+  },
+
+  // ========== PUBLISH ==========
+  {
+    key: 'publish.publish-package',
+    title: 'Publish package',
+    description: 'Publish package to registry',
+    expectedCommand: 'npm publish',
+    hint: 'Publishes current directory package',
+    commandName: 'publish',
+    difficulty: 'beginner',
+    topics: ['publishing'],
+    prerequisites: ['login.use-login-command'],
+    commandExplanation: 'Publishes the package in the current directory to the npm registry.',
+  },
+  {
+    key: 'publish.publish-tarball',
+    title: 'Publish tarball',
+    description: 'Publish from tarball file',
+    expectedCommand: 'npm publish my-package-1.0.0.tgz',
+    hint: 'Can publish .tgz files',
+    commandName: 'publish',
+    difficulty: 'beginner',
+    topics: ['publishing'],
+    prerequisites: ['publish.publish-package'],
+    commandExplanation: 'Publishes a package from a tarball file.',
+  },
+  {
+    key: 'publish.publish-folder',
+    title: 'Publish folder',
+    description: 'Publish from specific folder',
+    expectedCommand: 'npm publish ./dist',
+    hint: 'Specify a folder path',
+    commandName: 'publish',
+    difficulty: 'beginner',
+    topics: ['publishing'],
+    prerequisites: ['publish.publish-package'],
+    commandExplanation: 'Publishes a package from the specified folder.',
+  },
+  {
+    key: 'publish.publish-with-tag',
+    title: 'Publish with tag',
+    description: 'Publish as beta tag',
+    expectedCommand: 'npm publish --tag=beta',
+    hint: 'Use --tag with tag name (default: latest)',
+    commandName: 'publish',
+    difficulty: 'intermediate',
+    topics: ['publishing'],
+    prerequisites: ['publish.publish-package'],
+    commandExplanation: 'The --tag flag specifies the dist-tag to publish under.',
+  },
+  {
+    key: 'publish.publish-as-public',
+    title: 'Publish as public',
+    description: 'Publish scoped package as public',
+    expectedCommand: 'npm publish --access=public',
+    hint: 'Use --access with public or restricted',
+    commandName: 'publish',
+    difficulty: 'intermediate',
+    topics: ['publishing'],
+    prerequisites: ['publish.publish-package'],
+    commandExplanation: 'The --access flag controls who can see the package (public or restricted).',
+  },
+  {
+    key: 'publish.publish-as-restricted',
+    title: 'Publish as restricted',
+    description: 'Publish scoped package as private',
+    expectedCommand: 'npm publish --access=restricted',
+    hint: 'restricted requires a paid account',
+    commandName: 'publish',
+    difficulty: 'intermediate',
+    topics: ['publishing'],
+    prerequisites: ['publish.publish-package'],
+    commandExplanation: 'The --access=restricted flag publishes a private scoped package.',
+  },
+  {
+    key: 'publish.dry-run-publish',
+    title: 'Dry run publish',
+    description: 'Preview publish without uploading',
+    expectedCommand: 'npm publish --dry-run',
+    hint: 'Use --dry-run to test publishing',
+    commandName: 'publish',
+    difficulty: 'intermediate',
+    topics: ['publishing'],
+    prerequisites: ['publish.publish-package'],
+    commandExplanation: 'The --dry-run flag shows what would be published without uploading.',
+  },
+  {
+    key: 'publish.publish-with-2fa',
+    title: 'Publish with 2FA',
+    description: 'Publish with one-time password',
+    expectedCommand: 'npm publish --otp=123456',
+    matchOptions: { parameterStrictness: { '--otp': 'ignore' } },
+    hint: 'Use --otp with 2FA code',
+    commandName: 'publish',
+    difficulty: 'intermediate',
+    topics: ['publishing'],
+    prerequisites: ['publish.publish-package'],
+    commandExplanation: 'The --otp flag provides a one-time password for two-factor authentication.',
+  },
+  {
+    key: 'publish.publish-specific-workspace',
+    title: 'Publish specific workspace',
+    description: 'Publish packages/frontend workspace',
+    expectedCommand: 'npm publish --workspace=packages/frontend',
+    hint: 'Use --workspace or -w flag',
+    commandName: 'publish',
+    difficulty: 'advanced',
+    topics: ['publishing', 'workspaces'],
+    prerequisites: ['publish.publish-package'],
+    commandExplanation: 'The --workspace flag publishes a specific workspace.',
+  },
+  {
+    key: 'publish.publish-all-workspaces',
+    title: 'Publish all workspaces',
+    description: 'Publish all workspace packages',
+    expectedCommand: 'npm publish --workspaces',
+    hint: 'Use --workspaces flag',
+    commandName: 'publish',
+    difficulty: 'advanced',
+    topics: ['publishing', 'workspaces'],
+    prerequisites: ['publish.publish-package'],
+    commandExplanation: 'The --workspaces flag publishes all workspace packages.',
+  },
+  {
+    key: 'publish.publish-with-root-workspace',
+    title: 'Publish with root workspace',
+    description: 'Include root when publishing workspaces',
+    expectedCommand: 'npm publish --workspaces --include-workspace-root',
+    hint: 'Use --include-workspace-root with --workspaces',
+    commandName: 'publish',
+    difficulty: 'advanced',
+    topics: ['publishing', 'workspaces'],
+    prerequisites: ['publish.publish-package'],
+    commandExplanation: 'The --include-workspace-root flag includes the root project when publishing workspaces.',
+  },
+  {
+    key: 'publish.publish-with-provenance',
+    title: 'Publish with provenance',
+    description: 'Publish with build provenance from CI',
+    expectedCommand: 'npm publish --provenance',
+    hint: 'Use --provenance in supported CI systems',
+    commandName: 'publish',
+    difficulty: 'advanced',
+    topics: ['publishing'],
+    prerequisites: ['publish.publish-package'],
+    commandExplanation: 'The --provenance flag links the package to its CI/CD build provenance.',
+  },
+  {
+    key: 'publish.publish-with-provenance-file',
+    title: 'Publish with provenance file',
+    description: 'Publish with custom provenance bundle',
+    expectedCommand: 'npm publish --provenance-file=./provenance.json',
+    hint: 'Use --provenance-file with path',
+    commandName: 'publish',
+    difficulty: 'intermediate',
+    topics: ['publishing'],
+    prerequisites: ['publish.publish-package'],
+    commandExplanation: 'The --provenance-file flag uses a custom provenance bundle file.',
+  },
+
+  // ========== UNPUBLISH ==========
+  {
+    key: 'unpublish.unpublish-specific-version',
+    title: 'Unpublish specific version',
+    description: 'Remove version 1.0.0 from registry',
+    expectedCommand: 'npm unpublish my-package@1.0.0',
+    hint: 'Specify package@version',
+    commandName: 'unpublish',
+    difficulty: 'intermediate',
+    topics: ['publishing'],
+    prerequisites: ['publish.publish-package'],
+    commandExplanation: 'Removes a specific version of a package from the registry.',
+  },
+  {
+    key: 'unpublish.unpublish-entire-package',
+    title: 'Unpublish entire package',
+    description: 'Remove all versions from registry',
+    expectedCommand: 'npm unpublish my-package --force',
+    hint: 'Requires --force to unpublish all versions',
+    commandName: 'unpublish',
+    difficulty: 'intermediate',
+    topics: ['publishing'],
+    prerequisites: ['unpublish.unpublish-specific-version'],
+    commandExplanation: 'Removes all versions of a package (requires --force).',
+  },
+  {
+    key: 'unpublish.dry-run-unpublish',
+    title: 'Dry run unpublish',
+    description: 'Preview unpublish without removing',
+    expectedCommand: 'npm unpublish my-package@1.0.0 --dry-run',
+    hint: 'Use --dry-run to test unpublishing',
+    commandName: 'unpublish',
+    difficulty: 'intermediate',
+    topics: ['publishing'],
+    prerequisites: ['unpublish.unpublish-specific-version'],
+    commandExplanation: 'The --dry-run flag shows what would be unpublished without removing.',
+  },
+  {
+    key: 'unpublish.force-unpublish',
+    title: 'Preview a forced unpublish',
+    description: 'See what unpublishing the entire package would remove, without removing it',
+    expectedCommand: 'npm unpublish my-package --force --dry-run',
+    hint: 'Add --dry-run to the forced unpublish',
+    commandName: 'unpublish',
+    difficulty: 'intermediate',
+    topics: ['publishing'],
+    prerequisites: ['unpublish.unpublish-specific-version'],
+    commandExplanation: 'The --force flag is needed to unpublish all versions; --dry-run only reports what would be removed.',
+  },
+  {
+    key: 'unpublish.unpublish-workspace',
+    title: 'Unpublish workspace',
+    description: 'Unpublish a specific workspace package',
+    expectedCommand: 'npm unpublish --workspace=packages/frontend',
+    hint: 'Use --workspace or -w flag',
+    commandName: 'unpublish',
+    difficulty: 'advanced',
+    topics: ['publishing', 'workspaces'],
+    prerequisites: ['unpublish.unpublish-specific-version'],
+    commandExplanation: 'The --workspace flag unpublishes a specific workspace package.',
+  },
+  {
+    key: 'unpublish.unpublish-all-workspaces',
+    title: 'Unpublish all workspaces',
+    description: 'Unpublish all workspace packages',
+    expectedCommand: 'npm unpublish --workspaces',
+    hint: 'Use --workspaces flag',
+    commandName: 'unpublish',
+    difficulty: 'advanced',
+    topics: ['publishing', 'workspaces'],
+    prerequisites: ['unpublish.unpublish-specific-version'],
+    commandExplanation: 'The --workspaces flag unpublishes all workspace packages.',
+  },
+
+  // ========== DEPRECATE ==========
+  {
+    key: 'deprecate.deprecate-specific-version',
+    title: 'Deprecate specific version',
+    description: 'Deprecate version 1.0.0 with message',
+    expectedCommand: 'npm deprecate my-package@1.0.0 "Use version 2.0.0 instead"',
+    hint: 'Specify package@version and message',
+    commandName: 'deprecate',
+    difficulty: 'intermediate',
+    topics: ['publishing'],
+    prerequisites: ['publish.publish-package'],
+    commandExplanation: 'Marks a specific version as deprecated with a warning message.',
+  },
+  {
+    key: 'deprecate.deprecate-version-range',
+    title: 'Deprecate version range',
+    description: 'Deprecate all 1.x versions',
+    expectedCommand: 'npm deprecate my-package@"< 2.0.0" "Upgrade to 2.x"',
+    hint: 'Use semver range with quotes',
+    commandName: 'deprecate',
+    difficulty: 'intermediate',
+    topics: ['publishing'],
+    prerequisites: ['deprecate.deprecate-specific-version'],
+    commandExplanation: 'Deprecates all versions matching the semver range.',
+  },
+  {
+    key: 'deprecate.undeprecate-package',
+    title: 'Undeprecate package',
+    description: 'Remove deprecation warning',
+    expectedCommand: 'npm deprecate my-package@1.0.0 ""',
+    hint: 'Use empty string "" to undeprecate',
+    commandName: 'deprecate',
+    difficulty: 'intermediate',
+    topics: ['publishing'],
+    prerequisites: ['deprecate.deprecate-specific-version'],
+    commandExplanation: 'Removes deprecation by providing an empty message.',
+  },
+  {
+    key: 'deprecate.deprecate-on-custom-registry',
+    title: 'Deprecate on custom registry',
+    description: 'Deprecate on specific registry',
+    expectedCommand: 'npm deprecate my-package@1.0.0 "Old version" --registry=https://custom.registry.com',
+    hint: 'Use --registry with URL',
+    commandName: 'deprecate',
+    difficulty: 'intermediate',
+    topics: ['publishing', 'config'],
+    prerequisites: ['deprecate.deprecate-specific-version'],
+    commandExplanation: 'The --registry flag specifies which registry to deprecate on.',
+  },
+  {
+    key: 'deprecate.deprecate-with-2fa',
+    title: 'Deprecate with 2FA',
+    description: 'Deprecate with one-time password',
+    expectedCommand: 'npm deprecate my-package@1.0.0 "Deprecated" --otp=123456',
+    matchOptions: { parameterStrictness: { '--otp': 'ignore' } },
+    hint: 'Use --otp with 2FA code',
+    commandName: 'deprecate',
+    difficulty: 'intermediate',
+    topics: ['publishing'],
+    prerequisites: ['deprecate.deprecate-specific-version'],
+    commandExplanation: 'The --otp flag provides a one-time password for two-factor authentication.',
+  },
+  {
+    key: 'deprecate.dry-run-deprecate',
+    title: 'Dry run deprecate',
+    description: 'Preview deprecation without applying',
+    expectedCommand: 'npm deprecate my-package@1.0.0 "Old" --dry-run',
+    hint: 'Use --dry-run to test deprecation',
+    commandName: 'deprecate',
+    difficulty: 'intermediate',
+    topics: ['publishing'],
+    prerequisites: ['deprecate.deprecate-specific-version'],
+    commandExplanation: 'The --dry-run flag shows what would be deprecated without applying changes.',
+  },
+
+  // ========== SEARCH ==========
+  {
+    key: 'search.search-for-packages',
+    title: 'Search for packages',
+    description: 'Search registry for react packages',
+    expectedCommand: 'npm search react',
+    hint: 'Alias: npm s',
+    commandName: 'search',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    commandExplanation: 'Searches the npm registry for packages matching the search term.',
+  },
+  {
+    key: 'search.search-multiple-terms',
+    title: 'Search multiple terms',
+    description: 'Search for packages matching multiple keywords',
+    expectedCommand: 'npm search react typescript',
+    hint: 'Provide multiple search terms',
+    commandName: 'search',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['search.search-for-packages'],
+    commandExplanation: 'Searches for packages matching all provided terms.',
+  },
+  {
+    key: 'search.search-by-maintainer',
+    title: 'Search by maintainer',
+    description: 'Search packages by maintainer username',
+    expectedCommand: 'npm search =sindresorhus',
+    hint: 'Prefix username with = to search by maintainer',
+    commandName: 'search',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['search.search-for-packages'],
+    commandExplanation: 'The = prefix searches for packages by a specific maintainer.',
+  },
+  {
+    key: 'search.search-with-regex',
+    title: 'Search with regex',
+    description: 'Search using regular expression',
+    expectedCommand: 'npm search /^react-/',
+    hint: 'Use /pattern/ for regex search',
+    commandName: 'search',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['search.search-for-packages'],
+    commandExplanation: 'Terms starting with / are interpreted as regular expressions.',
+  },
+  {
+    key: 'search.search-with-json-output',
+    title: 'Search with JSON output',
+    description: 'Get search results in JSON format',
+    expectedCommand: 'npm search react --json',
+    hint: 'Use --json for machine-readable output',
+    commandName: 'search',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['search.search-for-packages'],
+    commandExplanation: 'The --json flag outputs search results in JSON format.',
+  },
+  {
+    key: 'search.search-without-colors',
+    title: 'Search without colors',
+    description: 'Disable colored output',
+    expectedCommand: 'npm search react --no-color',
+    hint: 'Use --no-color to disable highlighting',
+    commandName: 'search',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['search.search-for-packages'],
+    commandExplanation: 'The --no-color flag disables color highlighting in results.',
+  },
+  {
+    key: 'search.search-with-parseable-output',
+    title: 'Search with parseable output',
+    description: 'Get tab-separated search results',
+    expectedCommand: 'npm search react --parseable',
+    hint: 'Use --parseable for tab-separated format',
+    commandName: 'search',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['search.search-for-packages'],
+    commandExplanation: 'The --parseable flag outputs results in tab-separated format.',
+  },
+  {
+    key: 'search.search-without-descriptions',
+    title: 'Search without descriptions',
+    description: 'Hide package descriptions in results',
+    expectedCommand: 'npm search react --no-description',
+    hint: 'Use --no-description to hide descriptions',
+    commandName: 'search',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['search.search-for-packages'],
+    commandExplanation: 'The --no-description flag hides package descriptions.',
+  },
+  {
+    key: 'search.limit-search-results',
+    title: 'Limit search results',
+    description: 'Show only 10 search results',
+    expectedCommand: 'npm search react --searchlimit=10',
+    hint: 'Use --searchlimit with number (default: 20)',
+    commandName: 'search',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['search.search-for-packages'],
+    commandExplanation: 'The --searchlimit flag limits the number of search results.',
+  },
+  {
+    key: 'search.search-with-additional-filters',
+    title: 'Search with additional filters',
+    description: 'Add extra search options',
+    expectedCommand: 'npm search react --searchopts="typescript"',
+    hint: 'Use --searchopts for additional filtering',
+    commandName: 'search',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['search.search-for-packages'],
+    commandExplanation: 'The --searchopts flag adds additional search filters.',
+  },
+  {
+    key: 'search.search-excluding-terms',
+    title: 'Search excluding terms',
+    description: 'Exclude packages from results',
+    expectedCommand: 'npm search react --searchexclude="native"',
+    hint: 'Use --searchexclude to filter out results',
+    commandName: 'search',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['search.search-for-packages'],
+    commandExplanation: 'The --searchexclude flag excludes packages matching certain terms.',
+  },
+  {
+    key: 'search.search-custom-registry',
+    title: 'Search custom registry',
+    description: 'Search on a specific registry',
+    expectedCommand: 'npm search react --registry=https://custom.registry.com',
+    hint: 'Use --registry with URL',
+    commandName: 'search',
+    difficulty: 'intermediate',
+    topics: ['dependencies', 'config'],
+    prerequisites: ['search.search-for-packages'],
+    commandExplanation: 'The --registry flag searches on a custom npm registry.',
+  },
+  {
+    key: 'search.search-with-online-preference',
+    title: 'Search with online preference',
+    description: 'Force fresh search data',
+    expectedCommand: 'npm search react --prefer-online',
+    hint: 'Use --prefer-online for fresh results',
+    commandName: 'search',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['search.search-for-packages'],
+    commandExplanation: 'The --prefer-online flag forces fetching fresh search data.',
+  },
+  {
+    key: 'search.search-with-offline-preference',
+    title: 'Search with offline preference',
+    description: 'Use cached search data when possible',
+    expectedCommand: 'npm search react --prefer-offline',
+    hint: 'Use --prefer-offline to use cache',
+    commandName: 'search',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['search.search-for-packages'],
+    commandExplanation: 'The --prefer-offline flag prefers using cached search data.',
+  },
+  {
+    key: 'search.search-offline',
+    title: 'Search offline',
+    description: 'Search only in cache',
+    expectedCommand: 'npm search react --offline',
+    hint: 'Use --offline for fully offline mode',
+    commandName: 'search',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['search.search-for-packages'],
+    commandExplanation: 'The --offline flag forces search to use only cached data.',
+  },
+  {
+    key: 'search.search-with-color',
+    title: 'Search with color',
+    description: 'Search for packages and highlight the results',
+    expectedCommand: 'npm search express --color',
+    hint: 'Use --color flag',
+    commandName: 'search',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['search.search-for-packages'],
+    commandExplanation: 'The --color flag highlights matching terms in the search results.',
+  },
+
+  // ========== VIEW ==========
+  {
+    key: 'view.view-package-info',
+    title: 'View package info',
+    description: 'Show information about lodash',
+    expectedCommand: 'npm view lodash',
+    hint: 'Alias: npm info, npm show, npm v',
+    commandName: 'view',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    commandExplanation: 'Displays package information from the registry.',
+  },
+  {
+    key: 'view.view-specific-version',
+    title: 'View specific version',
+    description: 'Show info about lodash@4.17.21',
+    expectedCommand: 'npm view lodash@4.17.21',
+    hint: 'Specify package@version',
+    commandName: 'view',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['view.view-package-info'],
+    commandExplanation: 'Shows information about a specific package version.',
+  },
+  {
+    key: 'view.view-specific-field',
+    title: 'View specific field',
+    description: 'Show dependencies of express',
+    expectedCommand: 'npm view express dependencies',
+    hint: 'Add field name after package',
+    commandName: 'view',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['view.view-package-info'],
+    commandExplanation: 'Displays a specific field from package metadata.',
+  },
+  {
+    key: 'view.view-nested-field',
+    title: 'View nested field',
+    description: 'Show repository URL of npm',
+    expectedCommand: 'npm view npm repository.url',
+    hint: 'Use dot notation for nested fields',
+    commandName: 'view',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['view.view-package-info'],
+    commandExplanation: 'Accesses nested fields using dot notation.',
+  },
+  {
+    key: 'view.view-current-project',
+    title: 'View current project',
+    description: 'Show dependencies of current project',
+    expectedCommand: 'npm view . dependencies',
+    hint: 'Use . to reference current project',
+    commandName: 'view',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['view.view-package-info'],
+    commandExplanation: 'The . refers to the current project directory.',
+  },
+  {
+    key: 'view.view-array-field',
+    title: 'View array field',
+    description: 'Show contributor emails of express',
+    expectedCommand: 'npm view express contributors.email',
+    hint: 'Access array field properties',
+    commandName: 'view',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['view.view-package-info'],
+    commandExplanation: 'Retrieves all values from objects in an array field.',
+  },
+  {
+    key: 'view.view-array-element',
+    title: 'View array element',
+    description: 'Show first contributor email',
+    expectedCommand: 'npm view express contributors[0].email',
+    hint: 'Use [index] to select array element',
+    commandName: 'view',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['view.view-package-info'],
+    commandExplanation: 'Uses numeric indices to select specific array elements.',
+  },
+  {
+    key: 'view.view-multiple-fields',
+    title: 'View multiple fields',
+    description: 'Show name and version of lodash',
+    expectedCommand: 'npm view lodash name version',
+    hint: 'List multiple fields separated by spaces',
+    commandName: 'view',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['view.view-package-info'],
+    commandExplanation: 'Displays multiple fields in sequence.',
+  },
+  {
+    key: 'view.view-version-history',
+    title: 'View version history',
+    description: 'Show all versions of react',
+    expectedCommand: 'npm view react versions',
+    hint: 'Use "versions" field to see all versions',
+    commandName: 'view',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['view.view-package-info'],
+    commandExplanation: 'The versions field shows the complete version history.',
+  },
+  {
+    key: 'view.view-with-json-output',
+    title: 'View with JSON output',
+    description: 'Get package info in JSON format',
+    expectedCommand: 'npm view lodash --json',
+    hint: 'Use --json for machine-readable output',
+    commandName: 'view',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['view.view-package-info'],
+    commandExplanation: 'The --json flag outputs package information in JSON format.',
+  },
+  {
+    key: 'view.view-workspace-package',
+    title: 'View workspace package',
+    description: 'Show info about workspace package',
+    expectedCommand: 'npm view --workspace=packages/frontend',
+    hint: 'Use --workspace or -w flag',
+    commandName: 'view',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['view.view-package-info'],
+    commandExplanation: 'The --workspace flag views information about a specific workspace.',
+  },
+  {
+    key: 'view.view-all-workspaces',
+    title: 'View all workspaces',
+    description: 'Show info for all workspace packages',
+    expectedCommand: 'npm view --workspaces',
+    hint: 'Use --workspaces flag',
+    commandName: 'view',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['view.view-package-info'],
+    commandExplanation: 'The --workspaces flag views information for all workspaces.',
+  },
+  {
+    key: 'view.view-with-root-workspace',
+    title: 'View with root workspace',
+    description: 'Include root when viewing workspaces',
+    expectedCommand: 'npm view --workspaces --include-workspace-root',
+    hint: 'Use --include-workspace-root with --workspaces',
+    commandName: 'view',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['view.view-package-info'],
+    commandExplanation: 'The --include-workspace-root flag includes the root project.',
+  },
+
+  // ========== EXPLAIN ==========
+  {
+    key: 'explain.explain-package',
+    title: 'Explain package',
+    description: 'Show why lodash is installed',
+    expectedCommand: 'npm explain lodash',
+    hint: 'Alias: npm why',
+    commandName: 'explain',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    commandExplanation: 'Shows the dependency chain causing a package to be installed.',
+  },
+  {
+    key: 'explain.explain-by-folder',
+    title: 'Explain by folder',
+    description: 'Explain package in specific folder',
+    expectedCommand: 'npm explain node_modules/react',
+    setup: ['npm install react'],
+    hint: 'Can use folder path in node_modules',
+    commandName: 'explain',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['explain.explain-package'],
+    commandExplanation: 'Explains the package at a specific node_modules location.',
+  },
+  {
+    key: 'explain.explain-duplicated-package',
+    title: 'Explain duplicated package',
+    description: 'Show why a package is duplicated',
+    expectedCommand: 'npm explain node_modules/lodash/node_modules/clone',
+    setup: ['npm install clone'],
+    hint: 'Useful for understanding duplicates',
+    commandName: 'explain',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['explain.explain-package'],
+    commandExplanation: 'Helps identify why dependencies are duplicated.',
+  },
+  {
+    key: 'explain.explain-with-json-output',
+    title: 'Explain with JSON output',
+    description: 'Get explanation in JSON format',
+    expectedCommand: 'npm explain lodash --json',
+    hint: 'Use --json for machine-readable output',
+    commandName: 'explain',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['explain.explain-package'],
+    commandExplanation: 'The --json flag outputs the dependency chain in JSON format.',
+  },
+  {
+    key: 'explain.explain-in-workspace',
+    title: 'Explain in workspace',
+    description: 'Explain package in specific workspace',
+    expectedCommand: 'npm explain lodash --workspace=packages/frontend',
+    hint: 'Use --workspace or -w flag',
+    commandName: 'explain',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['explain.explain-package'],
+    commandExplanation: 'The --workspace flag explains packages within a specific workspace.',
+  },
+
+  // ========== FUND ==========
+  {
+    key: 'fund.list-funding-info',
+    title: 'List funding info',
+    description: 'Show funding information for all dependencies',
+    expectedCommand: 'npm fund',
+    hint: 'Lists dependencies with funding',
+    commandName: 'fund',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    commandExplanation: 'Displays funding information for project dependencies.',
+  },
+  {
+    key: 'fund.fund-specific-package',
+    title: 'Fund specific package',
+    description: 'Show funding info for lodash',
+    expectedCommand: 'npm fund lodash',
+    hint: 'Specify package name to open funding URL',
+    commandName: 'fund',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['fund.list-funding-info'],
+    commandExplanation: 'Opens the funding URL for a specific package.',
+  },
+  {
+    key: 'fund.fund-with-json-output',
+    title: 'Fund with JSON output',
+    description: 'Get funding info in JSON format',
+    expectedCommand: 'npm fund --json',
+    hint: 'Use --json for machine-readable output',
+    commandName: 'fund',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['fund.list-funding-info'],
+    commandExplanation: 'The --json flag outputs funding information in JSON format.',
+  },
+  {
+    key: 'fund.fund-without-browser',
+    title: 'Fund without browser',
+    description: 'Print funding URLs without opening browser',
+    expectedCommand: 'npm fund lodash --no-browser',
+    hint: 'Use --no-browser to print URLs only',
+    commandName: 'fund',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['fund.list-funding-info'],
+    commandExplanation: 'The --no-browser flag prints URLs instead of opening them.',
+  },
+  {
+    key: 'fund.fund-without-unicode',
+    title: 'Fund without unicode',
+    description: 'Show funding tree with ASCII',
+    expectedCommand: 'npm fund --no-unicode',
+    hint: 'Use --no-unicode for ASCII characters',
+    commandName: 'fund',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['fund.list-funding-info'],
+    commandExplanation: 'The --no-unicode flag uses ASCII instead of unicode characters.',
+  },
+  {
+    key: 'fund.fund-in-workspace',
+    title: 'Fund in workspace',
+    description: 'Show funding for specific workspace',
+    expectedCommand: 'npm fund --workspace=packages/frontend',
+    hint: 'Use --workspace or -w flag',
+    commandName: 'fund',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['fund.list-funding-info'],
+    commandExplanation: 'The --workspace flag shows funding for a specific workspace.',
+  },
+  {
+    key: 'fund.fund-with-specific-url',
+    title: 'Fund with specific URL',
+    description: 'Open second funding URL for package',
+    expectedCommand: 'npm fund lodash --which=2',
+    hint: 'Use --which with index for multiple sources',
+    commandName: 'fund',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['fund.list-funding-info'],
+    commandExplanation: 'The --which flag selects a specific funding URL when multiple exist.',
+  },
+
+  // ========== CONFIG ==========
+  {
+    key: 'config.set-config-value',
+    title: 'Set config value',
+    description: 'Set registry to custom URL',
+    expectedCommand: 'npm config set registry=https://custom.registry.com',
+    hint: 'Alias: npm set or npm c set',
+    commandName: 'config',
+    difficulty: 'beginner',
+    topics: ['config'],
+    commandExplanation: 'Sets a configuration value in the user npmrc file.',
+  },
+  {
+    key: 'config.get-config-value',
+    title: 'Get config value',
+    description: 'Display current registry setting',
+    expectedCommand: 'npm config get registry',
+    hint: 'Alias: npm get',
+    commandName: 'config',
+    difficulty: 'beginner',
+    topics: ['config'],
+    prerequisites: ['config.set-config-value'],
+    commandExplanation: 'Displays the current value of a configuration key.',
+  },
+  {
+    key: 'config.get-multiple-config-values',
+    title: 'Get multiple config values',
+    description: 'Display registry and prefix',
+    expectedCommand: 'npm config get registry prefix',
+    hint: 'List multiple keys separated by spaces',
+    commandName: 'config',
+    difficulty: 'beginner',
+    topics: ['config'],
+    prerequisites: ['config.set-config-value'],
+    commandExplanation: 'Displays values for multiple configuration keys.',
+  },
+  {
+    key: 'config.list-all-config',
+    title: 'List all config',
+    description: 'Show all configuration settings',
+    expectedCommand: 'npm config list',
+    hint: 'Lists all current config',
+    commandName: 'config',
+    difficulty: 'beginner',
+    topics: ['config'],
+    prerequisites: ['config.set-config-value'],
+    commandExplanation: 'Shows all configuration settings from all sources.',
+  },
+  {
+    key: 'config.delete-config-value',
+    title: 'Delete config value',
+    description: 'Remove registry from config',
+    expectedCommand: 'npm config delete registry',
+    hint: 'Use delete subcommand',
+    commandName: 'config',
+    difficulty: 'beginner',
+    topics: ['config'],
+    prerequisites: ['config.set-config-value'],
+    commandExplanation: 'Removes a configuration key from all config files.',
+  },
+  {
+    key: 'config.edit-config-file',
+    title: 'Edit config file',
+    description: 'Open npmrc in editor',
+    expectedCommand: 'npm config edit',
+    hint: 'Opens config in default editor',
+    commandName: 'config',
+    difficulty: 'beginner',
+    topics: ['config'],
+    prerequisites: ['config.set-config-value'],
+    commandExplanation: 'Opens the user configuration file in an editor.',
+  },
+  {
+    key: 'config.fix-config-issues',
+    title: 'Fix config issues',
+    description: 'Repair invalid configuration',
+    expectedCommand: 'npm config fix',
+    hint: 'Attempts to repair config problems',
+    commandName: 'config',
+    difficulty: 'beginner',
+    topics: ['config'],
+    prerequisites: ['config.set-config-value'],
+    commandExplanation: 'Attempts to repair invalid configuration items.',
+  },
+  {
+    key: 'config.list-config-as-json',
+    title: 'List config as JSON',
+    description: 'Get configuration in JSON format',
+    expectedCommand: 'npm config list --json',
+    hint: 'Use --json for machine-readable output',
+    commandName: 'config',
+    difficulty: 'beginner',
+    topics: ['config'],
+    prerequisites: ['config.set-config-value'],
+    commandExplanation: 'The --json flag outputs configuration in JSON format.',
+  },
+  {
+    key: 'config.set-global-config',
+    title: 'Set global config',
+    description: 'Set prefix in global config',
+    expectedCommand: 'npm config set prefix=/usr/local --global',
+    hint: 'Use --global or -g to modify global config',
+    commandName: 'config',
+    difficulty: 'beginner',
+    topics: ['config'],
+    prerequisites: ['config.set-config-value'],
+    commandExplanation: 'The --global flag modifies the global npmrc file.',
+  },
+  {
+    key: 'config.edit-global-config',
+    title: 'Edit global config',
+    description: 'Open global npmrc in editor',
+    expectedCommand: 'npm config edit --global',
+    hint: 'Use --global with edit subcommand',
+    commandName: 'config',
+    difficulty: 'beginner',
+    topics: ['config'],
+    prerequisites: ['config.set-config-value'],
+    commandExplanation: 'The --global flag with edit opens the global config file.',
+  },
+  {
+    key: 'config.edit-with-specific-editor',
+    title: 'Edit with specific editor',
+    description: 'Open config in vim',
+    expectedCommand: 'npm config edit --editor=vim',
+    hint: 'Use --editor with editor command',
+    commandName: 'config',
+    difficulty: 'intermediate',
+    topics: ['config'],
+    prerequisites: ['config.set-config-value'],
+    commandExplanation: 'The --editor flag specifies which editor to use.',
+  },
+  {
+    key: 'config.set-in-project-config',
+    title: 'Set in project config',
+    description: 'Set registry in project npmrc',
+    expectedCommand: 'npm config set registry=https://custom.com --location=project',
+    hint: 'Use --location with global, user, or project',
+    commandName: 'config',
+    difficulty: 'intermediate',
+    topics: ['config'],
+    prerequisites: ['config.set-config-value'],
+    commandExplanation: 'The --location flag specifies which config file to modify.',
+  },
+  {
+    key: 'config.list-with-defaults',
+    title: 'List with defaults',
+    description: 'Show all config including defaults',
+    expectedCommand: 'npm config list -l',
+    hint: 'Use -l to show default values',
+    commandName: 'config',
+    difficulty: 'beginner',
+    topics: ['config'],
+    prerequisites: ['config.set-config-value'],
+    commandExplanation: 'The -l flag shows configuration including default values.',
+  },
+
+  // ========== GET ==========
+  {
+    key: 'get.get-single-value',
+    title: 'Get single value',
+    description: 'Display prefix setting',
+    expectedCommand: 'npm get prefix',
+    hint: 'Shorthand for npm config get',
+    commandName: 'get',
+    difficulty: 'beginner',
+    topics: ['config'],
+    commandExplanation: 'Gets a configuration value (alias for npm config get).',
+  },
+  {
+    key: 'get.get-all-config',
+    title: 'Get all config',
+    description: 'Display all configuration',
+    expectedCommand: 'npm get',
+    hint: 'Without args, shows all config',
+    commandName: 'get',
+    difficulty: 'beginner',
+    topics: ['config'],
+    prerequisites: ['get.get-single-value'],
+    commandExplanation: 'Without arguments, displays all configuration settings.',
+  },
+  {
+    key: 'get.get-multiple-values',
+    title: 'Get multiple values',
+    description: 'Display the prefix and cache settings',
+    expectedCommand: 'npm get prefix cache',
+    hint: 'List multiple keys',
+    commandName: 'get',
+    difficulty: 'beginner',
+    topics: ['config'],
+    prerequisites: ['get.get-single-value'],
+    commandExplanation: 'Displays values for multiple configuration keys.',
+  },
+
+  // ========== SET ==========
+  {
+    key: 'set.set-single-value',
+    title: 'Set single value',
+    description: 'Set registry URL',
+    expectedCommand: 'npm set registry=https://registry.npmjs.org',
+    hint: 'Shorthand for npm config set',
+    commandName: 'set',
+    difficulty: 'beginner',
+    topics: ['config'],
+    commandExplanation: 'Sets a configuration value (alias for npm config set).',
+  },
+  {
+    key: 'set.set-multiple-values',
+    title: 'Set multiple values',
+    description: 'Set registry and save-exact',
+    expectedCommand: 'npm set registry=https://custom.com save-exact=true',
+    hint: 'Set multiple key=value pairs',
+    commandName: 'set',
+    difficulty: 'beginner',
+    topics: ['config'],
+    prerequisites: ['set.set-single-value'],
+    commandExplanation: 'Sets multiple configuration values at once.',
+  },
+  {
+    key: 'set.remove-config-value',
+    title: 'Remove config value',
+    description: 'Delete registry setting',
+    expectedCommand: 'npm set registry',
+    acceptedCommands: ['npm config delete registry'],
+    hint: 'Omit value to delete key',
+    commandName: 'set',
+    difficulty: 'beginner',
+    topics: ['config'],
+    prerequisites: ['set.set-single-value'],
+    commandExplanation: 'Omitting the value removes the key from config.',
+  },
+  {
+    key: 'set.set-global-value',
+    title: 'Set global value',
+    description: 'Set the default license for new packages in global config',
+    expectedCommand: 'npm set init-license=MIT --global',
+    hint: 'Use --global or -g flag',
+    commandName: 'set',
+    difficulty: 'beginner',
+    topics: ['config'],
+    prerequisites: ['set.set-single-value'],
+    commandExplanation: 'The --global flag sets values in the global npmrc file.',
+  },
+  {
+    key: 'set.set-in-specific-location',
+    title: 'Set in specific location',
+    description: 'Set registry in user config',
+    expectedCommand: 'npm set registry=https://custom.com --location=user',
+    hint: 'Use --location with global, user, or project',
+    commandName: 'set',
+    difficulty: 'intermediate',
+    topics: ['config'],
+    prerequisites: ['set.set-single-value'],
+    commandExplanation: 'The --location flag specifies which config file to modify.',
+  },
+
+  // ========== CACHE ==========
+  {
+    key: 'cache.add-package-to-cache',
+    title: 'Add package to cache',
+    description: 'Add express to the cache',
+    expectedCommand: 'npm cache add express',
+    hint: 'Add a package to the cache',
+    commandName: 'cache',
+    difficulty: 'intermediate',
+    topics: ['config'],
+    commandExplanation: 'Adds the package to the local cache without installing it.',
+  },
+  {
+    key: 'cache.clean-specific-cache-entry',
+    title: 'Clean specific cache entry',
+    description: 'Remove lodash from cache',
+    expectedCommand: 'npm cache clean lodash',
+    hint: 'Clean a specific cache entry',
+    commandName: 'cache',
+    difficulty: 'intermediate',
+    topics: ['config'],
+    prerequisites: ['cache.add-package-to-cache'],
+    commandExplanation: 'Deletes a single entry from the cache folder.',
+  },
+  {
+    key: 'cache.clean-all-cache',
+    title: 'Clean all cache',
+    description: 'Remove all cached data',
+    expectedCommand: 'npm cache clean --force',
+    hint: 'Clean all cache (requires --force)',
+    commandName: 'cache',
+    difficulty: 'intermediate',
+    topics: ['config'],
+    prerequisites: ['cache.add-package-to-cache'],
+    commandExplanation: 'Deletes all entries from the cache folder (requires --force).',
+  },
+  {
+    key: 'cache.list-all-cache-entries',
+    title: 'List all cache entries',
+    description: 'Show everything in cache',
+    expectedCommand: 'npm cache ls',
+    hint: 'List all cache entries',
+    commandName: 'cache',
+    difficulty: 'intermediate',
+    topics: ['config'],
+    prerequisites: ['cache.add-package-to-cache'],
+    commandExplanation: 'Lists all entries in the local cache.',
+  },
+  {
+    key: 'cache.list-specific-package-cache',
+    title: 'List specific package cache',
+    description: 'Show lodash cache entries',
+    expectedCommand: 'npm cache ls lodash',
+    hint: 'List cache for a specific package',
+    commandName: 'cache',
+    difficulty: 'intermediate',
+    topics: ['config'],
+    prerequisites: ['cache.add-package-to-cache'],
+    commandExplanation: 'Lists cache entries for a specific package.',
+  },
+  {
+    key: 'cache.verify-cache-integrity',
+    title: 'Verify cache integrity',
+    description: 'Check and clean cache',
+    expectedCommand: 'npm cache verify',
+    hint: 'Verify cache integrity',
+    commandName: 'cache',
+    difficulty: 'intermediate',
+    topics: ['config'],
+    prerequisites: ['cache.add-package-to-cache'],
+    commandExplanation: 'Verifies cache contents, garbage collects, and checks integrity.',
+  },
+  {
+    key: 'cache.list-npx-cache',
+    title: 'List npx cache',
+    description: 'Show all npx cached executables',
+    expectedCommand: 'npm cache npx ls',
+    hint: 'List npx cache',
+    commandName: 'cache',
+    difficulty: 'intermediate',
+    topics: ['config'],
+    prerequisites: ['cache.add-package-to-cache'],
+    commandExplanation: 'Lists all entries in the npx cache.',
+  },
+  {
+    key: 'cache.remove-npx-cache-entry',
+    title: 'Remove npx cache entry',
+    description: 'Remove create-react-app from npx cache',
+    expectedCommand: 'npm cache npx rm create-react-app',
+    hint: 'Remove npx cache entry',
+    commandName: 'cache',
+    difficulty: 'intermediate',
+    topics: ['config'],
+    prerequisites: ['cache.add-package-to-cache'],
+    commandExplanation: 'Removes a specific entry from the npx cache.',
+  },
+  {
+    key: 'cache.get-npx-cache-info',
+    title: 'Get npx cache info',
+    description: 'Show create-react-app npx cache details',
+    expectedCommand: 'npm cache npx info create-react-app',
+    hint: 'Get npx cache info',
+    commandName: 'cache',
+    difficulty: 'intermediate',
+    topics: ['config'],
+    prerequisites: ['cache.add-package-to-cache'],
+    commandExplanation: 'Shows detailed information about an npx cache entry.',
+  },
+  {
+    key: 'cache.use-custom-cache-location',
+    title: 'Use custom cache location',
+    description: 'Verify cache in custom directory',
+    expectedCommand: 'npm cache verify --cache=/custom/cache',
+    hint: 'Use --cache flag',
+    commandName: 'cache',
+    difficulty: 'intermediate',
+    topics: ['config'],
+    prerequisites: ['cache.add-package-to-cache'],
+    commandExplanation: 'The --cache flag specifies a custom cache directory location.',
+  },
+
+  // ========== PRUNE ==========
+  {
+    key: 'prune.remove-extraneous-packages',
+    title: 'Remove extraneous packages',
+    description: 'Prune all unlisted packages',
+    expectedCommand: 'npm prune',
+    hint: 'Remove extraneous packages',
+    commandName: 'prune',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'Removes packages not listed in package.json dependencies.',
+  },
+  {
+    key: 'prune.prune-specific-package',
+    title: 'Prune specific package',
+    description: 'Remove lodash if extraneous',
+    expectedCommand: 'npm prune lodash',
+    hint: 'Prune specific package',
+    commandName: 'prune',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['prune.remove-extraneous-packages'],
+    commandExplanation: 'Removes only the specified package if it is extraneous.',
+  },
+  {
+    key: 'prune.prune-dev-dependencies',
+    title: 'Prune dev dependencies',
+    description: 'Remove devDependencies',
+    expectedCommand: 'npm prune --omit=dev',
+    hint: 'Use --omit=dev flag',
+    commandName: 'prune',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['prune.remove-extraneous-packages'],
+    commandExplanation: 'The --omit=dev flag removes devDependencies (production mode).',
+  },
+  {
+    key: 'prune.prune-optional-dependencies',
+    title: 'Prune optional dependencies',
+    description: 'Exclude optional from tree',
+    expectedCommand: 'npm prune --omit=optional',
+    hint: 'Use --omit=optional flag',
+    commandName: 'prune',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['prune.remove-extraneous-packages'],
+    commandExplanation: 'The --omit=optional flag excludes optional dependencies from the tree.',
+  },
+  {
+    key: 'prune.prune-peer-dependencies',
+    title: 'Prune peer dependencies',
+    description: 'Exclude peer from tree',
+    expectedCommand: 'npm prune --omit=peer',
+    hint: 'Use --omit=peer flag',
+    commandName: 'prune',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['prune.remove-extraneous-packages'],
+    commandExplanation: 'The --omit=peer flag excludes peer dependencies from the tree.',
+  },
+  {
+    key: 'prune.include-dev-dependencies',
+    title: 'Include dev dependencies',
+    description: 'Keep devDependencies when pruning',
+    expectedCommand: 'npm prune --include=dev',
+    hint: 'Use --include=dev flag',
+    commandName: 'prune',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['prune.remove-extraneous-packages'],
+    commandExplanation: 'The --include=dev flag ensures devDependencies are kept.',
+  },
+  {
+    key: 'prune.dry-run-prune',
+    title: 'Dry run prune',
+    description: 'Preview what would be removed',
+    expectedCommand: 'npm prune --dry-run',
+    hint: 'Use --dry-run flag',
+    commandName: 'prune',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['prune.remove-extraneous-packages'],
+    commandExplanation: 'The --dry-run flag shows what would be removed without making changes.',
+  },
+  {
+    key: 'prune.prune-with-json-output',
+    title: 'Prune with JSON output',
+    description: 'Get prune changes as JSON',
+    expectedCommand: 'npm prune --json',
+    hint: 'Use --json flag',
+    commandName: 'prune',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['prune.remove-extraneous-packages'],
+    commandExplanation: 'The --json flag outputs the changes in JSON format.',
+  },
+  {
+    key: 'prune.foreground-scripts-during-prune',
+    title: 'Foreground scripts during prune',
+    description: 'Run scripts in foreground',
+    expectedCommand: 'npm prune --foreground-scripts',
+    hint: 'Use --foreground-scripts flag',
+    commandName: 'prune',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['prune.remove-extraneous-packages'],
+    commandExplanation: 'The --foreground-scripts flag runs lifecycle scripts in the foreground.',
+  },
+  {
+    key: 'prune.ignore-scripts-during-prune',
+    title: 'Ignore scripts during prune',
+    description: 'Skip lifecycle scripts',
+    expectedCommand: 'npm prune --ignore-scripts',
+    hint: 'Use --ignore-scripts flag',
+    commandName: 'prune',
+    difficulty: 'intermediate',
+    topics: ['dependencies', 'security'],
+    prerequisites: ['prune.remove-extraneous-packages'],
+    commandExplanation: 'The --ignore-scripts flag prevents running lifecycle scripts during prune.',
+  },
+  {
+    key: 'prune.prune-in-workspace',
+    title: 'Prune in workspace',
+    description: 'Prune specific workspace',
+    expectedCommand: 'npm prune --workspace=packages/app',
+    hint: 'Use --workspace flag',
+    commandName: 'prune',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['prune.remove-extraneous-packages'],
+    commandExplanation: 'The --workspace flag prunes in a specific workspace.',
+  },
+  {
+    key: 'prune.prune-all-workspaces',
+    title: 'Prune all workspaces',
+    description: 'Prune in all workspaces',
+    expectedCommand: 'npm prune --workspaces',
+    hint: 'Use --workspaces flag',
+    commandName: 'prune',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['prune.remove-extraneous-packages'],
+    commandExplanation: 'The --workspaces flag prunes in all workspaces.',
+  },
+  {
+    key: 'prune.include-workspace-root',
+    title: 'Include workspace root',
+    description: 'Prune root with workspaces',
+    expectedCommand: 'npm prune --include-workspace-root',
+    hint: 'Use --include-workspace-root flag',
+    commandName: 'prune',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['prune.remove-extraneous-packages'],
+    commandExplanation: 'The --include-workspace-root flag includes the root project when using workspaces.',
+  },
+  {
+    key: 'prune.prune-with-install-links',
+    title: 'Prune with install-links',
+    description: 'Pack file: protocols',
+    expectedCommand: 'npm prune --install-links',
+    hint: 'Use --install-links flag',
+    commandName: 'prune',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['prune.remove-extraneous-packages'],
+    commandExplanation: 'The --install-links flag packs file: protocol dependencies instead of symlinking.',
+  },
+
+  // ========== DEDUPE ==========
+  {
+    key: 'dedupe.deduplicate-packages',
+    title: 'Deduplicate packages',
+    description: 'Simplify dependency tree',
+    expectedCommand: 'npm dedupe',
+    hint: 'Deduplicate packages',
+    commandName: 'dedupe',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'Simplifies the dependency tree by deduplicating packages.',
+  },
+  {
+    key: 'dedupe.dedupe-with-hoisted-strategy',
+    title: 'Dedupe with hoisted strategy',
+    description: 'Use hoisted install strategy',
+    expectedCommand: 'npm dedupe --install-strategy=hoisted',
+    hint: 'Use --install-strategy=hoisted flag',
+    commandName: 'dedupe',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['dedupe.deduplicate-packages'],
+    commandExplanation: 'The --install-strategy=hoisted flag uses hoisted installation (default).',
+  },
+  {
+    key: 'dedupe.dedupe-with-nested-strategy',
+    title: 'Dedupe with nested strategy',
+    description: 'Use nested install strategy',
+    expectedCommand: 'npm dedupe --install-strategy=nested',
+    hint: 'Use --install-strategy=nested flag',
+    commandName: 'dedupe',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['dedupe.deduplicate-packages'],
+    commandExplanation: 'The --install-strategy=nested flag installs packages in place without hoisting.',
+  },
+  {
+    key: 'dedupe.dedupe-with-shallow-strategy',
+    title: 'Dedupe with shallow strategy',
+    description: 'Use shallow install strategy',
+    expectedCommand: 'npm dedupe --install-strategy=shallow',
+    hint: 'Use --install-strategy=shallow flag',
+    commandName: 'dedupe',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['dedupe.deduplicate-packages'],
+    commandExplanation: 'The --install-strategy=shallow flag installs only direct deps at top-level.',
+  },
+  {
+    key: 'dedupe.dedupe-with-linked-strategy',
+    title: 'Dedupe with linked strategy',
+    description: 'Use experimental linked strategy',
+    expectedCommand: 'npm dedupe --install-strategy=linked',
+    hint: 'Use --install-strategy=linked flag',
+    commandName: 'dedupe',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['dedupe.deduplicate-packages'],
+    commandExplanation: 'The --install-strategy=linked flag uses experimental linked installation.',
+  },
+  {
+    key: 'dedupe.strict-peer-dependencies',
+    title: 'Strict peer dependencies',
+    description: 'Fail on peer conflicts',
+    expectedCommand: 'npm dedupe --strict-peer-deps',
+    hint: 'Use --strict-peer-deps flag',
+    commandName: 'dedupe',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'security'],
+    prerequisites: ['dedupe.deduplicate-packages'],
+    commandExplanation: 'The --strict-peer-deps flag treats conflicting peer dependencies as failures.',
+  },
+  {
+    key: 'dedupe.dedupe-without-package-lock',
+    title: 'Dedupe without package-lock',
+    description: 'Ignore package-lock.json',
+    expectedCommand: 'npm dedupe --no-package-lock',
+    hint: 'Use --no-package-lock flag',
+    commandName: 'dedupe',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['dedupe.deduplicate-packages'],
+    commandExplanation: 'The --no-package-lock flag ignores and prevents writing package-lock.json.',
+  },
+  {
+    key: 'dedupe.omit-dev-dependencies',
+    title: 'Omit dev dependencies',
+    description: 'Exclude devDependencies',
+    expectedCommand: 'npm dedupe --omit=dev',
+    hint: 'Use --omit=dev flag',
+    commandName: 'dedupe',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['dedupe.deduplicate-packages'],
+    commandExplanation: 'The --omit=dev flag excludes devDependencies from the tree.',
+  },
+  {
+    key: 'dedupe.omit-optional-dependencies',
+    title: 'Omit optional dependencies',
+    description: 'Exclude optional',
+    expectedCommand: 'npm dedupe --omit=optional',
+    hint: 'Use --omit=optional flag',
+    commandName: 'dedupe',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['dedupe.deduplicate-packages'],
+    commandExplanation: 'The --omit=optional flag excludes optional dependencies from the tree.',
+  },
+  {
+    key: 'dedupe.omit-peer-dependencies',
+    title: 'Omit peer dependencies',
+    description: 'Exclude peer',
+    expectedCommand: 'npm dedupe --omit=peer',
+    hint: 'Use --omit=peer flag',
+    commandName: 'dedupe',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['dedupe.deduplicate-packages'],
+    commandExplanation: 'The --omit=peer flag excludes peer dependencies from the tree.',
+  },
+  {
+    key: 'dedupe.include-dev-dependencies',
+    title: 'Include dev dependencies',
+    description: 'Ensure devDependencies included',
+    expectedCommand: 'npm dedupe --include=dev',
+    hint: 'Use --include=dev flag',
+    commandName: 'dedupe',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['dedupe.deduplicate-packages'],
+    commandExplanation: 'The --include=dev flag ensures devDependencies are included.',
+  },
+  {
+    key: 'dedupe.ignore-scripts-during-dedupe',
+    title: 'Ignore scripts during dedupe',
+    description: 'Skip lifecycle scripts',
+    expectedCommand: 'npm dedupe --ignore-scripts',
+    hint: 'Use --ignore-scripts flag',
+    commandName: 'dedupe',
+    difficulty: 'intermediate',
+    topics: ['dependencies', 'security'],
+    prerequisites: ['dedupe.deduplicate-packages'],
+    commandExplanation: 'The --ignore-scripts flag prevents running lifecycle scripts during dedupe.',
+  },
+  {
+    key: 'dedupe.skip-audit-during-dedupe',
+    title: 'Skip audit during dedupe',
+    description: 'Disable audit reports',
+    expectedCommand: 'npm dedupe --no-audit',
+    hint: 'Use --no-audit flag',
+    commandName: 'dedupe',
+    difficulty: 'intermediate',
+    topics: ['dependencies', 'security'],
+    prerequisites: ['dedupe.deduplicate-packages'],
+    commandExplanation: 'The --no-audit flag skips submitting audit reports.',
+  },
+  {
+    key: 'dedupe.no-bin-links-during-dedupe',
+    title: 'No bin links during dedupe',
+    description: 'Skip creating symlinks',
+    expectedCommand: 'npm dedupe --no-bin-links',
+    hint: 'Use --no-bin-links flag',
+    commandName: 'dedupe',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['dedupe.deduplicate-packages'],
+    commandExplanation: 'The --no-bin-links flag prevents creating symlinks for package executables.',
+  },
+  {
+    key: 'dedupe.no-funding-message',
+    title: 'No funding message',
+    description: 'Suppress funding message',
+    expectedCommand: 'npm dedupe --no-fund',
+    hint: 'Use --no-fund flag',
+    commandName: 'dedupe',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['dedupe.deduplicate-packages'],
+    commandExplanation: 'The --no-fund flag suppresses the funding message.',
+  },
+  {
+    key: 'dedupe.dry-run-dedupe',
+    title: 'Dry run dedupe',
+    description: 'Preview dedupe changes',
+    expectedCommand: 'npm dedupe --dry-run',
+    hint: 'Use --dry-run flag',
+    commandName: 'dedupe',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['dedupe.deduplicate-packages'],
+    commandExplanation: 'The --dry-run flag shows what would be done without making changes.',
+  },
+  {
+    key: 'dedupe.dedupe-in-workspace',
+    title: 'Dedupe in workspace',
+    description: 'Dedupe specific workspace',
+    expectedCommand: 'npm dedupe --workspace=packages/app',
+    hint: 'Use --workspace flag',
+    commandName: 'dedupe',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['dedupe.deduplicate-packages'],
+    commandExplanation: 'The --workspace flag dedupes in a specific workspace.',
+  },
+  {
+    key: 'dedupe.dedupe-all-workspaces',
+    title: 'Dedupe all workspaces',
+    description: 'Dedupe in all workspaces',
+    expectedCommand: 'npm dedupe --workspaces',
+    hint: 'Use --workspaces flag',
+    commandName: 'dedupe',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['dedupe.deduplicate-packages'],
+    commandExplanation: 'The --workspaces flag dedupes in all workspaces.',
+  },
+  {
+    key: 'dedupe.include-workspace-root',
+    title: 'Include workspace root',
+    description: 'Dedupe root with workspaces',
+    expectedCommand: 'npm dedupe --include-workspace-root',
+    hint: 'Use --include-workspace-root flag',
+    commandName: 'dedupe',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['dedupe.deduplicate-packages'],
+    commandExplanation: 'The --include-workspace-root flag includes the root project when using workspaces.',
+  },
+  {
+    key: 'dedupe.dedupe-with-install-links',
+    title: 'Dedupe with install-links',
+    description: 'Pack file: protocols',
+    expectedCommand: 'npm dedupe --install-links',
+    hint: 'Use --install-links flag',
+    commandName: 'dedupe',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['dedupe.deduplicate-packages'],
+    commandExplanation: 'The --install-links flag packs file: protocol dependencies instead of symlinking.',
+  },
+  {
+    key: 'dedupe.legacy-bundling',
+    title: 'Dedupe with legacy bundling',
+    description: 'Dedupe using npm v2 bundling behavior',
+    expectedCommand: 'npm dedupe --legacy-bundling',
+    hint: 'Use --legacy-bundling flag',
+    commandName: 'dedupe',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['dedupe.deduplicate-packages'],
+    commandExplanation: 'The --legacy-bundling flag nests dependencies instead of hoisting them. It is deprecated in favor of --install-strategy=nested.',
+  },
+  {
+    key: 'dedupe.global-style',
+    title: 'Dedupe with global style',
+    description: 'Dedupe keeping only direct dependencies at the top of node_modules',
+    expectedCommand: 'npm dedupe --global-style',
+    hint: 'Use --global-style flag',
+    commandName: 'dedupe',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['dedupe.deduplicate-packages'],
+    commandExplanation: 'The --global-style flag keeps only direct dependencies at the top level. It is deprecated in favor of --install-strategy=shallow.',
+  },
+
+  // ========== FIND-DUPES ==========
+  {
+    key: 'find-dupes.find-duplicate-packages',
+    title: 'Find duplicate packages',
+    description: 'List duplicates without changing',
+    expectedCommand: 'npm find-dupes',
+    hint: 'Find duplicate packages',
+    commandName: 'find-dupes',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['dedupe.deduplicate-packages'],
+    commandExplanation: 'Shows duplicate packages without making changes (dedupe --dry-run).',
+  },
+  {
+    key: 'find-dupes.find-dupes-with-hoisted',
+    title: 'Find dupes with hoisted',
+    description: 'Check dupes with hoisted strategy',
+    expectedCommand: 'npm find-dupes --install-strategy=hoisted',
+    hint: 'Use --install-strategy=hoisted flag',
+    commandName: 'find-dupes',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['find-dupes.find-duplicate-packages'],
+    commandExplanation: 'The --install-strategy=hoisted flag uses hoisted installation strategy.',
+  },
+  {
+    key: 'find-dupes.find-dupes-with-nested',
+    title: 'Find dupes with nested',
+    description: 'Check dupes with nested strategy',
+    expectedCommand: 'npm find-dupes --install-strategy=nested',
+    hint: 'Use --install-strategy=nested flag',
+    commandName: 'find-dupes',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['find-dupes.find-duplicate-packages'],
+    commandExplanation: 'The --install-strategy=nested flag uses nested installation strategy.',
+  },
+  {
+    key: 'find-dupes.find-dupes-with-shallow',
+    title: 'Find dupes with shallow',
+    description: 'Check dupes with shallow strategy',
+    expectedCommand: 'npm find-dupes --install-strategy=shallow',
+    hint: 'Use --install-strategy=shallow flag',
+    commandName: 'find-dupes',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['find-dupes.find-duplicate-packages'],
+    commandExplanation: 'The --install-strategy=shallow flag uses shallow installation strategy.',
+  },
+  {
+    key: 'find-dupes.find-dupes-with-linked',
+    title: 'Find dupes with linked',
+    description: 'Check dupes with linked strategy',
+    expectedCommand: 'npm find-dupes --install-strategy=linked',
+    hint: 'Use --install-strategy=linked flag',
+    commandName: 'find-dupes',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['find-dupes.find-duplicate-packages'],
+    commandExplanation: 'The --install-strategy=linked flag uses experimental linked installation.',
+  },
+  {
+    key: 'find-dupes.strict-peer-deps-check',
+    title: 'Strict peer deps check',
+    description: 'Fail on peer conflicts',
+    expectedCommand: 'npm find-dupes --strict-peer-deps',
+    hint: 'Use --strict-peer-deps flag',
+    commandName: 'find-dupes',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'security'],
+    prerequisites: ['find-dupes.find-duplicate-packages'],
+    commandExplanation: 'The --strict-peer-deps flag treats conflicting peer dependencies as failures.',
+  },
+  {
+    key: 'find-dupes.find-dupes-without-lock',
+    title: 'Find dupes without lock',
+    description: 'Ignore package-lock.json',
+    expectedCommand: 'npm find-dupes --no-package-lock',
+    hint: 'Use --no-package-lock flag',
+    commandName: 'find-dupes',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['find-dupes.find-duplicate-packages'],
+    commandExplanation: 'The --no-package-lock flag ignores package-lock.json during analysis.',
+  },
+  {
+    key: 'find-dupes.find-dupes-omit-dev',
+    title: 'Find dupes omit dev',
+    description: 'Exclude devDependencies',
+    expectedCommand: 'npm find-dupes --omit=dev',
+    hint: 'Use --omit=dev flag',
+    commandName: 'find-dupes',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['find-dupes.find-duplicate-packages'],
+    commandExplanation: 'The --omit=dev flag excludes devDependencies from the tree.',
+  },
+  {
+    key: 'find-dupes.find-dupes-omit-optional',
+    title: 'Find dupes omit optional',
+    description: 'Exclude optional',
+    expectedCommand: 'npm find-dupes --omit=optional',
+    hint: 'Use --omit=optional flag',
+    commandName: 'find-dupes',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['find-dupes.find-duplicate-packages'],
+    commandExplanation: 'The --omit=optional flag excludes optional dependencies from the tree.',
+  },
+  {
+    key: 'find-dupes.find-dupes-omit-peer',
+    title: 'Find dupes omit peer',
+    description: 'Exclude peer',
+    expectedCommand: 'npm find-dupes --omit=peer',
+    hint: 'Use --omit=peer flag',
+    commandName: 'find-dupes',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['find-dupes.find-duplicate-packages'],
+    commandExplanation: 'The --omit=peer flag excludes peer dependencies from the tree.',
+  },
+  {
+    key: 'find-dupes.find-dupes-include-dev',
+    title: 'Find dupes include dev',
+    description: 'Ensure devDependencies included',
+    expectedCommand: 'npm find-dupes --include=dev',
+    hint: 'Use --include=dev flag',
+    commandName: 'find-dupes',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['find-dupes.find-duplicate-packages'],
+    commandExplanation: 'The --include=dev flag ensures devDependencies are included in analysis.',
+  },
+  {
+    key: 'find-dupes.find-dupes-ignore-scripts',
+    title: 'Find dupes ignore scripts',
+    description: 'Skip lifecycle scripts',
+    expectedCommand: 'npm find-dupes --ignore-scripts',
+    hint: 'Use --ignore-scripts flag',
+    commandName: 'find-dupes',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'security'],
+    prerequisites: ['find-dupes.find-duplicate-packages'],
+    commandExplanation: 'The --ignore-scripts flag prevents running lifecycle scripts.',
+  },
+  {
+    key: 'find-dupes.find-dupes-no-audit',
+    title: 'Find dupes no audit',
+    description: 'Skip audit reports',
+    expectedCommand: 'npm find-dupes --no-audit',
+    hint: 'Use --no-audit flag',
+    commandName: 'find-dupes',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'security'],
+    prerequisites: ['find-dupes.find-duplicate-packages'],
+    commandExplanation: 'The --no-audit flag skips submitting audit reports.',
+  },
+  {
+    key: 'find-dupes.find-dupes-no-bin-links',
+    title: 'Find dupes no bin links',
+    description: 'Skip bin link analysis',
+    expectedCommand: 'npm find-dupes --no-bin-links',
+    hint: 'Use --no-bin-links flag',
+    commandName: 'find-dupes',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['find-dupes.find-duplicate-packages'],
+    commandExplanation: 'The --no-bin-links flag prevents bin link analysis.',
+  },
+  {
+    key: 'find-dupes.find-dupes-no-funding',
+    title: 'Find dupes no funding',
+    description: 'Suppress funding message',
+    expectedCommand: 'npm find-dupes --no-fund',
+    hint: 'Use --no-fund flag',
+    commandName: 'find-dupes',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['find-dupes.find-duplicate-packages'],
+    commandExplanation: 'The --no-fund flag suppresses the funding message.',
+  },
+  {
+    key: 'find-dupes.find-dupes-in-workspace',
+    title: 'Find dupes in workspace',
+    description: 'Check dupes in specific workspace',
+    expectedCommand: 'npm find-dupes --workspace=packages/app',
+    hint: 'Use --workspace flag',
+    commandName: 'find-dupes',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['find-dupes.find-duplicate-packages'],
+    commandExplanation: 'The --workspace flag finds dupes in a specific workspace.',
+  },
+  {
+    key: 'find-dupes.find-dupes-all-workspaces',
+    title: 'Find dupes all workspaces',
+    description: 'Check dupes in all workspaces',
+    expectedCommand: 'npm find-dupes --workspaces',
+    hint: 'Use --workspaces flag',
+    commandName: 'find-dupes',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['find-dupes.find-duplicate-packages'],
+    commandExplanation: 'The --workspaces flag finds dupes in all workspaces.',
+  },
+  {
+    key: 'find-dupes.find-dupes-workspace-root',
+    title: 'Find dupes workspace root',
+    description: 'Include root with workspaces',
+    expectedCommand: 'npm find-dupes --include-workspace-root',
+    hint: 'Use --include-workspace-root flag',
+    commandName: 'find-dupes',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['find-dupes.find-duplicate-packages'],
+    commandExplanation: 'The --include-workspace-root flag includes the root project when using workspaces.',
+  },
+  {
+    key: 'find-dupes.find-dupes-install-links',
+    title: 'Find dupes install-links',
+    description: 'Analyze packed file: protocols',
+    expectedCommand: 'npm find-dupes --install-links',
+    hint: 'Use --install-links flag',
+    commandName: 'find-dupes',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['find-dupes.find-duplicate-packages'],
+    commandExplanation: 'The --install-links flag analyzes packed file: protocol dependencies.',
+  },
+  {
+    key: 'find-dupes.find-dupes-legacy-bundling',
+    title: 'Find dupes with legacy bundling',
+    description: 'Analyze duplicates using npm v2 bundling behavior',
+    expectedCommand: 'npm find-dupes --legacy-bundling',
+    hint: 'Use --legacy-bundling flag',
+    commandName: 'find-dupes',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['find-dupes.find-duplicate-packages'],
+    commandExplanation: 'The --legacy-bundling flag analyzes the tree as if dependencies were nested. It is deprecated in favor of --install-strategy=nested.',
+  },
+  {
+    key: 'find-dupes.find-dupes-global-style',
+    title: 'Find dupes with global style',
+    description: 'Analyze duplicates with only direct dependencies at the top level',
+    expectedCommand: 'npm find-dupes --global-style',
+    hint: 'Use --global-style flag',
+    commandName: 'find-dupes',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['find-dupes.find-duplicate-packages'],
+    commandExplanation: 'The --global-style flag analyzes the tree with only direct dependencies at the top level. It is deprecated in favor of --install-strategy=shallow.',
+  },
+
+  // ========== REBUILD ==========
+  {
+    key: 'rebuild.rebuild-all-packages',
+    title: 'Rebuild all packages',
+    description: 'Rebuild all installed packages',
+    expectedCommand: 'npm rebuild',
+    hint: 'Rebuild all packages',
+    commandName: 'rebuild',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    commandExplanation: 'Rebuilds all packages by running lifecycle scripts and linking bins.',
+  },
+  {
+    key: 'rebuild.rebuild-specific-package',
+    title: 'Rebuild specific package',
+    description: 'Rebuild only bcrypt',
+    expectedCommand: 'npm rebuild bcrypt',
+    hint: 'Rebuild specific package',
+    commandName: 'rebuild',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['rebuild.rebuild-all-packages'],
+    commandExplanation: 'Rebuilds only the specified package.',
+  },
+  {
+    key: 'rebuild.rebuild-global-packages',
+    title: 'Rebuild global packages',
+    description: 'Rebuild globally installed packages',
+    expectedCommand: 'npm rebuild --global',
+    hint: 'Use --global flag',
+    commandName: 'rebuild',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['rebuild.rebuild-all-packages'],
+    commandExplanation: 'The --global flag rebuilds globally installed packages.',
+  },
+  {
+    key: 'rebuild.rebuild-without-bin-links',
+    title: 'Rebuild without bin links',
+    description: 'Skip creating symlinks',
+    expectedCommand: 'npm rebuild --no-bin-links',
+    hint: 'Use --no-bin-links flag',
+    commandName: 'rebuild',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['rebuild.rebuild-all-packages'],
+    commandExplanation: 'The --no-bin-links flag prevents creating symlinks for executables during rebuild.',
+  },
+  {
+    key: 'rebuild.foreground-scripts-rebuild',
+    title: 'Foreground scripts rebuild',
+    description: 'Run scripts in foreground',
+    expectedCommand: 'npm rebuild --foreground-scripts',
+    hint: 'Use --foreground-scripts flag',
+    commandName: 'rebuild',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['rebuild.rebuild-all-packages'],
+    commandExplanation: 'The --foreground-scripts flag runs build scripts in the foreground for debugging.',
+  },
+  {
+    key: 'rebuild.ignore-scripts-rebuild',
+    title: 'Ignore scripts rebuild',
+    description: 'Skip lifecycle scripts',
+    expectedCommand: 'npm rebuild --ignore-scripts',
+    hint: 'Use --ignore-scripts flag',
+    commandName: 'rebuild',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'security'],
+    prerequisites: ['rebuild.rebuild-all-packages'],
+    commandExplanation: 'The --ignore-scripts flag prevents running lifecycle scripts during rebuild.',
+  },
+  {
+    key: 'rebuild.rebuild-in-workspace',
+    title: 'Rebuild in workspace',
+    description: 'Rebuild specific workspace',
+    expectedCommand: 'npm rebuild --workspace=packages/app',
+    hint: 'Use --workspace flag',
+    commandName: 'rebuild',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['rebuild.rebuild-all-packages'],
+    commandExplanation: 'The --workspace flag rebuilds packages in a specific workspace.',
+  },
+  {
+    key: 'rebuild.rebuild-all-workspaces',
+    title: 'Rebuild all workspaces',
+    description: 'Rebuild in all workspaces',
+    expectedCommand: 'npm rebuild --workspaces',
+    hint: 'Use --workspaces flag',
+    commandName: 'rebuild',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['rebuild.rebuild-all-packages'],
+    commandExplanation: 'The --workspaces flag rebuilds packages in all workspaces.',
+  },
+  {
+    key: 'rebuild.rebuild-workspace-root',
+    title: 'Rebuild workspace root',
+    description: 'Include root with workspaces',
+    expectedCommand: 'npm rebuild --include-workspace-root',
+    hint: 'Use --include-workspace-root flag',
+    commandName: 'rebuild',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['rebuild.rebuild-all-packages'],
+    commandExplanation: 'The --include-workspace-root flag includes the root project when rebuilding workspaces.',
+  },
+  {
+    key: 'rebuild.rebuild-with-install-links',
+    title: 'Rebuild with install-links',
+    description: 'Pack file: protocols',
+    expectedCommand: 'npm rebuild --install-links',
+    hint: 'Use --install-links flag',
+    commandName: 'rebuild',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['rebuild.rebuild-all-packages'],
+    commandExplanation: 'The --install-links flag packs file: protocol dependencies instead of symlinking.',
+  },
+
+  // ========== LIST ==========
+  {
+    key: 'list.use-list-command',
+    title: 'Use list command',
+    description: 'Show where express is in the tree of installed packages',
+    expectedCommand: 'npm list express',
+    hint: 'Aliases: ls, ll, la',
+    commandName: 'list',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+  },
+  {
+    key: 'list.all',
+    title: 'List installed packages with additional option',
+    description: 'Show every copy of debug, including transitive ones',
+    expectedCommand: 'npm list debug --all',
+    hint: 'This option has aliases: -a',
+    commandName: 'list',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['list.use-list-command'],
+    commandExplanation: 'Uses list with a package name and --all parameter. Shows every path that pulls the package in',
+  },
+  {
+    key: 'list.json',
+    title: 'List installed packages with additional option',
+    description: 'Output where express is installed as JSON',
+    expectedCommand: 'npm list express --json',
+    commandName: 'list',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['list.use-list-command'],
+    commandExplanation: 'Uses list with a package name and --json parameter. Output as JSON',
+  },
+  {
+    key: 'list.long',
+    title: 'List installed packages with additional option',
+    description: 'Show extended information about lodash',
+    expectedCommand: 'npm list lodash --long',
+    hint: 'This option has aliases: -l',
+    commandName: 'list',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['list.use-list-command'],
+    commandExplanation: 'Uses list with a package name and --long parameter. Show extended information',
+  },
+  {
+    key: 'list.parseable',
+    title: 'List installed packages with additional option',
+    description: 'Show the path of jest as parseable output',
+    expectedCommand: 'npm list jest --parseable',
+    hint: 'This option has aliases: -p',
+    commandName: 'list',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['list.use-list-command'],
+    commandExplanation: 'Uses list with a package name and --parseable parameter. Show parseable output',
+  },
+  {
+    key: 'list.global',
+    title: 'List installed packages with additional option',
+    description: 'Show which npm version is installed globally',
+    expectedCommand: 'npm list npm --global',
+    hint: 'This option has aliases: -g',
+    commandName: 'list',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['list.use-list-command'],
+    commandExplanation: 'Uses list with a package name and --global parameter. List global packages',
+  },
+  {
+    key: 'list.depth',
+    title: 'List installed packages with additional option',
+    description: 'Max depth of tree',
+    expectedCommand: 'npm list --depth=0',
+    commandName: 'list',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['list.use-list-command'],
+    commandExplanation: 'Uses list with --depth parameter. Max depth of tree',
+  },
+  {
+    key: 'list.omit',
+    title: 'List installed packages with additional option',
+    description: 'Omit optional dependencies',
+    expectedCommand: 'npm list --omit=optional',
+    commandName: 'list',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['list.use-list-command'],
+    commandExplanation: 'Uses list with --omit parameter. Omit dependency types',
+  },
+  {
+    key: 'list.include',
+    title: 'List installed packages with additional option',
+    description: 'Include dependency types',
+    expectedCommand: 'npm list --include=prod',
+    commandName: 'list',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['list.use-list-command'],
+    commandExplanation: 'Uses list with --include parameter. Include dependency types',
+  },
+  {
+    key: 'list.link',
+    title: 'List installed packages with additional option',
+    description: 'Show top-level linked packages only',
+    expectedCommand: 'npm list --link --depth=0',
+    commandName: 'list',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['list.use-list-command'],
+    commandExplanation: 'Uses list with --link and --depth parameters. Show linked packages only',
+  },
+  {
+    key: 'list.package-lock-only',
+    title: 'List installed packages with additional option',
+    description: 'Show the locked version of express without reading node_modules',
+    expectedCommand: 'npm list express --package-lock-only',
+    commandName: 'list',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['list.use-list-command'],
+    commandExplanation: 'Uses list with a package name and --package-lock-only parameter. Only use package-lock.json',
+  },
+  {
+    key: 'list.no-unicode',
+    title: 'List installed packages with additional option',
+    description: 'Show top-level packages without unicode characters',
+    expectedCommand: 'npm list --no-unicode --depth=0',
+    commandName: 'list',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['list.use-list-command'],
+    commandExplanation: 'Uses list with --no-unicode and --depth parameters. Don\'t use unicode characters',
+  },
+  {
+    key: 'list.workspace',
+    title: 'List installed packages with additional option',
+    description: 'List in specific workspace',
+    expectedCommand: 'npm list --workspace="packages/tools"',
+    hint: 'This option has aliases: -w',
+    commandName: 'list',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['list.use-list-command'],
+    commandExplanation: 'Uses list with --workspace parameter. List in specific workspace',
+  },
+  {
+    key: 'list.workspaces',
+    title: 'List installed packages with additional option',
+    description: 'Show which workspaces depend on react',
+    expectedCommand: 'npm list react --workspaces',
+    hint: 'This option has aliases: -ws',
+    commandName: 'list',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['list.use-list-command'],
+    commandExplanation: 'Uses list with a package name and --workspaces parameter. List in all workspaces',
+  },
+  {
+    key: 'list.include-workspace-root',
+    title: 'List installed packages with additional option',
+    description: 'Include workspace root',
+    expectedCommand: 'npm list --include-workspace-root',
+    commandName: 'list',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['list.use-list-command'],
+    commandExplanation: 'Uses list with --include-workspace-root parameter. Include workspace root',
+  },
+  {
+    key: 'list.install-links',
+    title: 'List installed packages with additional option',
+    description: 'Show top-level packages, including symlinked ones',
+    expectedCommand: 'npm list --install-links --depth=0',
+    commandName: 'list',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['list.use-list-command'],
+    commandExplanation: 'Uses list with --install-links and --depth parameters. Include symlinked packages',
+  },
+
+  // ========== LL ==========
+  {
+    key: 'll.use-ll-command',
+    title: 'Use ll command',
+    description: 'Show extended information about typescript',
+    expectedCommand: 'npm ll typescript',
+    commandName: 'll',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+  },
+  {
+    key: 'll.global',
+    title: 'List installed packages (long format) with additional option',
+    description: 'List top-level global packages with extended information',
+    expectedCommand: 'npm ll --global --depth=0',
+    hint: 'This option has aliases: -g',
+    commandName: 'll',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['ll.use-ll-command'],
+    commandExplanation: 'Uses ll with --global and --depth parameters. List global packages',
+  },
+  {
+    key: 'll.depth',
+    title: 'List installed packages (long format) with additional option',
+    description: 'Show packages up to depth 2 with extended information',
+    expectedCommand: 'npm ll --depth=2',
+    commandName: 'll',
+    difficulty: 'beginner',
+    topics: ['dependencies'],
+    prerequisites: ['ll.use-ll-command'],
+    commandExplanation: 'Uses ll with --depth parameter. Max depth of tree',
+  },
+
+  // ========== DOCTOR ==========
+  {
+    key: 'doctor.use-doctor-command',
+    title: 'Use doctor command',
+    description: 'Check npm environment',
+    expectedCommand: 'npm doctor',
+    commandName: 'doctor',
+    difficulty: 'intermediate',
+    topics: ['config'],
+  },
+
+  // ========== LINK ==========
+  {
+    key: 'link.use-link-command',
+    title: 'Use link command',
+    description: 'Create a symlink to a package',
+    expectedCommand: 'npm link',
+    hint: 'Aliases: ln',
+    commandName: 'link',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+  },
+  {
+    key: 'link.save',
+    title: 'Create a symlink to a package with additional option',
+    description: 'Save to dependencies',
+    expectedCommand: 'npm link --save',
+    hint: 'This option has aliases: -S',
+    commandName: 'link',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['link.use-link-command'],
+    commandExplanation: 'Uses link with --save parameter. Save to dependencies',
+  },
+  {
+    key: 'link.save-prod',
+    title: 'Create a symlink to a package with additional option',
+    description: 'Save to dependencies',
+    expectedCommand: 'npm link --save-prod',
+    commandName: 'link',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['link.use-link-command'],
+    commandExplanation: 'Uses link with --save-prod parameter. Save to dependencies',
+  },
+  {
+    key: 'link.no-save',
+    title: 'Create a symlink to a package with additional option',
+    description: 'Don\'t save to package.json',
+    expectedCommand: 'npm link --no-save',
+    commandName: 'link',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['link.use-link-command'],
+    commandExplanation: 'Uses link with --no-save parameter. Don\'t save to package.json',
+  },
+  {
+    key: 'link.save-dev',
+    title: 'Create a symlink to a package with additional option',
+    description: 'Save to devDependencies',
+    expectedCommand: 'npm link --save-dev',
+    hint: 'This option has aliases: -D',
+    commandName: 'link',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['link.use-link-command'],
+    commandExplanation: 'Uses link with --save-dev parameter. Save to devDependencies',
+  },
+  {
+    key: 'link.save-exact',
+    title: 'Create a symlink to a package with additional option',
+    description: 'Save exact version',
+    expectedCommand: 'npm link --save-exact',
+    hint: 'This option has aliases: -E',
+    commandName: 'link',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['link.use-link-command'],
+    commandExplanation: 'Uses link with --save-exact parameter. Save exact version',
+  },
+  {
+    key: 'link.save-optional',
+    title: 'Create a symlink to a package with additional option',
+    description: 'Save to optionalDependencies',
+    expectedCommand: 'npm link --save-optional',
+    commandName: 'link',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['link.use-link-command'],
+    commandExplanation: 'Uses link with --save-optional parameter. Save to optionalDependencies',
+  },
+  {
+    key: 'link.save-peer',
+    title: 'Create a symlink to a package with additional option',
+    description: 'Save to peerDependencies',
+    expectedCommand: 'npm link --save-peer',
+    commandName: 'link',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['link.use-link-command'],
+    commandExplanation: 'Uses link with --save-peer parameter. Save to peerDependencies',
+  },
+  {
+    key: 'link.save-bundle',
+    title: 'Create a symlink to a package with additional option',
+    description: 'Save to bundleDependencies',
+    expectedCommand: 'npm link --save-bundle',
+    hint: 'This option has aliases: -B',
+    commandName: 'link',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['link.use-link-command'],
+    commandExplanation: 'Uses link with --save-bundle parameter. Save to bundleDependencies',
+  },
+  {
+    key: 'link.global',
+    title: 'Create a symlink to a package with additional option',
+    description: 'Link globally',
+    expectedCommand: 'npm link --global',
+    hint: 'This option has aliases: -g',
+    commandName: 'link',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['link.use-link-command'],
+    commandExplanation: 'Uses link with --global parameter. Link globally',
+  },
+  {
+    key: 'link.install-strategy',
+    title: 'Create a symlink to a package with additional option',
+    description: 'Installation strategy',
+    expectedCommand: 'npm link --install-strategy=hoisted',
+    commandName: 'link',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['link.use-link-command'],
+    commandExplanation: 'Uses link with --install-strategy parameter. Installation strategy',
+  },
+  {
+    key: 'link.legacy-bundling',
+    title: 'Create a symlink to a package with additional option',
+    description: 'Install with npm v2 bundling behavior',
+    expectedCommand: 'npm link --legacy-bundling',
+    commandName: 'link',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['link.use-link-command'],
+    commandExplanation: 'Uses link with --legacy-bundling parameter. Install with npm v2 bundling behavior',
+  },
+  {
+    key: 'link.global-style',
+    title: 'Create a symlink to a package with additional option',
+    description: 'Install packages into prefix without flattening',
+    expectedCommand: 'npm link --global-style',
+    commandName: 'link',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['link.use-link-command'],
+    commandExplanation: 'Uses link with --global-style parameter. Install packages into prefix without flattening',
+  },
+  {
+    key: 'link.strict-peer-deps',
+    title: 'Create a symlink to a package with additional option',
+    description: 'Fail on peer dependency conflicts',
+    expectedCommand: 'npm link --strict-peer-deps',
+    commandName: 'link',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'security'],
+    prerequisites: ['link.use-link-command'],
+    commandExplanation: 'Uses link with --strict-peer-deps parameter. Fail on peer dependency conflicts',
+  },
+  {
+    key: 'link.no-package-lock',
+    title: 'Create a symlink to a package with additional option',
+    description: 'Don\'t update package-lock.json',
+    expectedCommand: 'npm link --no-package-lock',
+    commandName: 'link',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['link.use-link-command'],
+    commandExplanation: 'Uses link with --no-package-lock parameter. Don\'t update package-lock.json',
+  },
+  {
+    key: 'link.omit',
+    title: 'Create a symlink to a package with additional option',
+    description: 'Omit dependency types',
+    expectedCommand: 'npm link --omit=dev',
+    commandName: 'link',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['link.use-link-command'],
+    commandExplanation: 'Uses link with --omit parameter. Omit dependency types',
+  },
+  {
+    key: 'link.include',
+    title: 'Create a symlink to a package with additional option',
+    description: 'Include dependency types',
+    expectedCommand: 'npm link --include=prod',
+    commandName: 'link',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['link.use-link-command'],
+    commandExplanation: 'Uses link with --include parameter. Include dependency types',
+  },
+  {
+    key: 'link.ignore-scripts',
+    title: 'Create a symlink to a package with additional option',
+    description: 'Skip running scripts',
+    expectedCommand: 'npm link --ignore-scripts',
+    commandName: 'link',
+    difficulty: 'intermediate',
+    topics: ['dependencies', 'security'],
+    prerequisites: ['link.use-link-command'],
+    commandExplanation: 'Uses link with --ignore-scripts parameter. Skip running scripts',
+  },
+  {
+    key: 'link.no-audit',
+    title: 'Create a symlink to a package with additional option',
+    description: 'Skip security audit',
+    expectedCommand: 'npm link --no-audit',
+    commandName: 'link',
+    difficulty: 'intermediate',
+    topics: ['dependencies', 'security'],
+    prerequisites: ['link.use-link-command'],
+    commandExplanation: 'Uses link with --no-audit parameter. Skip security audit',
+  },
+  {
+    key: 'link.no-bin-links',
+    title: 'Create a symlink to a package with additional option',
+    description: 'Don\'t create symlinks for binaries',
+    expectedCommand: 'npm link --no-bin-links',
+    commandName: 'link',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['link.use-link-command'],
+    commandExplanation: 'Uses link with --no-bin-links parameter. Don\'t create symlinks for binaries',
+  },
+  {
+    key: 'link.no-fund',
+    title: 'Create a symlink to a package with additional option',
+    description: 'Hide funding info',
+    expectedCommand: 'npm link --no-fund',
+    commandName: 'link',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['link.use-link-command'],
+    commandExplanation: 'Uses link with --no-fund parameter. Hide funding info',
+  },
+  {
+    key: 'link.dry-run',
+    title: 'Create a symlink to a package with additional option',
+    description: 'Preview without linking',
+    expectedCommand: 'npm link --dry-run',
+    commandName: 'link',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['link.use-link-command'],
+    commandExplanation: 'Uses link with --dry-run parameter. Preview without linking',
+  },
+  {
+    key: 'link.workspace',
+    title: 'Create a symlink to a package with additional option',
+    description: 'Link in specific workspace',
+    expectedCommand: 'npm link --workspace="packages/tools"',
+    hint: 'This option has aliases: -w',
+    commandName: 'link',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['link.use-link-command'],
+    commandExplanation: 'Uses link with --workspace parameter. Link in specific workspace',
+  },
+  {
+    key: 'link.workspaces',
+    title: 'Create a symlink to a package with additional option',
+    description: 'Link in all workspaces',
+    expectedCommand: 'npm link --workspaces',
+    hint: 'This option has aliases: -ws',
+    commandName: 'link',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['link.use-link-command'],
+    commandExplanation: 'Uses link with --workspaces parameter. Link in all workspaces',
+  },
+  {
+    key: 'link.include-workspace-root',
+    title: 'Create a symlink to a package with additional option',
+    description: 'Include workspace root',
+    expectedCommand: 'npm link --include-workspace-root',
+    commandName: 'link',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'workspaces'],
+    prerequisites: ['link.use-link-command'],
+    commandExplanation: 'Uses link with --include-workspace-root parameter. Include workspace root',
+  },
+  {
+    key: 'link.install-links',
+    title: 'Create a symlink to a package with additional option',
+    description: 'Install file: protocol deps as symlinks',
+    expectedCommand: 'npm link --install-links',
+    commandName: 'link',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+    prerequisites: ['link.use-link-command'],
+    commandExplanation: 'Uses link with --install-links parameter. Install file: protocol deps as symlinks',
+  },
+
+  // ========== EXEC ==========
+  {
+    key: 'exec.use-exec-command',
+    title: 'Use exec command',
+    description: 'Execute a package binary',
+    expectedCommand: 'npm exec',
+    hint: 'Aliases: x',
+    commandName: 'exec',
+    difficulty: 'beginner',
+    topics: ['basics'],
+  },
+  {
+    key: 'exec.package',
+    title: 'Execute a package binary with additional option',
+    description: 'Package to execute',
+    expectedCommand: 'npm exec --package=example',
+    hint: 'This option has aliases: -p',
+    commandName: 'exec',
+    difficulty: 'intermediate',
+    topics: ['basics'],
+    prerequisites: ['exec.use-exec-command'],
+    commandExplanation: 'Uses exec with --package parameter. Package to execute',
+  },
+  {
+    key: 'exec.call',
+    title: 'Execute a package binary with additional option',
+    description: 'Command string to execute',
+    expectedCommand: 'npm exec --call=example',
+    hint: 'This option has aliases: -c',
+    commandName: 'exec',
+    difficulty: 'advanced',
+    topics: ['basics'],
+    prerequisites: ['exec.use-exec-command'],
+    commandExplanation: 'Uses exec with --call parameter. Command string to execute',
+  },
+  {
+    key: 'exec.workspace',
+    title: 'Execute a package binary with additional option',
+    description: 'Execute in specific workspace',
+    expectedCommand: 'npm exec --workspace="packages/tools"',
+    hint: 'This option has aliases: -w',
+    commandName: 'exec',
+    difficulty: 'advanced',
+    topics: ['basics', 'workspaces'],
+    prerequisites: ['exec.use-exec-command'],
+    commandExplanation: 'Uses exec with --workspace parameter. Execute in specific workspace',
+  },
+  {
+    key: 'exec.workspaces',
+    title: 'Execute a package binary with additional option',
+    description: 'Execute in all workspaces',
+    expectedCommand: 'npm exec --workspaces',
+    hint: 'This option has aliases: -ws',
+    commandName: 'exec',
+    difficulty: 'advanced',
+    topics: ['basics', 'workspaces'],
+    prerequisites: ['exec.use-exec-command'],
+    commandExplanation: 'Uses exec with --workspaces parameter. Execute in all workspaces',
+  },
+  {
+    key: 'exec.include-workspace-root',
+    title: 'Execute a package binary with additional option',
+    description: 'Include workspace root',
+    expectedCommand: 'npm exec --include-workspace-root',
+    commandName: 'exec',
+    difficulty: 'advanced',
+    topics: ['basics', 'workspaces'],
+    prerequisites: ['exec.use-exec-command'],
+    commandExplanation: 'Uses exec with --include-workspace-root parameter. Include workspace root',
+  },
+
+  // ========== HELP ==========
+  {
+    key: 'help.use-help-command',
+    title: 'Use help command',
+    description: 'Get help on npm',
+    expectedCommand: 'npm help',
+    hint: 'Aliases: ?',
+    commandName: 'help',
+    difficulty: 'beginner',
+    topics: ['basics'],
+  },
+
+  // ========== HELP-SEARCH ==========
+  {
+    key: 'help-search.search-the-npm-docs',
+    title: 'Search the npm docs',
+    description: 'Search all npm help pages for "workspaces"',
+    expectedCommand: 'npm help-search workspaces',
+    hint: 'Usage: npm help-search <text> [<text> ...]',
+    commandName: 'help-search',
+    difficulty: 'intermediate',
+    topics: ['basics'],
+  },
+
+  // ========== HOOK ==========
+  {
+    key: 'hook.watch-a-package-with-a-hook',
+    title: 'Watch a package with a hook',
+    description: 'Send lodash updates to https://example.com/webhook, signed with the secret "my-secret"',
+    expectedCommand: 'npm hook add lodash https://example.com/webhook my-secret',
+    hint: 'Usage: npm hook add <pkg> <url> <secret>',
+    commandName: 'hook',
+    difficulty: 'advanced',
+    topics: ['publishing'],
+    commandExplanation: 'npm hook add: Add a hook for a package, scope or owner.',
+  },
+  {
+    key: 'hook.list-your-hooks',
+    title: 'List your hooks',
+    description: 'Show all registry hooks you have configured',
+    expectedCommand: 'npm hook ls',
+    hint: 'Usage: npm hook ls [<pkg>]',
+    commandName: 'hook',
+    difficulty: 'advanced',
+    topics: ['publishing'],
+    prerequisites: ['hook.watch-a-package-with-a-hook'],
+    commandExplanation: 'npm hook ls: List configured hooks.',
+  },
+  {
+    key: 'hook.move-a-hook-to-a-new-url',
+    title: 'Move a hook to a new URL',
+    description: 'Point hook abc123 at https://example.com/new-webhook',
+    expectedCommand: 'npm hook update abc123 https://example.com/new-webhook',
+    hint: 'Usage: npm hook update <id> <url> [<secret>]',
+    commandName: 'hook',
+    difficulty: 'advanced',
+    topics: ['publishing'],
+    prerequisites: ['hook.watch-a-package-with-a-hook'],
+    commandExplanation: 'npm hook update: Change the URL or secret of a hook.',
+  },
+  {
+    key: 'hook.remove-a-hook',
+    title: 'Remove a hook',
+    description: 'Delete the registry hook with id abc123',
+    expectedCommand: 'npm hook rm abc123',
+    hint: 'Usage: npm hook rm <id>',
+    commandName: 'hook',
+    difficulty: 'advanced',
+    topics: ['publishing'],
+    prerequisites: ['hook.watch-a-package-with-a-hook'],
+    commandExplanation: 'npm hook rm: Remove a hook.',
+  },
+
+  // ========== ORG ==========
+  {
+    key: 'org.add-an-organization-member',
+    title: 'Add an organization member',
+    description: 'Add user "teammate" to the myorg organization as a developer',
+    expectedCommand: 'npm org set myorg teammate developer',
+    hint: 'Usage: npm org set <orgname> <username> [<developer | admin | owner>]',
+    commandName: 'org',
+    difficulty: 'advanced',
+    topics: ['publishing'],
+    commandExplanation: 'npm org set: Add a user to an organization or change their role.',
+  },
+  {
+    key: 'org.remove-an-organization-member',
+    title: 'Remove an organization member',
+    description: 'Remove user "teammate" from the myorg organization',
+    expectedCommand: 'npm org rm myorg teammate',
+    hint: 'Usage: npm org rm <orgname> <username>',
+    commandName: 'org',
+    difficulty: 'advanced',
+    topics: ['publishing'],
+    prerequisites: ['org.add-an-organization-member'],
+    commandExplanation: 'npm org rm: Remove a user from an organization.',
+  },
+  {
+    key: 'org.list-organization-members',
+    title: 'List organization members',
+    description: 'Show the members of myorg and their roles',
+    expectedCommand: 'npm org ls myorg',
+    hint: 'Usage: npm org ls <orgname> [<username>]',
+    commandName: 'org',
+    difficulty: 'advanced',
+    topics: ['publishing'],
+    prerequisites: ['org.add-an-organization-member'],
+    commandExplanation: 'npm org ls: List organization members and their roles.',
+  },
+
+  // ========== OWNER ==========
+  {
+    key: 'owner.add-a-package-maintainer',
+    title: 'Add a package maintainer',
+    description: 'Give user "teammate" publish rights on my-project',
+    expectedCommand: 'npm owner add teammate my-project',
+    hint: 'Usage: npm owner add <user> [<package-spec>]',
+    commandName: 'owner',
+    difficulty: 'advanced',
+    topics: ['publishing'],
+    prerequisites: ['publish.publish-package'],
+    commandExplanation: 'npm owner add: Add a maintainer to a package.',
+  },
+  {
+    key: 'owner.remove-a-package-maintainer',
+    title: 'Remove a package maintainer',
+    description: 'Take publish rights on my-project away from user "teammate"',
+    expectedCommand: 'npm owner rm teammate my-project',
+    hint: 'Usage: npm owner rm <user> [<package-spec>]',
+    commandName: 'owner',
+    difficulty: 'advanced',
+    topics: ['publishing'],
+    prerequisites: ['owner.add-a-package-maintainer'],
+    commandExplanation: 'npm owner rm: Remove a maintainer from a package.',
+  },
+  {
+    key: 'owner.list-package-maintainers',
+    title: 'List package maintainers',
+    description: 'Show who can publish my-project',
+    expectedCommand: 'npm owner ls my-project',
+    hint: 'Usage: npm owner ls [<package-spec>]',
+    commandName: 'owner',
+    difficulty: 'advanced',
+    topics: ['publishing'],
+    prerequisites: ['owner.add-a-package-maintainer'],
+    commandExplanation: 'npm owner ls: List package maintainers.',
+  },
+
+  // ========== PACK ==========
+  {
+    key: 'pack.use-pack-command',
+    title: 'Use pack command',
+    description: 'Create a tarball from a package',
+    expectedCommand: 'npm pack',
+    commandName: 'pack',
+    difficulty: 'intermediate',
+    topics: ['publishing'],
+  },
+  {
+    key: 'pack.dry-run',
+    title: 'Create a tarball from a package with additional option',
+    description: 'Test without creating tarball',
+    expectedCommand: 'npm pack --dry-run',
+    commandName: 'pack',
+    difficulty: 'intermediate',
+    topics: ['publishing'],
+    prerequisites: ['pack.use-pack-command'],
+    commandExplanation: 'Uses pack with --dry-run parameter. Test without creating tarball',
+  },
+
+  // ========== PING ==========
+  {
+    key: 'ping.use-ping-command',
+    title: 'Use ping command',
+    description: 'Ping npm registry',
+    expectedCommand: 'npm ping',
+    commandName: 'ping',
+    difficulty: 'beginner',
+    topics: ['config'],
+  },
+
+  // ========== PREFIX ==========
+  {
+    key: 'prefix.use-prefix-command',
+    title: 'Use prefix command',
+    description: 'Display prefix',
+    expectedCommand: 'npm prefix',
+    commandName: 'prefix',
+    difficulty: 'beginner',
+    topics: ['config'],
+  },
+  {
+    key: 'prefix.g',
+    title: 'Display prefix with additional option',
+    description: 'Display global prefix',
+    expectedCommand: 'npm prefix -g',
+    hint: 'This option has aliases: --global',
+    commandName: 'prefix',
+    difficulty: 'beginner',
+    topics: ['config'],
+    prerequisites: ['prefix.use-prefix-command'],
+    commandExplanation: 'Uses prefix with -g parameter. Display global prefix',
+  },
+
+  // ========== PROFILE ==========
+  {
+    key: 'profile.show-your-registry-profile',
+    title: 'Show your registry profile',
+    description: 'Display your npm profile (name, email, 2FA status)',
+    expectedCommand: 'npm profile get',
+    hint: 'Usage: npm profile get [<property>]',
+    commandName: 'profile',
+    difficulty: 'advanced',
+    topics: ['publishing', 'security'],
+    prerequisites: ['login.use-login-command'],
+    commandExplanation: 'npm profile get: Show profile properties.',
+  },
+  {
+    key: 'profile.change-your-profile-name',
+    title: 'Change your profile name',
+    description: 'Set the full name on your npm profile to "Jane Doe"',
+    expectedCommand: 'npm profile set fullname "Jane Doe"',
+    hint: 'Usage: npm profile set <property> <value>',
+    commandName: 'profile',
+    difficulty: 'advanced',
+    topics: ['publishing', 'security'],
+    prerequisites: ['profile.show-your-registry-profile'],
+    commandExplanation: 'npm profile set: Change a profile property.',
+  },
+  {
+    key: 'profile.enable-two-factor-authentication',
+    title: 'Enable two-factor authentication',
+    description: 'Require a one-time password for logging in and for publishing',
+    expectedCommand: 'npm profile enable-2fa auth-and-writes',
+    hint: 'Usage: npm profile enable-2fa [<auth-only | auth-and-writes>]',
+    commandName: 'profile',
+    difficulty: 'advanced',
+    topics: ['publishing', 'security'],
+    prerequisites: ['profile.show-your-registry-profile'],
+    commandExplanation: 'npm profile enable-2fa: Turn on two-factor authentication.',
+  },
+  {
+    key: 'profile.disable-two-factor-authentication',
+    title: 'Disable two-factor authentication',
+    description: 'Stop requiring one-time passwords for your account',
+    expectedCommand: 'npm profile disable-2fa',
+    hint: 'Usage: npm profile disable-2fa',
+    commandName: 'profile',
+    difficulty: 'advanced',
+    topics: ['publishing', 'security'],
+    prerequisites: ['profile.show-your-registry-profile'],
+    commandExplanation: 'npm profile disable-2fa: Turn off two-factor authentication.',
+  },
+
+  // ========== REPO ==========
+  {
+    key: 'repo.use-repo-command',
+    title: 'Use repo command',
+    description: 'Open package repository in browser',
+    expectedCommand: 'npm repo',
+    commandName: 'repo',
+    difficulty: 'beginner',
+    topics: ['basics'],
+  },
+
+  // ========== ROOT ==========
+  {
+    key: 'root.use-root-command',
+    title: 'Use root command',
+    description: 'Display npm root',
+    expectedCommand: 'npm root',
+    commandName: 'root',
+    difficulty: 'beginner',
+    topics: ['config'],
+  },
+  {
+    key: 'root.g',
+    title: 'Display npm root with additional option',
+    description: 'Display global root',
+    expectedCommand: 'npm root -g',
+    hint: 'This option has aliases: --global',
+    commandName: 'root',
+    difficulty: 'beginner',
+    topics: ['config'],
+    prerequisites: ['root.use-root-command'],
+    commandExplanation: 'Uses root with -g parameter. Display global root',
+  },
+
+  // ========== SET-SCRIPT ==========
+  {
+    key: 'set-script.add-a-script',
+    title: 'Add a script',
+    description: 'Add a "build" script that runs tsc to package.json',
+    expectedCommand: 'npm set-script build "tsc"',
+    acceptedCommands: ['npm pkg set scripts.build="tsc"'],
+    hint: 'Usage: npm set-script <script> <command>',
+    commandName: 'set-script',
+    difficulty: 'intermediate',
+    topics: ['basics'],
+  },
+
+  // ========== SHRINKWRAP ==========
+  {
+    key: 'shrinkwrap.use-shrinkwrap-command',
+    title: 'Use shrinkwrap command',
+    description: 'Lock dependencies',
+    expectedCommand: 'npm shrinkwrap',
+    commandName: 'shrinkwrap',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+  },
+
+  // ========== STAR ==========
+  {
+    key: 'star.star-a-package',
+    title: 'Star a package',
+    description: 'Mark lodash as one of your favorite packages',
+    expectedCommand: 'npm star lodash',
+    hint: 'Usage: npm star <package-spec> [<package-spec> ...]',
+    commandName: 'star',
+    difficulty: 'intermediate',
+    topics: ['publishing'],
+    prerequisites: ['login.use-login-command'],
+  },
+
+  // ========== STARS ==========
+  {
+    key: 'stars.use-stars-command',
+    title: 'Use stars command',
+    description: 'View starred packages',
+    expectedCommand: 'npm stars',
+    commandName: 'stars',
+    difficulty: 'intermediate',
+    topics: ['publishing'],
+    prerequisites: ['star.star-a-package'],
+  },
+
+  // ========== TEAM ==========
+  {
+    key: 'team.create-a-team',
+    title: 'Create a team',
+    description: 'Create a "developers" team in the @myorg organization',
+    expectedCommand: 'npm team create @myorg:developers',
+    hint: 'Usage: npm team create <scope:team>',
+    commandName: 'team',
+    difficulty: 'advanced',
+    topics: ['publishing'],
+    commandExplanation: 'npm team create: Create a team.',
+  },
+  {
+    key: 'team.delete-a-team',
+    title: 'Delete a team',
+    description: 'Delete the "developers" team from @myorg',
+    expectedCommand: 'npm team destroy @myorg:developers',
+    hint: 'Usage: npm team destroy <scope:team>',
+    commandName: 'team',
+    difficulty: 'advanced',
+    topics: ['publishing'],
+    prerequisites: ['team.create-a-team'],
+    commandExplanation: 'npm team destroy: Delete a team.',
+  },
+  {
+    key: 'team.add-a-user-to-a-team',
+    title: 'Add a user to a team',
+    description: 'Add user "teammate" to the @myorg:developers team',
+    expectedCommand: 'npm team add @myorg:developers teammate',
+    hint: 'Usage: npm team add <scope:team> <user>',
+    commandName: 'team',
+    difficulty: 'advanced',
+    topics: ['publishing'],
+    prerequisites: ['team.create-a-team'],
+    commandExplanation: 'npm team add: Add a user to a team.',
+  },
+  {
+    key: 'team.remove-a-user-from-a-team',
+    title: 'Remove a user from a team',
+    description: 'Remove user "teammate" from the @myorg:developers team',
+    expectedCommand: 'npm team rm @myorg:developers teammate',
+    hint: 'Usage: npm team rm <scope:team> <user>',
+    commandName: 'team',
+    difficulty: 'advanced',
+    topics: ['publishing'],
+    prerequisites: ['team.create-a-team'],
+    commandExplanation: 'npm team rm: Remove a user from a team.',
+  },
+  {
+    key: 'team.list-teams',
+    title: 'List teams',
+    description: 'Show all teams in the @myorg organization',
+    expectedCommand: 'npm team ls @myorg',
+    hint: 'Usage: npm team ls <scope | scope:team>',
+    commandName: 'team',
+    difficulty: 'advanced',
+    topics: ['publishing'],
+    prerequisites: ['team.create-a-team'],
+    commandExplanation: 'npm team ls: List teams in a scope, or users in a team.',
+  },
+
+  // ========== TOKEN ==========
+  {
+    key: 'token.use-token-command',
+    title: 'Use token command',
+    description: 'Manage authentication tokens',
+    expectedCommand: 'npm token',
+    commandName: 'token',
+    difficulty: 'advanced',
+    topics: ['publishing', 'security'],
+    prerequisites: ['login.use-login-command'],
+  },
+  {
+    key: 'token.list-your-access-tokens',
+    title: 'List your access tokens',
+    description: 'Show all authentication tokens on your account as JSON',
+    expectedCommand: 'npm token list --json',
+    hint: 'Usage: npm token list',
+    commandName: 'token',
+    difficulty: 'advanced',
+    topics: ['publishing', 'security'],
+    prerequisites: ['token.use-token-command'],
+    commandExplanation: 'npm token list: List authentication tokens.',
+  },
+  {
+    key: 'token.create-an-access-token',
+    title: 'Create an access token',
+    description: 'Create a new authentication token, e.g. for CI',
+    expectedCommand: 'npm token create',
+    hint: 'Usage: npm token create',
+    commandName: 'token',
+    difficulty: 'advanced',
+    topics: ['publishing', 'security'],
+    prerequisites: ['token.use-token-command'],
+    commandExplanation: 'npm token create: Create an authentication token.',
+  },
+  {
+    key: 'token.read-only',
+    title: 'Create an access token with additional option',
+    description: 'Create a read-only token',
+    expectedCommand: 'npm token create --read-only',
+    commandName: 'token',
+    difficulty: 'advanced',
+    topics: ['publishing', 'security'],
+    prerequisites: ['token.use-token-command'],
+    commandExplanation: 'Uses token create with --read-only parameter. Create a read-only token',
+  },
+  {
+    key: 'token.cidr',
+    title: 'Create an access token with additional option',
+    description: 'Restrict the token to IP ranges',
+    expectedCommand: 'npm token create --cidr=192.168.1.0/24',
+    commandName: 'token',
+    difficulty: 'advanced',
+    topics: ['publishing', 'security'],
+    prerequisites: ['token.use-token-command'],
+    commandExplanation: 'Uses token create with --cidr parameter. Restrict the token to IP ranges',
+  },
+  {
+    key: 'token.revoke-an-access-token',
+    title: 'Revoke an access token',
+    description: 'Invalidate the authentication token with id abc123',
+    expectedCommand: 'npm token revoke abc123',
+    hint: 'Usage: npm token revoke <id | token> [<id | token> ...]',
+    commandName: 'token',
+    difficulty: 'advanced',
+    topics: ['publishing', 'security'],
+    prerequisites: ['token.use-token-command'],
+    commandExplanation: 'npm token revoke: Revoke an authentication token.',
+  },
+
+  // ========== UNSTAR ==========
+  {
+    key: 'unstar.unstar-a-package',
+    title: 'Unstar a package',
+    description: 'Remove lodash from your favorite packages',
+    expectedCommand: 'npm unstar lodash',
+    hint: 'Usage: npm unstar <package-spec> [<package-spec> ...]',
+    commandName: 'unstar',
+    difficulty: 'intermediate',
+    topics: ['publishing'],
+    prerequisites: ['star.star-a-package'],
+  },
+
+  // ========== WHOAMI ==========
+  {
+    key: 'whoami.use-whoami-command',
+    title: 'Use whoami command',
+    description: 'Display npm username',
+    expectedCommand: 'npm whoami',
+    commandName: 'whoami',
+    difficulty: 'beginner',
+    topics: ['publishing'],
+    prerequisites: ['login.use-login-command'],
+  },
+
+  // ========== ACCESS ==========
+  {
+    key: 'access.list-package-access',
+    title: 'List package access',
+    description: 'Show which packages the @myorg scope can access',
+    expectedCommand: 'npm access list packages @myorg',
+    hint: 'Usage: npm access list <packages | collaborators> [<user | scope | scope:team | package>]',
+    commandName: 'access',
+    difficulty: 'advanced',
+    topics: ['publishing'],
+    commandExplanation: 'npm access list: List packages or collaborators and their access.',
+  },
+  {
+    key: 'access.check-package-visibility',
+    title: 'Check package visibility',
+    description: 'Show whether my-project is public or private',
+    expectedCommand: 'npm access get status my-project',
+    hint: 'Usage: npm access get <status> [<package>]',
+    commandName: 'access',
+    difficulty: 'advanced',
+    topics: ['publishing'],
+    prerequisites: ['access.list-package-access'],
+    commandExplanation: 'npm access get: Show the access status of a package.',
+  },
+  {
+    key: 'access.make-a-package-public',
+    title: 'Make a package public',
+    description: 'Change the visibility of my-project to public',
+    expectedCommand: 'npm access set status=public my-project',
+    hint: 'Usage: npm access set <status=public | status=private | mfa=none | mfa=publish | mfa=automation> [<package>]',
+    commandName: 'access',
+    difficulty: 'advanced',
+    topics: ['publishing'],
+    prerequisites: ['access.list-package-access'],
+    commandExplanation: 'npm access set: Change package access or 2FA requirement.',
+  },
+  {
+    key: 'access.grant-a-team-access',
+    title: 'Grant a team access',
+    description: 'Give the @myorg:developers team read-only access to my-project',
+    expectedCommand: 'npm access grant read-only @myorg:developers my-project',
+    hint: 'Usage: npm access grant <read-only | read-write> <scope:team> [<package>]',
+    commandName: 'access',
+    difficulty: 'advanced',
+    topics: ['publishing'],
+    prerequisites: ['access.list-package-access'],
+    commandExplanation: 'npm access grant: Give a team access to a package.',
+  },
+  {
+    key: 'access.revoke-team-access',
+    title: 'Revoke team access',
+    description: 'Remove the @myorg:developers team\'s access to my-project',
+    expectedCommand: 'npm access revoke @myorg:developers my-project',
+    hint: 'Usage: npm access revoke <scope:team> [<package>]',
+    commandName: 'access',
+    difficulty: 'advanced',
+    topics: ['publishing'],
+    prerequisites: ['access.list-package-access'],
+    commandExplanation: 'npm access revoke: Remove a team\'s access to a package.',
+  },
+
+  // ========== ADDUSER ==========
+  {
+    key: 'adduser.use-adduser-command',
+    title: 'Use adduser command',
+    description: 'Add a registry user account',
+    expectedCommand: 'npm adduser',
+    hint: 'Aliases: add-user',
+    commandName: 'adduser',
+    difficulty: 'intermediate',
+    topics: ['publishing'],
+  },
+  {
+    key: 'adduser.registry',
+    title: 'Add a registry user account with additional option',
+    description: 'Registry URL',
+    expectedCommand: 'npm adduser --registry=https://registry.npmjs.org/',
+    commandName: 'adduser',
+    difficulty: 'intermediate',
+    topics: ['publishing', 'config'],
+    prerequisites: ['adduser.use-adduser-command'],
+    commandExplanation: 'Uses adduser with --registry parameter. Registry URL',
+  },
+  {
+    key: 'adduser.scope',
+    title: 'Add a registry user account with additional option',
+    description: 'Scope for authentication',
+    expectedCommand: 'npm adduser --scope=@mycompany',
+    commandName: 'adduser',
+    difficulty: 'intermediate',
+    topics: ['publishing'],
+    prerequisites: ['adduser.use-adduser-command'],
+    commandExplanation: 'Uses adduser with --scope parameter. Scope for authentication',
+  },
+  {
+    key: 'adduser.auth-type',
+    title: 'Add a registry user account with additional option',
+    description: 'Authentication type (legacy, web)',
+    expectedCommand: 'npm adduser --auth-type=web',
+    commandName: 'adduser',
+    difficulty: 'intermediate',
+    topics: ['publishing'],
+    prerequisites: ['adduser.use-adduser-command'],
+    commandExplanation: 'Uses adduser with --auth-type parameter. Authentication type (legacy, web)',
+  },
+
+  // ========== LOGIN ==========
+  {
+    key: 'login.use-login-command',
+    title: 'Use login command',
+    description: 'Login to a registry user account',
+    expectedCommand: 'npm login',
+    commandName: 'login',
+    difficulty: 'beginner',
+    topics: ['publishing'],
+  },
+  {
+    key: 'login.registry',
+    title: 'Login to a registry user account with additional option',
+    description: 'Registry URL',
+    expectedCommand: 'npm login --registry=https://registry.npmjs.org/',
+    commandName: 'login',
+    difficulty: 'intermediate',
+    topics: ['publishing', 'config'],
+    prerequisites: ['login.use-login-command'],
+    commandExplanation: 'Uses login with --registry parameter. Registry URL',
+  },
+  {
+    key: 'login.scope',
+    title: 'Login to a registry user account with additional option',
+    description: 'Scope for authentication',
+    expectedCommand: 'npm login --scope=@mycompany',
+    commandName: 'login',
+    difficulty: 'intermediate',
+    topics: ['publishing'],
+    prerequisites: ['login.use-login-command'],
+    commandExplanation: 'Uses login with --scope parameter. Scope for authentication',
+  },
+  {
+    key: 'login.auth-type',
+    title: 'Login to a registry user account with additional option',
+    description: 'Authentication type (legacy, web)',
+    expectedCommand: 'npm login --auth-type=web',
+    commandName: 'login',
+    difficulty: 'intermediate',
+    topics: ['publishing'],
+    prerequisites: ['login.use-login-command'],
+    commandExplanation: 'Uses login with --auth-type parameter. Authentication type (legacy, web)',
+  },
+
+  // ========== LOGOUT ==========
+  {
+    key: 'logout.use-logout-command',
+    title: 'Use logout command',
+    description: 'Log out of the registry',
+    expectedCommand: 'npm logout',
+    commandName: 'logout',
+    difficulty: 'beginner',
+    topics: ['publishing'],
+    prerequisites: ['login.use-login-command'],
+  },
+  {
+    key: 'logout.registry',
+    title: 'Log out of the registry with additional option',
+    description: 'Registry URL',
+    expectedCommand: 'npm logout --registry=https://registry.npmjs.org/',
+    commandName: 'logout',
+    difficulty: 'intermediate',
+    topics: ['publishing', 'config'],
+    prerequisites: ['logout.use-logout-command'],
+    commandExplanation: 'Uses logout with --registry parameter. Registry URL',
+  },
+  {
+    key: 'logout.scope',
+    title: 'Log out of the registry with additional option',
+    description: 'Scope for authentication',
+    expectedCommand: 'npm logout --scope=@mycompany',
+    commandName: 'logout',
+    difficulty: 'intermediate',
+    topics: ['publishing'],
+    prerequisites: ['logout.use-logout-command'],
+    commandExplanation: 'Uses logout with --scope parameter. Scope for authentication',
+  },
+
+  // ========== BUGS ==========
+  {
+    key: 'bugs.use-bugs-command',
+    title: 'Use bugs command',
+    description: 'Open package bugs page in browser',
+    expectedCommand: 'npm bugs',
+    hint: 'Aliases: issues',
+    commandName: 'bugs',
+    difficulty: 'beginner',
+    topics: ['basics'],
+  },
+
+  // ========== DOCS ==========
+  {
+    key: 'docs.use-docs-command',
+    title: 'Use docs command',
+    description: 'Open package documentation in browser',
+    expectedCommand: 'npm docs',
+    hint: 'Aliases: home',
+    commandName: 'docs',
+    difficulty: 'beginner',
+    topics: ['basics'],
+  },
+
+  // ========== EDIT ==========
+  {
+    key: 'edit.edit-an-installed-package',
+    title: 'Edit an installed package',
+    description: 'Open the installed lodash package in your editor',
+    expectedCommand: 'npm edit lodash',
+    hint: 'Usage: npm edit <pkg>',
+    commandName: 'edit',
+    difficulty: 'intermediate',
+    topics: ['basics'],
+  },
+
+  // ========== EXPLORE ==========
+  {
+    key: 'explore.explore-an-installed-package',
+    title: 'Explore an installed package',
+    description: 'Open a shell in the folder of the installed lodash package',
+    expectedCommand: 'npm explore lodash',
+    hint: 'Usage: npm explore <pkg> [<command> ...]',
+    commandName: 'explore',
+    difficulty: 'advanced',
+    topics: ['basics'],
+  },
+
+  // ========== DIFF ==========
+  {
+    key: 'diff.use-diff-command',
+    title: 'Use diff command',
+    description: 'Show package diff',
+    expectedCommand: 'npm diff',
+    commandName: 'diff',
+    difficulty: 'advanced',
+    topics: ['publishing'],
+  },
+
+  // ========== DIST-TAG ==========
+  {
+    key: 'dist-tag.use-dist-tag-command',
+    title: 'Use dist-tag command',
+    description: 'Modify package distribution tags',
+    expectedCommand: 'npm dist-tag',
+    hint: 'Aliases: dist-tags',
+    commandName: 'dist-tag',
+    difficulty: 'intermediate',
+    topics: ['publishing'],
+    prerequisites: ['publish.publish-package'],
+  },
+  {
+    key: 'dist-tag.tag-a-version',
+    title: 'Tag a version',
+    description: 'Point the "beta" tag of my-project at version 1.1.0',
+    expectedCommand: 'npm dist-tag add my-project@1.1.0 beta',
+    hint: 'Usage: npm dist-tag add <package-spec> [<tag>]',
+    commandName: 'dist-tag',
+    difficulty: 'intermediate',
+    topics: ['publishing'],
+    prerequisites: ['dist-tag.use-dist-tag-command'],
+    commandExplanation: 'npm dist-tag add: Tag a version of a package.',
+  },
+  {
+    key: 'dist-tag.remove-a-tag',
+    title: 'Remove a tag',
+    description: 'Delete the "beta" tag from my-project',
+    expectedCommand: 'npm dist-tag rm my-project beta',
+    hint: 'Usage: npm dist-tag rm <package-spec> <tag>',
+    commandName: 'dist-tag',
+    difficulty: 'intermediate',
+    topics: ['publishing'],
+    prerequisites: ['dist-tag.use-dist-tag-command'],
+    commandExplanation: 'npm dist-tag rm: Remove a tag from a package.',
+  },
+  {
+    key: 'dist-tag.list-dist-tags',
+    title: 'List dist-tags',
+    description: 'Show the distribution tags (latest, next, ...) of react',
+    expectedCommand: 'npm dist-tag ls react',
+    hint: 'Usage: npm dist-tag ls [<package-spec>]',
+    commandName: 'dist-tag',
+    difficulty: 'intermediate',
+    topics: ['publishing'],
+    prerequisites: ['dist-tag.use-dist-tag-command'],
+    commandExplanation: 'npm dist-tag ls: List the tags of a package.',
+  },
+
+  // ========== UNDEPRECATE ==========
+  {
+    key: 'undeprecate.undeprecate-a-version',
+    title: 'Undeprecate a version',
+    description: 'Remove the deprecation message from version 1.0.0 of my-package',
+    expectedCommand: 'npm undeprecate my-package@1.0.0',
+    hint: 'Usage: npm undeprecate <package-spec>',
+    commandName: 'undeprecate',
+    difficulty: 'intermediate',
+    topics: ['publishing'],
+    prerequisites: ['deprecate.deprecate-specific-version'],
+  },
+  {
+    key: 'undeprecate.registry',
+    title: 'Undeprecate a package version with additional option',
+    description: 'Registry URL',
+    expectedCommand: 'npm undeprecate my-package@1.0.0 --registry=https://registry.npmjs.org/',
+    commandName: 'undeprecate',
+    difficulty: 'intermediate',
+    topics: ['publishing', 'config'],
+    prerequisites: ['undeprecate.undeprecate-a-version'],
+    commandExplanation: 'Uses undeprecate with --registry parameter. Registry URL',
+  },
+  {
+    key: 'undeprecate.otp',
+    title: 'Undeprecate a package version with additional option',
+    description: 'One-time password for 2FA',
+    expectedCommand: 'npm undeprecate my-package@1.0.0 --otp=123456',
+    commandName: 'undeprecate',
+    difficulty: 'intermediate',
+    topics: ['publishing'],
+    prerequisites: ['undeprecate.undeprecate-a-version'],
+    commandExplanation: 'Uses undeprecate with --otp parameter. One-time password for 2FA',
+  },
+
+  // ========== COMPLETION ==========
+  {
+    key: 'completion.use-completion-command',
+    title: 'Use completion command',
+    description: 'Tab completion for npm',
+    expectedCommand: 'npm completion',
+    commandName: 'completion',
+    difficulty: 'advanced',
+    topics: ['basics'],
+  },
+
+  // ========== BIN ==========
+  {
+    key: 'bin.use-bin-command',
+    title: 'Use bin command',
+    description: 'Display npm bin folder',
+    expectedCommand: 'npm bin',
+    commandName: 'bin',
+    difficulty: 'beginner',
+    topics: ['config'],
+  },
+  {
+    key: 'bin.g',
+    title: 'Display npm bin folder with additional option',
+    description: 'Display global bin folder',
+    expectedCommand: 'npm bin -g',
+    hint: 'This option has aliases: --global',
+    commandName: 'bin',
+    difficulty: 'beginner',
+    topics: ['config'],
+    prerequisites: ['bin.use-bin-command'],
+    commandExplanation: 'Uses bin with -g parameter. Display global bin folder',
+  },
+
+  // ========== PKG ==========
+  {
+    key: 'pkg.read-a-package-json-field',
+    title: 'Read a package.json field',
+    description: 'Print the "name" field of package.json',
+    expectedCommand: 'npm pkg get name',
+    hint: 'Usage: npm pkg get [<field> ...]',
+    commandName: 'pkg',
+    difficulty: 'intermediate',
+    topics: ['basics'],
+    commandExplanation: 'npm pkg get: Print package.json fields.',
+  },
+  {
+    key: 'pkg.set-a-package-json-field',
+    title: 'Set a package.json field',
+    description: 'Set the package description to "My project" without editing the file',
+    expectedCommand: 'npm pkg set description="My project"',
+    hint: 'Usage: npm pkg set <field=value> [<field=value> ...]',
+    commandName: 'pkg',
+    difficulty: 'intermediate',
+    topics: ['basics'],
+    prerequisites: ['pkg.read-a-package-json-field'],
+    commandExplanation: 'npm pkg set: Set package.json fields.',
+  },
+  {
+    key: 'pkg.delete-a-package-json-field',
+    title: 'Delete a package.json field',
+    description: 'Remove the "stop" script from package.json',
+    expectedCommand: 'npm pkg delete scripts.stop',
+    hint: 'Usage: npm pkg delete <field> [<field> ...]',
+    commandName: 'pkg',
+    difficulty: 'intermediate',
+    topics: ['basics'],
+    prerequisites: ['pkg.read-a-package-json-field'],
+    commandExplanation: 'npm pkg delete: Delete package.json fields.',
+  },
+  {
+    key: 'pkg.fix-package-json',
+    title: 'Fix package.json',
+    description: 'Automatically correct common errors in package.json',
+    expectedCommand: 'npm pkg fix',
+    hint: 'Usage: npm pkg fix',
+    commandName: 'pkg',
+    difficulty: 'intermediate',
+    topics: ['basics'],
+    prerequisites: ['pkg.read-a-package-json-field'],
+    commandExplanation: 'npm pkg fix: Fix common errors in package.json.',
+  },
+
+  // ========== QUERY ==========
+  {
+    key: 'query.query-direct-dependencies',
+    title: 'Query direct dependencies',
+    description: 'Select the direct dependencies of your project with a CSS-like selector',
+    expectedCommand: 'npm query ":root > *"',
+    hint: 'Usage: npm query <selector>',
+    commandName: 'query',
+    difficulty: 'advanced',
+    topics: ['dependencies'],
+  },
+
+  // ========== SBOM ==========
+  {
+    key: 'sbom.use-sbom-command',
+    title: 'Use sbom command',
+    description: 'Generate a Software Bill of Materials',
+    expectedCommand: 'npm sbom',
+    commandName: 'sbom',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'security'],
+  },
+  {
+    key: 'sbom.format',
+    title: 'Generate a Software Bill of Materials with additional option',
+    description: 'Output format',
+    expectedCommand: 'npm sbom --format=cyclonedx',
+    commandName: 'sbom',
+    difficulty: 'advanced',
+    topics: ['dependencies', 'security'],
+    prerequisites: ['sbom.use-sbom-command'],
+    commandExplanation: 'Uses sbom with --format parameter. Output format',
+  },
+
+  // ========== OUTCOMES ==========
+  {
+    key: 'install.make-lodash-a-dev-dependency',
+    title: 'Make lodash a dev dependency',
+    description: 'lodash is only used by tests. Move it from dependencies to devDependencies',
+    expectedCommand: 'npm install lodash --save-dev',
+    goals: [{ kind: 'dependency', name: 'lodash', field: 'devDependencies' }],
+    hint: 'Installing a package with a save flag moves it to that dependency type',
+    commandName: 'install',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['install.install-lodash-package'],
+    commandExplanation: 'Installing an already declared package with --save-dev (-D) moves it to devDependencies.',
+  },
+  {
+    key: 'prune.clean-up-node-modules',
+    title: 'Clean up node_modules',
+    description: 'Remove every installed package that package.json doesn\'t need',
+    expectedCommand: 'npm prune',
+    goals: [{ kind: 'no-extraneous' }],
+    hint: 'npm ls shows extraneous packages',
+    commandName: 'prune',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['prune.remove-extraneous-packages'],
+    commandExplanation: 'npm prune removes extraneous packages. Uninstalling each of them by name works too.',
+  },
+  {
+    key: 'uninstall.drop-express',
+    title: 'Drop express',
+    description: 'Remove express from package.json and node_modules',
+    expectedCommand: 'npm uninstall express',
+    goals: [{ kind: 'no-dependency', name: 'express' }, { kind: 'not-installed', name: 'express' }],
+    hint: 'Aliases: npm remove, npm rm, npm un',
+    commandName: 'uninstall',
+    difficulty: 'intermediate',
+    topics: ['dependencies'],
+    prerequisites: ['uninstall.uninstall-lodash-package'],
+    commandExplanation: 'npm uninstall removes the package from package.json and node_modules, along with dependencies nothing else needs.',
+  },
+  {
+    key: 'pkg.add-a-lint-script',
+    title: 'Add a lint script',
+    description: 'Add a "lint" script to package.json that runs eslint .',
+    expectedCommand: 'npm pkg set scripts.lint="eslint ."',
+    goals: [{ kind: 'script', name: 'lint', command: 'eslint .' }],
+    hint: 'npm pkg set edits package.json fields by path',
+    commandName: 'pkg',
+    difficulty: 'intermediate',
+    topics: ['basics'],
+    prerequisites: ['pkg.read-a-package-json-field'],
+    commandExplanation: 'npm pkg set scripts.lint="eslint ." writes the script into package.json.',
+  },
+
+  // ========== SCENARIOS ==========
+  {
+    key: 'install.set-up-a-dev-server',
+    title: 'Set up a dev server',
+    description: 'Prepare the project for development with a server that restarts on changes',
+    expectedCommand: 'npm init -y',
+    steps: [
+      {
+        description: 'Make sure package.json has all the default fields, without answering questions',
+        expectedCommand: 'npm init -y',
+        hint: 'Use -y (--yes) to accept the defaults',
+      },
+      {
+        description: 'Add nodemon as a dev dependency',
+        expectedCommand: 'npm install nodemon --save-dev',
+        goals: [{ kind: 'dependency', name: 'nodemon', field: 'devDependencies' }],
+        hint: 'Use --save-dev (-D)',
+      },
+      {
+        description: 'Add a "dev" script that runs nodemon index.js',
+        expectedCommand: 'npm pkg set scripts.dev="nodemon index.js"',
+        goals: [{ kind: 'script', name: 'dev', command: 'nodemon index.js' }],
+        hint: 'npm pkg set edits package.json fields by path',
+      },
+      {
+        description: 'Start the dev script',
+        expectedCommand: 'npm run dev',
+        hint: 'Only a few scripts like test and start have their own command',
+      },
+    ],
+    commandName: 'install',
+    difficulty: 'intermediate',
+    topics: ['basics', 'dependencies'],
+    prerequisites: ['install.install-lodash-package', 'init.initialize-a-new-project', 'pkg.read-a-package-json-field', 'run.list-available-scripts'],
+    commandExplanation: 'Dev tools like nodemon go in devDependencies, and scripts give them a short name to run with npm run.',
+  },
+  {
+    key: 'publish.release-a-patch',
+    title: 'Release a patch',
+    description: 'Check, version and rehearse publishing a bug fix release',
+    expectedCommand: 'npm test',
+    steps: [
+      {
+        description: 'Run the tests first',
+        expectedCommand: 'npm test',
+        hint: 'Aliases: npm t, npm tst',
+      },
+      {
+        description: 'Bump the version for a bug fix (1.0.0 to 1.0.1)',
+        expectedCommand: 'npm version patch',
+        hint: 'Versions are major.minor.patch',
+      },
+      {
+        description: 'See what would be published, without publishing',
+        expectedCommand: 'npm publish --dry-run',
+        hint: 'Use --dry-run',
+      },
+    ],
+    commandName: 'publish',
+    difficulty: 'intermediate',
+    topics: ['basics', 'publishing'],
+    prerequisites: ['publish.publish-package', 'test.run-tests', 'version.bump-patch-version'],
+    commandExplanation: 'npm version patch bumps the patch number, and npm publish --dry-run lists the files that would be published.',
+  },
+];
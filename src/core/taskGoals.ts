@@ -0,0 +1,69 @@
+/**
+ * Task Goals
+ * Outcome-based tasks: the answer counts when the simulated project reaches a goal,
+ * whatever commands were used to get there
+ */
+
+import { DependencyField, getDeclaredDependencies, ProjectState } from './projectState';
+import { satisfies } from './semver';
+
+export type TaskGoal =
+  | { kind: 'dependency'; name: string; field: DependencyField } // Declared in this field of package.json
+  | { kind: 'no-dependency'; name: string } // Not declared in package.json
+  | { kind: 'installed'; name: string; range?: string } // In node_modules, optionally at a version in range
+  | { kind: 'not-installed'; name: string } // Not in node_modules
+  | { kind: 'no-extraneous' } // Nothing in node_modules that package.json doesn't need
+  | { kind: 'config'; key: string; value?: string } // Set to value in .npmrc, or unset when value is omitted
+  | { kind: 'script'; name: string; command: string }; // Script in package.json runs this command
+
+/**
+ * Describe why a goal isn't met yet, or null when it is
+ */
+function getGoalProblem(goal: TaskGoal, state: ProjectState): string | null {
+  const declared = getDeclaredDependencies(state.packageJson);
+
+  switch (goal.kind) {
+    case 'dependency': {
+      const current = declared[goal.name];
+      if (current?.field === goal.field) return null;
+      return current
+        ? `${goal.name} is in ${current.field}, not ${goal.field}`
+        : `${goal.name} isn't in ${goal.field}`;
+    }
+    case 'no-dependency':
+      return declared[goal.name] ? `${goal.name} is still in ${declared[goal.name].field}` : null;
+    case 'installed': {
+      const installed = state.nodeModules[goal.name];
+      if (!installed) return `${goal.name} isn't installed`;
+      if (goal.range && !satisfies(installed.version, goal.range)) {
+        return `${goal.name}@${installed.version} is installed, but the goal is ${goal.name}@${goal.range}`;
+      }
+      return null;
+    }
+    case 'not-installed':
+      return state.nodeModules[goal.name] ? `${goal.name} is still installed` : null;
+    case 'no-extraneous': {
+      const extraneous = Object.values(state.nodeModules).filter(pkg => pkg.extraneous).map(pkg => pkg.name);
+      return extraneous.length > 0 ? `Extraneous packages are still installed: ${extraneous.join(', ')}` : null;
+    }
+    case 'config': {
+      const current = state.npmrc[goal.key];
+      if (current === goal.value) return null;
+      if (goal.value === undefined) return `${goal.key} is still set`;
+      return current === undefined ? `${goal.key} isn't set` : `${goal.key} is set to ${current}`;
+    }
+    case 'script': {
+      const current = state.packageJson.scripts?.[goal.name];
+      if (current === goal.command) return null;
+      return current === undefined ? `There is no ${goal.name} script` : `The ${goal.name} script runs ${current}`;
+    }
+  }
+}
+
+/**
+ * Check a project against a task's goals
+ * Returns why each unmet goal isn't met, so an empty list means the task is done
+ */
+export function checkTaskGoals(goals: TaskGoal[], state: ProjectState): string[] {
+  return goals.map(goal => getGoalProblem(goal, state)).filter((problem): problem is string => problem !== null);
+}
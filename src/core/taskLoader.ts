@@ -0,0 +1,161 @@
+/**
+ * Task Loader
+ * Turns the task definitions in taskData.ts into tasks, checking them against the npm command definitions
+ */
+
+import { NPM_COMMANDS } from './commands';
+import { parseCommand } from './parser';
+import type { Task } from './taskSystem';
+import type { TaskRules } from './taskRules';
+import { TASK_DIFFICULTIES, TASK_TOPICS } from './curriculum';
+
+/**
+ * A task as written in taskData.ts
+ * Numeric ids are assigned at load time from the order of definitions
+ */
+export type TaskDefinition = Omit<Task, 'id'>;
+
+// Keys name the command and the task, e.g. "install.save-dev"
+const KEY_PATTERN = /^[a-z0-9-]+\.[a-z0-9-]+$/;
+
+// Definition lists that passed validation, so reloading them doesn't parse every answer again
+const validatedDefinitions = new WeakSet<TaskDefinition[]>();
+
+/**
+ * Check that rules refer to a command and subcommand that exist
+ */
+function getRulesProblem(rules: TaskRules): string | null {
+  const [commandName, subcommandName] = rules.command.split(' ');
+  const command = NPM_COMMANDS.find(cmd => cmd.name === commandName);
+  if (!command) {
+    return `rules use unknown command ${commandName}`;
+  }
+  if (subcommandName && !command.subcommands?.some(sub => sub.name === subcommandName)) {
+    return `rules use unknown subcommand ${rules.command}`;
+  }
+  return null;
+}
+
+/**
+ * Find a cycle in the prerequisites, e.g. ["a", "b", "a"] when a needs b and b needs a
+ * Returns null when the prerequisites form no cycle
+ */
+function findPrerequisiteCycle(definitions: TaskDefinition[]): string[] | null {
+  const prerequisites = new Map(definitions.map(definition => [definition.key, definition.prerequisites || []]));
+  const done = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (key: string): string[] | null => {
+    const index = path.indexOf(key);
+    if (index !== -1) {
+      return [...path.slice(index), key];
+    }
+    if (done.has(key)) {
+      return null;
+    }
+    path.push(key);
+    for (const prerequisite of prerequisites.get(key) || []) {
+      const cycle = visit(prerequisite);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    path.pop();
+    done.add(key);
+    return null;
+  };
+
+  for (const { key } of definitions) {
+    const cycle = visit(key);
+    if (cycle) {
+      return cycle;
+    }
+  }
+  return null;
+}
+
+/**
+ * Check task definitions against NPM_COMMANDS
+ * Returns one message per problem, so an empty list means every definition can be loaded
+ */
+export function validateTaskDefinitions(definitions: TaskDefinition[]): string[] {
+  const problems: string[] = [];
+  const keys = new Set<string>();
+  const allKeys = new Set(definitions.map(definition => definition.key));
+
+  for (const definition of definitions) {
+    const { key } = definition;
+    const report = (problem: string) => problems.push(`${key}: ${problem}`);
+
+    if (!KEY_PATTERN.test(key)) {
+      report('key must look like "command.task-name"');
+    }
+    if (keys.has(key)) {
+      report('key is used by more than one task');
+    }
+    keys.add(key);
+
+    if (!NPM_COMMANDS.some(cmd => cmd.name === definition.commandName || cmd.aliases?.includes(definition.commandName))) {
+      report(`unknown command ${definition.commandName}`);
+    }
+    if (!TASK_DIFFICULTIES.includes(definition.difficulty)) {
+      report(`unknown difficulty ${definition.difficulty}`);
+    }
+    if (definition.topics.length === 0) {
+      report('a task needs at least one topic');
+    }
+    for (const topic of definition.topics.filter(topic => !TASK_TOPICS.includes(topic))) {
+      report(`unknown topic ${topic}`);
+    }
+    for (const prerequisite of definition.prerequisites || []) {
+      if (!allKeys.has(prerequisite)) {
+        report(`unknown prerequisite ${prerequisite}`);
+      }
+    }
+    if (definition.steps && definition.steps[0]?.expectedCommand !== definition.expectedCommand) {
+      report('a scenario\'s expected command must be the answer to its first step');
+    }
+    for (const command of definition.setup || []) {
+      const parsed = parseCommand(command);
+      if (!parsed.isValid) {
+        report(`setup "${command}" is not a valid command: ${parsed.errorMessage}`);
+      }
+    }
+
+    for (const answerable of [definition, ...(definition.steps || [])]) {
+      for (const answer of [answerable.expectedCommand, ...(answerable.acceptedCommands || [])]) {
+        const parsed = parseCommand(answer);
+        if (!parsed.isValid) {
+          report(`"${answer}" is not a valid command: ${parsed.errorMessage}`);
+        }
+      }
+      const rulesProblem = answerable.rules && getRulesProblem(answerable.rules);
+      if (rulesProblem) {
+        report(rulesProblem);
+      }
+    }
+  }
+
+  const cycle = findPrerequisiteCycle(definitions);
+  if (cycle) {
+    problems.push(`prerequisites form a cycle: ${cycle.join(' -> ')}`);
+  }
+
+  return problems;
+}
+
+/**
+ * Load tasks from their definitions
+ * Throws when a definition is invalid, so broken content is caught as soon as the app starts
+ */
+export function loadTasks(definitions: TaskDefinition[]): Task[] {
+  if (!validatedDefinitions.has(definitions)) {
+    const problems = validateTaskDefinitions(definitions);
+    if (problems.length > 0) {
+      throw new Error(`Invalid task definitions:\n${problems.join('\n')}`);
+    }
+    validatedDefinitions.add(definitions);
+  }
+
+  return definitions.map((definition, index) => ({ id: index + 1, ...definition }));
+}
@@ -0,0 +1,85 @@
+/**
+ * Task Rules
+ * Accept answers by what they must and must not contain, instead of comparing with one command
+ */
+
+import { NPM_COMMANDS } from './commands';
+import { CommandDifference, diffArguments, ParsedCommand } from './parser';
+import { PackageMatchMode } from './packageSpec';
+
+export interface TaskRules {
+  command: string; // Command, or command and subcommand, e.g. "install" or "config set"
+  requiredFlags?: string[]; // Every one of these must be given (normalized names, e.g. "--save-dev")
+  forbiddenFlags?: string[]; // None of these may be given
+  anyOf?: string[][]; // At least one flag from each group must be given
+  arguments?: string[]; // Exactly these positional arguments, in any order
+}
+
+/**
+ * Check an answer against a task's rules
+ * Returns the differences that break a rule, so they can be explained and scored like any other answer
+ */
+export function checkTaskRules(
+  rules: TaskRules,
+  parsed: ParsedCommand,
+  packageMatch: PackageMatchMode = 'equivalent'
+): CommandDifference[] {
+  const [commandName, subcommandName] = rules.command.split(' ');
+  const command = NPM_COMMANDS.find(cmd => cmd.name === commandName);
+  const subcommand = command?.subcommands?.find(sub => sub.name === subcommandName);
+
+  if (parsed.command?.name !== commandName) {
+    return [{
+      kind: 'command',
+      target: commandName,
+      description: command?.description,
+      expected: [commandName],
+      actual: parsed.command ? [parsed.command.name] : [],
+    }];
+  }
+  if (parsed.subcommand?.name !== subcommandName) {
+    return [{
+      kind: 'subcommand',
+      target: subcommandName || '',
+      description: subcommand?.description,
+      expected: [rules.command],
+      actual: parsed.subcommand ? [parsed.subcommand.name] : [],
+    }];
+  }
+
+  const availableParams = [...(command?.parameters || []), ...(subcommand?.parameters || [])];
+  const describe = (flag: string) => availableParams.find(p => p.name === flag)?.description;
+  const differences: CommandDifference[] = [];
+
+  for (const flag of rules.requiredFlags || []) {
+    if (!parsed.parameters.includes(flag)) {
+      differences.push({ kind: 'missing-flag', target: flag, description: describe(flag) });
+    }
+  }
+  for (const group of rules.anyOf || []) {
+    if (!group.some(flag => parsed.parameters.includes(flag))) {
+      const descriptions = group.map(describe);
+      differences.push({
+        kind: 'missing-flag',
+        target: group.join(' or '),
+        description: descriptions.every(Boolean) ? descriptions.join(', or ') : undefined,
+      });
+    }
+  }
+  for (const flag of rules.forbiddenFlags || []) {
+    if (parsed.parameters.includes(flag)) {
+      differences.push({ kind: 'extra-flag', target: flag, description: describe(flag) });
+    }
+  }
+
+  // Flags the command doesn't know are never part of a correct answer
+  for (const [flag, suggestions] of Object.entries(parsed.unknownParameters || {})) {
+    differences.push({ kind: 'unknown-flag', target: flag, suggestions });
+  }
+
+  if (rules.arguments) {
+    differences.push(...diffArguments('argument', rules.arguments, [...parsed.packageNames, ...parsed.passThroughArgs], packageMatch));
+  }
+
+  return differences;
+}
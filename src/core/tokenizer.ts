@@ -0,0 +1,119 @@
+/**
+ * Command Tokenizer
+ * Splits command input into arguments the way a POSIX shell does (quotes, escapes, any whitespace)
+ */
+
+export interface SourceRange {
+  start: number; // Index of the first character in the input
+  end: number; // Index after the last character
+}
+
+export interface Token extends SourceRange {
+  value: string; // Argument after removing quotes and escapes
+}
+
+export interface TokenizeResult {
+  tokens: Token[];
+  error?: string;
+  errorRange?: SourceRange; // Part of the input the error refers to
+}
+
+const WHITESPACE = /\s/;
+const DOUBLE_QUOTE_ESCAPES = ['"', '\\', '$', '`'];
+
+/**
+ * Split input into shell arguments
+ * - Single quotes keep everything literally: 'a\b' is a\b
+ * - Double quotes allow escaping " \ $ and `: "say \"hi\"" is say "hi"
+ * - Outside quotes a backslash escapes any character: John\ Doe is one argument
+ * - Adjacent segments join: --name="John "Doe is --name=John Doe
+ * - Empty quotes are an empty argument: "" is kept
+ */
+export function tokenize(input: string): TokenizeResult {
+  const tokens: Token[] = [];
+  let value = '';
+  let start = -1; // Start of the current token, -1 between tokens
+  let i = 0;
+
+  const endToken = () => {
+    if (start !== -1) {
+      tokens.push({ value, start, end: i });
+      value = '';
+      start = -1;
+    }
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (WHITESPACE.test(char)) {
+      endToken();
+      i++;
+      continue;
+    }
+
+    if (start === -1) {
+      start = i;
+    }
+
+    if (char === '\\') {
+      if (input[i + 1] === '\n') {
+        i += 2; // Line continuation
+      } else if (i + 1 < input.length) {
+        value += input[i + 1];
+        i += 2;
+      } else {
+        value += char; // A trailing backslash has nothing to escape
+        i++;
+      }
+    } else if (char === '\'' || char === '"') {
+      const close = findClosingQuote(input, i);
+      if (close === -1) {
+        return {
+          tokens,
+          error: `Unterminated quote at column ${i + 1}`,
+          errorRange: { start: i, end: input.length },
+        };
+      }
+      value += char === '\'' ? input.slice(i + 1, close) : unescapeDoubleQuoted(input.slice(i + 1, close));
+      i = close + 1;
+    } else {
+      value += char;
+      i++;
+    }
+  }
+
+  endToken();
+  return { tokens };
+}
+
+/**
+ * Find the quote closing the one at index open, or -1 when it is never closed
+ */
+function findClosingQuote(input: string, open: number): number {
+  const quote = input[open];
+  for (let i = open + 1; i < input.length; i++) {
+    if (quote === '"' && input[i] === '\\') {
+      i++; // Skip the escaped character
+    } else if (input[i] === quote) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Remove the escapes that are special inside double quotes, keeping other backslashes
+ */
+function unescapeDoubleQuoted(text: string): string {
+  let result = '';
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\' && (DOUBLE_QUOTE_ESCAPES.includes(text[i + 1]) || text[i + 1] === '\n')) {
+      result += text[i + 1] === '\n' ? '' : text[i + 1];
+      i++;
+    } else {
+      result += text[i];
+    }
+  }
+  return result;
+}
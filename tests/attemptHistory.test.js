@@ -0,0 +1,81 @@
+/**
+ * Attempt History Tests
+ * Every answer is recorded with its input, correctness and help used, and grouped into solves
+ */
+
+require('./register');
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { createAttempt, recordAttempt, validateTaskCompletion } = require('../src/core/taskSystem.ts');
+const { getAttemptStats, getLastSolve, getOpenAttempts, getTaskSolves } = require('../src/core/attemptHistory.ts');
+const { loadTasks } = require('../src/core/taskLoader.ts');
+const { TASK_DEFINITIONS } = require('../src/core/taskData.ts');
+
+const tasks = loadTasks(TASK_DEFINITIONS);
+const task = tasks.find(current => current.key === 'install.install-lodash-package');
+const scenario = tasks.find(current => current.steps);
+const start = Date.UTC(2026, 0, 1);
+const noHelp = { hintShown: false, solutionShown: false };
+
+// Answer a task and record the attempt, as the app does on every submit
+const answer = (progress, input, help, secondsIn, target = task, step) =>
+  recordAttempt(
+    progress,
+    target.key,
+    createAttempt(input, validateTaskCompletion(target, input, undefined, 'specific', step), help, step, start + secondsIn * 1000)
+  );
+
+test('an answer is recorded with its input, score, correctness and help used', () => {
+  const progress = answer({ attempts: {} }, 'npm install lodash -g', { hintShown: true, solutionShown: false }, 0);
+  const [attempt] = progress.attempts[task.key];
+
+  assert.equal(attempt.input, 'npm install lodash -g');
+  assert.equal(attempt.isCorrect, false);
+  assert.equal(attempt.completed, false);
+  assert.equal(attempt.grade, 'near-miss');
+  assert.equal(attempt.score, 85);
+  assert.ok(attempt.mismatch);
+  assert.equal(attempt.hintShown, true);
+  assert.equal(attempt.solutionShown, false);
+  assert.equal(attempt.step, undefined);
+  assert.equal(attempt.timestamp, start);
+});
+
+test('answers are grouped into solves, each ending with the answer that completed the task', () => {
+  let progress = { attempts: {} };
+  progress = answer(progress, 'npm install', noHelp, 0);
+  progress = answer(progress, 'npm install lodash', noHelp, 30);
+  progress = answer(progress, 'npm install lodash', { hintShown: true, solutionShown: false }, 100);
+  progress = answer(progress, 'npm uninstall lodash', noHelp, 200);
+
+  const solves = getTaskSolves(progress, task.key);
+  assert.equal(solves.length, 2);
+  assert.deepEqual(solves.map(solve => solve.attempts.length), [2, 1]);
+  assert.equal(solves[0].timeToSolve, 30 * 1000);
+  assert.equal(solves[0].withoutHelp, true);
+  assert.equal(getLastSolve(progress, task.key).withoutHelp, false);
+  assert.deepEqual(getOpenAttempts(progress, task.key).map(attempt => attempt.input), ['npm uninstall lodash']);
+
+  assert.deepEqual(getAttemptStats(progress), {
+    attempts: 4,
+    correct: 2,
+    solves: 2,
+    solvesWithoutHelp: 1,
+    averageAttemptsToSolve: 1.5,
+    averageTimeToSolve: 15 * 1000,
+  });
+});
+
+test('scenario steps are recorded with their step, and only the last step completes the task', () => {
+  let progress = { attempts: {} };
+  scenario.steps.forEach((step, index) => {
+    progress = answer(progress, step.expectedCommand, noHelp, index, scenario, index);
+  });
+
+  const attempts = progress.attempts[scenario.key];
+  assert.deepEqual(attempts.map(attempt => attempt.step), scenario.steps.map((_, index) => index));
+  assert.ok(attempts.every(attempt => attempt.isCorrect));
+  assert.deepEqual(attempts.map(attempt => attempt.completed), scenario.steps.map((_, index) => index === scenario.steps.length - 1));
+  assert.equal(getTaskSolves(progress, scenario.key).length, 1);
+});
@@ -0,0 +1,48 @@
+/**
+ * Content Check Tests
+ * Duplicate tasks are found by what their answers mean, not how they are spelled
+ */
+
+require('./register');
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { checkContent } = require('../src/core/contentCheck.ts');
+
+const task = (key, expectedCommand, extra = {}) => ({
+  key,
+  title: key,
+  description: key,
+  expectedCommand,
+  commandName: expectedCommand.split(' ')[1],
+  difficulty: 'beginner',
+  topics: ['basics'],
+  ...extra,
+});
+
+const findDuplicates = definitions =>
+  checkContent(definitions).filter(problem => problem.kind === 'duplicate-task').map(problem => problem.target);
+
+test('answers that parse to the same command are duplicates', () => {
+  assert.deepEqual(findDuplicates([task('cache.a', 'npm cache clean --force'), task('cache.b', 'npm cache clean -f')]), ['cache.b']);
+  assert.deepEqual(findDuplicates([task('ls.a', 'npm ls --all'), task('list.a', 'npm list --all')]), ['list.a']);
+  assert.deepEqual(findDuplicates([task('config.a', 'npm config get registry'), task('get.a', 'npm get registry')]), ['get.a']);
+});
+
+test('answers with other flags, values or subcommands are not duplicates', () => {
+  assert.deepEqual(
+    findDuplicates([
+      task('ls.a', 'npm ls --depth=0'),
+      task('ls.b', 'npm ls --depth=1'),
+      task('ls.c', 'npm ls --depth=1 --json'),
+      task('cache.a', 'npm cache verify'),
+      task('cache.b', 'npm cache ls'),
+    ]),
+    []
+  );
+});
+
+test('outcome tasks may share an answer with a plain task', () => {
+  const goals = [{ kind: 'no-extraneous' }];
+  assert.deepEqual(findDuplicates([task('prune.a', 'npm prune'), task('prune.b', 'npm prune', { goals })]), []);
+});
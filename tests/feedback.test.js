@@ -0,0 +1,39 @@
+/**
+ * Feedback Tests
+ * Hints describe how an answer differs from the expected command, giving away more at each level
+ */
+
+require('./register');
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { formatDifferences } = require('../src/core/feedback.ts');
+const { commandsMatch, parseCommand } = require('../src/core/parser.ts');
+
+const hint = (expected, actual, level = 'specific') =>
+  formatDifferences(commandsMatch(parseCommand(expected), parseCommand(actual)).differences, level);
+
+test('hints give away more at each level', () => {
+  assert.equal(hint('npm install lodash --save-dev', 'npm install lodash', 'general'), 'You\'re missing a flag.');
+  assert.equal(
+    hint('npm install lodash --save-dev', 'npm install lodash', 'specific'),
+    'You\'re missing the flag that does this: save to devDependencies.'
+  );
+  assert.equal(hint('npm install lodash --save-dev', 'npm install lodash', 'answer'), 'Add --save-dev.');
+});
+
+test('every difference gets its own hint', () => {
+  assert.equal(
+    hint('npm install lodash --save-dev', 'npm install express --global', 'answer'),
+    'Add --save-dev. Remove --global. Use lodash as the package name.'
+  );
+  assert.equal(hint('npm install lodash', 'npm install lodash --sav-dev'), 'There is no --sav-dev flag. Did you mean --save-dev?');
+});
+
+test('a wrong package is named, and so is a wrong version of the right package', () => {
+  assert.equal(hint('npm install lodash', 'npm install express'), 'express is the wrong package name.');
+  assert.equal(hint('npm install lodash', 'npm install lodash@4.17.21'), 'lodash@4.17.21 is the wrong version of lodash.');
+  assert.equal(hint('npm install lodash@4.17.21', 'npm install lodash@^4.17.0'), 'lodash@^4.17.0 is the wrong version of lodash.');
+  assert.equal(hint('npm install lodash@4.17.21', 'npm install lodash'), 'lodash needs a version.');
+  assert.equal(hint('npm install lodash', 'npm install lodash@4.17.21', 'answer'), 'Use lodash as the package name.');
+});
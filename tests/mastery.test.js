@@ -0,0 +1,75 @@
+/**
+ * Mastery Tests
+ * Mastery weighs recent answers most, takes the help used into account and fades with time
+ */
+
+require('./register');
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { getCommandMastery, getParameterMastery, getWeakestSkills } = require('../src/core/mastery.ts');
+const { loadTasks } = require('../src/core/taskLoader.ts');
+const { TASK_DEFINITIONS } = require('../src/core/taskData.ts');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = Date.UTC(2026, 6, 1);
+const tasks = loadTasks(TASK_DEFINITIONS);
+
+const answer = (score, daysAgo, help = {}) => ({
+  input: '',
+  score,
+  grade: score === 100 ? 'correct' : 'incorrect',
+  isCorrect: score === 100,
+  completed: score === 100,
+  hintShown: false,
+  solutionShown: false,
+  timestamp: now - daysAgo * DAY_MS,
+  ...help,
+});
+
+const masteryOf = (command, attempts) =>
+  getCommandMastery({ attempts }, tasks, now).find(skill => skill.command === command)?.mastery;
+
+test('a recent right answer is full mastery', () => {
+  assert.equal(masteryOf('install', { 'install.install-lodash-package': [answer(100, 0)] }), 100);
+});
+
+test('mastery fades when a skill is not practiced', () => {
+  const week = masteryOf('install', { 'install.install-lodash-package': [answer(100, 7)] });
+  const halfYear = masteryOf('install', { 'install.install-lodash-package': [answer(100, 182)] });
+
+  assert.equal(week, 50);
+  assert.equal(halfYear, 0);
+});
+
+test('plenty of older answers still count fully', () => {
+  const attempts = Array.from({ length: 8 }, () => answer(100, 14));
+  assert.equal(masteryOf('install', { 'install.install-lodash-package': attempts }), 100);
+});
+
+test('recent answers outweigh older ones', () => {
+  const improved = masteryOf('install', { 'install.install-lodash-package': [answer(0, 28), answer(100, 0)] });
+  const declined = masteryOf('install', { 'install.install-lodash-package': [answer(100, 28), answer(0, 0)] });
+
+  assert.equal(improved, 94);
+  assert.equal(declined, 6);
+});
+
+test('answers with the hint count half and answers after the solution count nothing', () => {
+  assert.equal(masteryOf('install', { 'install.install-lodash-package': [answer(100, 0, { hintShown: true })] }), 50);
+  assert.equal(masteryOf('install', { 'install.install-lodash-package': [answer(100, 0, { solutionShown: true })] }), 0);
+});
+
+test('flags get their own mastery, and the weakest skills come first', () => {
+  const attempts = {
+    'install.install-lodash-package': [answer(100, 0)],
+    'install.install-as-dev-dependency': [answer(40, 0)],
+  };
+
+  assert.deepEqual(
+    getParameterMastery({ attempts }, tasks, now).map(({ command, parameter, mastery }) => ({ command, parameter, mastery })),
+    [{ command: 'install', parameter: '--save-dev', mastery: 40 }]
+  );
+  assert.equal(masteryOf('install', attempts), 70);
+  assert.equal(getWeakestSkills({ attempts }, tasks, 1, now).parameters[0].parameter, '--save-dev');
+});
@@ -0,0 +1,65 @@
+/**
+ * Parser Tests
+ * Parsing answers and comparing them with the expected command
+ */
+
+require('./register');
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { parseCommand, commandsMatch } = require('../src/core/parser.ts');
+
+const differences = (expected, actual, options) =>
+  commandsMatch(parseCommand(expected), parseCommand(actual), options).differences.map(difference => difference.kind);
+
+test('a wrong pass-through argument is one difference', () => {
+  assert.deepEqual(differences('npm run test -- --watch', 'npm run test -- --coverage'), ['pass-through']);
+  assert.deepEqual(differences('npm exec -- eslint .', 'npm exec -- prettier .'), ['pass-through']);
+  assert.deepEqual(differences('npm init vite -- my-app', 'npm init vite -- other-app'), ['pass-through']);
+});
+
+test('pass-through strictness decides how arguments after -- are compared', () => {
+  assert.deepEqual(differences('npm run test -- --watch', 'npm run test -- --WATCH'), ['pass-through']);
+  assert.deepEqual(differences('npm run test -- --watch', 'npm run test -- --WATCH', { passThroughStrictness: 'loose' }), []);
+  assert.deepEqual(differences('npm run test -- --watch', 'npm run test -- --coverage', { passThroughStrictness: 'ignore' }), []);
+  assert.deepEqual(differences('npm init vite -- my-app', 'npm init vite -- other-app', { passThroughStrictness: 'ignore' }), []);
+});
+
+test('arguments before -- are still compared', () => {
+  assert.deepEqual(differences('npm run test -- --watch', 'npm run build -- --watch', { passThroughStrictness: 'ignore' }), ['wrong-argument']);
+  assert.deepEqual(differences('npm init vite -- my-app', 'npm init react -- my-app'), ['wrong-argument']);
+});
+
+// The part of the input an invalid answer's error points at
+const highlighted = input => {
+  const { errorRange } = parseCommand(input);
+  return errorRange && input.slice(errorRange.start, errorRange.end);
+};
+
+test('every parse error points at the argument it is about', () => {
+  assert.equal(highlighted('npm instll lodash'), 'instll');
+  assert.equal(highlighted('npm install "lodash'), '"lodash');
+  assert.equal(highlighted('npm install --save-exact=maybe'), '--save-exact=maybe');
+  assert.equal(highlighted('npm install -gX lodash'), '-gX');
+  assert.equal(highlighted('npm install --omit dev --omit bogus'), 'bogus');
+  assert.equal(highlighted('npm ls --depth=abc'), '--depth=abc');
+  assert.equal(highlighted('npm config -g frob'), 'frob');
+  assert.equal(highlighted('npm whoami extra'), 'extra');
+  assert.equal(highlighted('npm install lodash  lodash@^^1'), 'lodash@^^1');
+});
+
+test('errors without an offending argument point at the command', () => {
+  assert.equal(highlighted('npm config'), 'config');
+  assert.equal(highlighted('npm  dist-tag add'), 'dist-tag');
+  assert.equal(highlighted('npm'), 'npm');
+});
+
+test('--no-X and --X=true|false are forms of one boolean flag, for flags with a short name too', () => {
+  assert.deepEqual(differences('npm install lodash --no-audit', 'npm install lodash --audit=false'), []);
+  assert.deepEqual(differences('npm init -y', 'npm init --yes=true'), []);
+  assert.deepEqual(differences('npm init -y', 'npm init --yes=false'), ['missing-flag', 'extra-flag']);
+  assert.deepEqual(differences('npm init --no-yes', 'npm init --yes=false'), []);
+  assert.deepEqual(differences('npm init -f', 'npm init --no-force'), ['missing-flag', 'extra-flag']);
+  assert.equal(parseCommand('npm init --no-yes').unknownParameters['--no-yes'], undefined);
+  assert.equal(parseCommand('npm init --yes=maybe').isValid, false);
+});
@@ -0,0 +1,89 @@
+/**
+ * Prerequisite Tests
+ * Tasks stay locked until the tasks they need are completed, and prerequisites can't form a cycle
+ */
+
+require('./register');
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { getMissingPrerequisites, pickNextTaskKey } = require('../src/core/taskSystem.ts');
+const { loadTasks, validateTaskDefinitions } = require('../src/core/taskLoader.ts');
+
+const now = Date.UTC(2026, 0, 1);
+
+const definition = (key, expectedCommand, prerequisites) => ({
+  key,
+  title: key,
+  description: key,
+  expectedCommand,
+  commandName: key.split('.')[0],
+  difficulty: 'beginner',
+  topics: ['dependencies'],
+  ...(prerequisites ? { prerequisites } : {}),
+});
+
+const definitions = [
+  definition('uninstall.remove-lodash', 'npm uninstall lodash', ['install.add-lodash']),
+  definition('update.update-lodash', 'npm update lodash', ['install.add-lodash', 'uninstall.remove-lodash']),
+  definition('install.add-lodash', 'npm install lodash'),
+];
+const tasks = loadTasks(definitions);
+const taskByKey = key => tasks.find(task => task.key === key);
+
+const progressWith = (changes = {}) => ({
+  completedTaskKeys: [],
+  taskOrder: definitions.map(({ key }) => key),
+  attempts: {},
+  reviews: {},
+  ...changes,
+});
+
+test('a task is locked until its prerequisites are completed', () => {
+  assert.deepEqual(getMissingPrerequisites(taskByKey('update.update-lodash'), progressWith()), [
+    'install.add-lodash',
+    'uninstall.remove-lodash',
+  ]);
+  assert.deepEqual(
+    getMissingPrerequisites(taskByKey('update.update-lodash'), progressWith({ completedTaskKeys: ['install.add-lodash'] })),
+    ['uninstall.remove-lodash']
+  );
+  assert.deepEqual(getMissingPrerequisites(taskByKey('install.add-lodash'), progressWith()), []);
+});
+
+test('tasks completed in an earlier round still unlock, and prerequisites outside the track are ignored', () => {
+  const review = { ease: 2.5, interval: 1, repetitions: 1, lapses: 0, dueAt: now + 1000 };
+  assert.deepEqual(
+    getMissingPrerequisites(taskByKey('uninstall.remove-lodash'), progressWith({ reviews: { 'install.add-lodash': review } })),
+    []
+  );
+  assert.deepEqual(
+    getMissingPrerequisites(taskByKey('uninstall.remove-lodash'), progressWith({ taskOrder: ['uninstall.remove-lodash'] })),
+    []
+  );
+});
+
+test('the next task is the first one that is unlocked', () => {
+  assert.equal(pickNextTaskKey(progressWith(), now, tasks), 'install.add-lodash');
+  assert.equal(
+    pickNextTaskKey(progressWith({ completedTaskKeys: ['install.add-lodash'] }), now, tasks),
+    'uninstall.remove-lodash'
+  );
+  assert.equal(
+    pickNextTaskKey(progressWith({ completedTaskKeys: ['install.add-lodash', 'uninstall.remove-lodash'] }), now, tasks),
+    'update.update-lodash'
+  );
+});
+
+test('unknown prerequisites and cycles are rejected on load', () => {
+  assert.deepEqual(validateTaskDefinitions([definition('install.a', 'npm install lodash', ['install.missing'])]), [
+    'install.a: unknown prerequisite install.missing',
+  ]);
+
+  const cycle = validateTaskDefinitions([
+    definition('install.a', 'npm install lodash', ['install.b']),
+    definition('install.b', 'npm install express', ['install.a']),
+  ]);
+  assert.equal(cycle.length, 1);
+  assert.match(cycle[0], /prerequisites form a cycle: install\.a -> install\.b -> install\.a/);
+});
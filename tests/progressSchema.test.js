@@ -0,0 +1,108 @@
+/**
+ * Progress Schema Tests
+ * Migrations of saved progress from every older version up to the current one
+ */
+
+require('./register');
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { migrateProgress, PROGRESS_VERSION } = require('../src/core/progressSchema.ts');
+const { V1_TASK_KEYS } = require('../src/core/legacyTaskKeys.ts');
+const { loadTasks } = require('../src/core/taskLoader.ts');
+const { TASK_DEFINITIONS } = require('../src/core/taskData.ts');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const tasks = loadTasks(TASK_DEFINITIONS);
+const range = (from, to) => Array.from({ length: to - from + 1 }, (_, index) => from + index);
+
+// Progress as the original app saved it: 525 tasks referred to by number
+const baselineSave = () => ({
+  currentTaskId: 11,
+  completedTaskIds: range(1, 10),
+  totalTasks: 525,
+  completionCount: 2,
+  taskOrder: range(1, 525),
+});
+
+test('every version 1 task maps to a current task', () => {
+  assert.equal(V1_TASK_KEYS.length, 525);
+  const keys = new Set(tasks.map(task => task.key));
+  for (const key of V1_TASK_KEYS.filter(key => key !== null)) {
+    assert.ok(keys.has(key), `${key} is not a current task`);
+  }
+});
+
+test('a version 1 save keeps its completed tasks and current task', () => {
+  const progress = migrateProgress(baselineSave(), tasks);
+
+  assert.equal(progress.version, PROGRESS_VERSION);
+  assert.deepEqual(progress.completedTaskKeys, V1_TASK_KEYS.slice(0, 10));
+  assert.equal(progress.completedTaskKeys[0], 'init.initialize-a-new-project');
+  assert.equal(progress.taskOrder[progress.currentTaskId - 1], V1_TASK_KEYS[10]);
+  assert.equal(progress.completionCount, 2);
+  assert.equal(progress.trackKey, 'all');
+  assert.equal(progress.totalTasks, tasks.length);
+  assert.equal(new Set(progress.taskOrder).size, tasks.length);
+  assert.deepEqual(Object.keys(progress.reviews).sort(), [...progress.completedTaskKeys].sort());
+});
+
+test('a version 1 save skips removed tasks without moving the current task', () => {
+  const removedId = V1_TASK_KEYS.indexOf(null) + 1;
+  const saved = { ...baselineSave(), taskOrder: [removedId, removedId + 1], currentTaskId: 2, completedTaskIds: [removedId] };
+  const progress = migrateProgress(saved, tasks);
+
+  assert.deepEqual(progress.completedTaskKeys, []);
+  assert.equal(progress.taskOrder[progress.currentTaskId - 1], V1_TASK_KEYS[removedId]);
+});
+
+test('a version 1 save of another task list keeps only its completion count', () => {
+  const progress = migrateProgress({ ...baselineSave(), totalTasks: 500 }, tasks);
+
+  assert.deepEqual(progress.completedTaskKeys, []);
+  assert.equal(progress.currentTaskId, 1);
+  assert.equal(progress.completionCount, 2);
+});
+
+test('a version 2 save gets a first review and full attempts for every completed task', () => {
+  const answeredAt = Date.UTC(2026, 0, 1);
+  const saved = {
+    version: 2,
+    currentTaskId: 2,
+    completedTaskKeys: ['init.initialize-a-new-project'],
+    totalTasks: 2,
+    completionCount: 0,
+    taskOrder: ['init.initialize-a-new-project', 'install.install-lodash-package'],
+    attempts: { 'init.initialize-a-new-project': [{ score: 100, grade: 'correct', timestamp: answeredAt }] },
+    scenarioSteps: {},
+  };
+  const progress = migrateProgress(saved, tasks);
+
+  assert.deepEqual(progress.reviews['init.initialize-a-new-project'], {
+    ease: 2.5,
+    interval: 1,
+    repetitions: 1,
+    lapses: 0,
+    dueAt: answeredAt + DAY_MS,
+  });
+  assert.deepEqual(progress.attempts['init.initialize-a-new-project'], [
+    {
+      input: '',
+      score: 100,
+      grade: 'correct',
+      isCorrect: true,
+      completed: true,
+      hintShown: false,
+      solutionShown: false,
+      timestamp: answeredAt,
+    },
+  ]);
+  assert.equal(progress.taskOrder[progress.currentTaskId - 1], 'install.install-lodash-package');
+});
+
+test('progress saved by a newer version, or anything that is not progress, is not migrated', () => {
+  assert.equal(migrateProgress({ ...baselineSave(), version: PROGRESS_VERSION + 1 }, tasks), null);
+  assert.equal(migrateProgress({ ...baselineSave(), version: '2' }, tasks), null);
+  assert.equal(migrateProgress(null, tasks), null);
+  assert.equal(migrateProgress('progress', tasks), null);
+});
@@ -0,0 +1,56 @@
+/**
+ * Project State Tests
+ * Commands change the simulated package.json and node_modules the way npm would
+ */
+
+require('./register');
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { applyCommand, createProjectState, LATEST_GIT_TAG } = require('../src/core/projectState.ts');
+const { parseCommand } = require('../src/core/parser.ts');
+const { getStartingProject, validateTaskCompletion } = require('../src/core/taskSystem.ts');
+const { loadTasks } = require('../src/core/taskLoader.ts');
+const { TASK_DEFINITIONS } = require('../src/core/taskData.ts');
+
+const run = (...commands) =>
+  commands.reduce((state, command) => applyCommand(state, parseCommand(command)).state, createProjectState());
+
+test('uninstall accepts packages named with a version', () => {
+  for (const command of ['npm uninstall lodash@4', 'npm uninstall lodash@^4.17.20', 'npm rm lodash']) {
+    const state = run(command);
+    assert.equal(state.nodeModules.lodash, undefined, command);
+    assert.equal(state.packageJson.dependencies.lodash, undefined, command);
+  }
+
+  const scoped = run('npm install @types/node', 'npm uninstall @types/node@20');
+  assert.equal(scoped.nodeModules['@types/node'], undefined);
+});
+
+test('global uninstall accepts packages named with a version', () => {
+  const state = run('npm install -g typescript', 'npm uninstall -g typescript@5');
+  assert.equal(state.globalPackages.typescript, undefined);
+});
+
+test('--save-bundle lists the package in bundleDependencies too', () => {
+  for (const command of ['npm install axios --save-bundle', 'npm install axios -B']) {
+    const state = run(command);
+    assert.ok(state.packageJson.dependencies.axios, command);
+    assert.deepEqual(state.packageJson.bundleDependencies, ['axios'], command);
+  }
+
+  assert.deepEqual(run('npm install axios -B', 'npm install axios -B').packageJson.bundleDependencies, ['axios']);
+  assert.equal(run('npm install axios -B --no-save').packageJson.bundleDependencies, undefined);
+  assert.deepEqual(run('npm install axios -B', 'npm uninstall axios').packageJson.bundleDependencies, []);
+});
+
+test('npm version from-git sets the version of the latest git tag', () => {
+  assert.equal(run('npm version from-git').packageJson.version, LATEST_GIT_TAG.replace(/^v/, ''));
+});
+
+test('no task\'s own answer ends in an npm error on the project it starts from', () => {
+  for (const task of loadTasks(TASK_DEFINITIONS).filter(current => !current.steps)) {
+    const { output } = validateTaskCompletion(task, task.expectedCommand, getStartingProject(task, 0, createProjectState()));
+    assert.doesNotMatch(output || '', /npm error/, task.key);
+  }
+});
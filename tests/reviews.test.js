@@ -0,0 +1,76 @@
+/**
+ * Review Tests
+ * Grading solved tasks and scheduling their reviews with SM-2
+ */
+
+require('./register');
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { getReviewGrade, scheduleReview } = require('../src/core/taskSystem.ts');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = Date.UTC(2026, 0, 1);
+
+const solved = (help = {}) => ({
+  input: 'npm install lodash',
+  score: 100,
+  grade: 'correct',
+  isCorrect: true,
+  completed: true,
+  hintShown: false,
+  solutionShown: false,
+  timestamp: now,
+  ...help,
+});
+
+test('review grades follow the wrong answers and help a task took', () => {
+  assert.equal(getReviewGrade(0, solved()), 'easy');
+  assert.equal(getReviewGrade(0, solved({ hintShown: true })), 'good');
+  assert.equal(getReviewGrade(1, solved()), 'hard');
+  assert.equal(getReviewGrade(2, solved({ hintShown: true })), 'hard');
+  assert.equal(getReviewGrade(3, solved()), 'again');
+  assert.equal(getReviewGrade(0, solved({ solutionShown: true })), 'again');
+});
+
+test('intervals grow from one day to six days, then by the ease factor', () => {
+  const first = scheduleReview(undefined, 'good', now);
+  assert.deepEqual(first, { ease: 2.5, interval: 1, repetitions: 1, lapses: 0, dueAt: now + DAY_MS });
+
+  const second = scheduleReview(first, 'good', now);
+  assert.equal(second.interval, 6);
+  assert.equal(second.dueAt, now + 6 * DAY_MS);
+
+  const third = scheduleReview(second, 'good', now);
+  assert.equal(third.interval, 15);
+  assert.equal(third.repetitions, 3);
+});
+
+test('easy answers raise the ease and hard answers lower it', () => {
+  const easy = scheduleReview(undefined, 'easy', now);
+  const hard = scheduleReview(undefined, 'hard', now);
+
+  assert.ok(Math.abs(easy.ease - 2.6) < 1e-9);
+  assert.ok(Math.abs(hard.ease - 2.36) < 1e-9);
+  assert.equal(scheduleReview(scheduleReview(easy, 'easy', now), 'easy', now).interval, Math.round(6 * 2.8));
+});
+
+test('a forgotten task is relearned in the same session and starts over', () => {
+  const learned = scheduleReview(scheduleReview(undefined, 'good', now), 'good', now);
+  const forgotten = scheduleReview(learned, 'again', now);
+
+  assert.equal(forgotten.interval, 0);
+  assert.equal(forgotten.repetitions, 0);
+  assert.equal(forgotten.lapses, 1);
+  assert.equal(forgotten.dueAt, now + 10 * 60 * 1000);
+  assert.ok(Math.abs(forgotten.ease - 1.96) < 1e-9);
+  assert.equal(scheduleReview(forgotten, 'good', now).interval, 1);
+});
+
+test('the ease never drops below 1.3', () => {
+  let review;
+  for (let i = 0; i < 10; i++) {
+    review = scheduleReview(review, 'again', now);
+  }
+  assert.equal(review.ease, 1.3);
+});
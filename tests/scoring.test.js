@@ -0,0 +1,53 @@
+/**
+ * Scoring Tests
+ * Partial credit for answers that are close to the expected command
+ */
+
+require('./register');
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { getAnswerGrade, scoreAnswer, scoreGoals } = require('../src/core/scoring.ts');
+const { commandsMatch, parseCommand } = require('../src/core/parser.ts');
+
+const scoreOf = (expected, actual) => scoreAnswer(commandsMatch(parseCommand(expected), parseCommand(actual)).differences);
+
+test('a matching answer scores full marks', () => {
+  assert.deepEqual(scoreOf('npm install lodash --save-dev', 'npm i -D lodash'), { score: 100, grade: 'correct' });
+});
+
+test('each difference takes off its penalty', () => {
+  assert.equal(scoreOf('npm install lodash --save-dev', 'npm install lodash').score, 75); // missing flag
+  assert.equal(scoreOf('npm install lodash', 'npm install lodash --global').score, 85); // extra flag
+  assert.equal(scoreOf('npm install lodash', 'npm install lodash --sav-dev').score, 80); // unknown flag
+  assert.equal(scoreOf('npm ls --depth=1', 'npm ls --depth=2').score, 90); // flag value
+  assert.equal(scoreOf('npm install lodash', 'npm install').score, 75); // missing argument
+  assert.equal(scoreOf('npm install lodash', 'npm install lodash express').score, 85); // extra argument
+  assert.equal(scoreOf('npm install lodash', 'npm install express').score, 80); // wrong argument
+  assert.equal(scoreOf('npm run test -- --watch', 'npm run test').score, 90); // pass-through
+  assert.equal(scoreOf('npm config get registry', 'npm config set registry=x').score, 50); // subcommand
+});
+
+test('penalties add up, but the right command always scores something', () => {
+  assert.equal(scoreOf('npm install lodash --save-dev', 'npm install express').score, 55);
+  assert.equal(scoreOf('npm install lodash --save-dev --save-exact', 'npm install express --global --force').score, 20);
+});
+
+test('a wrong command or an answer that does not parse scores 0', () => {
+  assert.deepEqual(scoreOf('npm install lodash', 'npm uninstall lodash'), { score: 0, grade: 'incorrect' });
+  assert.deepEqual(scoreAnswer(null), { score: 0, grade: 'incorrect' });
+});
+
+test('grades follow the score', () => {
+  assert.equal(getAnswerGrade(100), 'correct');
+  assert.equal(getAnswerGrade(75), 'near-miss');
+  assert.equal(getAnswerGrade(74), 'partial');
+  assert.equal(getAnswerGrade(40), 'partial');
+  assert.equal(getAnswerGrade(39), 'incorrect');
+});
+
+test('outcome answers score by the share of goals met', () => {
+  assert.deepEqual(scoreGoals(1, 2), { score: 50, grade: 'partial' });
+  assert.deepEqual(scoreGoals(2, 2), { score: 100, grade: 'correct' });
+  assert.deepEqual(scoreGoals(0, 0), { score: 100, grade: 'correct' });
+});
@@ -0,0 +1,45 @@
+/**
+ * Task Answer Tests
+ * Tasks accept their alternative answers, their rule-based answers and the forms npm treats as the same
+ */
+
+require('./register');
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { validateTaskCompletion } = require('../src/core/taskSystem.ts');
+const { loadTasks } = require('../src/core/taskLoader.ts');
+const { TASK_DEFINITIONS } = require('../src/core/taskData.ts');
+
+const tasks = loadTasks(TASK_DEFINITIONS);
+const taskByKey = key => tasks.find(task => task.key === key);
+const accepts = (key, input) => validateTaskCompletion(taskByKey(key), input).isCorrect;
+
+test('every config set task accepts "key value" as well as "key=value"', () => {
+  const setTasks = tasks.filter(task => /^npm (config |c )?set .*=/.test(task.expectedCommand));
+  assert.ok(setTasks.length >= 5);
+
+  for (const task of setTasks) {
+    const spaced = task.expectedCommand.replace(/ ([^\s=-][^\s=]*)=(\S+)/g, ' $1 $2');
+    assert.equal(validateTaskCompletion(task, spaced).isCorrect, true, spaced);
+  }
+  assert.equal(accepts('config.set-global-config', 'npm config set prefix /usr/local --global'), true);
+  assert.equal(accepts('config.set-global-config', 'npm config set prefix /opt --global'), false);
+});
+
+test('alternative answers are accepted', () => {
+  assert.equal(accepts('set.remove-config-value', 'npm set registry'), true);
+  assert.equal(accepts('set.remove-config-value', 'npm config delete registry'), true);
+  assert.equal(accepts('set.remove-config-value', 'npm config delete save-exact'), false);
+});
+
+test('rule-based answers accept every flag that means the same', () => {
+  for (const input of ['npm install dayjs --save', 'npm i dayjs -S', 'npm install dayjs --save-prod', 'npm i dayjs -P']) {
+    assert.equal(accepts('install.save-to-dependencies', input), true, input);
+  }
+  assert.equal(accepts('install.save-to-dependencies', 'npm i dayjs -D'), false);
+  assert.equal(accepts('install.save-to-dependencies', 'npm i dayjs'), false);
+
+  assert.equal(accepts('install.install-as-bundled-dependency', 'npm i axios -B'), true);
+  assert.equal(accepts('install.install-as-bundled-dependency', 'npm i axios -B -D'), false);
+});
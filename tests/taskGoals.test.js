@@ -0,0 +1,49 @@
+/**
+ * Task Goals Tests
+ * Outcome tasks are only completed by commands that reach their goals
+ */
+
+require('./register');
+
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { createProjectState, executeCommand, parseCommand } = require('../src/core/index.ts');
+const { getStartingProject, getTaskForStep, validateTaskCompletion } = require('../src/core/taskSystem.ts');
+const { loadTasks } = require('../src/core/taskLoader.ts');
+const { TASK_DEFINITIONS } = require('../src/core/taskData.ts');
+
+const tasks = loadTasks(TASK_DEFINITIONS);
+const outcomeTasks = tasks.filter(task => task.goals);
+
+// A project every other task has already worked on
+const usedProject = () =>
+  ['npm prune', 'npm uninstall express', 'npm install lodash --save-dev', 'npm pkg set scripts.lint="eslint ."'].reduce(
+    (project, command) => executeCommand(project, parseCommand(command)).state,
+    createProjectState()
+  );
+
+test('outcome tasks start from a project that does not meet their goals', () => {
+  assert.ok(outcomeTasks.length > 0);
+  for (const task of outcomeTasks) {
+    const project = getStartingProject(task, 0, usedProject());
+    const result = validateTaskCompletion(task, 'npm help', project);
+    assert.equal(result.isCorrect, false, `${task.key} is completed by npm help`);
+    assert.equal(validateTaskCompletion(task, task.expectedCommand, project).isCorrect, true, task.key);
+  }
+});
+
+test('scenarios keep their project after the first step', () => {
+  const scenario = tasks.find(task => task.steps && task.steps.some(step => step.goals));
+  const project = usedProject();
+
+  assert.notEqual(getStartingProject(scenario, 0, project), project);
+  assert.equal(getStartingProject(scenario, 1, project), project);
+  assert.equal(getStartingProject(getTaskForStep(scenario, 1), 1, project), project);
+});
+
+test('tasks without goals keep the current project', () => {
+  const task = tasks.find(current => !current.goals && !current.steps);
+  const project = usedProject();
+
+  assert.equal(getStartingProject(task, 0, project), project);
+});
@@ -8,9 +8,9 @@ const fs = require('fs');
 const path = require('path');
 const os = require('os');
 
-// Extract commands from taskSystem.ts file by parsing it
+// Extract commands from taskData.ts file by parsing it
 function extractCommandsFromFile() {
-  const taskSystemPath = path.join(__dirname, 'src', 'core', 'taskSystem.ts');
+  const taskSystemPath = path.join(__dirname, 'src', 'core', 'taskData.ts');
   const content = fs.readFileSync(taskSystemPath, 'utf8');
   
   const commands = [];
@@ -21,7 +21,7 @@ function extractCommandsFromFile() {
     commands.push(match[1]);
   }
   
-  console.log(`Found ${commands.length} commands in taskSystem.ts`);
+  console.log(`Found ${commands.length} commands in taskData.ts`);
   return commands;
 }
 